@@ -17,7 +17,10 @@ import { ImageUpload } from '@/components/admin/image-upload';
 import { ContactNumbers } from '@/components/admin/contact-numbers';
 import { Select } from '@/components/admin/select';
 import { Checkbox } from '@/components/admin/checkbox';
-import { College, University, Branch, CollegeFormData } from '@/types/admin';
+import { College, University, Branch, CollegeFormData, PartnerTheme, PartnerFont, StudentBatch } from '@/types/admin';
+import { isHexColor, getPartnerAppName } from '@/lib/partner-theme';
+import { ACADEMIC_YEARS, getAcademicYearForBatch } from '@/lib/academic-year';
+import { getBranchesByUniversity, getStudentBatches, promoteBatch } from '@/services/admin-service';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, addDoc, updateDoc, doc, query, where } from 'firebase/firestore';
 
@@ -32,6 +35,7 @@ export default function CollegesPage() {
   const [modalVisible, setModalVisible] = useState(false);
   const [editingCollege, setEditingCollege] = useState<College | null>(null);
   const [currentStep, setCurrentStep] = useState(1);
+  const [promotingCollege, setPromotingCollege] = useState<College | null>(null);
 
   useEffect(() => {
     loadColleges();
@@ -150,6 +154,12 @@ export default function CollegesPage() {
             variant="secondary"
             size="small"
           />
+          <AdminButton
+            label="Promote Batch"
+            onPress={() => setPromotingCollege(item)}
+            variant="ghost"
+            size="small"
+          />
         </View>
       ),
     },
@@ -223,11 +233,180 @@ export default function CollegesPage() {
             }}
           />
         </AdminModal>
+
+        {/* Promote Batch Modal */}
+        <AdminModal
+          visible={!!promotingCollege}
+          onClose={() => setPromotingCollege(null)}
+          title={promotingCollege ? `Promote Batch – ${promotingCollege.name}` : 'Promote Batch'}
+          size="medium"
+          footer={null}
+        >
+          {promotingCollege && (
+            <PromoteBatchForm college={promotingCollege} onClose={() => setPromotingCollege(null)} />
+          )}
+        </AdminModal>
       </View>
     </ScrollView>
   );
 }
 
+const yearLabel = (year: string | null) =>
+  ACADEMIC_YEARS.find((option) => option.key === year)?.label || 'Year not set';
+
+// Move an admission batch up a year, for the whole college or one branch
+function PromoteBatchForm({ college, onClose }: { college: College; onClose: () => void }) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [batches, setBatches] = useState<StudentBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [branchId, setBranchId] = useState('');
+  const [admissionBatch, setAdmissionBatch] = useState('');
+  const [promoting, setPromoting] = useState(false);
+
+  useEffect(() => {
+    loadBatches(college);
+  }, [college]);
+
+  const loadBatches = async (target: College) => {
+    try {
+      setLoading(true);
+      const [universityBranches, studentBatches] = await Promise.all([
+        getBranchesByUniversity(target.university_id),
+        getStudentBatches(target.id),
+      ]);
+      setBranches(universityBranches.filter((branch) => target.offered_branches?.includes(branch.id)));
+      setBatches(studentBatches);
+    } catch (error) {
+      console.error('Error loading student batches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // One option per admission batch, summed over the selected branch (or all branches)
+  const batchOptions = Array.from(
+    batches
+      .filter((batch) => !branchId || batch.branch_id === branchId)
+      .reduce((byBatch, batch) => {
+        const existing = byBatch.get(batch.admission_batch);
+        byBatch.set(batch.admission_batch, {
+          year: existing?.year ?? batch.year,
+          count: (existing?.count || 0) + batch.student_count,
+        });
+        return byBatch;
+      }, new Map<number, { year: string | null; count: number }>())
+      .entries()
+  ).sort((a, b) => b[0] - a[0]);
+
+  const selected = batchOptions.find(([batch]) => String(batch) === admissionBatch)?.[1];
+  const targetYear = admissionBatch ? getAcademicYearForBatch(Number(admissionBatch)) : null;
+
+  const handlePromote = async () => {
+    if (!admissionBatch) return;
+    setPromoting(true);
+    try {
+      const result = await promoteBatch(college.id, Number(admissionBatch), branchId || undefined);
+      Alert.alert(
+        'Batch Promoted',
+        `${result.promoted} students moved up to ${yearLabel(targetYear)}.` +
+          (result.finalYear > 0 ? ` ${result.finalYear} already in their final year were left unchanged.` : '')
+      );
+      setAdmissionBatch('');
+      loadBatches(college);
+    } catch (error) {
+      console.error('Error promoting batch:', error);
+      Alert.alert('Error', 'Failed to promote batch. Please try again.');
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  return (
+    <View style={styles.stepView}>
+      <Text style={[styles.stepDescription, { color: colors.textSecondary }]}>
+        Moves every student admitted in the selected batch up to the year that batch is in this academic
+        year. Running it again changes nothing.
+      </Text>
+      {loading ? (
+        <Text style={{ color: colors.textSecondary }}>Loading...</Text>
+      ) : (
+        <>
+          <Select
+            label="Branch"
+            value={branchId}
+            options={[
+              { label: 'All branches', value: '' },
+              ...branches.map((branch) => ({ label: `${branch.code} - ${branch.name}`, value: branch.id })),
+            ]}
+            onChange={(value) => {
+              setBranchId(value);
+              setAdmissionBatch('');
+            }}
+          />
+          {batchOptions.length === 0 ? (
+            <View style={[styles.emptyCourses, { backgroundColor: colors.surfaceElevated }]}>
+              <Text style={[styles.emptyCoursesText, { color: colors.textTertiary }]}>
+                No students with an admission batch yet. Students set it at sign up or in their account.
+              </Text>
+            </View>
+          ) : (
+            <Select
+              label="Admission Batch"
+              value={admissionBatch}
+              options={batchOptions.map(([batch, { year, count }]) => ({
+                label: `${batch} · ${yearLabel(year)} · ${count} ${count === 1 ? 'student' : 'students'}`,
+                value: String(batch),
+              }))}
+              onChange={setAdmissionBatch}
+              placeholder="Select a batch"
+            />
+          )}
+          {selected && (
+            <Text style={[styles.stepDescription, { color: colors.textSecondary }]}>
+              {!targetYear
+                ? 'This batch has not started its first year yet.'
+                : selected.year === targetYear
+                  ? `This batch is already in ${yearLabel(targetYear)}. Only students behind it will move.`
+                  : `${selected.count} students will move from ${yearLabel(selected.year)} to ${yearLabel(targetYear)}.`}
+            </Text>
+          )}
+        </>
+      )}
+      <View style={styles.formFooter}>
+        <AdminButton label="Close" onPress={onClose} variant="ghost" disabled={promoting} />
+        <AdminButton
+          label={promoting ? 'Promoting...' : 'Promote to Current Year'}
+          onPress={handlePromote}
+          variant="primary"
+          loading={promoting}
+          disabled={!admissionBatch || !targetYear || promoting}
+        />
+      </View>
+    </View>
+  );
+}
+
+const THEME_COLOR_FIELDS: {
+  key: 'primary_color' | 'accent_color' | 'dark_primary_color' | 'dark_accent_color';
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: 'primary_color', label: 'Primary Color', placeholder: '#29B6F6' },
+  { key: 'accent_color', label: 'Accent Color', placeholder: '#F44336' },
+  { key: 'dark_primary_color', label: 'Primary Color (Dark Mode)', placeholder: 'Same as primary' },
+  { key: 'dark_accent_color', label: 'Accent Color (Dark Mode)', placeholder: 'Same as accent' },
+];
+
+const FONT_OPTIONS: { label: string; value: PartnerFont | '' }[] = [
+  { label: 'Default', value: '' },
+  { label: 'Sans Serif', value: 'sans' },
+  { label: 'Serif', value: 'serif' },
+  { label: 'Rounded', value: 'rounded' },
+  { label: 'Monospace', value: 'mono' },
+];
+
 // College Form with Stepper
 function CollegeForm({
   college,
@@ -260,6 +439,7 @@ function CollegeForm({
     offered_branches: college?.offered_branches || [],
     is_partnered: college?.is_partnered || false,
   });
+  const [theme, setTheme] = useState<PartnerTheme>(college?.theme || {});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
 
@@ -267,6 +447,7 @@ function CollegeForm({
     { label: 'Select University', description: 'Choose the parent university' },
     { label: 'College Details', description: 'Enter college information' },
     { label: 'Select Branches', description: 'Choose offered branches (CSE, ECE, etc.)' },
+    { label: 'Partner Theme', description: 'Brand colors, font and images for white-label mode' },
   ];
 
   // Load branches when university is selected
@@ -309,6 +490,13 @@ function CollegeForm({
       if (!formData.chairman_name.trim()) {
         newErrors.chairman_name = 'Chairman name is required';
       }
+    } else if (step === 4) {
+      THEME_COLOR_FIELDS.forEach(({ key }) => {
+        const value = theme[key]?.trim();
+        if (value && !isHexColor(value)) {
+          newErrors[key] = 'Use a hex color like #1E88E5';
+        }
+      });
     }
 
     setErrors(newErrors);
@@ -317,18 +505,25 @@ function CollegeForm({
 
   const handleNext = () => {
     if (validateStep(currentStep)) {
-      onStepChange(Math.min(currentStep + 1, 3));
+      onStepChange(Math.min(currentStep + 1, steps.length));
     }
   };
 
   const handleSave = async () => {
-    if (!validateStep(3)) {
+    if (!validateStep(4)) {
       return;
     }
 
+    // Only keep theme fields that were filled in
+    const cleanedTheme = Object.fromEntries(
+      Object.entries(theme)
+        .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+        .filter(([, value]) => !!value)
+    ) as PartnerTheme;
+
     setSaving(true);
     try {
-      await onSave(formData);
+      await onSave({ ...formData, theme: cleanedTheme });
     } catch (error) {
       console.error('Error saving college:', error);
       Alert.alert('Error', 'Failed to save college. Please try again.');
@@ -337,6 +532,11 @@ function CollegeForm({
     }
   };
 
+  const updateTheme = (key: keyof PartnerTheme, value: string) => {
+    setTheme({ ...theme, [key]: value });
+    if (errors[key]) setErrors({ ...errors, [key]: '' });
+  };
+
   const toggleBranch = (branchId: string) => {
     const current = formData.offered_branches;
     if (current.includes(branchId)) {
@@ -456,6 +656,65 @@ function CollegeForm({
             )}
           </View>
         )}
+
+        {currentStep === 4 && (
+          <View style={styles.stepView}>
+            <Text style={[styles.stepTitle, { color: colors.text }]}>Partner Theme</Text>
+            <Text style={[styles.stepDescription, { color: colors.textSecondary }]}>
+              {formData.is_partnered
+                ? 'Optional. Students of this college see these instead of the Cohort Launchpad brand. Leave a field empty to keep the default.'
+                : 'Optional. Applied once this college is partnered. Leave a field empty to keep the default.'}
+            </Text>
+            <FormInput
+              label="App Name"
+              value={theme.app_name || ''}
+              onChangeText={(text) => updateTheme('app_name', text)}
+              placeholder={getPartnerAppName({ name: formData.name || 'College' })}
+            />
+            {THEME_COLOR_FIELDS.map(({ key, label, placeholder }) => {
+              const value = theme[key] || '';
+              return (
+                <View key={key} style={styles.colorRow}>
+                  <View style={styles.colorInput}>
+                    <FormInput
+                      label={label}
+                      value={value}
+                      onChangeText={(text) => updateTheme(key, text)}
+                      placeholder={placeholder}
+                      autoCapitalize="none"
+                      error={errors[key]}
+                    />
+                  </View>
+                  <View
+                    style={[
+                      styles.colorSwatch,
+                      {
+                        backgroundColor: isHexColor(value) ? value.trim() : 'transparent',
+                        borderColor: colors.border,
+                      },
+                    ]}
+                  />
+                </View>
+              );
+            })}
+            <Select
+              label="Font"
+              value={theme.font || ''}
+              options={FONT_OPTIONS}
+              onChange={(value) => setTheme({ ...theme, font: (value || undefined) as PartnerFont | undefined })}
+            />
+            <ImageUpload
+              label="Favicon (web)"
+              value={theme.favicon}
+              onChange={(uri) => updateTheme('favicon', uri)}
+            />
+            <ImageUpload
+              label="Splash Image"
+              value={theme.splash_image}
+              onChange={(uri) => updateTheme('splash_image', uri)}
+            />
+          </View>
+        )}
       </View>
 
       {/* Footer Navigation */}
@@ -475,7 +734,7 @@ function CollegeForm({
               disabled={saving}
             />
           )}
-          {currentStep < 3 ? (
+          {currentStep < steps.length ? (
             <AdminButton
               label="Next →"
               onPress={handleNext}
@@ -626,6 +885,20 @@ const styles = StyleSheet.create({
     borderRadius: Radius.md,
     alignItems: 'center',
   },
+  colorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  colorInput: {
+    flex: 1,
+  },
+  colorSwatch: {
+    width: 40,
+    height: 40,
+    borderRadius: Radius.sm,
+    borderWidth: 1,
+  },
   emptyCoursesText: {
     ...Typography.bodySmall,
     textAlign: 'center',
@@ -0,0 +1,319 @@
+/**
+ * 📝 Course Reviews
+ * Approve or reject courses tutors have submitted for publishing
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Colors, Typography, Spacing } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/contexts/auth-context';
+import { DataTable, Column } from '@/components/admin/data-table';
+import { AdminButton } from '@/components/admin/button';
+import { AdminModal } from '@/components/admin/modal';
+import { FormInput } from '@/components/admin/form-input';
+import { getCoursesByStatus, reviewCourse } from '@/services/course-service';
+import { Course } from '@/types/course';
+
+export default function CourseReviewsPage() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [previewCourse, setPreviewCourse] = useState<Course | null>(null);
+  const [rejectingCourse, setRejectingCourse] = useState<Course | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCourses();
+  }, []);
+
+  const loadCourses = async () => {
+    try {
+      setLoading(true);
+      setCourses(await getCoursesByStatus('in_review'));
+    } catch (error) {
+      console.error('Error loading courses for review:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (course: Course) => {
+    if (!userProfile) return;
+    setApprovingId(course.id);
+    try {
+      await reviewCourse(course.id, userProfile.uid, 'approve');
+      setPreviewCourse(null);
+      loadCourses();
+    } catch (error) {
+      console.error('Error approving course:', error);
+      Alert.alert('Error', 'Failed to approve course. Please try again.');
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const columns: Column<Course>[] = [
+    {
+      key: 'title',
+      label: 'Course',
+      render: (item) => (
+        <View>
+          <Text style={[styles.courseTitle, { color: colors.text }]} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={{ color: colors.textSecondary, ...Typography.caption }}>
+            {item.category || 'Uncategorized'} • {item.totalTopics} topics
+          </Text>
+        </View>
+      ),
+    },
+    {
+      key: 'trainerName',
+      label: 'Tutor',
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>{item.trainerName}</Text>
+      ),
+    },
+    {
+      key: 'submittedAt',
+      label: 'Submitted',
+      width: 140,
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {new Date(item.submittedAt || item.createdAt).toLocaleDateString()}
+        </Text>
+      ),
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      width: 300,
+      render: (item) => (
+        <View style={styles.actions}>
+          <AdminButton label="Preview" onPress={() => setPreviewCourse(item)} variant="secondary" size="small" />
+          <AdminButton
+            label="Approve"
+            onPress={() => handleApprove(item)}
+            variant="primary"
+            size="small"
+            loading={approvingId === item.id}
+          />
+          <AdminButton label="Reject" onPress={() => setRejectingCourse(item)} variant="danger" size="small" />
+        </View>
+      ),
+    },
+  ];
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.content}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View>
+            <Text style={[styles.title, { color: colors.text }]}>Course Reviews</Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              Courses become visible to students once approved
+            </Text>
+          </View>
+        </View>
+
+        {/* Table */}
+        {loading ? (
+          <Text style={{ color: colors.textSecondary }}>Loading...</Text>
+        ) : (
+          <DataTable data={courses} columns={columns} emptyMessage="No courses are waiting for review." />
+        )}
+
+        {/* Preview Modal */}
+        <AdminModal
+          visible={!!previewCourse}
+          onClose={() => setPreviewCourse(null)}
+          title={previewCourse?.title || 'Preview'}
+          footer={
+            previewCourse ? (
+              <View style={styles.actions}>
+                <AdminButton
+                  label="Reject"
+                  onPress={() => {
+                    setRejectingCourse(previewCourse);
+                    setPreviewCourse(null);
+                  }}
+                  variant="danger"
+                />
+                <AdminButton
+                  label="Approve"
+                  onPress={() => handleApprove(previewCourse)}
+                  variant="primary"
+                  loading={approvingId === previewCourse.id}
+                />
+              </View>
+            ) : null
+          }
+        >
+          {previewCourse && <CoursePreview course={previewCourse} />}
+        </AdminModal>
+
+        {/* Reject Modal */}
+        <AdminModal
+          visible={!!rejectingCourse}
+          onClose={() => setRejectingCourse(null)}
+          title="Request Changes"
+          footer={null}
+        >
+          {rejectingCourse && (
+            <RejectForm
+              course={rejectingCourse}
+              onSubmit={async (comment) => {
+                if (!userProfile) return;
+                await reviewCourse(rejectingCourse.id, userProfile.uid, 'reject', comment);
+                setRejectingCourse(null);
+                loadCourses();
+              }}
+            />
+          )}
+        </AdminModal>
+      </View>
+    </ScrollView>
+  );
+}
+
+// Course Preview Component
+function CoursePreview({ course }: { course: Course }) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+
+  return (
+    <View style={styles.form}>
+      <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+        By {course.trainerName} • {course.language || 'English'} • {Math.round(course.totalDuration / 60)} hours
+      </Text>
+      <Text style={{ color: colors.text, ...Typography.body }}>{course.description}</Text>
+
+      {course.outcomes && course.outcomes.length > 0 && (
+        <View>
+          <Text style={[styles.previewHeading, { color: colors.text }]}>Outcomes</Text>
+          {course.outcomes.map((outcome, index) => (
+            <Text key={index} style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+              • {outcome}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <View>
+        <Text style={[styles.previewHeading, { color: colors.text }]}>Topics</Text>
+        {course.topics.map((topic, index) => (
+          <Text key={topic.id || index} style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+            {index + 1}. {topic.title} ({topic.videoDuration} min)
+            {topic.quiz ? ' • Quiz' : ''}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+// Reject Form Component
+function RejectForm({
+  course,
+  onSubmit,
+}: {
+  course: Course;
+  onSubmit: (comment: string) => Promise<void>;
+}) {
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!comment.trim()) {
+      setError('Tell the tutor what needs to change');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(comment.trim());
+    } catch (error) {
+      console.error('Error rejecting course:', error);
+      Alert.alert('Error', 'Failed to reject course. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.form}>
+      <FormInput
+        label={`Feedback for ${course.trainerName}`}
+        value={comment}
+        onChangeText={(text) => {
+          setComment(text);
+          if (error) setError('');
+        }}
+        placeholder="e.g. Topic 3 is missing its video"
+        multiline
+        required
+        error={error}
+      />
+
+      <View style={styles.formActions}>
+        <AdminButton
+          label={saving ? 'Sending...' : 'Send Back to Draft'}
+          onPress={handleSubmit}
+          variant="danger"
+          loading={saving}
+          fullWidth
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.xl,
+    maxWidth: 1400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.xl,
+    gap: Spacing.lg,
+  },
+  title: {
+    ...Typography.h1,
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    ...Typography.body,
+  },
+  courseTitle: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  previewHeading: {
+    ...Typography.h3,
+    marginBottom: Spacing.xs,
+  },
+  form: {
+    gap: Spacing.lg,
+  },
+  formActions: {
+    marginTop: Spacing.lg,
+  },
+});
@@ -1,16 +1,24 @@
 /**
  * 🏠 Admin Dashboard
- * Overview of platform statistics
+ * Overview of platform statistics and learner engagement
  */
 
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
 import { Colors, Typography, Spacing, Radius } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { AdminButton } from '@/components/admin/button';
+import { DataTable, Column } from '@/components/admin/data-table';
+import { BarChart } from '@/components/admin/bar-chart';
+import { RangeSelector } from '@/components/admin/range-selector';
+import { EngagementTable } from '@/components/admin/engagement-table';
 import { useRouter } from 'expo-router';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where } from 'firebase/firestore';
+import { RangePreset, toRange } from '@/lib/date-range';
+import { getPlatformAnalytics } from '@/services/analytics-service';
+import { countCoursesNeedingBackfill, rebuildCourseStats } from '@/services/course-service';
+import { CourseRanking, PlatformAnalytics, TutorActivity } from '@/types/analytics';
 
 export default function AdminDashboard() {
   const colorScheme = useColorScheme();
@@ -23,11 +31,32 @@ export default function AdminDashboard() {
     partneredColleges: 0,
     branches: 0,
   });
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30d');
+  const [activityPeriod, setActivityPeriod] = useState<'day' | 'week'>('day');
+  const [analytics, setAnalytics] = useState<PlatformAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
 
   useEffect(() => {
     loadStats();
+    backfillLegacyCourses();
   }, []);
 
+  useEffect(() => {
+    loadAnalytics(rangePreset);
+  }, [rangePreset]);
+
+  const loadAnalytics = async (preset: RangePreset) => {
+    try {
+      setAnalyticsLoading(true);
+      setAnalytics(await getPlatformAnalytics(toRange(preset)));
+    } catch (error) {
+      console.error('Error loading platform analytics:', error);
+    } finally {
+      setAnalyticsLoading(false);
+    }
+  };
+
   const loadStats = async () => {
     try {
       setLoading(true);
@@ -62,6 +91,33 @@ export default function AdminDashboard() {
     }
   };
 
+  // Courses from before status, duration buckets and counters existed are left out of paged
+  // course lists until they're backfilled, so do it as soon as an admin opens the dashboard
+  const backfillLegacyCourses = async () => {
+    try {
+      if ((await countCoursesNeedingBackfill()) === 0) return;
+      setRebuilding(true);
+      await rebuildCourseStats();
+    } catch (error) {
+      console.error('Error backfilling courses:', error);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const handleRebuildStats = async () => {
+    setRebuilding(true);
+    try {
+      const updated = await rebuildCourseStats();
+      Alert.alert('Course Stats Rebuilt', `Recounted enrollments and ratings for ${updated} courses.`);
+    } catch (error) {
+      console.error('Error rebuilding course stats:', error);
+      Alert.alert('Error', 'Failed to rebuild course stats. Please try again.');
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
   const statsData = [
     { label: 'Total Universities', value: stats.universities.toString(), icon: '🏛' },
     { label: 'Total Colleges', value: stats.colleges.toString(), icon: '🎓' },
@@ -69,6 +125,97 @@ export default function AdminDashboard() {
     { label: 'Total Branches', value: stats.branches.toString(), icon: '📚' },
   ];
 
+  const engagementData = analytics
+    ? [
+        { label: 'Active Today', value: analytics.activeToday.toLocaleString(), icon: '🟢' },
+        { label: 'Active This Week', value: analytics.activeThisWeek.toLocaleString(), icon: '📅' },
+        { label: 'Enrollments', value: analytics.totalEnrollments.toLocaleString(), icon: '📝' },
+        { label: 'Completions', value: analytics.totalCompletions.toLocaleString(), icon: '🏁' },
+      ]
+    : [];
+
+  const activeLearners = analytics
+    ? (activityPeriod === 'day' ? analytics.activeLearnersByDay : analytics.activeLearnersByWeek).map(
+        (entry) => ({ label: entry.date, value: entry.count })
+      )
+    : [];
+
+  const courseColumns = (metric: 'enrollments' | 'rating'): Column<CourseRanking>[] => [
+    {
+      key: 'title',
+      label: 'Course',
+      render: (item) => (
+        <View>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={{ color: colors.textSecondary, ...Typography.caption }}>{item.trainerName}</Text>
+        </View>
+      ),
+    },
+    metric === 'enrollments'
+      ? {
+          key: 'enrollments',
+          label: 'Enrollments',
+          width: 130,
+          render: (item) => (
+            <Text style={{ color: colors.text, ...Typography.body }}>{item.enrollments.toLocaleString()}</Text>
+          ),
+        }
+      : {
+          key: 'averageRating',
+          label: 'Rating',
+          width: 130,
+          render: (item) => (
+            <Text style={{ color: colors.text, ...Typography.body }}>
+              ⭐ {item.averageRating.toFixed(1)}{' '}
+              <Text style={{ color: colors.textSecondary, ...Typography.caption }}>({item.ratingCount})</Text>
+            </Text>
+          ),
+        },
+  ];
+
+  const tutorColumns: Column<TutorActivity>[] = [
+    {
+      key: 'name',
+      label: 'Tutor',
+      render: (item) => (
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+          {item.name}
+        </Text>
+      ),
+    },
+    {
+      key: 'courses',
+      label: 'Courses',
+      width: 140,
+      render: (item) => (
+        <Text style={{ color: colors.text, ...Typography.body }}>
+          {item.publishedCourses}{' '}
+          <Text style={{ color: colors.textSecondary, ...Typography.caption }}>of {item.courses} live</Text>
+        </Text>
+      ),
+    },
+    {
+      key: 'enrollments',
+      label: 'Enrollments',
+      width: 130,
+      render: (item) => (
+        <Text style={{ color: colors.text, ...Typography.body }}>{item.enrollments.toLocaleString()}</Text>
+      ),
+    },
+    {
+      key: 'lastUpdatedAt',
+      label: 'Last Course Edit',
+      width: 160,
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {item.lastUpdatedAt ? new Date(item.lastUpdatedAt).toLocaleDateString() : 'Never'}
+        </Text>
+      ),
+    },
+  ];
+
   return (
     <ScrollView style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={styles.content}>
@@ -99,6 +246,95 @@ export default function AdminDashboard() {
           ))}
         </View>
 
+        {/* Engagement */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Engagement</Text>
+            <RangeSelector value={rangePreset} onChange={setRangePreset} />
+          </View>
+
+          {analyticsLoading || !analytics ? (
+            <Text style={{ color: colors.textSecondary }}>
+              {analyticsLoading ? 'Loading...' : 'Engagement data is unavailable right now.'}
+            </Text>
+          ) : (
+            <>
+              <View style={styles.statsGrid}>
+                {engagementData.map((stat, index) => (
+                  <View
+                    key={index}
+                    style={[
+                      styles.statCard,
+                      { backgroundColor: colors.surface, borderColor: colors.border },
+                    ]}
+                  >
+                    <Text style={styles.statIcon}>{stat.icon}</Text>
+                    <Text style={[styles.statValue, { color: colors.text }]}>{stat.value}</Text>
+                    <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                      {stat.label}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={styles.subsection}>
+                <View style={styles.sectionHeader}>
+                  <Text style={[styles.subsectionTitle, { color: colors.text }]}>Active Learners</Text>
+                  <View style={styles.toggle}>
+                    <AdminButton
+                      label="Daily"
+                      onPress={() => setActivityPeriod('day')}
+                      variant={activityPeriod === 'day' ? 'primary' : 'secondary'}
+                      size="small"
+                    />
+                    <AdminButton
+                      label="Weekly"
+                      onPress={() => setActivityPeriod('week')}
+                      variant={activityPeriod === 'week' ? 'primary' : 'secondary'}
+                      size="small"
+                    />
+                  </View>
+                </View>
+                <BarChart data={activeLearners} emptyMessage="No learner activity in this period" />
+              </View>
+
+              <View style={styles.subsection}>
+                <Text style={[styles.subsectionTitle, { color: colors.text }]}>By University</Text>
+                <EngagementTable
+                  data={analytics.byUniversity}
+                  nameLabel="University"
+                  emptyMessage="No universities found."
+                  onView={(item) => router.push(`/(admin)/universities/${item.id}`)}
+                />
+              </View>
+
+              <View style={styles.rankings}>
+                <View style={[styles.subsection, styles.ranking]}>
+                  <Text style={[styles.subsectionTitle, { color: colors.text }]}>Top Courses by Enrollment</Text>
+                  <DataTable
+                    data={analytics.topCoursesByEnrollment}
+                    columns={courseColumns('enrollments')}
+                    emptyMessage="No enrollments in this period."
+                  />
+                </View>
+                <View style={[styles.subsection, styles.ranking]}>
+                  <Text style={[styles.subsectionTitle, { color: colors.text }]}>Top Courses by Rating</Text>
+                  <DataTable
+                    data={analytics.topCoursesByRating}
+                    columns={courseColumns('rating')}
+                    emptyMessage="No ratings in this period."
+                  />
+                </View>
+              </View>
+
+              <View style={styles.subsection}>
+                <Text style={[styles.subsectionTitle, { color: colors.text }]}>Tutor Activity</Text>
+                <DataTable data={analytics.tutors} columns={tutorColumns} emptyMessage="No tutors yet." />
+              </View>
+            </>
+          )}
+        </View>
+
         {/* Quick Actions */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Quick Actions</Text>
@@ -127,6 +363,13 @@ export default function AdminDashboard() {
               variant="secondary"
               fullWidth
             />
+            <AdminButton
+              label={rebuilding ? 'Rebuilding...' : 'Rebuild Course Stats'}
+              onPress={handleRebuildStats}
+              variant="secondary"
+              loading={rebuilding}
+              fullWidth
+            />
           </View>
         </View>
       </View>
@@ -187,6 +430,37 @@ const styles = StyleSheet.create({
     ...Typography.h2,
     marginBottom: Spacing.lg,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: Spacing.md,
+  },
+  subsection: {
+    marginBottom: Spacing.xl,
+  },
+  subsectionTitle: {
+    ...Typography.h3,
+    marginBottom: Spacing.md,
+  },
+  toggle: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  rankings: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.lg,
+  },
+  ranking: {
+    flex: 1,
+    minWidth: 320,
+  },
+  rowTitle: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
   actionsGrid: {
     gap: Spacing.md,
   },
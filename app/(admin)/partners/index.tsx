@@ -11,6 +11,7 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { DataTable, Column } from '@/components/admin/data-table';
 import { AdminButton } from '@/components/admin/button';
 import { usePartner } from '@/contexts/partner-context';
+import { getPartnerLinkUrl } from '@/services/admin-service';
 import { College, University, Branch } from '@/types/admin';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, updateDoc, doc, query, where } from 'firebase/firestore';
@@ -169,6 +170,15 @@ export default function PartnersPage() {
         );
       },
     },
+    {
+      key: 'partner_link',
+      label: 'Partner Link',
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.caption }} selectable numberOfLines={1}>
+          {item.is_partnered ? getPartnerLinkUrl(item.id) : '—'}
+        </Text>
+      ),
+    },
     {
       key: 'actions',
       label: 'Actions',
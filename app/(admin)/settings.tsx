@@ -1,17 +1,208 @@
 /**
  * ⚙️ Admin Settings
- * Platform configuration and settings
+ * Platform configuration, admin accounts and invitations
  */
 
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import { Colors, Typography, Spacing } from '@/constants/theme';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Colors, Typography, Spacing, Radius } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/contexts/auth-context';
 import { AdminButton } from '@/components/admin/button';
+import { DataTable, Column } from '@/components/admin/data-table';
+import { FormInput } from '@/components/admin/form-input';
+import {
+  createAdminInvite,
+  getAdminInvites,
+  getAdminUsers,
+  removeAdminRole,
+  revokeAdminInvite,
+} from '@/services/admin-service';
+import { AdminInvite, AdminUser } from '@/types/admin';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export default function SettingsPage() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteError, setInviteError] = useState('');
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    loadAdminData();
+  }, []);
+
+  const loadAdminData = async () => {
+    try {
+      setLoading(true);
+      const [adminData, inviteData] = await Promise.all([
+        getAdminUsers(),
+        getAdminInvites(),
+      ]);
+      setAdmins(adminData);
+      setInvites(inviteData);
+    } catch (error) {
+      console.error('Error loading admin accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!userProfile) return;
+
+    const email = inviteEmail.trim();
+    if (!EMAIL_PATTERN.test(email)) {
+      setInviteError('Enter a valid email address');
+      return;
+    }
+
+    const existingInvite = invites.find(
+      (invite) => invite.id === email.toLowerCase() && invite.status === 'pending'
+    );
+    if (existingInvite) {
+      setInviteError('An invitation is already pending for this email');
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const invite = await createAdminInvite(email, {
+        uid: userProfile.uid,
+        displayName: userProfile.displayName,
+      });
+      setInviteEmail('');
+      Alert.alert(
+        invite.status === 'accepted' ? 'Admin Added' : 'Invitation Created',
+        invite.status === 'accepted'
+          ? `${invite.email} already had an account and now has admin access.`
+          : `${invite.email} will get admin access when they sign up with this email.`
+      );
+      loadAdminData();
+    } catch (error) {
+      console.error('Error inviting admin:', error);
+      Alert.alert('Error', 'Failed to create invitation. Please try again.');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: AdminInvite) => {
+    try {
+      await revokeAdminInvite(invite.id);
+      loadAdminData();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      Alert.alert('Error', 'Failed to revoke invitation. Please try again.');
+    }
+  };
+
+  const handleRemoveAdmin = async (admin: AdminUser) => {
+    try {
+      await removeAdminRole(admin.id);
+      loadAdminData();
+    } catch (error) {
+      console.error('Error removing admin:', error);
+      Alert.alert('Error', 'Failed to remove admin access. Please try again.');
+    }
+  };
+
+  const adminColumns: Column<AdminUser>[] = [
+    {
+      key: 'displayName',
+      label: 'Name',
+      render: (item) => (
+        <Text style={{ color: colors.text, ...Typography.body }}>
+          {item.displayName || '—'}
+          {item.id === userProfile?.uid ? ' (you)' : ''}
+        </Text>
+      ),
+    },
+    {
+      key: 'email',
+      label: 'Email',
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {item.email || '—'}
+        </Text>
+      ),
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      width: 160,
+      render: (item) =>
+        item.id === userProfile?.uid ? null : (
+          <AdminButton
+            label="Remove"
+            onPress={() => handleRemoveAdmin(item)}
+            variant="danger"
+            size="small"
+          />
+        ),
+    },
+  ];
+
+  const inviteColumns: Column<AdminInvite>[] = [
+    {
+      key: 'email',
+      label: 'Email',
+      render: (item) => (
+        <Text style={{ color: colors.text, ...Typography.body }}>{item.email}</Text>
+      ),
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      width: 140,
+      render: (item) => (
+        <View
+          style={[
+            styles.statusBadge,
+            {
+              backgroundColor:
+                item.status === 'pending'
+                  ? colors.warning
+                  : item.status === 'accepted'
+                    ? colors.success
+                    : colors.surfaceElevated,
+            },
+          ]}
+        >
+          <Text style={styles.statusText}>{item.status}</Text>
+        </View>
+      ),
+    },
+    {
+      key: 'invited_by_name',
+      label: 'Invited By',
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {item.invited_by_name || item.invited_by}
+        </Text>
+      ),
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      width: 160,
+      render: (item) =>
+        item.status === 'pending' ? (
+          <AdminButton
+            label="Revoke"
+            onPress={() => handleRevokeInvite(item)}
+            variant="secondary"
+            size="small"
+          />
+        ) : null,
+    },
+  ];
 
   return (
     <ScrollView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -21,11 +212,64 @@ export default function SettingsPage() {
           Platform configuration and preferences
         </Text>
 
+        {/* Invite Admin */}
         <View style={styles.section}>
-          <Text style={[styles.sectionTitle, { color: colors.text }]}>Coming Soon</Text>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Invite Admin</Text>
           <Text style={[styles.sectionText, { color: colors.textSecondary }]}>
-            Settings page for platform configuration, user management, and system preferences.
+            Invited users get admin access when they sign up with this email. Existing accounts are
+            promoted immediately.
           </Text>
+          <View style={styles.inviteRow}>
+            <View style={styles.inviteInput}>
+              <FormInput
+                label="Email"
+                value={inviteEmail}
+                onChangeText={(text) => {
+                  setInviteEmail(text);
+                  if (inviteError) setInviteError('');
+                }}
+                placeholder="name@example.com"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                error={inviteError}
+                required
+              />
+            </View>
+            <AdminButton
+              label={inviting ? 'Inviting...' : 'Send Invite'}
+              onPress={handleInvite}
+              variant="primary"
+              loading={inviting}
+            />
+          </View>
+        </View>
+
+        {/* Admin Accounts */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Admin Accounts</Text>
+          {loading ? (
+            <Text style={{ color: colors.textSecondary }}>Loading...</Text>
+          ) : (
+            <DataTable
+              data={admins}
+              columns={adminColumns}
+              emptyMessage="No admin accounts found."
+            />
+          )}
+        </View>
+
+        {/* Invitations */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Invitations</Text>
+          {loading ? (
+            <Text style={{ color: colors.textSecondary }}>Loading...</Text>
+          ) : (
+            <DataTable
+              data={invites}
+              columns={inviteColumns}
+              emptyMessage="No invitations sent yet."
+            />
+          )}
         </View>
       </View>
     </ScrollView>
@@ -59,6 +303,28 @@ const styles = StyleSheet.create({
   },
   sectionText: {
     ...Typography.body,
+    marginBottom: Spacing.md,
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: Spacing.md,
+    flexWrap: 'wrap',
+  },
+  inviteInput: {
+    flex: 1,
+    minWidth: 260,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.sm,
+  },
+  statusText: {
+    ...Typography.caption,
+    color: '#001018',
+    fontWeight: '600',
+    textTransform: 'capitalize',
   },
 });
-
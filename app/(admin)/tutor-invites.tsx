@@ -0,0 +1,356 @@
+/**
+ * 🔑 Tutor Invites
+ * Issue, track, and revoke tutor invite codes
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Colors, Typography, Spacing, Radius } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/contexts/auth-context';
+import { DataTable, Column } from '@/components/admin/data-table';
+import { AdminButton } from '@/components/admin/button';
+import { AdminModal } from '@/components/admin/modal';
+import { FormInput } from '@/components/admin/form-input';
+import { Select } from '@/components/admin/select';
+import { getUniversities } from '@/services/admin-service';
+import {
+  createTutorInviteCode,
+  getTutorInviteCodes,
+  getTutorInviteError,
+  revokeTutorInviteCode,
+} from '@/services/tutor-invite-service';
+import { TutorInviteCode, TutorInviteCodeFormData, University } from '@/types/admin';
+
+export default function TutorInvitesPage() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [codes, setCodes] = useState<TutorInviteCode[]>([]);
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+
+  useEffect(() => {
+    loadCodes();
+    loadUniversities();
+  }, []);
+
+  const loadCodes = async () => {
+    try {
+      setLoading(true);
+      setCodes(await getTutorInviteCodes());
+    } catch (error) {
+      console.error('Error loading tutor invite codes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadUniversities = async () => {
+    try {
+      setUniversities(await getUniversities());
+    } catch (error) {
+      console.error('Error loading universities:', error);
+    }
+  };
+
+  const handleRevoke = async (code: TutorInviteCode) => {
+    try {
+      await revokeTutorInviteCode(code.id);
+      loadCodes();
+    } catch (error) {
+      console.error('Error revoking tutor invite code:', error);
+      Alert.alert('Error', 'Failed to revoke code. Please try again.');
+    }
+  };
+
+  const getStatusLabel = (code: TutorInviteCode): string => {
+    if (code.status === 'revoked') return 'Revoked';
+    if (code.expires_at && new Date(code.expires_at).getTime() <= Date.now()) return 'Expired';
+    if (code.use_count >= code.max_uses) return 'Used up';
+    return 'Active';
+  };
+
+  const columns: Column<TutorInviteCode>[] = [
+    {
+      key: 'code',
+      label: 'Code',
+      render: (item) => (
+        <Text selectable style={[styles.codeText, { color: colors.text }]}>
+          {item.code}
+        </Text>
+      ),
+    },
+    {
+      key: 'use_count',
+      label: 'Uses',
+      width: 100,
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {item.use_count} / {item.max_uses}
+        </Text>
+      ),
+    },
+    {
+      key: 'expires_at',
+      label: 'Expires',
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {item.expires_at ? new Date(item.expires_at).toLocaleDateString() : 'Never'}
+        </Text>
+      ),
+    },
+    {
+      key: 'university_id',
+      label: 'University',
+      render: (item) => {
+        const university = universities.find((u) => u.id === item.university_id);
+        return (
+          <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+            {item.university_id ? university?.name || 'Unknown' : 'Any'}
+          </Text>
+        );
+      },
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      width: 120,
+      render: (item) => {
+        const usable = getTutorInviteError(item) === null;
+        return (
+          <View
+            style={[
+              styles.statusBadge,
+              { backgroundColor: usable ? colors.success : colors.surfaceElevated },
+            ]}
+          >
+            <Text style={[styles.statusText, { color: usable ? '#001018' : colors.textSecondary }]}>
+              {getStatusLabel(item)}
+            </Text>
+          </View>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      label: 'Actions',
+      width: 140,
+      render: (item) =>
+        item.status === 'active' ? (
+          <AdminButton
+            label="Revoke"
+            onPress={() => handleRevoke(item)}
+            variant="secondary"
+            size="small"
+          />
+        ) : null,
+    },
+  ];
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.content}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View>
+            <Text style={[styles.title, { color: colors.text }]}>Tutor Invites</Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              Share a code with a tutor; they enter it when creating their account
+            </Text>
+          </View>
+          <AdminButton
+            label="➕ Generate Code"
+            onPress={() => setModalVisible(true)}
+            variant="primary"
+          />
+        </View>
+
+        {/* Table */}
+        {loading ? (
+          <Text style={{ color: colors.textSecondary }}>Loading...</Text>
+        ) : (
+          <DataTable
+            data={codes}
+            columns={columns}
+            emptyMessage="No tutor invite codes yet. Generate one to onboard a tutor."
+          />
+        )}
+
+        {/* Generate Modal */}
+        <AdminModal
+          visible={modalVisible}
+          onClose={() => setModalVisible(false)}
+          title="Generate Tutor Code"
+          footer={null}
+        >
+          <TutorInviteForm
+            universities={universities}
+            onSave={async (data) => {
+              if (!userProfile) return;
+              const created = await createTutorInviteCode(data, userProfile.uid);
+              setModalVisible(false);
+              loadCodes();
+              Alert.alert('Code Created', `Share this code with the tutor: ${created.code}`);
+            }}
+          />
+        </AdminModal>
+      </View>
+    </ScrollView>
+  );
+}
+
+// Tutor Invite Form Component
+function TutorInviteForm({
+  universities,
+  onSave,
+}: {
+  universities: University[];
+  onSave: (data: TutorInviteCodeFormData) => Promise<void>;
+}) {
+  const [maxUses, setMaxUses] = useState('1');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [universityId, setUniversityId] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    const uses = Number(maxUses);
+    if (!Number.isInteger(uses) || uses < 1) {
+      newErrors.maxUses = 'Enter a whole number of 1 or more';
+    }
+
+    if (expiresInDays.trim()) {
+      const days = Number(expiresInDays);
+      if (!Number.isFinite(days) || days <= 0) {
+        newErrors.expiresInDays = 'Enter a positive number of days, or leave empty';
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!validate()) {
+      return;
+    }
+
+    const days = expiresInDays.trim() ? Number(expiresInDays) : null;
+
+    setSaving(true);
+    try {
+      await onSave({
+        max_uses: Number(maxUses),
+        expires_at: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+        university_id: universityId || undefined,
+      });
+    } catch (error) {
+      console.error('Error creating tutor invite code:', error);
+      Alert.alert('Error', 'Failed to create code. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.form}>
+      <FormInput
+        label="Maximum Uses"
+        value={maxUses}
+        onChangeText={(text) => {
+          setMaxUses(text);
+          if (errors.maxUses) setErrors({ ...errors, maxUses: '' });
+        }}
+        placeholder="1 for a single-use code"
+        keyboardType="numeric"
+        required
+        error={errors.maxUses}
+      />
+
+      <FormInput
+        label="Expires In (days)"
+        value={expiresInDays}
+        onChangeText={(text) => {
+          setExpiresInDays(text);
+          if (errors.expiresInDays) setErrors({ ...errors, expiresInDays: '' });
+        }}
+        placeholder="Leave empty for no expiry"
+        keyboardType="numeric"
+        error={errors.expiresInDays}
+      />
+
+      <Select
+        label="University Scope"
+        value={universityId}
+        options={[
+          { label: 'Any university', value: '' },
+          ...universities.map((u) => ({ label: u.name, value: u.id })),
+        ]}
+        onChange={setUniversityId}
+        placeholder="Any university"
+      />
+
+      <View style={styles.formActions}>
+        <AdminButton
+          label={saving ? 'Generating...' : 'Generate Code'}
+          onPress={handleSave}
+          variant="primary"
+          loading={saving}
+          fullWidth
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.xl,
+    maxWidth: 1400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.xl,
+    gap: Spacing.lg,
+  },
+  title: {
+    ...Typography.h1,
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    ...Typography.body,
+  },
+  codeText: {
+    ...Typography.body,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.sm,
+  },
+  statusText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  form: {
+    gap: Spacing.lg,
+  },
+  formActions: {
+    marginTop: Spacing.lg,
+  },
+});
@@ -1,6 +1,7 @@
 /**
  * 🎓 University Branches Management
  * Manage branches (CSE, ECE, etc.) for a specific university
+ * and see engagement across its colleges and branches
  */
 
 import React, { useState, useEffect } from 'react';
@@ -13,9 +14,15 @@ import { AdminButton } from '@/components/admin/button';
 import { AdminModal } from '@/components/admin/modal';
 import { FormInput } from '@/components/admin/form-input';
 import { Select } from '@/components/admin/select';
+import { RangeSelector } from '@/components/admin/range-selector';
+import { EngagementTable } from '@/components/admin/engagement-table';
 import { Branch, BranchFormData, University } from '@/types/admin';
+import { PlatformAnalytics } from '@/types/analytics';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, addDoc, updateDoc, doc, query, where } from 'firebase/firestore';
+import { RangePreset, toRange } from '@/lib/date-range';
+import { getUniversity } from '@/services/admin-service';
+import { getPlatformAnalytics } from '@/services/analytics-service';
 
 export default function UniversityBranchesPage() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -28,6 +35,9 @@ export default function UniversityBranchesPage() {
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30d');
+  const [analytics, setAnalytics] = useState<PlatformAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(true);
 
   useEffect(() => {
     if (id) {
@@ -36,10 +46,29 @@ export default function UniversityBranchesPage() {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (id) {
+      loadAnalytics(id, rangePreset);
+    }
+  }, [id, rangePreset]);
+
   const loadUniversity = async () => {
-    // TODO: Load university from Firestore
-    // For now, mock data
-    setUniversity({ id: id!, name: 'Sample University', chairman_name: '', contact_numbers: [], createdAt: '' });
+    try {
+      setUniversity(await getUniversity(id!));
+    } catch (error) {
+      console.error('Error loading university:', error);
+    }
+  };
+
+  const loadAnalytics = async (universityId: string, preset: RangePreset) => {
+    try {
+      setAnalyticsLoading(true);
+      setAnalytics(await getPlatformAnalytics(toRange(preset), universityId));
+    } catch (error) {
+      console.error('Error loading university analytics:', error);
+    } finally {
+      setAnalyticsLoading(false);
+    }
   };
 
   const loadBranches = async () => {
@@ -177,6 +206,52 @@ export default function UniversityBranchesPage() {
           />
         )}
 
+        {/* Engagement */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Engagement</Text>
+            <RangeSelector value={rangePreset} onChange={setRangePreset} />
+          </View>
+
+          {analyticsLoading || !analytics ? (
+            <Text style={{ color: colors.textSecondary }}>
+              {analyticsLoading ? 'Loading...' : 'Engagement data is unavailable right now.'}
+            </Text>
+          ) : (
+            <>
+              <View style={styles.summary}>
+                {[
+                  { label: 'Active This Week', value: analytics.activeThisWeek },
+                  { label: 'Enrollments', value: analytics.totalEnrollments },
+                  { label: 'Completions', value: analytics.totalCompletions },
+                ].map((stat) => (
+                  <View
+                    key={stat.label}
+                    style={[styles.summaryCard, { backgroundColor: colors.surface, borderColor: colors.border }]}
+                  >
+                    <Text style={[styles.summaryValue, { color: colors.text }]}>{stat.value.toLocaleString()}</Text>
+                    <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>{stat.label}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <Text style={[styles.subsectionTitle, { color: colors.text }]}>By College</Text>
+              <EngagementTable
+                data={analytics.byCollege}
+                nameLabel="College"
+                emptyMessage="No colleges linked to this university."
+              />
+
+              <Text style={[styles.subsectionTitle, { color: colors.text }]}>By Branch</Text>
+              <EngagementTable
+                data={analytics.byBranch}
+                nameLabel="Branch"
+                emptyMessage="No branches found."
+              />
+            </>
+          )}
+        </View>
+
         {/* Add/Edit Modal */}
         <AdminModal
           visible={modalVisible}
@@ -240,6 +315,41 @@ const styles = StyleSheet.create({
   subtitle: {
     ...Typography.body,
   },
+  section: {
+    marginTop: Spacing.xxl,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    ...Typography.h2,
+  },
+  subsectionTitle: {
+    ...Typography.h3,
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.md,
+  },
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.lg,
+  },
+  summaryCard: {
+    flex: 1,
+    minWidth: 180,
+    padding: Spacing.lg,
+    borderRadius: Radius.lg,
+    borderWidth: 1,
+  },
+  summaryValue: {
+    ...Typography.h1,
+    marginBottom: Spacing.xs,
+  },
   statusBadge: {
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.xs,
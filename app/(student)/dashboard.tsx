@@ -5,35 +5,77 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { UserMenu } from '@/components/user-menu';
 import { Colors, Glows, Radius, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
+import { usePartner } from '@/contexts/partner-context';
+import { useCatalogScope } from '@/hooks/use-catalog-scope';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { getCourses } from '@/services/course-service';
+import { getCoursesPage } from '@/services/course-service';
 import { Course } from '@/types/course';
 import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
-import { Image, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+// Start loading the next page this far (px) before the end of the list
+const LOAD_MORE_THRESHOLD = 600;
+
 export default function StudentDashboard() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
   const { userProfile } = useAuth();
+  const { isHydrated: partnerHydrated } = usePartner();
+  const scope = useCatalogScope();
   const [courses, setCourses] = useState<Course[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  
+  const loadCourses = useCallback(async () => {
+    try {
+      const page = await getCoursesPage(scope);
+      setCourses(page.courses);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading courses:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
   
+  // Reload when the catalog scope (profile or partner) changes
   useEffect(() => {
+    if (!partnerHydrated) return;
     loadCourses();
-  }, []);
+  }, [partnerHydrated, loadCourses]);
   
-  const loadCourses = async () => {
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loading) return;
+    setLoadingMore(true);
     try {
-      const allCourses = await getCourses();
-      setCourses(allCourses);
+      const page = await getCoursesPage(scope, nextCursor);
+      setCourses((prev) => [...prev, ...page.courses]);
+      setNextCursor(page.nextCursor);
     } catch (error) {
-      console.error('Error loading courses:', error);
+      console.error('Error loading more courses:', error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+  
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+      loadMore();
     }
   };
   
@@ -82,6 +124,8 @@ export default function StudentDashboard() {
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         {/* Welcome Header */}
         <Animated.View entering={FadeInDown.duration(600)} style={styles.header}>
@@ -276,6 +320,7 @@ export default function StudentDashboard() {
                 <IconSymbol name="chevron.right" size={20} color={colors.textTertiary} />
               </TouchableOpacity>
             ))}
+            {loadingMore && <ActivityIndicator color={colors.primary} style={styles.loadingMore} />}
           </Animated.View>
         ) : (
           <Animated.View entering={FadeInDown.duration(600)} style={styles.emptyContainer}>
@@ -335,6 +380,9 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Spacing.xxl,
   },
+  loadingMore: {
+    paddingVertical: Spacing.lg,
+  },
   loadingContainer: {
     paddingVertical: Spacing.xxl,
     alignItems: 'center',
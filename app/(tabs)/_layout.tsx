@@ -95,6 +95,13 @@ export default function TabLayout() {
           ),
         }}
       />
+      {/* Reached from My learning; not a tab */}
+      <Tabs.Screen
+        name="downloads"
+        options={{
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
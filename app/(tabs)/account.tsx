@@ -1,17 +1,56 @@
+import { Select } from '@/components/admin/select';
 import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
 import { UserMenu } from '@/components/user-menu';
-import { Colors, Typography, Spacing } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
-import React from 'react';
-import { ScrollView, StyleSheet, View } from 'react-native';
+import { Typography, Spacing, Radius } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useThemeColors } from '@/hooks/use-theme-color';
+import { ACADEMIC_YEARS, getAdmissionBatchForYear, getAdmissionBatchOptions } from '@/lib/academic-year';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 export default function AccountScreen() {
-  const colorScheme = useColorScheme();
-  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
-  
+  const colors = useThemeColors();
+  const { userProfile, updateAcademicProfile } = useAuth();
+
+  const [year, setYear] = useState(userProfile?.year || '');
+  const [batch, setBatch] = useState(userProfile?.admission_batch ? String(userProfile.admission_batch) : '');
+  const [saving, setSaving] = useState(false);
+
+  // Follow the profile when it loads or is promoted by an admin
+  useEffect(() => {
+    setYear(userProfile?.year || '');
+    setBatch(userProfile?.admission_batch ? String(userProfile.admission_batch) : '');
+  }, [userProfile?.year, userProfile?.admission_batch]);
+
+  // Keep the profile's batch selectable even once it's older than the usual options
+  const batchOptions = Array.from(
+    new Set([...getAdmissionBatchOptions(), ...(userProfile?.admission_batch ? [userProfile.admission_batch] : [])])
+  ).sort((a, b) => b - a);
+
+  const hasChanges =
+    year !== (userProfile?.year || '') ||
+    batch !== (userProfile?.admission_batch ? String(userProfile.admission_batch) : '');
+
+  const handleSave = async () => {
+    if (!year || !batch) {
+      Alert.alert('Missing details', 'Please select your year and admission batch.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await updateAcademicProfile(year, Number(batch));
+    } catch (error: any) {
+      console.error('Error saving academic profile:', error);
+      Alert.alert('Error', error.message || 'Failed to save. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
-    <SafeAreaView 
+    <SafeAreaView
       style={[styles.container, { backgroundColor: '#FFFFFF' }]}
       edges={['top']}
     >
@@ -30,7 +69,7 @@ export default function AccountScreen() {
         </ThemedText>
         <UserMenu />
       </View>
-      
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
@@ -45,6 +84,71 @@ export default function AccountScreen() {
         >
           Account settings and preferences
         </ThemedText>
+
+        {/* Academic profile (students) */}
+        {userProfile?.role === 'student' && (
+          <View style={[styles.section, { borderColor: '#D1D7DC' }]}>
+            <ThemedText style={[Typography.h3, { color: '#1C1D1F', marginBottom: Spacing.xs }]}>
+              Academic Profile
+            </ThemedText>
+            <ThemedText style={[Typography.bodySmall, { color: '#6A6F73', marginBottom: Spacing.md }]}>
+              Used to suggest courses for your year. Your college moves your batch up each year.
+            </ThemedText>
+
+            <ThemedText style={[Typography.bodySmall, styles.label, { color: '#6A6F73' }]}>
+              Current Year
+            </ThemedText>
+            <View style={styles.yearRow}>
+              {ACADEMIC_YEARS.map((option) => {
+                const selected = year === option.key;
+                return (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[
+                      styles.yearPill,
+                      {
+                        backgroundColor: selected ? colors.primary : 'transparent',
+                        borderColor: selected ? colors.primary : '#D1D7DC',
+                      },
+                    ]}
+                    onPress={() => {
+                      setYear(option.key);
+                      if (!batch) setBatch(String(getAdmissionBatchForYear(option.key)));
+                    }}
+                  >
+                    <ThemedText
+                      style={[
+                        Typography.bodySmall,
+                        { color: selected ? '#FFFFFF' : '#1C1D1F', fontWeight: '600' },
+                      ]}
+                    >
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Select
+              label="Admission Batch"
+              value={batch}
+              options={batchOptions.map((option) => ({ label: String(option), value: String(option) }))}
+              onChange={setBatch}
+              placeholder="Year you were admitted"
+            />
+
+            <View style={styles.saveRow}>
+              <Button
+                title={saving ? 'Saving...' : 'Save'}
+                onPress={handleSave}
+                variant="primary"
+                size="medium"
+                loading={saving}
+                disabled={!hasChanges}
+              />
+            </View>
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -68,5 +172,29 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: Spacing.lg,
   },
+  section: {
+    marginTop: Spacing.lg,
+    padding: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: Radius.md,
+  },
+  label: {
+    marginBottom: Spacing.xs,
+  },
+  yearRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  yearPill: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+  },
+  saveRow: {
+    marginTop: Spacing.md,
+    alignItems: 'flex-start',
+  },
 });
-
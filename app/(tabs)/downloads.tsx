@@ -0,0 +1,274 @@
+/**
+ * Downloads
+ * Lessons saved on this device for offline viewing, with storage used and removal.
+ */
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Layout, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  deleteDownload,
+  getDownloads,
+  isOfflineDownloadSupported,
+  subscribeToDownloads,
+} from '@/services/download-service';
+import { getQueuedProgressCount, syncQueuedProgress } from '@/services/offline-progress-service';
+import { LessonDownload } from '@/types/download';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const formatSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  return `${Math.max(1, Math.round(bytes / (1024 * 1024)))} MB`;
+};
+
+export default function DownloadsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { user } = useAuth();
+  const userId = user?.uid;
+
+  const [downloads, setDownloads] = useState<LessonDownload[]>([]);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const [downloadData, queued] = await Promise.all([
+          getDownloads(),
+          userId ? getQueuedProgressCount(userId) : 0,
+        ]);
+        setDownloads(downloadData);
+        setQueuedCount(queued);
+      } catch (error) {
+        console.error('Error loading downloads:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    refresh();
+    return subscribeToDownloads(refresh);
+  }, [userId]);
+
+  const handleSync = async () => {
+    if (!userId) return;
+    setSyncing(true);
+    await syncQueuedProgress(userId);
+    setQueuedCount(await getQueuedProgressCount(userId));
+    setSyncing(false);
+  };
+
+  const handleRemove = (download: LessonDownload) => {
+    Alert.alert('Remove download?', `"${download.topic_title}" will no longer be available offline.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          deleteDownload(download.course_id, download.topic_id).catch(() => {
+            Alert.alert('Error', 'Could not remove the download.');
+          });
+        },
+      },
+    ]);
+  };
+
+  const totalBytes = downloads.reduce((total, download) => total + (download.size_bytes || 0), 0);
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerTitle}>
+          <ThemedText style={[Typography.h2, { color: colors.text, fontSize: 20 }]}>
+            Downloads
+          </ThemedText>
+          {totalBytes > 0 && (
+            <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+              {formatSize(totalBytes)} used on this device
+            </ThemedText>
+          )}
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.contentWrap}>
+          {/* Progress waiting to sync */}
+          {queuedCount > 0 && (
+            <View style={[styles.syncBanner, { backgroundColor: colors.primary + '20' }]}>
+              <IconSymbol name="icloud.slash" size={20} color={colors.primary} />
+              <ThemedText style={[Typography.bodySmall, { color: colors.text, flex: 1 }]}>
+                Progress from {queuedCount} {queuedCount === 1 ? 'lesson' : 'lessons'} watched offline is waiting to sync.
+              </ThemedText>
+              <TouchableOpacity onPress={handleSync} disabled={syncing}>
+                {syncing ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <ThemedText style={[Typography.caption, { color: colors.primary, fontWeight: '600' }]}>
+                    Sync now
+                  </ThemedText>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {!isOfflineDownloadSupported() || downloads.length === 0 ? (
+            <View style={styles.emptyState}>
+              <IconSymbol name="arrow.down.circle" size={48} color={colors.textTertiary} />
+              <ThemedText style={[Typography.body, { color: colors.textSecondary, marginTop: Spacing.md, textAlign: 'center' }]}>
+                {isOfflineDownloadSupported()
+                  ? 'No downloads yet. Download lessons from the lesson screen to watch them offline.'
+                  : 'Offline downloads are available in the mobile app.'}
+              </ThemedText>
+            </View>
+          ) : (
+            downloads.map((download, index) => {
+              const completed = download.status === 'completed';
+              const details =
+                download.status === 'downloading'
+                  ? `Downloading ${Math.round(download.progress * 100)}%`
+                  : download.status === 'failed'
+                    ? download.error || 'Download failed'
+                    : [download.quality, formatSize(download.size_bytes)].filter(Boolean).join(' · ');
+
+              return (
+                <Animated.View
+                  key={`${download.course_id}_${download.topic_id}`}
+                  entering={FadeInDown.duration(400).delay(index * 50)}
+                >
+                  <TouchableOpacity
+                    style={[styles.downloadCard, { backgroundColor: colors.surface }]}
+                    onPress={() => router.push(`/course/${download.course_id}/lesson/${download.topic_id}`)}
+                    disabled={!completed}
+                    activeOpacity={0.7}
+                  >
+                    <IconSymbol
+                      name={completed ? 'arrow.down.circle.fill' : 'arrow.down.circle'}
+                      size={24}
+                      color={download.status === 'failed' ? colors.accent : completed ? colors.success : colors.primary}
+                    />
+                    <View style={styles.downloadInfo}>
+                      <ThemedText style={[Typography.body, { color: colors.text, fontWeight: '600' }]} numberOfLines={1}>
+                        {download.topic_title}
+                      </ThemedText>
+                      <ThemedText style={[Typography.caption, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {download.course_title}
+                      </ThemedText>
+                      {!!details && (
+                        <ThemedText style={[Typography.caption, { color: colors.textTertiary }]} numberOfLines={1}>
+                          {details}
+                        </ThemedText>
+                      )}
+                    </View>
+                    {download.status !== 'downloading' && (
+                      <TouchableOpacity
+                        onPress={() => handleRemove(download)}
+                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                        accessibilityLabel="Remove download"
+                      >
+                        <IconSymbol name="trash" size={22} color={colors.textTertiary} />
+                      </TouchableOpacity>
+                    )}
+                  </TouchableOpacity>
+                </Animated.View>
+              );
+            })
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+  },
+  contentWrap: {
+    maxWidth: Layout.contentMaxWidth,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xxl,
+  },
+  downloadCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  downloadInfo: {
+    flex: 1,
+  },
+});
@@ -3,15 +3,27 @@ import { CourseResultCard } from '@/components/course-result-card';
 import { ThemedText } from '@/components/themed-text';
 import { BrandColors, Colors, Glows, Radius, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
+import { usePartner } from '@/contexts/partner-context';
+import { useCatalogScope } from '@/hooks/use-catalog-scope';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { getCollege, getUniversity } from '@/services/admin-service';
-import { getCourses } from '@/services/course-service';
-import { College, University } from '@/types/admin';
-import { Course } from '@/types/course';
-import React, { useEffect, useMemo, useState } from 'react';
+import { COURSE_OUTCOMES, COURSE_SORTS, DURATION_BUCKETS, getCourseOutcome } from '@/lib/course-search';
+import { getUniversity } from '@/services/admin-service';
+import { searchCourses } from '@/services/course-service';
 import {
+  Course,
+  CourseHighlight,
+  CourseOutcome,
+  CourseSearchFilters,
+  CourseSort,
+  DurationBucket,
+} from '@/types/course';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
   Dimensions,
   Image,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   ScrollView,
   StyleSheet,
   TextInput,
@@ -24,15 +36,19 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 const { width } = Dimensions.get('window');
 const isMobile = width < 768;
 
+const PAGE_SIZE = 12;
+const SEARCH_DEBOUNCE_MS = 300;
+// Start loading the next page this far (px) before the end of the list
+const LOAD_MORE_THRESHOLD = 600;
 
-// Filter categories
-const FILTER_CATEGORIES = {
-  skillLevel: ['Beginner', 'Intermediate', 'Advanced'],
-  duration: ['< 5 hours', '5-10 hours', '10-20 hours', '> 20 hours'],
-  domain: ['Web Development', 'Data Science', 'Design', 'Business', 'Marketing'],
-  outcome: ['Placement', 'Internship', 'Certification'],
-  mode: ['Self-paced', 'Guided'],
-};
+// Filter options
+const CATEGORIES = ['Development', 'Business', 'Design', 'Marketing', 'Photography', 'Music', 'Health & Fitness', 'IT & Software'];
+const LANGUAGES = ['English', 'Arabic', 'Spanish', 'French', 'German', 'Chinese', 'Japanese', 'Hindi'];
+const MIN_RATINGS = [
+  { key: 4.5, label: '4.5 & up' },
+  { key: 4, label: '4.0 & up' },
+  { key: 3, label: '3.0 & up' },
+];
 
 // Year tiles
 const YEAR_TILES = [
@@ -75,7 +91,7 @@ const convertCourseToResult = (course: Course, universityNames: Map<string, stri
   thumbnail?: string;
   duration: string;
   skills: string[];
-  outcome: 'Placement' | 'Internship' | 'Certification';
+  outcome: CourseOutcome;
   rating?: number;
   ratingCount?: number;
 } => {
@@ -92,11 +108,7 @@ const convertCourseToResult = (course: Course, universityNames: Map<string, stri
       : [];
   
   // Determine outcome from course data (default to Placement)
-  const outcome: 'Placement' | 'Internship' | 'Certification' = 
-    course.outcomes.some(o => o.toLowerCase().includes('placement')) ? 'Placement' :
-    course.outcomes.some(o => o.toLowerCase().includes('internship')) ? 'Internship' :
-    course.outcomes.some(o => o.toLowerCase().includes('certification')) ? 'Certification' :
-    'Placement';
+  const outcome = getCourseOutcome(course);
   
   // Format duration
   const hours = Math.floor(course.totalDuration / 60);
@@ -119,109 +131,64 @@ const convertCourseToResult = (course: Course, universityNames: Map<string, stri
   };
 };
 
+
 interface FilterState {
-  skillLevel: string[];
-  duration: string[];
-  domain: string[];
-  outcome: string[];
-  mode: string[];
+  durationBucket: DurationBucket | null;
+  category: string | null;
+  language: string | null;
+  minRating: number | null;
+  outcome: CourseOutcome | null;
+  myBranch: boolean;
 }
 
+const EMPTY_FILTERS: FilterState = {
+  durationBucket: null,
+  category: null,
+  language: null,
+  minRating: null,
+  outcome: null,
+  myBranch: false,
+};
+
 export default function ExploreScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
   const { userProfile } = useAuth();
+  const { partnerContext, isHydrated: partnerHydrated } = usePartner();
+  const scope = useCatalogScope();
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedYear, setSelectedYear] = useState<string | null>(null);
-  const [filters, setFilters] = useState<FilterState>({
-    skillLevel: [],
-    duration: [],
-    domain: [],
-    outcome: [],
-    mode: [],
-  });
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  // Defaults to the student's own year; they can still pick another year or clear it
+  const [selectedYear, setSelectedYear] = useState<string | null>(userProfile?.year || null);
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<CourseSort>('relevance');
   const [showFilters, setShowFilters] = useState(false);
-  const [college, setCollege] = useState<College | null>(null);
-  const [university, setUniversity] = useState<University | null>(null);
-  const [loadingCollegeData, setLoadingCollegeData] = useState(true);
-  const [allCourses, setAllCourses] = useState<Course[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [highlights, setHighlights] = useState<Record<string, CourseHighlight>>({});
   const [loadingCourses, setLoadingCourses] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [recommended, setRecommended] = useState<Course[]>([]);
+  const [loadingRecommended, setLoadingRecommended] = useState(true);
   const [universityNames, setUniversityNames] = useState<Map<string, string>>(new Map());
+  // Bumped for every new search so responses to superseded searches are dropped
+  const searchIdRef = useRef(0);
   
-  // Fetch college and university data based on user profile
   useEffect(() => {
-    const fetchCollegeData = async () => {
-      if (!userProfile?.college_id || !userProfile?.university_id) {
-        setLoadingCollegeData(false);
-        return;
-      }
-      
-      try {
-        const [collegeData, universityData] = await Promise.all([
-          getCollege(userProfile.college_id),
-          getUniversity(userProfile.university_id),
-        ]);
-        
-        if (collegeData) setCollege(collegeData);
-        if (universityData) setUniversity(universityData);
-      } catch (error) {
-        console.error('Error fetching college/university data:', error);
-        // Set to null on error to prevent crashes
-        setCollege(null);
-        setUniversity(null);
-      } finally {
-        setLoadingCollegeData(false);
-      }
-    };
-    
-    if (userProfile) {
-      fetchCollegeData();
-    } else {
-      setLoadingCollegeData(false);
-    }
-  }, [userProfile?.college_id, userProfile?.university_id]);
+    setSelectedYear(userProfile?.year || null);
+  }, [userProfile?.year]);
   
-  // Fetch all courses and university names
+  // Wait for typing to pause before searching
   useEffect(() => {
-    const fetchCourses = async () => {
-      try {
-        const courses = await getCourses();
-        setAllCourses(courses);
-        
-        // Extract unique university IDs and fetch their names
-        const uniqueUniversityIds = new Set<string>();
-        courses.forEach((course) => {
-          if (course.university_ids) {
-            course.university_ids.forEach((id) => uniqueUniversityIds.add(id));
-          }
-        });
-        
-        // Fetch university names
-        const namesMap = new Map<string, string>();
-        await Promise.all(
-          Array.from(uniqueUniversityIds).map(async (id) => {
-            try {
-              const uni = await getUniversity(id);
-              if (uni) namesMap.set(id, uni.name);
-            } catch (error) {
-              console.error(`Error fetching university ${id}:`, error);
-            }
-          })
-        );
-        setUniversityNames(namesMap);
-      } catch (error) {
-        console.error('Error fetching courses:', error);
-      } finally {
-        setLoadingCourses(false);
-      }
-    };
-    
-    fetchCourses();
-  }, []);
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
   
-  // Determine partner college info
+  // Determine partner college info (restored on launch, from the student's college or a partner link)
   const partnerCollege = useMemo(() => {
+    const college = partnerContext?.college;
+    const university = partnerContext?.university;
     if (!college || !university) {
       return {
         name: null,
@@ -235,340 +202,261 @@ export default function ExploreScreen() {
       logo: college.logo || university.logo || null,
       isPartnered: college.is_partnered || false,
     };
-  }, [college, university]);
+  }, [partnerContext]);
   
-  // Filter courses based on search, year, and filters
-  const filteredCourses = useMemo(() => {
-    if (loadingCourses) return [];
-    
-    let courses = [...allCourses];
+  // Every search is limited to the catalog scope; these are the student's own filters on top
+  const searchFilters = useMemo<CourseSearchFilters>(
+    () => ({
+      ...(filters.myBranch && userProfile?.branch_id ? { branchId: userProfile.branch_id } : {}),
+      ...(selectedYear ? { year: selectedYear } : {}),
+      ...(filters.category ? { category: filters.category } : {}),
+      ...(filters.language ? { language: filters.language } : {}),
+      ...(filters.durationBucket ? { durationBucket: filters.durationBucket } : {}),
+      ...(filters.minRating ? { minRating: filters.minRating } : {}),
+      ...(filters.outcome ? { outcome: filters.outcome } : {}),
+    }),
+    [filters, selectedYear, userProfile?.branch_id]
+  );
+  
+  // Look up names for universities we haven't seen yet
+  const loadUniversityNames = useCallback(async (loaded: Course[]) => {
+    const ids = new Set<string>();
+    loaded.forEach((course) => course.university_ids?.forEach((id) => ids.add(id)));
     
-    // Partner college filtering - filter by college's university
-    if (partnerCollege.isPartnered && partnerCollege.name && college?.university_id) {
-      courses = courses.filter((course) => {
-        if (!course.university_ids || course.university_ids.length === 0) return false;
-        return course.university_ids.includes(college.university_id);
+    const fetched = await Promise.all(
+      Array.from(ids).map(async (id) => {
+        try {
+          const uni = await getUniversity(id);
+          return uni ? ([id, uni.name] as const) : null;
+        } catch (error) {
+          console.error(`Error fetching university ${id}:`, error);
+          return null;
+        }
+      })
+    );
+    setUniversityNames((prev) => {
+      const namesMap = new Map(prev);
+      fetched.forEach((entry) => {
+        if (entry) namesMap.set(entry[0], entry[1]);
       });
-    }
+      return namesMap;
+    });
+  }, []);
+  
+  // First page whenever the search (or the partner catalog) changes
+  useEffect(() => {
+    if (!partnerHydrated) return;
+    const searchId = ++searchIdRef.current;
     
-    // Year filtering
-    if (selectedYear) {
-      courses = courses.filter((course) => course.year === selectedYear);
-    }
+    const fetchFirstPage = async () => {
+      setLoadingCourses(true);
+      try {
+        const page = await searchCourses({
+          query: debouncedQuery,
+          scope,
+          filters: searchFilters,
+          sort,
+          pageSize: PAGE_SIZE,
+        });
+        if (searchId !== searchIdRef.current) return;
+        setCourses(page.courses);
+        setNextCursor(page.nextCursor);
+        setHighlights(page.highlights || {});
+        loadUniversityNames(page.courses);
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+        if (searchId === searchIdRef.current) {
+          setCourses([]);
+          setNextCursor(null);
+          setHighlights({});
+        }
+      } finally {
+        if (searchId === searchIdRef.current) setLoadingCourses(false);
+      }
+    };
     
-    // Search filtering
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      courses = courses.filter(
-        (course) =>
-          course.title.toLowerCase().includes(query) ||
-          course.trainerName.toLowerCase().includes(query) ||
-          course.outcomes.some((outcome) => outcome.toLowerCase().includes(query)) ||
-          course.category?.toLowerCase().includes(query)
-      );
-    }
+    fetchFirstPage();
+  }, [debouncedQuery, searchFilters, sort, partnerHydrated, scope, loadUniversityNames]);
+  
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loadingCourses) return;
+    const searchId = searchIdRef.current;
     
-    // Filter category filtering
-    if (filters.outcome.length > 0) {
-      courses = courses.filter((course) => {
-        const courseOutcome = course.outcomes.some(o => o.toLowerCase().includes('placement')) ? 'Placement' :
-          course.outcomes.some(o => o.toLowerCase().includes('internship')) ? 'Internship' :
-          course.outcomes.some(o => o.toLowerCase().includes('certification')) ? 'Certification' :
-          'Placement';
-        return filters.outcome.includes(courseOutcome);
+    setLoadingMore(true);
+    try {
+      const page = await searchCourses({
+        query: debouncedQuery,
+        scope,
+        filters: searchFilters,
+        sort,
+        cursor: nextCursor,
+        pageSize: PAGE_SIZE,
       });
+      if (searchId !== searchIdRef.current) return;
+      setCourses((prev) => [...prev, ...page.courses]);
+      setNextCursor(page.nextCursor);
+      setHighlights((prev) => ({ ...prev, ...page.highlights }));
+      loadUniversityNames(page.courses);
+    } catch (error) {
+      console.error('Error fetching more courses:', error);
+    } finally {
+      setLoadingMore(false);
     }
-    
-    if (filters.duration.length > 0) {
-      courses = courses.filter((course) => {
-        const hours = Math.floor(course.totalDuration / 60);
-        return filters.duration.some((filter) => {
-          if (filter === '< 5 hours') return hours < 5;
-          if (filter === '5-10 hours') return hours >= 5 && hours <= 10;
-          if (filter === '10-20 hours') return hours > 10 && hours <= 20;
-          if (filter === '> 20 hours') return hours > 20;
-          return false;
-        });
-      });
+  };
+  
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+      loadMore();
     }
-    
-    // Convert to CourseResultCard format
-    return courses.map((course) => convertCourseToResult(course, universityNames));
-  }, [searchQuery, selectedYear, filters, partnerCollege, allCourses, loadingCourses, universityNames, college]);
+  };
   
-  // Recommended courses (first 3 courses, or filtered by year if selected)
-  const recommendedCourses = useMemo(() => {
-    if (loadingCourses) return [];
-    
-    let courses = [...allCourses];
+  // Recommended courses (newest in the student's catalog)
+  useEffect(() => {
+    if (!partnerHydrated) return;
     
-    // Apply partner college filtering
-    if (partnerCollege.isPartnered && partnerCollege.name && college?.university_id) {
-      courses = courses.filter((course) => {
-        if (!course.university_ids || course.university_ids.length === 0) return false;
-        return course.university_ids.includes(college.university_id);
-      });
-    }
+    const fetchRecommended = async () => {
+      setLoadingRecommended(true);
+      try {
+        const page = await searchCourses({ scope, pageSize: 3 });
+        setRecommended(page.courses);
+      } catch (error) {
+        console.error('Error fetching recommended courses:', error);
+      } finally {
+        setLoadingRecommended(false);
+      }
+    };
     
-    // Limit to first 3
-    return courses.slice(0, 3).map((course) => ({
-      id: course.id,
-      title: course.title,
-      instructor: course.trainerName,
-      thumbnail: course.thumbnail,
-      progress: 0, // Will be calculated from enrollment if needed
-      duration: `${Math.floor(course.totalDuration / 60)} hours`,
-    }));
-  }, [allCourses, loadingCourses, partnerCollege, college]);
+    fetchRecommended();
+  }, [scope, partnerHydrated]);
   
-  const toggleFilter = (category: keyof FilterState, value: string) => {
-    setFilters((prev) => {
-      const current = prev[category];
-      const newFilters = current.includes(value)
-        ? current.filter((f) => f !== value)
-        : [...current, value];
-      return { ...prev, [category]: newFilters };
-    });
+  const resultCourses = useMemo(
+    () => courses.map((course) => convertCourseToResult(course, universityNames)),
+    [courses, universityNames]
+  );
+  
+  const recommendedCourses = useMemo(
+    () =>
+      recommended.map((course) => ({
+        id: course.id,
+        title: course.title,
+        instructor: course.trainerName,
+        thumbnail: course.thumbnail,
+        progress: 0, // Will be calculated from enrollment if needed
+        duration: `${Math.floor(course.totalDuration / 60)} hours`,
+      })),
+    [recommended]
+  );
+  
+  const toggleFilter = <K extends keyof FilterState>(category: K, value: FilterState[K]) => {
+    setFilters((prev) => ({
+      ...prev,
+      [category]: prev[category] === value ? EMPTY_FILTERS[category] : value,
+    }));
   };
   
-  const hasActiveFilters = Object.values(filters).some((arr) => arr.length > 0);
+  const activeFilterCount =
+    Object.values(filters).filter((value) => value !== null && value !== false).length +
+    (sort !== 'relevance' ? 1 : 0);
+  const hasActiveFilters = activeFilterCount > 0;
   
-  const renderFilterGroups = () => (
-    <>
-      {/* Skill Level */}
-      <View style={styles.filterGroup}>
-        <ThemedText
-          style={[
-            Typography.body,
-            {
-              color: colors.textSecondary,
-              marginBottom: Spacing.sm,
-            },
-          ]}
-        >
-          Skill Level
-        </ThemedText>
-        <View style={styles.filterPills}>
-          {FILTER_CATEGORIES.skillLevel.map((level) => (
-            <TouchableOpacity
-              key={level}
-              style={[
-                styles.filterPill,
-                {
-                  backgroundColor: filters.skillLevel.includes(level)
-                    ? colors.primary
-                    : colors.surfaceElevated,
-                  borderColor: filters.skillLevel.includes(level)
-                    ? colors.primary
-                    : colors.border,
-                },
-              ]}
-              onPress={() => toggleFilter('skillLevel', level)}
-            >
-              <ThemedText
-                style={[
-                  Typography.bodySmall,
-                  {
-                    color: filters.skillLevel.includes(level)
-                      ? '#FFFFFF'
-                      : colors.text,
-                  },
-                ]}
-              >
-                {level}
-              </ThemedText>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
-      
-      {/* Duration */}
-      <View style={styles.filterGroup}>
-        <ThemedText
-          style={[
-            Typography.body,
-            {
-              color: colors.textSecondary,
-              marginBottom: Spacing.sm,
-            },
-          ]}
-        >
-          Duration
-        </ThemedText>
-        <View style={styles.filterPills}>
-          {FILTER_CATEGORIES.duration.map((duration) => (
-            <TouchableOpacity
-              key={duration}
-              style={[
-                styles.filterPill,
-                {
-                  backgroundColor: filters.duration.includes(duration)
-                    ? colors.primary
-                    : colors.surfaceElevated,
-                  borderColor: filters.duration.includes(duration)
-                    ? colors.primary
-                    : colors.border,
-                },
-              ]}
-              onPress={() => toggleFilter('duration', duration)}
-            >
-              <ThemedText
-                style={[
-                  Typography.bodySmall,
-                  {
-                    color: filters.duration.includes(duration)
-                      ? '#FFFFFF'
-                      : colors.text,
-                  },
-                ]}
-              >
-                {duration}
-              </ThemedText>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
-      
-      {/* Domain */}
-      <View style={styles.filterGroup}>
-        <ThemedText
-          style={[
-            Typography.body,
-            {
-              color: colors.textSecondary,
-              marginBottom: Spacing.sm,
-            },
-          ]}
-        >
-          Domain
-        </ThemedText>
-        <View style={styles.filterPills}>
-          {FILTER_CATEGORIES.domain.map((domain) => (
-            <TouchableOpacity
-              key={domain}
-              style={[
-                styles.filterPill,
-                {
-                  backgroundColor: filters.domain.includes(domain)
-                    ? colors.primary
-                    : colors.surfaceElevated,
-                  borderColor: filters.domain.includes(domain)
-                    ? colors.primary
-                    : colors.border,
-                },
-              ]}
-              onPress={() => toggleFilter('domain', domain)}
-            >
-              <ThemedText
-                style={[
-                  Typography.bodySmall,
-                  {
-                    color: filters.domain.includes(domain)
-                      ? '#FFFFFF'
-                      : colors.text,
-                  },
-                ]}
-              >
-                {domain}
-              </ThemedText>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
-      
-      {/* Outcome */}
-      <View style={styles.filterGroup}>
-        <ThemedText
-          style={[
-            Typography.body,
-            {
-              color: colors.textSecondary,
-              marginBottom: Spacing.sm,
-            },
-          ]}
-        >
-          Outcome
-        </ThemedText>
-        <View style={styles.filterPills}>
-          {FILTER_CATEGORIES.outcome.map((outcome) => (
-            <TouchableOpacity
-              key={outcome}
+  const renderPillGroup = <T extends string | number>(
+    title: string,
+    options: { key: T; label: string }[],
+    isSelected: (key: T) => boolean,
+    onPress: (key: T) => void
+  ) => (
+    <View style={styles.filterGroup}>
+      <ThemedText
+        style={[
+          Typography.body,
+          {
+            color: colors.textSecondary,
+            marginBottom: Spacing.sm,
+          },
+        ]}
+      >
+        {title}
+      </ThemedText>
+      <View style={styles.filterPills}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[
+              styles.filterPill,
+              {
+                backgroundColor: isSelected(option.key) ? colors.primary : colors.surfaceElevated,
+                borderColor: isSelected(option.key) ? colors.primary : colors.border,
+              },
+            ]}
+            onPress={() => onPress(option.key)}
+          >
+            <ThemedText
               style={[
-                styles.filterPill,
+                Typography.bodySmall,
                 {
-                  backgroundColor: filters.outcome.includes(outcome)
-                    ? colors.primary
-                    : colors.surfaceElevated,
-                  borderColor: filters.outcome.includes(outcome)
-                    ? colors.primary
-                    : colors.border,
+                  color: isSelected(option.key) ? '#FFFFFF' : colors.text,
                 },
               ]}
-              onPress={() => toggleFilter('outcome', outcome)}
             >
-              <ThemedText
-                style={[
-                  Typography.bodySmall,
-                  {
-                    color: filters.outcome.includes(outcome)
-                      ? '#FFFFFF'
-                      : colors.text,
-                  },
-                ]}
-              >
-                {outcome}
-              </ThemedText>
-            </TouchableOpacity>
-          ))}
-        </View>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
       </View>
-      
-      {/* Mode */}
-      <View style={styles.filterGroup}>
-        <ThemedText
-          style={[
-            Typography.body,
-            {
-              color: colors.textSecondary,
-              marginBottom: Spacing.sm,
-            },
-          ]}
+    </View>
+  );
+  
+  const renderFilterGroups = () => (
+    <>
+      {renderPillGroup('Sort By', COURSE_SORTS, (key) => sort === key, setSort)}
+      {renderPillGroup(
+        'Duration',
+        DURATION_BUCKETS,
+        (key) => filters.durationBucket === key,
+        (key) => toggleFilter('durationBucket', key)
+      )}
+      {renderPillGroup(
+        'Category',
+        CATEGORIES.map((category) => ({ key: category, label: category })),
+        (key) => filters.category === key,
+        (key) => toggleFilter('category', key)
+      )}
+      {renderPillGroup(
+        'Language',
+        LANGUAGES.map((language) => ({ key: language, label: language })),
+        (key) => filters.language === key,
+        (key) => toggleFilter('language', key)
+      )}
+      {renderPillGroup(
+        'Outcome',
+        COURSE_OUTCOMES.map((outcome) => ({ key: outcome, label: outcome })),
+        (key) => filters.outcome === key,
+        (key) => toggleFilter('outcome', key)
+      )}
+      {renderPillGroup(
+        'Rating',
+        MIN_RATINGS,
+        (key) => filters.minRating === key,
+        (key) => toggleFilter('minRating', key)
+      )}
+      {userProfile?.branch_id &&
+        renderPillGroup(
+          'Branch',
+          [{ key: 'mine', label: 'My branch only' }],
+          () => filters.myBranch,
+          () => toggleFilter('myBranch', true)
+        )}
+      {hasActiveFilters && (
+        <TouchableOpacity
+          onPress={() => {
+            setFilters(EMPTY_FILTERS);
+            setSort('relevance');
+          }}
         >
-          Mode
-        </ThemedText>
-        <View style={styles.filterPills}>
-          {FILTER_CATEGORIES.mode.map((mode) => (
-            <TouchableOpacity
-              key={mode}
-              style={[
-                styles.filterPill,
-                {
-                  backgroundColor: filters.mode.includes(mode)
-                    ? colors.primary
-                    : colors.surfaceElevated,
-                  borderColor: filters.mode.includes(mode)
-                    ? colors.primary
-                    : colors.border,
-                },
-              ]}
-              onPress={() => toggleFilter('mode', mode)}
-            >
-              <ThemedText
-                style={[
-                  Typography.bodySmall,
-                  {
-                    color: filters.mode.includes(mode)
-                      ? '#FFFFFF'
-                      : colors.text,
-                  },
-                ]}
-              >
-                {mode}
-              </ThemedText>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
+          <ThemedText style={[Typography.bodySmall, { color: colors.primary }]}>Clear all</ThemedText>
+        </TouchableOpacity>
+      )}
     </>
   );
   
@@ -622,7 +510,7 @@ export default function ExploreScreen() {
                 }}
               >
                 {hasActiveFilters
-                  ? `Filters (${Object.values(filters).flat().length})`
+                  ? `Filters (${activeFilterCount})`
                   : 'Filters'}
               </ThemedText>
             </TouchableOpacity>
@@ -634,6 +522,8 @@ export default function ExploreScreen() {
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         {/* Header */}
         <View style={styles.header}>
@@ -731,7 +621,7 @@ export default function ExploreScreen() {
         </View>
         
         {/* Recommended Section */}
-        {loadingCourses ? (
+        {loadingRecommended ? (
           <View style={styles.section}>
             <ThemedText
               style={[
@@ -924,12 +814,16 @@ export default function ExploreScreen() {
               },
             ]}
           >
-            {filteredCourses.length > 0
-              ? `Found ${filteredCourses.length} Course${filteredCourses.length !== 1 ? 's' : ''}`
-              : 'No Results'}
+            {loadingCourses
+              ? 'Searching...'
+              : resultCourses.length > 0
+                ? `Found ${resultCourses.length}${nextCursor ? '+' : ''} Course${resultCourses.length !== 1 ? 's' : ''}`
+                : 'No Results'}
           </ThemedText>
           
-          {filteredCourses.length === 0 ? (
+          {loadingCourses ? (
+            <ActivityIndicator color={colors.primary} style={styles.loadingMore} />
+          ) : resultCourses.length === 0 ? (
             <View style={styles.emptyState}>
               <ThemedText style={{ fontSize: 48, marginBottom: Spacing.md }}>🚀</ThemedText>
               <ThemedText
@@ -957,9 +851,17 @@ export default function ExploreScreen() {
               </ThemedText>
             </View>
           ) : (
-            filteredCourses.map((course, index) => (
-              <CourseResultCard key={course.id} course={course} index={index} />
-            ))
+            <>
+              {resultCourses.map((course, index) => (
+                <CourseResultCard
+                  key={course.id}
+                  course={course}
+                  index={index % PAGE_SIZE}
+                  highlight={highlights[course.id]}
+                />
+              ))}
+              {loadingMore && <ActivityIndicator color={colors.primary} style={styles.loadingMore} />}
+            </>
           )}
         </View>
         
@@ -1069,6 +971,9 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.xxxl,
     paddingHorizontal: Spacing.xl,
   },
+  loadingMore: {
+    paddingVertical: Spacing.lg,
+  },
   filterHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
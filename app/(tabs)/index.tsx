@@ -5,11 +5,16 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { UserMenu } from '@/components/user-menu';
 import { Colors, Glows, Radius, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
+import { usePartner } from '@/contexts/partner-context';
+import { useCatalogScope } from '@/hooks/use-catalog-scope';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { getCourses } from '@/services/course-service';
+import { ACADEMIC_YEARS } from '@/lib/academic-year';
+import { getBranch } from '@/services/admin-service';
+import { searchCourses } from '@/services/course-service';
+import { getRecommendationRails, RecommendationRails } from '@/services/recommendation-service';
 import { Course } from '@/types/course';
 import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Dimensions,
   Image,
@@ -24,14 +29,44 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 const { width } = Dimensions.get('window');
 const CARD_WIDTH = width * 0.75;
 const CARD_SPACING = Spacing.md;
+// Most popular courses read for the "Top courses in ..." sections
+const TOP_COURSES_PAGE_SIZE = 30;
 
 export default function HomeScreen() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
   const { userProfile } = useAuth();
+  const { isHydrated: partnerHydrated } = usePartner();
+  const scope = useCatalogScope();
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
+  const [rails, setRails] = useState<RecommendationRails | null>(null);
+  const [branchCode, setBranchCode] = useState<string | null>(null);
+  
+  const loadCourses = useCallback(async () => {
+    try {
+      const page = await searchCourses({ scope, sort: 'popularity', pageSize: TOP_COURSES_PAGE_SIZE });
+      setCourses(page.courses);
+    } catch (error) {
+      console.error('Error loading courses:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+  
+  const loadRecommendations = useCallback(async (studentId: string, branchId?: string, year?: string) => {
+    try {
+      const [loadedRails, branch] = await Promise.all([
+        getRecommendationRails({ studentId, branchId, year, scope }),
+        branchId ? getBranch(branchId) : Promise.resolve(null),
+      ]);
+      setRails(loadedRails);
+      setBranchCode(branch?.code || null);
+    } catch (error) {
+      console.error('Error loading recommendations:', error);
+    }
+  }, [scope]);
   
   useEffect(() => {
     if (userProfile) {
@@ -40,19 +75,25 @@ export default function HomeScreen() {
         return;
       }
     }
+    // Wait for the saved partner so the catalog is scoped before the first load
+    if (!partnerHydrated) return;
     loadCourses();
-  }, [userProfile]);
+  }, [userProfile, partnerHydrated, loadCourses]);
   
-  const loadCourses = async () => {
-    try {
-      const allCourses = await getCourses();
-      setCourses(allCourses);
-    } catch (error) {
-      console.error('Error loading courses:', error);
-    } finally {
-      setLoading(false);
+  // Recommendations need the student's profile; they load alongside the catalog
+  useEffect(() => {
+    if (!partnerHydrated || userProfile?.role !== 'student') {
+      setRails(null);
+      return;
     }
-  };
+    loadRecommendations(userProfile.uid, userProfile.branch_id, userProfile.year);
+  }, [userProfile?.uid, userProfile?.role, userProfile?.branch_id, userProfile?.year, partnerHydrated, loadRecommendations]);
+  
+  // "CSE, 2nd year" for the rail titles, from whatever the profile has
+  const audienceLabel = (year?: string) =>
+    [branchCode, ACADEMIC_YEARS.find((option) => option.key === year)?.label.toLowerCase()]
+      .filter(Boolean)
+      .join(', ');
   
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -86,6 +127,137 @@ export default function HomeScreen() {
     return stars.join('');
   };
   
+  const renderCourseCard = (course: Course) => (
+    <TouchableOpacity
+      key={course.id}
+      style={[styles.courseCard, { width: CARD_WIDTH, backgroundColor: colors.surface }]}
+      onPress={() => handleCoursePress(course.id)}
+      activeOpacity={0.85}
+    >
+      {/* Thumbnail */}
+      <View style={styles.thumbnailContainer}>
+        {course.thumbnail ? (
+          <Image
+            source={{ uri: course.thumbnail }}
+            style={styles.thumbnail}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.thumbnailPlaceholder, { backgroundColor: colors.surfaceElevated }]}>
+            <IconSymbol name="play.circle.fill" size={40} color={colors.textTertiary} />
+          </View>
+        )}
+      </View>
+
+      {/* Content */}
+      <View style={styles.courseContent}>
+        <ThemedText
+          style={[
+            Typography.h3,
+            {
+              color: colors.text,
+              fontSize: 16,
+              fontWeight: '700',
+              marginBottom: Spacing.xs,
+              lineHeight: 22,
+            },
+          ]}
+          numberOfLines={2}
+        >
+          {course.title}
+        </ThemedText>
+
+        <ThemedText
+          style={[
+            Typography.bodySmall,
+            {
+              color: colors.textSecondary,
+              fontSize: 13,
+              marginBottom: Spacing.xs,
+            },
+          ]}
+          numberOfLines={1}
+        >
+          {course.trainerName}
+        </ThemedText>
+
+        {/* Rating and Enrollment */}
+        {(course.rating && course.rating > 0) || (course.enrollmentCount && course.enrollmentCount > 0) ? (
+          <View style={styles.ratingRow}>
+            {course.rating && course.rating > 0 && (
+              <>
+                <ThemedText
+                  style={[
+                    Typography.bodySmall,
+                    {
+                      color: '#B4690E',
+                      fontSize: 14,
+                      fontWeight: '700',
+                      marginRight: Spacing.xs,
+                    },
+                  ]}
+                >
+                  {course.rating.toFixed(1)}
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    Typography.bodySmall,
+                    {
+                      color: '#E59819',
+                      fontSize: 14,
+                      marginRight: Spacing.sm,
+                    },
+                  ]}
+                >
+                  {renderStars(course.rating)}
+                </ThemedText>
+                {course.ratingCount && course.ratingCount > 0 && (
+                  <ThemedText
+                    style={[
+                      Typography.caption,
+                      {
+                        color: colors.textSecondary,
+                        fontSize: 12,
+                      },
+                    ]}
+                  >
+                    ({course.ratingCount.toLocaleString()})
+                  </ThemedText>
+                )}
+              </>
+            )}
+            {course.enrollmentCount && course.enrollmentCount > 0 && (
+              <ThemedText
+                style={[
+                  Typography.caption,
+                  {
+                    color: colors.textSecondary,
+                    fontSize: 12,
+                    marginLeft: course.rating && course.rating > 0 ? Spacing.xs : 0,
+                  },
+                ]}
+              >
+                {course.enrollmentCount.toLocaleString()} {course.enrollmentCount === 1 ? 'student' : 'students'}
+              </ThemedText>
+            )}
+          </View>
+        ) : (
+          <ThemedText
+            style={[
+              Typography.caption,
+              {
+                color: colors.textSecondary,
+                fontSize: 12,
+              },
+            ]}
+          >
+            New course
+          </ThemedText>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+  
   if (userProfile?.role === 'tutor') {
     return null;
   }
@@ -164,6 +336,76 @@ export default function HomeScreen() {
           </ThemedText>
         </Animated.View>
         
+        {/* Recommendation rails */}
+        {rails &&
+          [
+            {
+              key: 'for-you',
+              prefix: 'Recommended for ',
+              highlight: audienceLabel(userProfile?.year) || 'you',
+              suffix: '',
+              courses: rails.forYou.map(({ course }) => course),
+            },
+            {
+              key: 'peers',
+              prefix: 'Popular with ',
+              highlight: branchCode || 'your branch',
+              suffix: ' students',
+              courses: rails.popularWithPeers,
+            },
+            {
+              key: 'similar',
+              prefix: 'Because you completed ',
+              highlight: rails.similar?.basedOn.title || '',
+              suffix: '',
+              courses: rails.similar?.courses || [],
+            },
+          ]
+            .filter((rail) => rail.courses.length > 0)
+            .map((rail, railIndex) => (
+              <Animated.View
+                key={rail.key}
+                entering={FadeInDown.duration(400).delay(100 + railIndex * 100)}
+                style={styles.section}
+              >
+                <ThemedText
+                  style={[
+                    Typography.h2,
+                    {
+                      color: colors.text,
+                      fontSize: 22,
+                      fontWeight: '700',
+                      marginBottom: Spacing.md,
+                      paddingHorizontal: Spacing.lg,
+                    },
+                  ]}
+                  numberOfLines={2}
+                >
+                  {rail.prefix}
+                  <ThemedText
+                    style={[
+                      Typography.h2,
+                      {
+                        color: colors.primary,
+                        fontSize: 22,
+                        fontWeight: '700',
+                      },
+                    ]}
+                  >
+                    {rail.highlight}
+                  </ThemedText>
+                  {rail.suffix}
+                </ThemedText>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.coursesList}
+                >
+                  {rail.courses.map(renderCourseCard)}
+                </ScrollView>
+              </Animated.View>
+            ))}
+        
         {/* Top Courses Sections - Grouped by Category */}
         {(() => {
           // Group courses by category
@@ -221,136 +463,7 @@ export default function HomeScreen() {
                   showsHorizontalScrollIndicator={false}
                   contentContainerStyle={styles.coursesList}
                 >
-                  {categoryCourses.slice(0, 5).map((course, index) => (
-                  <TouchableOpacity
-                    key={course.id}
-                    style={[styles.courseCard, { width: CARD_WIDTH, backgroundColor: colors.surface }]}
-                    onPress={() => handleCoursePress(course.id)}
-                    activeOpacity={0.85}
-                  >
-                    {/* Thumbnail */}
-                    <View style={styles.thumbnailContainer}>
-                      {course.thumbnail ? (
-                        <Image
-                          source={{ uri: course.thumbnail }}
-                          style={styles.thumbnail}
-                          resizeMode="cover"
-                        />
-                      ) : (
-                        <View style={[styles.thumbnailPlaceholder, { backgroundColor: colors.surfaceElevated }]}>
-                          <IconSymbol name="play.circle.fill" size={40} color={colors.textTertiary} />
-                        </View>
-                      )}
-                    </View>
-                    
-                    {/* Content */}
-                    <View style={styles.courseContent}>
-                      <ThemedText
-                        style={[
-                          Typography.h3,
-                          {
-                            color: colors.text,
-                            fontSize: 16,
-                            fontWeight: '700',
-                            marginBottom: Spacing.xs,
-                            lineHeight: 22,
-                          },
-                        ]}
-                        numberOfLines={2}
-                      >
-                        {course.title}
-                      </ThemedText>
-                      
-                      <ThemedText
-                        style={[
-                          Typography.bodySmall,
-                          {
-                            color: colors.textSecondary,
-                            fontSize: 13,
-                            marginBottom: Spacing.xs,
-                          },
-                        ]}
-                        numberOfLines={1}
-                      >
-                        {course.trainerName}
-                      </ThemedText>
-                      
-                      {/* Rating and Enrollment */}
-                      {(course.rating && course.rating > 0) || (course.enrollmentCount && course.enrollmentCount > 0) ? (
-                        <View style={styles.ratingRow}>
-                          {course.rating && course.rating > 0 && (
-                            <>
-                              <ThemedText
-                                style={[
-                                  Typography.bodySmall,
-                                  {
-                                    color: '#B4690E',
-                                    fontSize: 14,
-                                    fontWeight: '700',
-                                    marginRight: Spacing.xs,
-                                  },
-                                ]}
-                              >
-                                {course.rating.toFixed(1)}
-                              </ThemedText>
-                              <ThemedText
-                                style={[
-                                  Typography.bodySmall,
-                                  {
-                                    color: '#E59819',
-                                    fontSize: 14,
-                                    marginRight: Spacing.sm,
-                                  },
-                                ]}
-                              >
-                                {renderStars(course.rating)}
-                              </ThemedText>
-                              {course.ratingCount && course.ratingCount > 0 && (
-                                <ThemedText
-                                  style={[
-                                    Typography.caption,
-                                    {
-                                      color: colors.textSecondary,
-                                      fontSize: 12,
-                                    },
-                                  ]}
-                                >
-                                  ({course.ratingCount.toLocaleString()})
-                                </ThemedText>
-                              )}
-                            </>
-                          )}
-                          {course.enrollmentCount && course.enrollmentCount > 0 && (
-                            <ThemedText
-                              style={[
-                                Typography.caption,
-                                {
-                                  color: colors.textSecondary,
-                                  fontSize: 12,
-                                  marginLeft: course.rating && course.rating > 0 ? Spacing.xs : 0,
-                                },
-                              ]}
-                            >
-                              {course.enrollmentCount.toLocaleString()} {course.enrollmentCount === 1 ? 'student' : 'students'}
-                            </ThemedText>
-                          )}
-                        </View>
-                      ) : (
-                        <ThemedText
-                          style={[
-                            Typography.caption,
-                            {
-                              color: colors.textSecondary,
-                              fontSize: 12,
-                            },
-                          ]}
-                        >
-                          New course
-                        </ThemedText>
-                      )}
-                    </View>
-                  </TouchableOpacity>
-                ))}
+                  {categoryCourses.slice(0, 5).map(renderCourseCard)}
               </ScrollView>
             </Animated.View>
             );
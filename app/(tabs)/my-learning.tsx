@@ -12,11 +12,14 @@ import {
   TouchableOpacity, 
   Image,
   RefreshControl,
+  Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { getEnrollment } from '@/services/enrollment-service';
 import { getMyLearnings, CourseProgressSummary } from '@/services/progress-service';
 import { getCourseById } from '@/services/course-service';
+import { getUserCertificates, issueCertificate } from '@/services/certificate-service';
+import { Certificate } from '@/types/certificate';
 import { Course } from '@/types/course';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { ProgressArc } from '@/components/ui/progress-arc';
@@ -35,6 +38,7 @@ export default function MyLearningScreen() {
   const styles = getStyles(colors);
   
   const [enrolledCourses, setEnrolledCourses] = useState<EnrolledCourseWithProgress[]>([]);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   
@@ -75,6 +79,25 @@ export default function MyLearningScreen() {
         });
       
       setEnrolledCourses(validCourses);
+      
+      // Backfill certificates for courses completed before certificates were issued
+      let userCertificates = await getUserCertificates(userProfile.uid);
+      const missingCertificates = validCourses.filter(
+        (item) =>
+          item.progress.status === 'completed' &&
+          !userCertificates.some((cert) => cert.course_id === item.course.id)
+      );
+      if (missingCertificates.length > 0) {
+        await Promise.all(
+          missingCertificates.map((item) =>
+            issueCertificate(userProfile.uid, item.course.id).catch((error) => {
+              console.error('Error issuing certificate:', error);
+            })
+          )
+        );
+        userCertificates = await getUserCertificates(userProfile.uid);
+      }
+      setCertificates(userCertificates);
     } catch (error) {
       console.error('Error loading enrolled courses:', error);
     } finally {
@@ -101,6 +124,13 @@ export default function MyLearningScreen() {
     router.push(`/course/${courseId}`);
   };
   
+  const handleCertificatePress = (certId: string) => {
+    router.push(`/verify/${certId}`);
+  };
+  
+  const getCourseCertificate = (courseId: string) =>
+    certificates.find((cert) => cert.course_id === courseId);
+  
   const handleContinueLearning = async (course: Course, progress: CourseProgressSummary) => {
     try {
       // Navigate to last accessed lecture if available, otherwise first lecture
@@ -208,6 +238,26 @@ export default function MyLearningScreen() {
           >
             Continue your courses
           </ThemedText>
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity
+              style={styles.downloadsLink}
+              onPress={() => router.push('/downloads')}
+              activeOpacity={0.7}
+            >
+              <IconSymbol name="arrow.down.circle" size={18} color={colors.primary} />
+              <ThemedText
+                style={[
+                  Typography.caption,
+                  {
+                    color: colors.primary,
+                    fontWeight: '600',
+                  },
+                ]}
+              >
+                Downloads
+              </ThemedText>
+            </TouchableOpacity>
+          )}
         </View>
         
         {/* Enrolled Courses */}
@@ -389,6 +439,46 @@ export default function MyLearningScreen() {
                             : 'Start Learning'}
                       </ThemedText>
                     </TouchableOpacity>
+                    
+                    {/* Certificate Link */}
+                    {getCourseCertificate(item.course.id) && (
+                      <TouchableOpacity
+                        style={styles.certificateLink}
+                        onPress={() => handleCertificatePress(getCourseCertificate(item.course.id)!.id)}
+                        activeOpacity={0.7}
+                      >
+                        <ThemedText
+                          style={[
+                            Typography.caption,
+                            {
+                              color: colors.primary,
+                              fontWeight: '600',
+                            },
+                          ]}
+                        >
+                          View Certificate
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                    
+                    {/* Notes Link */}
+                    <TouchableOpacity
+                      style={styles.certificateLink}
+                      onPress={() => router.push(`/course/${item.course.id}/notes`)}
+                      activeOpacity={0.7}
+                    >
+                      <ThemedText
+                        style={[
+                          Typography.caption,
+                          {
+                            color: colors.primary,
+                            fontWeight: '600',
+                          },
+                        ]}
+                      >
+                        My Notes
+                      </ThemedText>
+                    </TouchableOpacity>
                   </View>
                 </TouchableOpacity>
               </Animated.View>
@@ -396,6 +486,65 @@ export default function MyLearningScreen() {
           </View>
         )}
         
+        {/* Certificates */}
+        {certificates.length > 0 && (
+          <View style={styles.certificatesSection}>
+            <ThemedText
+              style={[
+                Typography.h3,
+                {
+                  color: colors.text,
+                  fontSize: 18,
+                  fontWeight: '700',
+                  marginBottom: Spacing.md,
+                },
+              ]}
+            >
+              Certificates
+            </ThemedText>
+            {certificates.map((cert, index) => (
+              <Animated.View
+                key={cert.id}
+                entering={FadeInDown.duration(400).delay(index * 100)}
+              >
+                <TouchableOpacity
+                  style={styles.certificateCard}
+                  onPress={() => handleCertificatePress(cert.id)}
+                  activeOpacity={0.85}
+                >
+                  <ThemedText style={styles.certificateIcon}>🎓</ThemedText>
+                  <View style={styles.certificateInfo}>
+                    <ThemedText
+                      style={[
+                        Typography.body,
+                        {
+                          color: colors.text,
+                          fontWeight: '600',
+                        },
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {cert.course_title}
+                    </ThemedText>
+                    <ThemedText
+                      style={[
+                        Typography.caption,
+                        {
+                          color: colors.textSecondary,
+                          fontSize: 12,
+                        },
+                      ]}
+                    >
+                      Completed {new Date(cert.completed_at).toLocaleDateString()} · {cert.id}
+                    </ThemedText>
+                  </View>
+                  <IconSymbol name="chevron.right" size={20} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </Animated.View>
+            ))}
+          </View>
+        )}
+        
         {/* Bottom spacing */}
         <View style={{ height: Spacing.xl }} />
       </ScrollView>
@@ -428,6 +577,13 @@ const baseStyles = StyleSheet.create({
   header: {
     marginBottom: Spacing.xl,
   },
+  downloadsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
   coursesList: {
     gap: Spacing.lg,
   },
@@ -475,6 +631,22 @@ const baseStyles = StyleSheet.create({
     height: '100%',
     borderRadius: 2,
   },
+  certificatesSection: {
+    marginTop: Spacing.xl,
+  },
+  certificateIcon: {
+    fontSize: 28,
+    lineHeight: 36,
+  },
+  certificateInfo: {
+    flex: 1,
+    marginHorizontal: Spacing.md,
+  },
+  certificateLink: {
+    alignSelf: 'flex-start',
+    paddingVertical: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
 });
 
 // Function to get dynamic styles based on colors
@@ -499,6 +671,16 @@ const getStyles = (colors: typeof Colors.dark) => StyleSheet.create({
     ...baseStyles.progressBarFill,
     backgroundColor: colors.primary,
   },
+  certificateCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
   continueButton: {
     flexDirection: 'row',
     alignItems: 'center',
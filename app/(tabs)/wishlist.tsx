@@ -1,48 +1,320 @@
+import { LottieLoader } from '@/components/lottie-loader';
 import { ThemedText } from '@/components/themed-text';
-import { Colors, Typography, Spacing } from '@/constants/theme';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { WishlistButton } from '@/components/wishlist-button';
+import { Colors, Typography, Spacing, Radius } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useCatalogScope } from '@/hooks/use-catalog-scope';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import React from 'react';
-import { ScrollView, StyleSheet, View } from 'react-native';
+import { getCourseById } from '@/services/course-service';
+import { enrollInCourse, getEnrollment } from '@/services/enrollment-service';
+import { getWishlist } from '@/services/wishlist-service';
+import { Course } from '@/types/course';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+interface WishlistedCourse {
+  course: Course;
+  isEnrolled: boolean;
+}
+
 export default function WishlistScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
-  
+  const { userProfile } = useAuth();
+  const scope = useCatalogScope();
+  const router = useRouter();
+
+  const [items, setItems] = useState<WishlistedCourse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [enrollingId, setEnrollingId] = useState<string | null>(null);
+
+  const loadWishlist = useCallback(async () => {
+    try {
+      if (!userProfile || userProfile.role !== 'student') return;
+
+      const wishlist = await getWishlist(userProfile.uid);
+
+      // Fetch course details and enrollment state for each saved course
+      const courses = await Promise.all(
+        wishlist.map(async (item) => {
+          const course = await getCourseById(item.courseId);
+          if (!course) return null;
+
+          const enrollment = await getEnrollment(userProfile.uid, item.courseId);
+          return {
+            course,
+            isEnrolled: enrollment !== null,
+          } as WishlistedCourse;
+        })
+      );
+
+      setItems(courses.filter((item): item is WishlistedCourse => item !== null));
+    } catch (error) {
+      console.error('Error loading wishlist:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userProfile]);
+
+  // Reload whenever the tab gains focus, since hearts can be toggled elsewhere
+  useFocusEffect(
+    useCallback(() => {
+      if (userProfile && userProfile.role === 'student') {
+        loadWishlist();
+      } else {
+        setLoading(false);
+      }
+    }, [userProfile, loadWishlist])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadWishlist();
+  };
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins > 0 ? `${mins}m` : ''}`;
+    }
+    return `${mins}m`;
+  };
+
+  const handleRemoved = (courseId: string, wishlisted: boolean) => {
+    if (!wishlisted) {
+      setItems((prev) => prev.filter((item) => item.course.id !== courseId));
+    }
+  };
+
+  const handleEnroll = async (course: Course) => {
+    if (!userProfile) return;
+
+    try {
+      setEnrollingId(course.id);
+      await enrollInCourse(userProfile.uid, course.id, scope);
+      setItems((prev) =>
+        prev.map((item) =>
+          item.course.id === course.id ? { ...item, isEnrolled: true } : item
+        )
+      );
+
+      if (course.topics.length > 0) {
+        router.push(`/course/${course.id}/lesson/${course.topics[0].id}`);
+      } else {
+        router.push(`/course/${course.id}`);
+      }
+    } catch (error) {
+      console.error('Error enrolling from wishlist:', error);
+      Alert.alert('Error', 'Failed to enroll. Please try again.');
+    } finally {
+      setEnrollingId(null);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <ThemedText
+        style={[
+          Typography.h1,
+          {
+            color: '#1C1D1F',
+            fontSize: 24,
+            fontWeight: '700',
+          },
+        ]}
+      >
+        Wishlist
+      </ThemedText>
+      <ThemedText
+        style={[
+          Typography.body,
+          {
+            color: '#6A6F73',
+            marginTop: Spacing.sm,
+          },
+        ]}
+      >
+        Your saved courses
+      </ThemedText>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: '#FFFFFF' }]}
+        edges={['top']}
+      >
+        <View style={styles.loadingContainer}>
+          <LottieLoader size={150} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
-    <SafeAreaView 
+    <SafeAreaView
       style={[styles.container, { backgroundColor: '#FFFFFF' }]}
       edges={['top']}
     >
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+          />
+        }
       >
-        <View style={styles.header}>
-          <ThemedText
-            style={[
-              Typography.h1,
-              {
-                color: '#1C1D1F',
-                fontSize: 24,
-                fontWeight: '700',
-              },
-            ]}
-          >
-            Wishlist
-          </ThemedText>
-          <ThemedText
-            style={[
-              Typography.body,
-              {
-                color: '#6A6F73',
-                marginTop: Spacing.sm,
-              },
-            ]}
-          >
-            Your saved courses
-          </ThemedText>
-        </View>
+        {renderHeader()}
+
+        {userProfile?.role !== 'student' ? (
+          <View style={styles.emptyContainer}>
+            <ThemedText style={[Typography.body, { color: '#6A6F73' }]}>
+              Only students can save courses
+            </ThemedText>
+          </View>
+        ) : items.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <IconSymbol name="heart" size={64} color="#6A6F73" />
+            <ThemedText
+              style={[
+                Typography.h3,
+                {
+                  color: '#1C1D1F',
+                  fontSize: 18,
+                  fontWeight: '600',
+                  marginTop: Spacing.lg,
+                  marginBottom: Spacing.sm,
+                },
+              ]}
+            >
+              Your wishlist is empty
+            </ThemedText>
+            <ThemedText
+              style={[
+                Typography.body,
+                {
+                  color: '#6A6F73',
+                  textAlign: 'center',
+                  paddingHorizontal: Spacing.xl,
+                },
+              ]}
+            >
+              Tap the heart on any course to save it for later
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.list}>
+            {items.map((item, index) => (
+              <Animated.View
+                key={item.course.id}
+                entering={FadeInDown.duration(400).delay(index * 100)}
+              >
+                <TouchableOpacity
+                  style={styles.courseCard}
+                  onPress={() => router.push(`/course/${item.course.id}`)}
+                  activeOpacity={0.85}
+                >
+                  <View style={styles.thumbnailContainer}>
+                    {item.course.thumbnail ? (
+                      <Image
+                        source={{ uri: item.course.thumbnail }}
+                        style={styles.thumbnail}
+                        resizeMode="cover"
+                      />
+                    ) : (
+                      <View style={styles.thumbnailPlaceholder}>
+                        <IconSymbol name="play.circle.fill" size={32} color="#6A6F73" />
+                      </View>
+                    )}
+                  </View>
+
+                  <View style={styles.courseContent}>
+                    <View style={styles.titleRow}>
+                      <ThemedText
+                        style={[
+                          Typography.h3,
+                          {
+                            color: '#1C1D1F',
+                            fontSize: 16,
+                            fontWeight: '700',
+                            flex: 1,
+                          },
+                        ]}
+                        numberOfLines={2}
+                      >
+                        {item.course.title}
+                      </ThemedText>
+                      <WishlistButton
+                        courseId={item.course.id}
+                        color="#1C1D1F"
+                        size={20}
+                        style={styles.heart}
+                        onChange={(wishlisted) => handleRemoved(item.course.id, wishlisted)}
+                      />
+                    </View>
+
+                    <ThemedText
+                      style={[
+                        Typography.bodySmall,
+                        { color: '#6A6F73', fontSize: 13, marginTop: Spacing.xs },
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {item.course.trainerName} • {formatDuration(item.course.totalDuration)}
+                    </ThemedText>
+
+                    <TouchableOpacity
+                      style={[
+                        styles.enrollButton,
+                        { backgroundColor: item.isEnrolled ? '#4CAF50' : colors.primary },
+                      ]}
+                      onPress={() =>
+                        item.isEnrolled
+                          ? router.push(`/course/${item.course.id}`)
+                          : handleEnroll(item.course)
+                      }
+                      disabled={enrollingId !== null}
+                      activeOpacity={0.7}
+                    >
+                      {enrollingId === item.course.id ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" />
+                      ) : (
+                        <ThemedText
+                          style={[
+                            Typography.bodySmall,
+                            { color: '#FFFFFF', fontSize: 14, fontWeight: '600' },
+                          ]}
+                        >
+                          {item.isEnrolled ? 'Go to course' : 'Enroll now'}
+                        </ThemedText>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </TouchableOpacity>
+              </Animated.View>
+            ))}
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -61,5 +333,61 @@ const styles = StyleSheet.create({
   header: {
     marginBottom: Spacing.xl,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.xxl * 2,
+  },
+  list: {
+    gap: Spacing.lg,
+  },
+  courseCard: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: Radius.md,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#D1D7DC',
+  },
+  thumbnailContainer: {
+    width: 120,
+    minHeight: 120,
+    backgroundColor: '#F7F9FA',
+  },
+  thumbnail: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbnailPlaceholder: {
+    width: '100%',
+    height: '100%',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  courseContent: {
+    flex: 1,
+    padding: Spacing.md,
+    justifyContent: 'space-between',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  heart: {
+    marginLeft: Spacing.sm,
+  },
+  enrollButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: Radius.sm,
+    marginTop: Spacing.sm,
+    minHeight: 36,
+  },
 });
-
@@ -27,6 +27,7 @@ export default function TutorLayout() {
             <Stack.Screen name="dashboard" />
             <Stack.Screen name="create-course" />
             <Stack.Screen name="edit-course" />
+            <Stack.Screen name="course-analytics" />
             <Stack.Screen name="edit-profile" />
           </Stack>
         </View>
@@ -39,6 +40,7 @@ export default function TutorLayout() {
       <Stack.Screen name="dashboard" />
       <Stack.Screen name="create-course" />
       <Stack.Screen name="edit-course" />
+      <Stack.Screen name="course-analytics" />
       <Stack.Screen name="edit-profile" />
     </Stack>
   );
@@ -0,0 +1,463 @@
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Glows, Layout, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { exportCsv } from '@/lib/csv';
+import { RANGE_PRESETS, RangePreset, toRange } from '@/lib/date-range';
+import { courseAnalyticsToRows, getCourseAnalytics } from '@/services/analytics-service';
+import { getCourseById } from '@/services/course-service';
+import { CourseAnalytics, DailyCount, DateRange } from '@/types/analytics';
+import { Course } from '@/types/course';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const MAX_BARS = 30;
+
+/**
+ * Fill in days without enrollments, then merge days so the chart has at most MAX_BARS bars
+ */
+function toBars(byDay: DailyCount[], range: DateRange): { label: string; count: number }[] {
+  const first = range.from || byDay[0]?.date;
+  if (!first) return [];
+  const counts = new Map(byDay.map((day) => [day.date, day.count]));
+
+  const days: DailyCount[] = [];
+  const end = new Date(range.to || new Date().toISOString().slice(0, 10));
+  for (let day = new Date(first); day <= end; day.setDate(day.getDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    days.push({ date, count: counts.get(date) || 0 });
+  }
+
+  const perBar = Math.ceil(days.length / MAX_BARS);
+  const bars: { label: string; count: number }[] = [];
+  for (let i = 0; i < days.length; i += perBar) {
+    const chunk = days.slice(i, i + perBar);
+    bars.push({
+      label: chunk[0].date.slice(5),
+      count: chunk.reduce((sum, day) => sum + day.count, 0),
+    });
+  }
+  return bars;
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+export default function CourseAnalyticsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [analytics, setAnalytics] = useState<CourseAnalytics | null>(null);
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    getCourseById(id)
+      .then(setCourse)
+      .catch((error) => {
+        console.error('Error loading course:', error);
+        setLoading(false);
+      });
+  }, [id]);
+
+  useEffect(() => {
+    if (!course) return;
+    let cancelled = false;
+    setLoading(true);
+    getCourseAnalytics(course, toRange(preset))
+      .then((result) => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch((error) => console.error('Error loading analytics:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [course, preset]);
+
+  const handleExport = async () => {
+    if (!course || !analytics) return;
+    setExporting(true);
+    try {
+      const slug = course.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      await exportCsv(`${slug || 'course'}-analytics-${preset}.csv`, courseAnalyticsToRows(course, analytics));
+    } catch (error) {
+      console.error('Error exporting analytics:', error);
+      Alert.alert('Error', 'Failed to export analytics. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const bars = analytics ? toBars(analytics.enrollmentsByDay, analytics.range) : [];
+  const maxBar = Math.max(1, ...bars.map((bar) => bar.count));
+  const dropOffTopic = analytics?.topics.find((topic) => topic.topicId === analytics.dropOffTopicId);
+  const maxRatingCount = analytics ? Math.max(1, ...Object.values(analytics.ratingDistribution)) : 1;
+
+  const sectionTitle = (title: string) => (
+    <ThemedText style={[Typography.h3, { color: colors.text, marginBottom: Spacing.md }]}>{title}</ThemedText>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, Platform.OS === 'web' && styles.headerWeb]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerTitle}>
+          <ThemedText style={[Typography.h2, { color: colors.text, fontSize: 20 }]} numberOfLines={1}>
+            Analytics
+          </ThemedText>
+          {course && (
+            <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]} numberOfLines={1}>
+              {course.title}
+            </ThemedText>
+          )}
+        </View>
+        <Button
+          title="Export CSV"
+          onPress={handleExport}
+          variant="secondary"
+          size="small"
+          loading={exporting}
+          disabled={!analytics || loading}
+        />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, Platform.OS === 'web' && styles.scrollContentWeb]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={Platform.OS === 'web' ? styles.contentWrapWeb : undefined}>
+          {/* Date range */}
+          <View style={styles.rangeRow}>
+            {RANGE_PRESETS.map((option) => {
+              const selected = option.key === preset;
+              return (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[
+                    styles.rangeChip,
+                    {
+                      backgroundColor: selected ? colors.primary : 'transparent',
+                      borderColor: selected ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => setPreset(option.key)}
+                >
+                  <ThemedText
+                    style={[Typography.caption, { color: selected ? '#FFFFFF' : colors.textSecondary, fontWeight: '600' }]}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {loading || !analytics ? (
+            <ActivityIndicator size="large" color={colors.accent} style={styles.loading} />
+          ) : (
+            <>
+              {/* Summary */}
+              <View style={styles.statsRow}>
+                <View style={[styles.statCard, { backgroundColor: colors.surface }]}>
+                  <ThemedText style={[Typography.h2, { color: colors.text }]}>{analytics.totalEnrollments}</ThemedText>
+                  <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>Enrollments</ThemedText>
+                </View>
+                <View style={[styles.statCard, { backgroundColor: colors.surface }]}>
+                  <ThemedText style={[Typography.h2, { color: colors.text }]}>
+                    {analytics.ratingCount > 0 ? analytics.averageRating.toFixed(1) : '–'}
+                  </ThemedText>
+                  <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                    Avg rating ({analytics.ratingCount})
+                  </ThemedText>
+                </View>
+                <View style={[styles.statCard, { backgroundColor: colors.surface }]}>
+                  <ThemedText style={[Typography.h2, { color: colors.text }]}>
+                    {analytics.topics[analytics.topics.length - 1]?.completionRate ?? 0}%
+                  </ThemedText>
+                  <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>Reached the end</ThemedText>
+                </View>
+              </View>
+
+              {dropOffTopic && (
+                <View style={[styles.callout, { backgroundColor: colors.accent + '15', borderColor: colors.accent }]}>
+                  <ThemedText style={[Typography.bodySmall, { color: colors.text }]}>
+                    Most students stop at{' '}
+                    <ThemedText style={[Typography.bodySmall, { color: colors.text, fontWeight: '700' }]}>
+                      {dropOffTopic.title}
+                    </ThemedText>{' '}
+                    ({dropOffTopic.stoppedHere} {dropOffTopic.stoppedHere === 1 ? 'student' : 'students'})
+                  </ThemedText>
+                </View>
+              )}
+
+              {/* Enrollments over time */}
+              <View style={[styles.card, { backgroundColor: colors.surface }]}>
+                {sectionTitle('Enrollments over time')}
+                {bars.length === 0 ? (
+                  <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+                    No enrollments in this period.
+                  </ThemedText>
+                ) : (
+                  <>
+                    <View style={styles.chart}>
+                      {bars.map((bar) => (
+                        <View key={bar.label} style={styles.barColumn}>
+                          <View
+                            style={[
+                              styles.bar,
+                              {
+                                height: `${(bar.count / maxBar) * 100}%`,
+                                backgroundColor: colors.primary,
+                              },
+                            ]}
+                          />
+                        </View>
+                      ))}
+                    </View>
+                    <View style={styles.chartAxis}>
+                      <ThemedText style={[Typography.caption, { color: colors.textTertiary }]}>
+                        {bars[0].label}
+                      </ThemedText>
+                      <ThemedText style={[Typography.caption, { color: colors.textTertiary }]}>
+                        Peak {maxBar}
+                      </ThemedText>
+                      <ThemedText style={[Typography.caption, { color: colors.textTertiary }]}>
+                        {bars[bars.length - 1].label}
+                      </ThemedText>
+                    </View>
+                  </>
+                )}
+              </View>
+
+              {/* Completion funnel */}
+              <View style={[styles.card, { backgroundColor: colors.surface }]}>
+                {sectionTitle('Completion by topic')}
+                {analytics.topics.map((topic, index) => {
+                  const isDropOff = topic.topicId === analytics.dropOffTopicId;
+                  const watchedShare =
+                    topic.videoDurationSeconds > 0
+                      ? Math.min(100, Math.round((topic.averageWatchedSeconds / topic.videoDurationSeconds) * 100))
+                      : 0;
+                  return (
+                    <View key={topic.topicId} style={styles.funnelRow}>
+                      <View style={styles.funnelHeader}>
+                        <ThemedText
+                          style={[
+                            Typography.bodySmall,
+                            { color: isDropOff ? colors.accent : colors.text, flex: 1, fontWeight: '600' },
+                          ]}
+                          numberOfLines={1}
+                        >
+                          {index + 1}. {topic.title}
+                        </ThemedText>
+                        <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                          {topic.completed}/{analytics.totalEnrollments} • {topic.completionRate}%
+                        </ThemedText>
+                      </View>
+                      <View style={[styles.track, { backgroundColor: colors.progressBackground }]}>
+                        <View
+                          style={[
+                            styles.fill,
+                            {
+                              width: `${topic.completionRate}%`,
+                              backgroundColor: isDropOff ? colors.accent : colors.primary,
+                            },
+                          ]}
+                        />
+                      </View>
+                      <ThemedText style={[Typography.caption, { color: colors.textTertiary }]}>
+                        Avg watched {formatSeconds(topic.averageWatchedSeconds)} of{' '}
+                        {formatSeconds(topic.videoDurationSeconds)} ({watchedShare}%)
+                        {topic.stoppedHere > 0 ? ` • ${topic.stoppedHere} stopped here` : ''}
+                      </ThemedText>
+                    </View>
+                  );
+                })}
+              </View>
+
+              {/* Ratings */}
+              <View style={[styles.card, { backgroundColor: colors.surface }]}>
+                {sectionTitle('Ratings')}
+                {([5, 4, 3, 2, 1] as const).map((stars) => (
+                  <View key={stars} style={styles.ratingRow}>
+                    <ThemedText style={[Typography.caption, { color: colors.textSecondary, width: 28 }]}>
+                      {stars}★
+                    </ThemedText>
+                    <View style={[styles.track, styles.ratingTrack, { backgroundColor: colors.progressBackground }]}>
+                      <View
+                        style={[
+                          styles.fill,
+                          {
+                            width: `${(analytics.ratingDistribution[stars] / maxRatingCount) * 100}%`,
+                            backgroundColor: colors.warning,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <ThemedText style={[Typography.caption, { color: colors.textSecondary, width: 32, textAlign: 'right' }]}>
+                      {analytics.ratingDistribution[stars]}
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
+          <View style={{ height: Spacing.xxl }} />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  headerWeb: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.lg,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+  },
+  scrollContentWeb: {
+    padding: Spacing.xl,
+  },
+  contentWrapWeb: {
+    maxWidth: Layout.contentMaxWidth,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  rangeChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+  },
+  loading: {
+    marginTop: Spacing.xxl,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  statCard: {
+    flex: 1,
+    padding: Spacing.md,
+    borderRadius: Radius.md,
+    ...Glows.card,
+  },
+  callout: {
+    padding: Spacing.md,
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: Radius.card,
+    marginBottom: Spacing.md,
+    ...Glows.card,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 120,
+    gap: 2,
+  },
+  barColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    minHeight: 2,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: Spacing.xs,
+  },
+  funnelRow: {
+    marginBottom: Spacing.md,
+    gap: Spacing.xs,
+  },
+  funnelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  track: {
+    height: 8,
+    borderRadius: Radius.full,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: Radius.full,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  ratingTrack: {
+    flex: 1,
+  },
+});
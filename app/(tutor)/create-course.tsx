@@ -1,19 +1,27 @@
 import { ThemedText } from '@/components/themed-text';
+import { CaptionUpload } from '@/components/tutor/caption-upload';
+import { QuizEditor } from '@/components/tutor/quiz-editor';
+import { SectionEditor, SectionPicker } from '@/components/tutor/section-editor';
+import { UnlockSettings } from '@/components/tutor/unlock-settings';
 import { VideoUpload } from '@/components/tutor/video-upload';
 import { Button } from '@/components/ui/button';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, Glows, Layout, Radius, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { normalizeSections, syncTopicsWithSections } from '@/lib/course-sections';
 import { getBranchesByUniversity, getUniversities } from '@/services/admin-service';
 import { createCourse, getCourseById } from '@/services/course-service';
+import { getJobIdFromVideoUrl } from '@/services/caption-service';
+import { getQuizValidationError, normalizeQuiz } from '@/services/quiz-service';
 import { updateVideoStatusAndPoll } from '@/services/video-status-service';
 import { VideoUploadResult } from '@/services/video-upload-service';
 import { Branch, University } from '@/types/admin';
-import { CourseFormData } from '@/types/course';
+import { AuthoredQuiz, CaptionTrack, CourseFormData, CourseSection, CourseStatus } from '@/types/course';
 import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
+    Alert,
     Image,
     KeyboardAvoidingView,
     Platform,
@@ -36,6 +44,7 @@ export default function CreateCourseScreen() {
   
   const [step, setStep] = useState<Step>('basics');
   const [loading, setLoading] = useState(false);
+  const [savingStatus, setSavingStatus] = useState<CourseStatus | null>(null);
   
   // Step 1: Course Basics
   const [title, setTitle] = useState('');
@@ -145,9 +154,15 @@ export default function CreateCourseScreen() {
     videoUrl: string;
     videoJobId?: string;
     videoProcessingStatus?: 'PROCESSING' | 'COMPLETE' | 'FAILED';
+    quiz?: AuthoredQuiz;
+    captions?: CaptionTrack[];
+    sectionId?: string;
   }>>([
     { title: '', description: '', videoDuration: '', videoUrl: '' },
   ]);
+  const [sections, setSections] = useState<CourseSection[]>([]);
+  const [sequential, setSequential] = useState(false);
+  const [prerequisiteCourseIds, setPrerequisiteCourseIds] = useState<string[]>([]);
   
   const addOutcome = () => {
     if (newOutcome.trim()) {
@@ -161,7 +176,29 @@ export default function CreateCourseScreen() {
   };
   
   const addTopic = () => {
-    setTopics([...topics, { title: '', description: '', videoDuration: '', videoUrl: '' }]);
+    // New topics go into the last section
+    const lastSection = sections[sections.length - 1];
+    setTopics([
+      ...topics,
+      {
+        title: '',
+        description: '',
+        videoDuration: '',
+        videoUrl: '',
+        ...(lastSection ? { sectionId: lastSection.id } : {}),
+      },
+    ]);
+  };
+
+  const handleSectionsChange = (updatedSections: CourseSection[]) => {
+    setSections(updatedSections);
+    setTopics((prev) => syncTopicsWithSections(prev, updatedSections));
+  };
+
+  const updateTopicSection = (index: number, sectionId: string | undefined) => {
+    const updated = [...topics];
+    updated[index] = { ...updated[index], sectionId };
+    setTopics(syncTopicsWithSections(updated, sections));
   };
 
   const handleVideoUploadComplete = (index: number, result: VideoUploadResult) => {
@@ -175,6 +212,7 @@ export default function CreateCourseScreen() {
       videoUrl: result.videoUrl,
       videoJobId: result.jobId,
       videoProcessingStatus: result.status,
+      captions: undefined, // Tracks were stored with the previous video
     };
     
     console.log(`📚 [CREATE COURSE] Updated topic ${index}:`, JSON.stringify(updated[index], null, 2));
@@ -195,6 +233,18 @@ export default function CreateCourseScreen() {
     updated[index] = { ...updated[index], [field]: value };
     setTopics(updated);
   };
+
+  const updateTopicQuiz = (index: number, quiz: AuthoredQuiz | undefined) => {
+    const updated = [...topics];
+    updated[index] = { ...updated[index], quiz };
+    setTopics(updated);
+  };
+
+  const updateTopicCaptions = (index: number, captions: CaptionTrack[]) => {
+    const updated = [...topics];
+    updated[index] = { ...updated[index], captions };
+    setTopics(updated);
+  };
   
   // Demo video URLs - you can replace these with your actual video URLs
   const getDemoVideoUrl = (index: number) => {
@@ -223,7 +273,8 @@ export default function CreateCourseScreen() {
     }
   };
   
-  const handleCreateCourse = async () => {
+  // 'draft' keeps the course private; 'in_review' sends it to the admin review queue
+  const handleCreateCourse = async (status: CourseStatus) => {
     if (!user?.uid || !userProfile?.displayName) return;
     
     // Validate
@@ -235,7 +286,22 @@ export default function CreateCourseScreen() {
       return;
     }
     
+    if (sections.some((section) => !section.title.trim())) {
+      Alert.alert('Untitled section', 'Give every section a title or remove it.');
+      return;
+    }
+    
+    // Quizzes must be complete before saving
+    for (const topic of validTopics) {
+      const quizError = topic.quiz ? getQuizValidationError(topic.quiz) : null;
+      if (quizError) {
+        Alert.alert('Incomplete quiz', `${topic.title.trim()}: ${quizError}`);
+        return;
+      }
+    }
+    
     setLoading(true);
+    setSavingStatus(status);
     
     try {
       const courseData: CourseFormData = {
@@ -249,6 +315,9 @@ export default function CreateCourseScreen() {
         university_ids: selectedUniversityIds.length > 0 ? selectedUniversityIds : undefined,
         branch_ids: selectedBranchIds.length > 0 ? selectedBranchIds : undefined,
         year: year || undefined,
+        ...(sections.length > 0 ? { sections: normalizeSections(sections) } : {}),
+        ...(sequential ? { sequential: true } : {}),
+        ...(prerequisiteCourseIds.length > 0 ? { prerequisiteCourseIds } : {}),
         topics: validTopics.map((topic, index) => ({
           title: topic.title.trim(),
           description: topic.description.trim() || undefined,
@@ -257,6 +326,9 @@ export default function CreateCourseScreen() {
           videoUrl: topic.videoUrl.trim() || getDemoVideoUrl(index), // Use provided URL or demo video
           videoJobId: topic.videoJobId,
           videoProcessingStatus: topic.videoProcessingStatus,
+          ...(topic.quiz ? { quiz: normalizeQuiz(topic.quiz) } : {}),
+          ...(topic.captions && topic.captions.length > 0 ? { captions: topic.captions } : {}),
+          ...(topic.sectionId ? { sectionId: topic.sectionId } : {}),
           videoUploadedAt: topic.videoJobId ? new Date().toISOString() : undefined,
         })),
       };
@@ -264,7 +336,7 @@ export default function CreateCourseScreen() {
       console.log(`📚 [CREATE COURSE] Creating course with data:`, JSON.stringify(courseData, null, 2));
       console.log(`📚 [CREATE COURSE] Topics to create:`, JSON.stringify(courseData.topics, null, 2));
       
-      const courseId = await createCourse(courseData, user.uid, userProfile.displayName);
+      const courseId = await createCourse(courseData, user.uid, userProfile.displayName, status);
       console.log(`✅ [CREATE COURSE] Course created with ID: ${courseId}`);
       
       // Fetch the created course to get actual topic IDs
@@ -317,6 +389,7 @@ export default function CreateCourseScreen() {
       console.error('Error creating course:', error);
     } finally {
       setLoading(false);
+      setSavingStatus(null);
     }
   };
   
@@ -911,6 +984,55 @@ export default function CreateCourseScreen() {
                 Add topics and lessons to structure your course content.
               </ThemedText>
               
+              <View style={styles.inputGroup}>
+                <ThemedText
+                  style={[
+                    Typography.body,
+                    {
+                      color: colors.text,
+                      fontWeight: '600',
+                      marginBottom: Spacing.xs,
+                    },
+                  ]}
+                >
+                  Sections (Optional)
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    Typography.caption,
+                    {
+                      color: colors.textTertiary,
+                      marginBottom: Spacing.md,
+                    },
+                  ]}
+                >
+                  Group topics into modules or weeks. Students see each section as a collapsible group.
+                </ThemedText>
+                <SectionEditor value={sections} onChange={handleSectionsChange} disabled={loading} />
+              </View>
+              
+              <View style={styles.inputGroup}>
+                <ThemedText
+                  style={[
+                    Typography.body,
+                    {
+                      color: colors.text,
+                      fontWeight: '600',
+                      marginBottom: Spacing.md,
+                    },
+                  ]}
+                >
+                  Access
+                </ThemedText>
+                <UnlockSettings
+                  sequential={sequential}
+                  onSequentialChange={setSequential}
+                  prerequisiteCourseIds={prerequisiteCourseIds}
+                  onPrerequisitesChange={setPrerequisiteCourseIds}
+                  disabled={loading}
+                />
+              </View>
+              
               {topics.map((topic, index) => (
                 <View key={index} style={[styles.topicCard, { backgroundColor: colors.surface }]}>
                   <View style={styles.topicHeader}>
@@ -963,6 +1085,28 @@ export default function CreateCourseScreen() {
                     />
                   </View>
                   
+                  {sections.length > 0 && (
+                    <View style={styles.inputGroup}>
+                      <ThemedText
+                        style={[
+                          Typography.bodySmall,
+                          {
+                            color: colors.textSecondary,
+                            marginBottom: Spacing.xs,
+                          },
+                        ]}
+                      >
+                        Section
+                      </ThemedText>
+                      <SectionPicker
+                        sections={sections}
+                        value={topic.sectionId}
+                        onChange={(sectionId) => updateTopicSection(index, sectionId)}
+                        disabled={loading}
+                      />
+                    </View>
+                  )}
+                  
                   <View style={styles.inputGroup}>
                     <ThemedText
                       style={[
@@ -1076,6 +1220,45 @@ export default function CreateCourseScreen() {
                       </ThemedText>
                     )}
                   </View>
+                  
+                  <View style={styles.inputGroup}>
+                    <ThemedText
+                      style={[
+                        Typography.bodySmall,
+                        {
+                          color: colors.textSecondary,
+                          marginBottom: Spacing.xs,
+                        },
+                      ]}
+                    >
+                      Captions (Optional)
+                    </ThemedText>
+                    <CaptionUpload
+                      value={topic.captions}
+                      onChange={(captions) => updateTopicCaptions(index, captions)}
+                      videoJobId={topic.videoJobId || getJobIdFromVideoUrl(topic.videoUrl)}
+                      disabled={loading}
+                    />
+                  </View>
+                  
+                  <View style={styles.inputGroup}>
+                    <ThemedText
+                      style={[
+                        Typography.bodySmall,
+                        {
+                          color: colors.textSecondary,
+                          marginBottom: Spacing.xs,
+                        },
+                      ]}
+                    >
+                      Quiz After This Topic (Optional)
+                    </ThemedText>
+                    <QuizEditor
+                      value={topic.quiz}
+                      onChange={(quiz) => updateTopicQuiz(index, quiz)}
+                      disabled={loading}
+                    />
+                  </View>
                 </View>
               ))}
               
@@ -1089,13 +1272,30 @@ export default function CreateCourseScreen() {
               
               <View style={{ height: Spacing.lg }} />
               
+              <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, marginBottom: Spacing.md }]}>
+                Students see the course once an admin approves it. Save a draft to keep working on it first.
+              </ThemedText>
+              
               <Button
-                title="Create Course"
-                onPress={handleCreateCourse}
+                title="Submit for Review"
+                onPress={() => handleCreateCourse('in_review')}
                 variant="primary"
                 size="large"
                 fullWidth
-                loading={loading}
+                loading={savingStatus === 'in_review'}
+                disabled={loading}
+              />
+              
+              <View style={{ height: Spacing.md }} />
+              
+              <Button
+                title="Save Draft"
+                onPress={() => handleCreateCourse('draft')}
+                variant="secondary"
+                size="large"
+                fullWidth
+                loading={savingStatus === 'draft'}
+                disabled={loading}
               />
             </Animated.View>
           )}
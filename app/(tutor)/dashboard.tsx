@@ -1,26 +1,49 @@
 import { Logo } from '@/components/logo';
 import { ThemedText } from '@/components/themed-text';
+import { QuestionInbox } from '@/components/tutor/question-inbox';
 import { Button } from '@/components/ui/button';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { UserMenu } from '@/components/user-menu';
 import { Colors, Glows, Layout, Radius, Shadows, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { getCoursesByTrainer } from '@/services/course-service';
-import { Course } from '@/types/course';
+import {
+  archiveCourse,
+  countCoursesByTrainer,
+  getCourseStatus,
+  getCoursesByTrainerPage,
+  submitCourseForReview,
+} from '@/services/course-service';
+import { Course, CourseStatus } from '@/types/course';
 import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
-import { Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import {
+  ActivityIndicator,
+  Alert,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+// Start loading the next page this far (px) before the end of the list
+const LOAD_MORE_THRESHOLD = 600;
+
 export default function TutorDashboard() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
   const { userProfile, user } = useAuth();
   const [courses, setCourses] = useState<Course[]>([]);
+  const [courseCount, setCourseCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   
   useEffect(() => {
     if (user?.uid) {
@@ -31,8 +54,13 @@ export default function TutorDashboard() {
   const loadCourses = async () => {
     try {
       if (user?.uid) {
-        const trainerCourses = await getCoursesByTrainer(user.uid);
-        setCourses(trainerCourses);
+        const [page, count] = await Promise.all([
+          getCoursesByTrainerPage(user.uid),
+          countCoursesByTrainer(user.uid),
+        ]);
+        setCourses(page.courses);
+        setNextCursor(page.nextCursor);
+        setCourseCount(count);
       }
     } catch (error) {
       console.error('Error loading courses:', error);
@@ -41,6 +69,53 @@ export default function TutorDashboard() {
     }
   };
   
+  const loadMore = async () => {
+    if (!user?.uid || !nextCursor || loadingMore || loading) return;
+    setLoadingMore(true);
+    try {
+      const page = await getCoursesByTrainerPage(user.uid, nextCursor);
+      setCourses((prev) => [...prev, ...page.courses]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more courses:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+  
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+      loadMore();
+    }
+  };
+  
+  const [updatingCourseId, setUpdatingCourseId] = useState<string | null>(null);
+
+  const changeStatus = async (courseId: string, action: 'submit' | 'archive') => {
+    setUpdatingCourseId(courseId);
+    try {
+      if (action === 'submit') {
+        await submitCourseForReview(courseId);
+      } else {
+        await archiveCourse(courseId);
+      }
+      await loadCourses();
+    } catch (error) {
+      console.error('Error updating course status:', error);
+      Alert.alert('Error', 'Failed to update the course. Please try again.');
+    } finally {
+      setUpdatingCourseId(null);
+    }
+  };
+
+  const statusLabels: Record<CourseStatus, { label: string; color: string }> = {
+    draft: { label: 'Draft', color: colors.textSecondary },
+    in_review: { label: 'In Review', color: colors.warning },
+    published: { label: 'Published', color: colors.success },
+    archived: { label: 'Archived', color: colors.textTertiary },
+  };
+  
   const isWeb = Platform.OS === 'web';
 
   return (
@@ -82,6 +157,8 @@ export default function TutorDashboard() {
         style={styles.scrollView}
         contentContainerStyle={[styles.scrollContent, isWeb && styles.scrollContentWeb]}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         <View style={[isWeb && styles.contentWrapWeb]}>
         {/* Welcome Header */}
@@ -134,7 +211,7 @@ export default function TutorDashboard() {
                 },
               ]}
             >
-              {courses.length}
+              {courseCount}
             </ThemedText>
             <ThemedText
               style={[
@@ -185,6 +262,25 @@ export default function TutorDashboard() {
           />
         </Animated.View>
         
+        {/* Unanswered Questions */}
+        {user?.uid && (
+          <Animated.View entering={FadeInDown.duration(600).delay(250)} style={[styles.section, styles.inboxSection]}>
+            <ThemedText
+              style={[
+                Typography.h2,
+                {
+                  color: colors.text,
+                  marginBottom: Spacing.md,
+                  fontSize: 22,
+                },
+              ]}
+            >
+              Unanswered Questions
+            </ThemedText>
+            <QuestionInbox trainerId={user.uid} courses={courses} />
+          </Animated.View>
+        )}
+        
         {/* My Courses */}
         {courses.length > 0 && (
           <Animated.View entering={FadeInDown.duration(600).delay(300)} style={styles.section}>
@@ -201,7 +297,10 @@ export default function TutorDashboard() {
               My Courses
             </ThemedText>
             
-            {courses.map((course, index) => (
+            {courses.map((course, index) => {
+              const status = getCourseStatus(course);
+              const badge = statusLabels[status];
+              return (
               <TouchableOpacity
                 key={course.id}
                 style={[styles.courseCard, { backgroundColor: colors.surface }]}
@@ -221,6 +320,11 @@ export default function TutorDashboard() {
                   >
                     {course.title}
                   </ThemedText>
+                  <View style={[styles.statusBadge, { borderColor: badge.color }]}>
+                    <ThemedText style={[Typography.caption, { color: badge.color, fontWeight: '600' }]}>
+                      {badge.label}
+                    </ThemedText>
+                  </View>
                   <ThemedText
                     style={[
                       Typography.bodySmall,
@@ -243,10 +347,41 @@ export default function TutorDashboard() {
                       </ThemedText>
                     )}
                   </ThemedText>
+                  {/* Reviewer feedback from a rejected submission */}
+                  {status === 'draft' && !!course.reviewComment && (
+                    <ThemedText style={[Typography.bodySmall, { color: colors.accent, marginTop: Spacing.xs }]}>
+                      Changes requested: {course.reviewComment}
+                    </ThemedText>
+                  )}
+                  <View style={styles.courseActions}>
+                    {(status === 'draft' || status === 'archived' || status === 'published') && (
+                      <TouchableOpacity
+                        onPress={() => changeStatus(course.id, status === 'published' ? 'archive' : 'submit')}
+                        disabled={updatingCourseId === course.id}
+                      >
+                        <ThemedText style={[Typography.bodySmall, { color: colors.primary, fontWeight: '600' }]}>
+                          {updatingCourseId === course.id
+                            ? 'Updating...'
+                            : status === 'published'
+                              ? 'Archive'
+                              : 'Submit for Review'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                    {status !== 'draft' && status !== 'in_review' && (
+                      <TouchableOpacity onPress={() => router.push(`/(tutor)/course-analytics?id=${course.id}`)}>
+                        <ThemedText style={[Typography.bodySmall, { color: colors.primary, fontWeight: '600' }]}>
+                          Analytics
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 </View>
                 <IconSymbol name="pencil" size={20} color={colors.accent} />
               </TouchableOpacity>
-            ))}
+              );
+            })}
+            {loadingMore && <ActivityIndicator color={colors.primary} style={styles.loadingMore} />}
           </Animated.View>
         )}
         
@@ -262,6 +397,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  loadingMore: {
+    paddingVertical: Spacing.lg,
+  },
   topBar: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -336,6 +474,9 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Spacing.xxl,
   },
+  inboxSection: {
+    marginTop: Spacing.xl,
+  },
   actionCard: {
     borderRadius: Radius.lg,
     padding: Spacing.lg,
@@ -388,5 +529,18 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: Spacing.md,
   },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+    marginBottom: Spacing.xs,
+  },
+  courseActions: {
+    flexDirection: 'row',
+    gap: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
 });
 
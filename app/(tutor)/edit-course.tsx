@@ -1,20 +1,30 @@
 import { LottieLoader } from '@/components/lottie-loader';
 import { ThemedText } from '@/components/themed-text';
+import { CaptionUpload } from '@/components/tutor/caption-upload';
+import { QuizEditor } from '@/components/tutor/quiz-editor';
+import { SectionEditor, SectionPicker } from '@/components/tutor/section-editor';
+import { TopicOutline } from '@/components/tutor/topic-outline';
+import { UnlockSettings } from '@/components/tutor/unlock-settings';
+import { VersionHistory } from '@/components/tutor/version-history';
 import { VideoUpload } from '@/components/tutor/video-upload';
 import { Button } from '@/components/ui/button';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, Glows, Layout, Radius, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { normalizeSections, sortSections, syncTopicsWithSections } from '@/lib/course-sections';
 import { getBranchesByUniversity, getUniversities } from '@/services/admin-service';
-import { getCourseById, updateCourse } from '@/services/course-service';
+import { getCourseById, getCourseStatus, updateCourse } from '@/services/course-service';
+import { getJobIdFromVideoUrl } from '@/services/caption-service';
+import { getQuizAnswerKeys, getQuizValidationError, normalizeQuiz, withQuizAnswers } from '@/services/quiz-service';
 import { VideoUploadResult } from '@/services/video-upload-service';
 import { updateVideoStatusAndPoll } from '@/services/video-status-service';
 import { Branch, University } from '@/types/admin';
-import { Course, CourseFormData } from '@/types/course';
+import { AuthoredQuiz, CaptionTrack, Course, CourseFormData, CourseSection } from '@/types/course';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
+    Alert,
     Image,
     KeyboardAvoidingView,
     Platform,
@@ -87,9 +97,15 @@ export default function EditCourseScreen() {
     videoUrl: string;
     videoJobId?: string;
     videoProcessingStatus?: 'PROCESSING' | 'COMPLETE' | 'FAILED';
+    quiz?: AuthoredQuiz;
+    captions?: CaptionTrack[];
+    sectionId?: string;
   }>>([
     { title: '', description: '', videoDuration: '', videoUrl: '' },
   ]);
+  const [sections, setSections] = useState<CourseSection[]>([]);
+  const [sequential, setSequential] = useState(false);
+  const [prerequisiteCourseIds, setPrerequisiteCourseIds] = useState<string[]>([]);
   
   // Load universities on mount
   useEffect(() => {
@@ -164,6 +180,8 @@ export default function EditCourseScreen() {
       if (id) {
         const courseData = await getCourseById(id);
         if (courseData) {
+          // Quiz answers are stored apart from the course
+          const answerKeys = courseData.topics.some((topic) => topic.quiz) ? await getQuizAnswerKeys(id) : {};
           setCourse(courseData);
           setTitle(courseData.title);
           setDescription(courseData.description);
@@ -175,17 +193,25 @@ export default function EditCourseScreen() {
           setSelectedUniversityIds(courseData.university_ids || []);
           setSelectedBranchIds(courseData.branch_ids || []);
           setYear(courseData.year || '');
+          const courseSections = sortSections(courseData.sections);
+          const loadedTopics = courseData.topics.map((topic) => ({
+            id: topic.id,
+            title: topic.title,
+            description: topic.description || '',
+            videoDuration: topic.videoDuration.toString(),
+            videoUrl: topic.videoUrl || '',
+            videoJobId: topic.videoJobId,
+            videoProcessingStatus: topic.videoProcessingStatus,
+            quiz: topic.quiz ? withQuizAnswers(topic.quiz, answerKeys[topic.id]) : undefined,
+            captions: topic.captions,
+            sectionId: topic.sectionId,
+          }));
+          setSections(courseSections);
+          setSequential(!!courseData.sequential);
+          setPrerequisiteCourseIds(courseData.prerequisiteCourseIds || []);
           setTopics(
-            courseData.topics.length > 0
-              ? courseData.topics.map((topic) => ({
-                  id: topic.id,
-                  title: topic.title,
-                  description: topic.description || '',
-                  videoDuration: topic.videoDuration.toString(),
-                  videoUrl: topic.videoUrl || '',
-                  videoJobId: topic.videoJobId,
-                  videoProcessingStatus: topic.videoProcessingStatus,
-                }))
+            loadedTopics.length > 0
+              ? syncTopicsWithSections(loadedTopics, courseSections)
               : [{ title: '', description: '', videoDuration: '', videoUrl: '' }]
           );
           
@@ -225,7 +251,29 @@ export default function EditCourseScreen() {
   };
   
   const addTopic = () => {
-    setTopics([...topics, { title: '', description: '', videoDuration: '', videoUrl: '' }]);
+    // New topics go into the last section
+    const lastSection = sections[sections.length - 1];
+    setTopics([
+      ...topics,
+      {
+        title: '',
+        description: '',
+        videoDuration: '',
+        videoUrl: '',
+        ...(lastSection ? { sectionId: lastSection.id } : {}),
+      },
+    ]);
+  };
+
+  const handleSectionsChange = (updatedSections: CourseSection[]) => {
+    setSections(updatedSections);
+    setTopics((prev) => syncTopicsWithSections(prev, updatedSections));
+  };
+
+  const updateTopicSection = (index: number, sectionId: string | undefined) => {
+    const updated = [...topics];
+    updated[index] = { ...updated[index], sectionId };
+    setTopics(syncTopicsWithSections(updated, sections));
   };
   
   const removeTopic = (index: number) => {
@@ -240,6 +288,18 @@ export default function EditCourseScreen() {
     setTopics(updated);
   };
 
+  const updateTopicQuiz = (index: number, quiz: AuthoredQuiz | undefined) => {
+    const updated = [...topics];
+    updated[index] = { ...updated[index], quiz };
+    setTopics(updated);
+  };
+
+  const updateTopicCaptions = (index: number, captions: CaptionTrack[]) => {
+    const updated = [...topics];
+    updated[index] = { ...updated[index], captions };
+    setTopics(updated);
+  };
+
   const handleVideoUploadComplete = (index: number, result: VideoUploadResult) => {
     const updated = [...topics];
     updated[index] = { 
@@ -247,6 +307,7 @@ export default function EditCourseScreen() {
       videoUrl: result.videoUrl,
       videoJobId: result.jobId,
       videoProcessingStatus: result.status,
+      captions: undefined, // Tracks were stored with the previous video
     };
     setTopics(updated);
   };
@@ -290,6 +351,20 @@ export default function EditCourseScreen() {
       return;
     }
     
+    if (sections.some((section) => !section.title.trim())) {
+      Alert.alert('Untitled section', 'Give every section a title or remove it.');
+      return;
+    }
+    
+    // Quizzes must be complete before saving
+    for (const topic of validTopics) {
+      const quizError = topic.quiz ? getQuizValidationError(topic.quiz) : null;
+      if (quizError) {
+        Alert.alert('Incomplete quiz', `${topic.title.trim()}: ${quizError}`);
+        return;
+      }
+    }
+    
     setLoading(true);
     
     try {
@@ -304,6 +379,9 @@ export default function EditCourseScreen() {
         university_ids: selectedUniversityIds.length > 0 ? selectedUniversityIds : undefined,
         branch_ids: selectedBranchIds.length > 0 ? selectedBranchIds : undefined,
         year: year || undefined,
+        sections: normalizeSections(sections),
+        sequential,
+        prerequisiteCourseIds,
         topics: validTopics.map((topic, index) => ({
           id: topic.id,
           title: topic.title.trim(),
@@ -313,11 +391,18 @@ export default function EditCourseScreen() {
           videoUrl: topic.videoUrl.trim() || getDemoVideoUrl(index),
           videoJobId: topic.videoJobId,
           videoProcessingStatus: topic.videoProcessingStatus,
+          ...(topic.quiz ? { quiz: normalizeQuiz(topic.quiz) } : {}),
+          ...(topic.captions && topic.captions.length > 0 ? { captions: topic.captions } : {}),
+          ...(topic.sectionId ? { sectionId: topic.sectionId } : {}),
           videoUploadedAt: topic.videoJobId && !topic.videoUploadedAt ? new Date().toISOString() : undefined,
         })),
       };
       
-      await updateCourse(id, courseData);
+      await updateCourse(id, courseData, {
+        id: user.uid,
+        name: userProfile?.displayName || 'Tutor',
+        isAdmin: userProfile?.role === 'admin',
+      });
       
       // Start polling for any PROCESSING videos in the background
       validTopics.forEach((topic) => {
@@ -920,6 +1005,45 @@ export default function EditCourseScreen() {
                 fullWidth
                 disabled={!title.trim() || !description.trim() || !outcomes.some(o => o.trim()) || !year}
               />
+              
+              {/* Version History */}
+              {course && (
+                <View style={[styles.inputGroup, { marginTop: Spacing.xl }]}>
+                  <ThemedText
+                    style={[
+                      Typography.body,
+                      {
+                        color: colors.text,
+                        fontWeight: '600',
+                        marginBottom: Spacing.xs,
+                      },
+                    ]}
+                  >
+                    Version History
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      Typography.bodySmall,
+                      {
+                        color: colors.textSecondary,
+                        marginBottom: Spacing.md,
+                      },
+                    ]}
+                  >
+                    Restoring a version discards unsaved changes on this screen.
+                  </ThemedText>
+                  <VersionHistory
+                    course={course}
+                    editor={
+                      user?.uid
+                        ? { id: user.uid, name: userProfile?.displayName || 'Tutor', isAdmin: userProfile?.role === 'admin' }
+                        : null
+                    }
+                    onRestored={loadCourse}
+                    disabled={loading}
+                  />
+                </View>
+              )}
             </Animated.View>
           ) : (
             <Animated.View entering={FadeInDown.duration(400)}>
@@ -935,8 +1059,74 @@ export default function EditCourseScreen() {
                 Update topics and lessons to structure your course content.
               </ThemedText>
               
+              <View style={styles.inputGroup}>
+                <ThemedText
+                  style={[
+                    Typography.body,
+                    {
+                      color: colors.text,
+                      fontWeight: '600',
+                      marginBottom: Spacing.xs,
+                    },
+                  ]}
+                >
+                  Sections (Optional)
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    Typography.caption,
+                    {
+                      color: colors.textTertiary,
+                      marginBottom: Spacing.md,
+                    },
+                  ]}
+                >
+                  Group topics into modules or weeks. Students see each section as a collapsible group.
+                </ThemedText>
+                <SectionEditor value={sections} onChange={handleSectionsChange} disabled={loading} />
+              </View>
+              
+              <View style={styles.inputGroup}>
+                <ThemedText
+                  style={[
+                    Typography.body,
+                    {
+                      color: colors.text,
+                      fontWeight: '600',
+                      marginBottom: Spacing.md,
+                    },
+                  ]}
+                >
+                  Access
+                </ThemedText>
+                <UnlockSettings
+                  sequential={sequential}
+                  onSequentialChange={setSequential}
+                  prerequisiteCourseIds={prerequisiteCourseIds}
+                  onPrerequisitesChange={setPrerequisiteCourseIds}
+                  courseId={id}
+                  disabled={loading}
+                />
+              </View>
+              
+              <View style={styles.inputGroup}>
+                <ThemedText
+                  style={[
+                    Typography.body,
+                    {
+                      color: colors.text,
+                      fontWeight: '600',
+                      marginBottom: Spacing.md,
+                    },
+                  ]}
+                >
+                  Topic Order
+                </ThemedText>
+                <TopicOutline topics={topics} sections={sections} onChange={setTopics} disabled={loading} />
+              </View>
+              
               {topics.map((topic, index) => (
-                <View key={index} style={[styles.topicCard, { backgroundColor: colors.surface }]}>
+                <View key={topic.id ?? index} style={[styles.topicCard, { backgroundColor: colors.surface }]}>
                   <View style={styles.topicHeader}>
                     <ThemedText
                       style={[
@@ -987,6 +1177,28 @@ export default function EditCourseScreen() {
                     />
                   </View>
                   
+                  {sections.length > 0 && (
+                    <View style={styles.inputGroup}>
+                      <ThemedText
+                        style={[
+                          Typography.bodySmall,
+                          {
+                            color: colors.textSecondary,
+                            marginBottom: Spacing.xs,
+                          },
+                        ]}
+                      >
+                        Section
+                      </ThemedText>
+                      <SectionPicker
+                        sections={sections}
+                        value={topic.sectionId}
+                        onChange={(sectionId) => updateTopicSection(index, sectionId)}
+                        disabled={loading}
+                      />
+                    </View>
+                  )}
+                  
                   <View style={styles.inputGroup}>
                     <ThemedText
                       style={[
@@ -1100,6 +1312,45 @@ export default function EditCourseScreen() {
                       </ThemedText>
                     )}
                   </View>
+                  
+                  <View style={styles.inputGroup}>
+                    <ThemedText
+                      style={[
+                        Typography.bodySmall,
+                        {
+                          color: colors.textSecondary,
+                          marginBottom: Spacing.xs,
+                        },
+                      ]}
+                    >
+                      Captions (Optional)
+                    </ThemedText>
+                    <CaptionUpload
+                      value={topic.captions}
+                      onChange={(captions) => updateTopicCaptions(index, captions)}
+                      videoJobId={topic.videoJobId || getJobIdFromVideoUrl(topic.videoUrl)}
+                      disabled={loading}
+                    />
+                  </View>
+                  
+                  <View style={styles.inputGroup}>
+                    <ThemedText
+                      style={[
+                        Typography.bodySmall,
+                        {
+                          color: colors.textSecondary,
+                          marginBottom: Spacing.xs,
+                        },
+                      ]}
+                    >
+                      Quiz After This Topic (Optional)
+                    </ThemedText>
+                    <QuizEditor
+                      value={topic.quiz}
+                      onChange={(quiz) => updateTopicQuiz(index, quiz)}
+                      disabled={loading}
+                    />
+                  </View>
                 </View>
               ))}
               
@@ -1113,6 +1364,13 @@ export default function EditCourseScreen() {
               
               <View style={{ height: Spacing.lg }} />
               
+              {course && getCourseStatus(course) === 'published' && userProfile?.role !== 'admin' && (
+                <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, marginBottom: Spacing.md }]}>
+                  This course is published. Saving changes sends it back for review, and students see it again once
+                  an admin approves it.
+                </ThemedText>
+              )}
+              
               <Button
                 title="Update Course"
                 onPress={handleUpdateCourse}
@@ -2,13 +2,16 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
-import { StyleSheet, View } from 'react-native';
+import { Image, StyleSheet, View } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
 import { Colors } from '@/constants/theme';
 import { AuthProvider, useAuth } from '@/contexts/auth-context';
 import { PartnerProvider } from '@/contexts/partner-context';
+import { PartnerThemeProvider, usePartnerTheme } from '@/contexts/partner-theme-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useOfflineProgressSync } from '@/hooks/use-offline-progress-sync';
 import { Logo } from '@/components/logo';
 import { LottieLoader } from '@/components/lottie-loader';
 
@@ -21,7 +24,10 @@ function RootLayoutNav() {
   const { user, userProfile, loading } = useAuth();
   const segments = useSegments();
   const router = useRouter();
-  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { colors: partnerColors, splashImage } = usePartnerTheme();
+  const colors = partnerColors[colorScheme ?? 'dark'] || Colors.dark;
+
+  useOfflineProgressSync(user?.uid);
 
   useEffect(() => {
     if (loading) return;
@@ -32,6 +38,12 @@ function RootLayoutNav() {
     const inAdminGroup = currentRoute === '(admin)' || currentRoute === 'admin';
     const inAuthScreen = currentRoute === 'login' || currentRoute === 'signup';
     const inCourseRoute = currentRoute === 'course';
+    // Certificate verification and partner links work for signed-in and signed-out visitors alike
+    const inPublicRoute = currentRoute === 'verify' || currentRoute === 'p';
+
+    if (inPublicRoute) {
+      return;
+    }
 
     if (!user || !userProfile) {
       // User is not signed in - redirect to login if not already there
@@ -74,14 +86,22 @@ function RootLayoutNav() {
   if (loading) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
-        <Logo variant="large" style={styles.loadingLogo} />
+        {splashImage ? (
+          <Image source={{ uri: splashImage }} style={styles.splashImage} resizeMode="contain" />
+        ) : (
+          <Logo variant="large" style={styles.loadingLogo} />
+        )}
         <LottieLoader size={200} style={styles.loadingSpinner} />
       </View>
     );
   }
 
+  const navigationTheme = colorScheme === 'dark' ? DarkTheme : DefaultTheme;
+
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+    <ThemeProvider
+      value={{ ...navigationTheme, colors: { ...navigationTheme.colors, primary: colors.primary } }}
+    >
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="login" />
         <Stack.Screen name="signup" />
@@ -92,6 +112,10 @@ function RootLayoutNav() {
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="course/[id]" />
         <Stack.Screen name="course/[id]/lesson/[lessonId]" />
+        <Stack.Screen name="course/[id]/quiz/[topicId]" />
+        <Stack.Screen name="course/[id]/notes" />
+        <Stack.Screen name="verify/[certId]" />
+        <Stack.Screen name="p/[collegeId]" />
         <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
       </Stack>
       <StatusBar style="auto" />
@@ -100,6 +124,9 @@ function RootLayoutNav() {
 }
 
 const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -108,6 +135,11 @@ const styles = StyleSheet.create({
   loadingLogo: {
     marginBottom: 32,
   },
+  splashImage: {
+    width: 240,
+    height: 240,
+    marginBottom: 32,
+  },
   loadingSpinner: {
     marginTop: 16,
   },
@@ -115,10 +147,14 @@ const styles = StyleSheet.create({
 
 export default function RootLayout() {
   return (
-    <AuthProvider>
-      <PartnerProvider>
-        <RootLayoutNav />
-      </PartnerProvider>
-    </AuthProvider>
+    <GestureHandlerRootView style={styles.root}>
+      <AuthProvider>
+        <PartnerProvider>
+          <PartnerThemeProvider>
+            <RootLayoutNav />
+          </PartnerThemeProvider>
+        </PartnerProvider>
+      </AuthProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -1,12 +1,19 @@
 import { ThemedText } from '@/components/themed-text';
 import { Button } from '@/components/ui/button';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { WishlistButton } from '@/components/wishlist-button';
 import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
+import { useCatalogScope } from '@/hooks/use-catalog-scope';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getFirstOpenTopicId, getLockedTopicIds } from '@/lib/lesson-locks';
 import { getCourseById } from '@/services/course-service';
 import { enrollInCourse, getEnrollment } from '@/services/enrollment-service';
-import { getCourseProgress } from '@/services/progress-service';
+import {
+  getCompletedCourseIds,
+  getCompletedLectureIds,
+  getCourseProgress,
+} from '@/services/progress-service';
 import { getTrainerProfile } from '@/services/trainer-service';
 import { Course } from '@/types/course';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -33,12 +40,16 @@ export default function CourseDetailsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
   const { userProfile } = useAuth();
+  const scope = useCatalogScope();
   
   const [course, setCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
   const [enrolling, setEnrolling] = useState(false);
   const [trainerCredentials, setTrainerCredentials] = useState<string | undefined>(undefined);
   const [courseProgress, setCourseProgress] = useState<{ completion_percentage: number; last_accessed_lecture_id: string | null } | null>(null);
+  const [isEnrolled, setIsEnrolled] = useState(false);
+  const [completedLessonIds, setCompletedLessonIds] = useState<Set<string>>(new Set());
+  const [prerequisites, setPrerequisites] = useState<{ course: Course; completed: boolean }[]>([]);
   
   useEffect(() => {
     if (id) {
@@ -47,7 +58,7 @@ export default function CourseDetailsScreen() {
         loadCourseProgress();
       }
     }
-  }, [id, userProfile]);
+  }, [id, userProfile, scope]);
 
   const loadCourseProgress = async () => {
     try {
@@ -59,15 +70,64 @@ export default function CourseDetailsScreen() {
           last_accessed_lecture_id: progress.last_accessed_lecture_id,
         });
       }
+      const [enrollment, completedIds] = await Promise.all([
+        getEnrollment(userProfile.uid, id),
+        getCompletedLectureIds(userProfile.uid, id),
+      ]);
+      setIsEnrolled(!!enrollment);
+      if (completedIds) {
+        setCompletedLessonIds(completedIds);
+      }
     } catch (error) {
       console.error('Error loading course progress:', error);
     }
   };
   
+  // Prerequisite courses, with whether this student has completed each
+  useEffect(() => {
+    const prerequisiteIds = course?.prerequisiteCourseIds || [];
+    if (prerequisiteIds.length === 0) {
+      setPrerequisites([]);
+      return;
+    }
+    
+    const loadPrerequisites = async () => {
+      try {
+        const [courses, completedIds] = await Promise.all([
+          Promise.all(prerequisiteIds.map((courseId) => getCourseById(courseId))),
+          userProfile?.role === 'student'
+            ? getCompletedCourseIds(userProfile.uid, prerequisiteIds)
+            : Promise.resolve(new Set<string>()),
+        ]);
+        setPrerequisites(
+          courses
+            .filter((prerequisite): prerequisite is Course => !!prerequisite)
+            .map((prerequisite) => ({
+              course: prerequisite,
+              completed: completedIds.has(prerequisite.id),
+            }))
+        );
+      } catch (error) {
+        console.error('Error loading prerequisites:', error);
+      }
+    };
+    loadPrerequisites();
+  }, [course, userProfile]);
+  
+  // Sequential courses: students open topics in order
+  const lockedLessonIds =
+    course && userProfile?.role === 'student'
+      ? getLockedTopicIds(course.topics, completedLessonIds, course.sequential)
+      : new Set<string>();
+  const missingPrerequisites = isEnrolled ? [] : prerequisites.filter((prerequisite) => !prerequisite.completed);
+  
   const loadCourse = async () => {
     try {
       if (id) {
-        const courseData = await getCourseById(id);
+        // Students only open courses in their catalog, unless they're already enrolled
+        const isStudent = userProfile?.role === 'student';
+        const enrolled = isStudent && !!(await getEnrollment(userProfile.uid, id));
+        const courseData = await getCourseById(id, isStudent && !enrolled ? scope : null);
         setCourse(courseData);
         
         // If trainer credentials not in course, try to fetch from trainer profile
@@ -115,6 +175,14 @@ export default function CourseDetailsScreen() {
       Alert.alert('Error', 'Only students can enroll in courses');
       return;
     }
+    
+    if (missingPrerequisites.length > 0) {
+      Alert.alert(
+        'Prerequisites required',
+        `Complete ${missingPrerequisites.map((prerequisite) => prerequisite.course.title).join(', ')} first.`
+      );
+      return;
+    }
 
     try {
       setEnrolling(true);
@@ -124,7 +192,7 @@ export default function CourseDetailsScreen() {
       
       // If not enrolled, enroll now
       if (!enrollment) {
-        await enrollInCourse(userProfile.uid, course.id);
+        await enrollInCourse(userProfile.uid, course.id, scope);
       }
       
       // Get course progress to determine where to navigate
@@ -132,13 +200,12 @@ export default function CourseDetailsScreen() {
       
       let targetLectureId: string | null = null;
       
-      if (progress && progress.last_accessed_lecture_id) {
+      if (progress && progress.last_accessed_lecture_id && !lockedLessonIds.has(progress.last_accessed_lecture_id)) {
         // Resume from last accessed lecture
         targetLectureId = progress.last_accessed_lecture_id;
       } else {
-        // Start from first lecture
-        const firstTopic = course.topics[0];
-        targetLectureId = firstTopic?.id || null;
+        // Start from the first lecture not yet completed (the first one for new students)
+        targetLectureId = getFirstOpenTopicId(course.topics, completedLessonIds, lockedLessonIds);
       }
       
       if (!targetLectureId) {
@@ -219,9 +286,12 @@ export default function CourseDetailsScreen() {
         >
           <IconSymbol name="chevron.left" size={24} color="#1C1D1F" />
         </TouchableOpacity>
-        <TouchableOpacity style={styles.shareButton}>
-          <IconSymbol name="paperplane.fill" size={20} color="#1C1D1F" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          {id && <WishlistButton courseId={id} color="#1C1D1F" style={styles.wishlistButton} />}
+          <TouchableOpacity style={styles.shareButton}>
+            <IconSymbol name="paperplane.fill" size={20} color="#1C1D1F" />
+          </TouchableOpacity>
+        </View>
       </View>
       
       <ScrollView
@@ -505,7 +575,7 @@ export default function CourseDetailsScreen() {
               },
             ]}
           >
-            {course.topics.length} sections • {course.topics.length} lectures • {formatDuration(course.totalDuration)} total length
+            {course.sections?.length || course.topics.length} sections • {course.topics.length} lectures • {formatDuration(course.totalDuration)} total length
           </ThemedText>
         </Animated.View>
         
@@ -599,6 +669,63 @@ export default function CourseDetailsScreen() {
           </Animated.View>
         )}
         
+        {/* Prerequisites */}
+        {prerequisites.length > 0 && (
+          <Animated.View entering={FadeInDown.duration(400).delay(375)} style={styles.contentSection}>
+            <ThemedText
+              style={[
+                Typography.h2,
+                {
+                  color: '#1C1D1F',
+                  fontSize: 20,
+                  fontWeight: '700',
+                  marginBottom: Spacing.md,
+                },
+              ]}
+            >
+              Prerequisites
+            </ThemedText>
+            
+            <View style={styles.topicsList}>
+              {prerequisites.map((prerequisite, index) => (
+                <TouchableOpacity
+                  key={prerequisite.course.id}
+                  style={[
+                    styles.topicItem,
+                    index < prerequisites.length - 1 && styles.topicItemBorder,
+                  ]}
+                  onPress={() => router.push(`/course/${prerequisite.course.id}`)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.topicContent}>
+                    <View style={styles.topicNumber}>
+                      <IconSymbol
+                        name={prerequisite.completed ? 'checkmark.circle.fill' : 'lock.fill'}
+                        size={18}
+                        color={prerequisite.completed ? '#22C55E' : '#6A6F73'}
+                      />
+                    </View>
+                    <View style={styles.topicInfo}>
+                      <ThemedText
+                        style={[Typography.body, { color: '#1C1D1F', fontSize: 14 }]}
+                        numberOfLines={2}
+                      >
+                        {prerequisite.course.title}
+                      </ThemedText>
+                      {userProfile?.role === 'student' && (
+                        <ThemedText style={[Typography.caption, { color: '#6A6F73', fontSize: 12 }]}>
+                          {prerequisite.completed ? 'Completed' : 'Complete this course to enroll'}
+                        </ThemedText>
+                      )}
+                    </View>
+                    <IconSymbol name="chevron.right" size={20} color="#6A6F73" />
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </Animated.View>
+        )}
+        
         {/* Course Content */}
         {course.topics.length > 0 && (
           <Animated.View entering={FadeInDown.duration(400).delay(400)} style={styles.contentSection}>
@@ -615,6 +742,16 @@ export default function CourseDetailsScreen() {
             >
               Course Content
             </ThemedText>
+            {course.sequential && (
+              <ThemedText
+                style={[
+                  Typography.bodySmall,
+                  { color: '#6A6F73', marginTop: -Spacing.sm, marginBottom: Spacing.md },
+                ]}
+              >
+                Lessons unlock in order as you complete them.
+              </ThemedText>
+            )}
             
             <View style={styles.topicsList}>
               {course.topics.map((topic, index) => (
@@ -625,6 +762,7 @@ export default function CourseDetailsScreen() {
                     index < course.topics.length - 1 && styles.topicItemBorder,
                   ]}
                   onPress={() => router.push(`/course/${id}/lesson/${topic.id}`)}
+                  disabled={lockedLessonIds.has(topic.id)}
                   activeOpacity={0.7}
                 >
                   <View style={styles.topicContent}>
@@ -670,7 +808,11 @@ export default function CourseDetailsScreen() {
                       </ThemedText>
                     </View>
                     
-                    <IconSymbol name="chevron.right" size={20} color="#6A6F73" />
+                    <IconSymbol
+                      name={lockedLessonIds.has(topic.id) ? 'lock.fill' : 'chevron.right'}
+                      size={lockedLessonIds.has(topic.id) ? 16 : 20}
+                      color="#6A6F73"
+                    />
                   </View>
                 </TouchableOpacity>
               ))}
@@ -684,16 +826,18 @@ export default function CourseDetailsScreen() {
             title={
               enrolling 
                 ? "Loading..." 
-                : courseProgress && courseProgress.completion_percentage > 0
-                  ? "Continue Learning"
-                  : "Start Learning"
+                : missingPrerequisites.length > 0
+                  ? "Complete Prerequisites First"
+                  : courseProgress && courseProgress.completion_percentage > 0
+                    ? "Continue Learning"
+                    : "Start Learning"
             }
             onPress={handleStartLearning}
             variant="primary"
             size="large"
             fullWidth
             loading={enrolling}
-            disabled={enrolling}
+            disabled={enrolling || missingPrerequisites.length > 0}
           />
         </Animated.View>
         
@@ -726,6 +870,14 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'flex-start',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  wishlistButton: {
+    width: 40,
+    height: 40,
+  },
   shareButton: {
     width: 40,
     height: 40,
@@ -1,20 +1,33 @@
+import { DownloadButton } from '@/components/download-button';
 import { LessonList } from '@/components/lesson-list';
+import { LessonNotes } from '@/components/lesson-notes';
+import { LessonQuestions } from '@/components/lesson-questions';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { VideoPlayer } from '@/components/video-player';
 import { Colors, Spacing, Typography } from '@/constants/theme';
 import { useAuth } from '@/contexts/auth-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getFirstOpenTopicId, getLockedTopicIds } from '@/lib/lesson-locks';
 import { getCourseById } from '@/services/course-service';
+import { getOfflineCourse, getOfflineVideoUri } from '@/services/download-service';
 import { getEnrollment, updateLastAccessed } from '@/services/enrollment-service';
 import {
+  getCompletedLectureIds,
   getLectureProgress,
   updateLectureProgress
 } from '@/services/progress-service';
+import {
+  queueProgressUpdate,
+  shouldQueueAfterError,
+  syncQueuedProgress,
+} from '@/services/offline-progress-service';
+import { getQuizAttempts } from '@/services/quiz-service';
 import { updateVideoStatusAndPoll } from '@/services/video-status-service';
 import { Course } from '@/types/course';
+import { ProgressUpdatePayload } from '@/types/progress';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   ScrollView,
@@ -25,7 +38,8 @@ import {
 } from 'react-native';
 
 export default function LessonPlayerScreen() {
-  const { id, lessonId } = useLocalSearchParams<{ id: string; lessonId: string }>();
+  // `t` (seconds) opens the lesson at a specific position, e.g. from a note
+  const { id, lessonId, t } = useLocalSearchParams<{ id: string; lessonId: string; t?: string }>();
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
@@ -36,6 +50,11 @@ export default function LessonPlayerScreen() {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [initialPosition, setInitialPosition] = useState<number>(0);
   const [lectureDuration, setLectureDuration] = useState<number>(0);
+  const [quizPassed, setQuizPassed] = useState(false);
+  const currentPositionRef = useRef(0);
+  const [seekRequest, setSeekRequest] = useState<{ positionSeconds: number; requestedAt: number }>();
+  const [offlineVideoUri, setOfflineVideoUri] = useState<string | null>(null);
+  const [completedLessonIds, setCompletedLessonIds] = useState<Set<string> | null>(null);
   
   useEffect(() => {
     if (id && lessonId) {
@@ -53,7 +72,7 @@ export default function LessonPlayerScreen() {
       if (!userProfile || !id || !lessonId) return;
       
       const progress = await getLectureProgress(userProfile.uid, id, lessonId);
-      setInitialPosition(progress.watched_duration_seconds);
+      setInitialPosition(t ? Number(t) || 0 : progress.watched_duration_seconds);
       
       // Get lecture duration from course
       if (course) {
@@ -74,6 +93,26 @@ export default function LessonPlayerScreen() {
     }
   }, [course, userProfile, lessonId]);
   
+  // Check whether the student already passed this topic's quiz
+  useEffect(() => {
+    if (!userProfile || userProfile.role !== 'student' || !id || !lessonId) return;
+    getQuizAttempts(userProfile.uid, id, lessonId)
+      .then((attempts) => setQuizPassed(attempts.some((attempt) => attempt.passed)))
+      .catch((error) => console.error('Error loading quiz attempts:', error));
+  }, [userProfile, id, lessonId]);
+  
+  // Completion marks for the lesson list
+  // Merged into what's already known, so a completion marked on this screen isn't lost
+  // if the refetch runs before it's saved (or can't be saved while offline)
+  useEffect(() => {
+    if (!userProfile || userProfile.role !== 'student' || !id) return;
+    getCompletedLectureIds(userProfile.uid, id).then((completedIds) => {
+      if (completedIds) {
+        setCompletedLessonIds((prev) => new Set([...(prev || []), ...completedIds]));
+      }
+    });
+  }, [userProfile, id, lessonId]);
+  
   const updateLastAccessedForCourse = async () => {
     try {
       if (!userProfile || !course) return;
@@ -89,7 +128,14 @@ export default function LessonPlayerScreen() {
   const loadCourse = async () => {
     try {
       if (id) {
-        const courseData = await getCourseById(id);
+        let courseData: Course | null;
+        try {
+          courseData = await getCourseById(id);
+        } catch (error) {
+          // Offline: fall back to the copy saved with downloaded lessons
+          courseData = await getOfflineCourse(id);
+          if (!courseData) throw error;
+        }
         if (!courseData) {
           console.error('Course not found');
           router.back();
@@ -107,7 +153,7 @@ export default function LessonPlayerScreen() {
         // Load lecture progress after course is loaded
         if (userProfile && lessonId) {
           const progress = await getLectureProgress(userProfile.uid, id, lessonId);
-          setInitialPosition(progress.watched_duration_seconds);
+          setInitialPosition(t ? Number(t) || 0 : progress.watched_duration_seconds);
           
           const lecture = courseData.topics.find(t => t.id === lessonId);
           if (lecture) {
@@ -131,6 +177,28 @@ export default function LessonPlayerScreen() {
     return topicIndex >= 0 ? course.topics[topicIndex] : course.topics[0] || null;
   }, [course, lessonId]);
   
+  // Play the downloaded copy of this lesson when there is one
+  useEffect(() => {
+    if (!id || !currentTopic) return;
+    let cancelled = false;
+    getOfflineVideoUri(id, currentTopic.id).then((uri) => {
+      if (!cancelled) setOfflineVideoUri(uri);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, currentTopic]);
+
+  // Sequential courses: students open topics in order (tutors preview freely)
+  const lockedLessonIds = useMemo(
+    () =>
+      course && completedLessonIds && userProfile?.role === 'student'
+        ? getLockedTopicIds(course.topics, completedLessonIds, course.sequential)
+        : new Set<string>(),
+    [course, completedLessonIds, userProfile]
+  );
+  const isLessonLocked = !!currentTopic && lockedLessonIds.has(currentTopic.id);
+
   // Calculate nextTopic after currentTopic is memoized
   const nextTopic = useMemo(() => {
     if (!course || !currentTopic) return null;
@@ -208,6 +276,9 @@ export default function LessonPlayerScreen() {
     id: topic.id,
     title: topic.title,
     duration: `${Math.floor(topic.videoDuration / 60)}:${String(topic.videoDuration % 60).padStart(2, '0')}`,
+    completed: !!completedLessonIds?.has(topic.id),
+    locked: lockedLessonIds.has(topic.id),
+    sectionId: topic.sectionId,
   }));
   
   const handleLessonPress = (newLessonId: string) => {
@@ -218,11 +289,35 @@ export default function LessonPlayerScreen() {
     router.replace(`/course/${id}/lesson/${nextLessonId}`);
   };
   
+  const handleQuizPress = () => {
+    if (currentTopic) {
+      router.push(`/course/${id}/quiz/${currentTopic.id}`);
+    }
+  };
+  
+  // Save progress, or queue it to sync later if the device is offline
+  // (errors the server sent back, like a denied write, aren't queued)
+  const saveLectureProgress = async (payload: ProgressUpdatePayload) => {
+    if (!userProfile) return;
+    try {
+      await updateLectureProgress(userProfile.uid, payload);
+      syncQueuedProgress(userProfile.uid);
+    } catch (error) {
+      if (await shouldQueueAfterError(error)) {
+        await queueProgressUpdate(userProfile.uid, payload);
+      }
+      throw error;
+    }
+  };
+
   const handleVideoComplete = async () => {
     try {
       // Mark lecture as completed via progress service
       if (userProfile && userProfile.role === 'student' && course && lessonId) {
-        await updateLectureProgress(userProfile.uid, {
+        // Unlocks the next topic straight away in sequential courses, even if
+        // the completion is queued for later because the device is offline
+        setCompletedLessonIds((prev) => new Set(prev).add(lessonId));
+        await saveLectureProgress({
           course_id: course.id,
           lecture_id: lessonId,
           watched_duration_seconds: lectureDuration,
@@ -230,6 +325,12 @@ export default function LessonPlayerScreen() {
         });
       }
       
+      // The topic isn't complete until its quiz is passed, so go there first
+      if (currentTopic?.quiz && !quizPassed) {
+        setTimeout(handleQuizPress, 500);
+        return;
+      }
+      
       // Auto-navigate to next lesson if available
       if (nextTopic) {
         // Small delay to let completion animation finish
@@ -253,7 +354,7 @@ export default function LessonPlayerScreen() {
     try {
       if (!userProfile || !course || !lessonId) return;
       
-      await updateLectureProgress(userProfile.uid, {
+      await saveLectureProgress({
         course_id: course.id,
         lecture_id: lessonId,
         watched_duration_seconds: positionSeconds,
@@ -269,7 +370,7 @@ export default function LessonPlayerScreen() {
     try {
       if (!userProfile || !course || !lessonId) return;
       
-      await updateLectureProgress(userProfile.uid, {
+      await saveLectureProgress({
         course_id: course.id,
         lecture_id: lessonId,
         watched_duration_seconds: positionSeconds,
@@ -280,8 +381,8 @@ export default function LessonPlayerScreen() {
     }
   };
 
-  // Use topic's videoUrl or fallback to demo video
-  const videoUri = currentTopic?.videoUrl || 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
+  // Prefer a downloaded copy, then the topic's videoUrl, then the demo video
+  const videoUri = offlineVideoUri || currentTopic?.videoUrl || 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
   
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -307,7 +408,7 @@ export default function LessonPlayerScreen() {
       )}
       
       {/* Video Player */}
-      {!isVideoProcessing && !isVideoFailed && (
+      {!isVideoProcessing && !isVideoFailed && !isLessonLocked && (
         <VideoPlayer
           source={{ uri: videoUri }}
           onBack={() => router.back()}
@@ -316,6 +417,11 @@ export default function LessonPlayerScreen() {
           initialPosition={initialPosition}
           onProgressUpdate={handleProgressUpdate}
           onProgressSave={handleProgressSave}
+          onPositionChange={(seconds) => {
+            currentPositionRef.current = seconds;
+          }}
+          seekRequest={seekRequest}
+          captions={currentTopic?.captions}
         />
       )}
       
@@ -335,6 +441,29 @@ export default function LessonPlayerScreen() {
         </View>
       )}
       
+      {/* Placeholder when locked */}
+      {isLessonLocked && (
+        <View style={[styles.videoPlaceholder, { backgroundColor: colors.surface }]}>
+          <IconSymbol name="lock.fill" size={64} color={colors.textTertiary} />
+          <ThemedText style={[styles.placeholderText, { color: colors.textSecondary, marginTop: Spacing.md }]}>
+            Complete the previous lesson to unlock this one
+          </ThemedText>
+          {completedLessonIds && (
+            <TouchableOpacity
+              style={styles.unlockLink}
+              onPress={() => {
+                const openLessonId = getFirstOpenTopicId(course.topics, completedLessonIds, lockedLessonIds);
+                if (openLessonId) handleLessonPress(openLessonId);
+              }}
+            >
+              <ThemedText style={[Typography.body, { color: colors.primary, fontWeight: '600' }]}>
+                Go to your next lesson
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      
       {/* Scrollable Content */}
       {!isFullscreen && (
         <ScrollView
@@ -369,11 +498,67 @@ export default function LessonPlayerScreen() {
             {course.title}
           </ThemedText>
           
+          {/* Offline download */}
+          {userProfile?.role === 'student' && currentTopic && !isVideoProcessing && !isVideoFailed && !isLessonLocked && (
+            <DownloadButton course={course} topic={currentTopic} style={styles.downloadButton} />
+          )}
+          
+          {/* Topic Quiz */}
+          {currentTopic?.quiz && (
+            <TouchableOpacity
+              style={[styles.nextLessonButton, { borderTopColor: colors.border }]}
+              onPress={handleQuizPress}
+              activeOpacity={0.7}
+            >
+              <View style={styles.nextLessonContent}>
+                <IconSymbol
+                  name={quizPassed ? 'checkmark.circle.fill' : 'questionmark.circle.fill'}
+                  size={24}
+                  color={quizPassed ? colors.success : colors.accent}
+                  style={styles.quizIcon}
+                />
+                <View style={styles.nextLessonInfo}>
+                  <ThemedText
+                    style={[
+                      Typography.caption,
+                      {
+                        color: colors.textSecondary,
+                        fontSize: 12,
+                        marginBottom: 2,
+                      },
+                    ]}
+                  >
+                    {quizPassed ? 'Quiz passed' : 'Pass this quiz to complete the topic'}
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      Typography.body,
+                      {
+                        color: colors.text,
+                        fontSize: 15,
+                        fontWeight: '600',
+                      },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {currentTopic.quiz.title || 'Topic Quiz'} · {currentTopic.quiz.questions.length} questions
+                  </ThemedText>
+                </View>
+                <IconSymbol name="chevron.right" size={20} color={colors.textSecondary} />
+              </View>
+            </TouchableOpacity>
+          )}
+          
           {/* Next Lesson */}
           {nextTopic && (
             <TouchableOpacity
-              style={[styles.nextLessonButton, { borderTopColor: colors.border }]}
+              style={[
+                styles.nextLessonButton,
+                { borderTopColor: colors.border },
+                lockedLessonIds.has(nextTopic.id) && styles.lockedNextLesson,
+              ]}
               onPress={() => handleNextLessonPress(nextTopic.id)}
+              disabled={lockedLessonIds.has(nextTopic.id)}
               activeOpacity={0.7}
             >
               <View style={styles.nextLessonContent}>
@@ -410,6 +595,67 @@ export default function LessonPlayerScreen() {
           )}
         </View>
         
+        {/* My Notes */}
+        {currentTopic && userProfile?.role === 'student' && (
+          <View style={[styles.panelContainer, { borderBottomColor: colors.border }]}>
+            <ThemedText
+              style={[
+                Typography.h2,
+                {
+                  color: colors.text,
+                  fontSize: 20,
+                  fontWeight: '700',
+                  paddingHorizontal: Spacing.lg,
+                  marginBottom: Spacing.md,
+                },
+              ]}
+            >
+              My Notes
+            </ThemedText>
+            <LessonNotes
+              courseId={course.id}
+              topicId={currentTopic.id}
+              getCurrentPosition={
+                !isVideoProcessing && !isVideoFailed ? () => currentPositionRef.current : undefined
+              }
+              onSeek={
+                !isVideoProcessing && !isVideoFailed
+                  ? (positionSeconds) => setSeekRequest({ positionSeconds, requestedAt: Date.now() })
+                  : undefined
+              }
+              onViewAll={() => router.push(`/course/${course.id}/notes`)}
+            />
+          </View>
+        )}
+        
+        {/* Questions & Answers */}
+        {currentTopic && (
+          <View style={[styles.panelContainer, { borderBottomColor: colors.border }]}>
+            <ThemedText
+              style={[
+                Typography.h2,
+                {
+                  color: colors.text,
+                  fontSize: 20,
+                  fontWeight: '700',
+                  paddingHorizontal: Spacing.lg,
+                  marginBottom: Spacing.md,
+                },
+              ]}
+            >
+              Questions & Answers
+            </ThemedText>
+            <LessonQuestions
+              courseId={course.id}
+              topicId={currentTopic.id}
+              trainerId={course.trainerId}
+              getCurrentPosition={
+                !isVideoProcessing && !isVideoFailed ? () => currentPositionRef.current : undefined
+              }
+            />
+          </View>
+        )}
+        
         {/* Lessons List */}
         <View style={styles.lessonsContainer}>
           <View style={styles.lessonsHeader}>
@@ -440,6 +686,7 @@ export default function LessonPlayerScreen() {
           
           <LessonList
             lessons={lessons}
+            sections={course.sections}
             currentLessonId={lessonId}
             onLessonPress={handleLessonPress}
           />
@@ -469,6 +716,9 @@ const styles = StyleSheet.create({
     padding: Spacing.lg,
     borderBottomWidth: 1,
   },
+  downloadButton: {
+    marginTop: Spacing.md,
+  },
   nextLessonButton: {
     marginTop: Spacing.md,
     paddingTop: Spacing.md,
@@ -483,6 +733,13 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: Spacing.md,
   },
+  quizIcon: {
+    marginRight: Spacing.md,
+  },
+  panelContainer: {
+    paddingVertical: Spacing.lg,
+    borderBottomWidth: 1,
+  },
   lessonsContainer: {
     paddingBottom: Spacing.xl,
   },
@@ -510,4 +767,11 @@ const styles = StyleSheet.create({
   placeholderText: {
     ...Typography.body,
   },
+  unlockLink: {
+    marginTop: Spacing.md,
+    padding: Spacing.sm,
+  },
+  lockedNextLesson: {
+    opacity: 0.5,
+  },
 });
@@ -0,0 +1,305 @@
+/**
+ * My Notes for a course
+ * All of the student's lecture notes grouped by lesson, with search and Markdown export.
+ */
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Layout, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatTimestamp } from '@/lib/format-time';
+import { getCourseById } from '@/services/course-service';
+import {
+  buildNotesMarkdown,
+  getCourseNotes,
+  groupNotesByTopic,
+  searchNotes,
+} from '@/services/notes-service';
+import { Course } from '@/types/course';
+import { LectureNote } from '@/types/note';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export default function CourseNotesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [notes, setNotes] = useState<LectureNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const loadNotes = async () => {
+      if (!id || !userProfile) return;
+      try {
+        const [courseData, noteData] = await Promise.all([
+          getCourseById(id),
+          getCourseNotes(userProfile.uid, id),
+        ]);
+        setCourse(courseData);
+        setNotes(noteData);
+      } catch (error) {
+        console.error('Error loading notes:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadNotes();
+  }, [id, userProfile]);
+
+  const groups = useMemo(() => {
+    if (!course) return [];
+    return groupNotesByTopic(searchNotes(notes, course, searchQuery), course);
+  }, [course, notes, searchQuery]);
+
+  const handleExport = async () => {
+    if (!course) return;
+    const markdown = buildNotesMarkdown(course, notes);
+
+    if (Platform.OS === 'web') {
+      // Download as a .md file
+      const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${course.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-notes.md`;
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    try {
+      await Share.share({ title: `${course.title} — My Notes`, message: markdown });
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  const isWeb = Platform.OS === 'web';
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      edges={['top', 'bottom']}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerTitle}>
+          <ThemedText style={[Typography.h2, { color: colors.text, fontSize: 20 }]}>
+            My Notes
+          </ThemedText>
+          {course && (
+            <ThemedText
+              style={[Typography.bodySmall, { color: colors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {course.title}
+            </ThemedText>
+          )}
+        </View>
+        {notes.length > 0 && (
+          <TouchableOpacity
+            onPress={handleExport}
+            style={styles.exportButton}
+            accessibilityLabel="Export notes as Markdown"
+          >
+            <IconSymbol name="square.and.arrow.up" size={22} color={colors.accent} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, isWeb && styles.scrollContentWeb]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={isWeb ? styles.contentWrapWeb : undefined}>
+          {/* Search */}
+          {notes.length > 0 && (
+            <View style={[styles.searchBar, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <IconSymbol name="magnifyingglass" size={18} color={colors.textTertiary} />
+              <TextInput
+                style={[styles.searchInput, { color: colors.text }]}
+                placeholder="Search your notes"
+                placeholderTextColor={colors.textTertiary}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {searchQuery.length > 0 && (
+                <TouchableOpacity onPress={() => setSearchQuery('')}>
+                  <IconSymbol name="xmark" size={16} color={colors.textTertiary} />
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {notes.length === 0 ? (
+            <View style={styles.emptyState}>
+              <IconSymbol name="note.text" size={48} color={colors.textTertiary} />
+              <ThemedText style={[Typography.body, { color: colors.textSecondary, marginTop: Spacing.md, textAlign: 'center' }]}>
+                No notes yet. Add notes from any lesson while you watch.
+              </ThemedText>
+            </View>
+          ) : groups.length === 0 ? (
+            <ThemedText style={[Typography.body, { color: colors.textSecondary, textAlign: 'center', marginTop: Spacing.xl }]}>
+              No notes match &quot;{searchQuery}&quot;.
+            </ThemedText>
+          ) : (
+            groups.map((group, index) => (
+              <Animated.View
+                key={group.topicId}
+                entering={FadeInDown.duration(400).delay(index * 50)}
+                style={styles.group}
+              >
+                <ThemedText style={[Typography.h3, { color: colors.text, marginBottom: Spacing.sm }]}>
+                  {group.title}
+                </ThemedText>
+                {group.notes.map((note) => {
+                  const canOpen = group.topicId !== 'removed';
+                  return (
+                    <TouchableOpacity
+                      key={note.id}
+                      style={[styles.noteCard, { backgroundColor: colors.surface }]}
+                      onPress={() =>
+                        router.push(
+                          `/course/${id}/lesson/${note.topic_id}?t=${Math.floor(note.position_millis / 1000)}`
+                        )
+                      }
+                      disabled={!canOpen}
+                      activeOpacity={0.7}
+                    >
+                      <View style={[styles.timestamp, { backgroundColor: colors.accent + '20' }]}>
+                        <IconSymbol name="play.fill" size={10} color={colors.accent} />
+                        <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+                          {formatTimestamp(note.position_millis / 1000)}
+                        </ThemedText>
+                      </View>
+                      <ThemedText style={[Typography.bodySmall, { color: colors.text, flex: 1 }]}>
+                        {note.body}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </Animated.View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  exportButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+  },
+  scrollContentWeb: {
+    padding: Spacing.xl,
+  },
+  contentWrapWeb: {
+    maxWidth: Layout.contentMaxWidth,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    ...Typography.body,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xxl,
+  },
+  group: {
+    marginBottom: Spacing.lg,
+  },
+  noteCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  timestamp: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: Radius.sm,
+  },
+});
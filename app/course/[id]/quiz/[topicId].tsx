@@ -0,0 +1,468 @@
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Layout, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getCourseById } from '@/services/course-service';
+import {
+  DEFAULT_PASSING_SCORE,
+  getQuizAnswerKey,
+  getQuizAttempts,
+  gradeQuiz,
+  QuizGradeResult,
+  submitQuizAttempt,
+  withQuizAnswers,
+} from '@/services/quiz-service';
+import { Course, QuizAnswerKey, QuizQuestion } from '@/types/course';
+import { QuizAnswer, UserQuizAttempt } from '@/types/progress';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const QUESTION_HINTS: Record<QuizQuestion['type'], string> = {
+  mcq: 'Choose one answer',
+  multi_select: 'Choose all that apply',
+  true_false: 'True or false',
+  numeric: 'Enter a number',
+};
+
+export default function QuizScreen() {
+  const { id, topicId } = useLocalSearchParams<{ id: string; topicId: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [numericDrafts, setNumericDrafts] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<QuizGradeResult | null>(null);
+  const [attempts, setAttempts] = useState<UserQuizAttempt[]>([]);
+  const [answerKey, setAnswerKey] = useState<QuizAnswerKey | null>(null);
+
+  const isStudent = userProfile?.role === 'student';
+
+  useEffect(() => {
+    if (id && topicId) {
+      loadQuiz();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, topicId]);
+
+  const loadQuiz = async () => {
+    try {
+      if (!id || !topicId) return;
+      const courseData = await getCourseById(id);
+      if (!courseData) {
+        console.error('Course not found');
+        router.back();
+        return;
+      }
+      setCourse(courseData);
+
+      if (userProfile && isStudent) {
+        setAttempts(await getQuizAttempts(userProfile.uid, id, topicId));
+      } else if (userProfile) {
+        // The course's tutor and admins can read the answers to preview grading
+        setAnswerKey(await getQuizAnswerKey(id, topicId).catch(() => null));
+      }
+    } catch (error) {
+      console.error('Error loading quiz:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const topic = useMemo(
+    () => course?.topics.find((t) => t.id === topicId) || null,
+    [course, topicId]
+  );
+
+  const nextTopic = useMemo(() => {
+    if (!course || !topic) return null;
+    const sortedTopics = [...course.topics].sort((a, b) => a.orderIndex - b.orderIndex);
+    const index = sortedTopics.findIndex((t) => t.id === topic.id);
+    return index >= 0 && index < sortedTopics.length - 1 ? sortedTopics[index + 1] : null;
+  }, [course, topic]);
+
+  const quiz = topic?.quiz;
+  const passingScore = quiz?.passingScore ?? DEFAULT_PASSING_SCORE;
+  const hasPassed = attempts.some((attempt) => attempt.passed);
+  const bestScore = attempts.reduce((best, attempt) => Math.max(best, attempt.score), 0);
+
+  const selectOption = (question: QuizQuestion, optionIndex: number) => {
+    if (result) return;
+    const current = Array.isArray(answers[question.id]) ? (answers[question.id] as number[]) : [];
+    const next = question.type === 'multi_select'
+      ? current.includes(optionIndex)
+        ? current.filter((o) => o !== optionIndex)
+        : [...current, optionIndex]
+      : [optionIndex];
+    setAnswers({ ...answers, [question.id]: next });
+  };
+
+  const updateNumericAnswer = (question: QuizQuestion, text: string) => {
+    if (result) return;
+    const parsed = Number(text);
+    setNumericDrafts({ ...numericDrafts, [question.id]: text });
+    setAnswers({
+      ...answers,
+      [question.id]: text.trim() && Number.isFinite(parsed) ? parsed : null,
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!quiz || !course || !topic) return;
+
+    const unanswered = quiz.questions.filter((question) => {
+      const answer = answers[question.id];
+      return answer === undefined || answer === null || (Array.isArray(answer) && answer.length === 0);
+    });
+    if (unanswered.length > 0) {
+      Alert.alert('Unanswered questions', `Answer all questions before submitting (${unanswered.length} left).`);
+      return;
+    }
+
+    // Tutors and admins can preview a quiz without recording an attempt
+    if (!userProfile || !isStudent) {
+      setResult(gradeQuiz(withQuizAnswers(quiz, answerKey), answers));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const attempt = await submitQuizAttempt(userProfile.uid, course.id, topic.id, answers);
+      setResult(attempt);
+      setAttempts([attempt, ...attempts]);
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      Alert.alert('Error', 'Failed to submit quiz. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetake = () => {
+    setAnswers({});
+    setNumericDrafts({});
+    setResult(null);
+  };
+
+  const handleContinue = () => {
+    if (nextTopic) {
+      router.replace(`/course/${id}/lesson/${nextTopic.id}`);
+    } else {
+      router.replace(`/course/${id}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  if (!topic || !quiz) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: colors.background }]}>
+        <ThemedText style={[Typography.body, { color: colors.text, marginBottom: Spacing.md }]}>
+          This topic has no quiz.
+        </ThemedText>
+        <Button title="Go Back" onPress={() => router.back()} variant="secondary" size="medium" />
+      </SafeAreaView>
+    );
+  }
+
+  const isWeb = Platform.OS === 'web';
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      edges={['top', 'bottom']}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText
+          style={[Typography.h2, { color: colors.text, fontSize: 20, flex: 1 }]}
+          numberOfLines={1}
+        >
+          {quiz.title || `Quiz: ${topic.title}`}
+        </ThemedText>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, isWeb && styles.scrollContentWeb]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={isWeb ? styles.contentWrapWeb : undefined}>
+          {/* Summary */}
+          <View style={[styles.summaryCard, { backgroundColor: colors.surface }]}>
+            <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+              {quiz.questions.length} {quiz.questions.length === 1 ? 'question' : 'questions'} · Pass
+              mark {passingScore}%
+            </ThemedText>
+            {attempts.length > 0 && (
+              <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, marginTop: Spacing.xs }]}>
+                {hasPassed ? 'Passed' : 'Not passed yet'} · Best score {bestScore}% · {attempts.length}{' '}
+                {attempts.length === 1 ? 'attempt' : 'attempts'}
+              </ThemedText>
+            )}
+          </View>
+
+          {/* Result */}
+          {result && (
+            <Animated.View
+              entering={FadeInDown.duration(400)}
+              style={[
+                styles.resultCard,
+                { backgroundColor: (result.passed ? colors.success : colors.accent) + '20' },
+              ]}
+            >
+              <IconSymbol
+                name={result.passed ? 'checkmark.circle.fill' : 'xmark'}
+                size={28}
+                color={result.passed ? colors.success : colors.accent}
+              />
+              <View style={styles.resultInfo}>
+                <ThemedText style={[Typography.h3, { color: colors.text }]}>
+                  {result.passed ? 'You passed!' : 'Not quite there'}
+                </ThemedText>
+                <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+                  {result.correct_count} of {result.total_questions} correct · {result.score}%
+                  {!isStudent ? ' · Preview only, not recorded' : ''}
+                </ThemedText>
+              </View>
+            </Animated.View>
+          )}
+
+          {/* Questions */}
+          {quiz.questions.map((question, index) => {
+            const answer = answers[question.id];
+            const isCorrect = result?.results[question.id];
+            return (
+              <Animated.View
+                key={question.id}
+                entering={FadeInDown.duration(400).delay(index * 50)}
+                style={[
+                  styles.questionCard,
+                  {
+                    backgroundColor: colors.surface,
+                    borderColor: result
+                      ? isCorrect
+                        ? colors.success
+                        : colors.accent
+                      : colors.border,
+                  },
+                ]}
+              >
+                <ThemedText style={[Typography.caption, { color: colors.textTertiary }]}>
+                  Question {index + 1} · {QUESTION_HINTS[question.type]}
+                </ThemedText>
+                <ThemedText style={[Typography.body, styles.prompt, { color: colors.text }]}>
+                  {question.prompt}
+                </ThemedText>
+
+                {question.type === 'numeric' ? (
+                  <TextInput
+                    style={[
+                      styles.numericInput,
+                      { backgroundColor: colors.background, color: colors.text, borderColor: colors.border },
+                    ]}
+                    placeholder="Your answer"
+                    placeholderTextColor={colors.textTertiary}
+                    value={numericDrafts[question.id] || ''}
+                    onChangeText={(text) => updateNumericAnswer(question, text)}
+                    keyboardType="numeric"
+                    editable={!result}
+                  />
+                ) : (
+                  (question.options || []).map((option, optionIndex) => {
+                    const selected = Array.isArray(answer) && answer.includes(optionIndex);
+                    const multi = question.type === 'multi_select';
+                    return (
+                      <TouchableOpacity
+                        key={optionIndex}
+                        style={[
+                          styles.option,
+                          {
+                            backgroundColor: selected ? colors.accent + '20' : colors.background,
+                            borderColor: selected ? colors.accent : colors.border,
+                          },
+                        ]}
+                        onPress={() => selectOption(question, optionIndex)}
+                        disabled={!!result}
+                        activeOpacity={0.7}
+                      >
+                        <IconSymbol
+                          name={
+                            multi
+                              ? selected ? 'checkmark.square.fill' : 'square'
+                              : selected ? 'checkmark.circle.fill' : 'circle'
+                          }
+                          size={22}
+                          color={selected ? colors.accent : colors.textTertiary}
+                        />
+                        <ThemedText style={[Typography.body, styles.optionText, { color: colors.text }]}>
+                          {option}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+
+                {result?.explanations[question.id] && (
+                  <ThemedText style={[Typography.bodySmall, styles.explanation, { color: colors.textSecondary }]}>
+                    {result.explanations[question.id]}
+                  </ThemedText>
+                )}
+              </Animated.View>
+            );
+          })}
+
+          {/* Actions */}
+          {result ? (
+            <View style={styles.actions}>
+              {!result.passed && (
+                <Button title="Retake Quiz" onPress={handleRetake} variant="primary" size="large" fullWidth />
+              )}
+              <Button
+                title={nextTopic ? 'Continue to Next Lesson' : 'Back to Course'}
+                onPress={handleContinue}
+                variant={result.passed ? 'primary' : 'secondary'}
+                size="large"
+                fullWidth
+              />
+            </View>
+          ) : (
+            <View style={styles.actions}>
+              <Button
+                title="Submit Answers"
+                onPress={handleSubmit}
+                variant="primary"
+                size="large"
+                fullWidth
+                loading={submitting}
+              />
+            </View>
+          )}
+
+          <View style={{ height: Spacing.xxl }} />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+  },
+  scrollContentWeb: {
+    padding: Spacing.xl,
+  },
+  contentWrapWeb: {
+    maxWidth: Layout.contentMaxWidth,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  summaryCard: {
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  resultCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.md,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  questionCard: {
+    borderRadius: Radius.lg,
+    borderWidth: 1,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  prompt: {
+    fontWeight: '600',
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  optionText: {
+    flex: 1,
+  },
+  numericInput: {
+    height: 52,
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    ...Typography.body,
+    fontSize: 16,
+  },
+  explanation: {
+    marginTop: Spacing.sm,
+    fontStyle: 'italic',
+  },
+  actions: {
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+});
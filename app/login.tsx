@@ -99,7 +99,7 @@ export default function LoginScreen() {
             
             {/* Form */}
             <View style={styles.form}>
-              {/* Email/Username Input */}
+              {/* Email Input */}
               <Animated.View entering={FadeInDown.duration(600).delay(100)}>
                 <View style={styles.inputContainer}>
                   <ThemedText
@@ -111,7 +111,7 @@ export default function LoginScreen() {
                       },
                     ]}
                   >
-                    Email or Username
+                    Email
                   </ThemedText>
                   <TextInput
                     style={[
@@ -122,7 +122,7 @@ export default function LoginScreen() {
                         borderColor: error && !email.trim() ? '#EF4444' : colors.border,
                       },
                     ]}
-                    placeholder="Enter your email or username"
+                    placeholder="Enter your email"
                     placeholderTextColor={colors.textTertiary}
                     value={email}
                     onChangeText={(text) => {
@@ -130,8 +130,8 @@ export default function LoginScreen() {
                       setError('');
                     }}
                     autoCapitalize="none"
-                    keyboardType="default"
-                    autoComplete="username"
+                    keyboardType="email-address"
+                    autoComplete="email"
                   />
                 </View>
               </Animated.View>
@@ -233,24 +233,6 @@ export default function LoginScreen() {
                   </ThemedText>
                 </TouchableOpacity>
               </Animated.View>
-
-              {/* Admin Login Hint */}
-              <Animated.View entering={FadeInDown.duration(600).delay(500)}>
-                <View style={styles.adminHint}>
-                  <ThemedText
-                    style={[
-                      Typography.bodySmall,
-                      {
-                        color: colors.textTertiary,
-                        textAlign: 'center',
-                        fontStyle: 'italic',
-                      },
-                    ]}
-                  >
-                    Admin: username "admin", password "admin"
-                  </ThemedText>
-                </View>
-              </Animated.View>
             </View>
           </Animated.View>
         </ScrollView>
@@ -300,11 +282,5 @@ const styles = StyleSheet.create({
   signupLink: {
     marginTop: Spacing.md,
   },
-  adminHint: {
-    marginTop: Spacing.lg,
-    paddingTop: Spacing.md,
-    borderTopWidth: 1,
-    borderTopColor: 'rgba(148, 163, 184, 0.2)',
-  },
 });
 
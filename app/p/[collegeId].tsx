@@ -0,0 +1,105 @@
+/**
+ * Partner link
+ * /p/{collegeId} switches the app into the college's white-label mode, then continues
+ * to the home screen (or sign in). Shared by partner colleges with their students.
+ */
+
+import { LottieLoader } from '@/components/lottie-loader';
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Colors, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { usePartner } from '@/contexts/partner-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export default function PartnerLinkScreen() {
+  const { collegeId } = useLocalSearchParams<{ collegeId: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { user } = useAuth();
+  const { enterPartnerLink, isHydrated } = usePartner();
+
+  const [status, setStatus] = useState<'loading' | 'inactive' | 'failed'>('loading');
+
+  useEffect(() => {
+    // Wait for the saved partner so it can't overwrite the one from this link
+    if (!collegeId || !isHydrated) return;
+
+    let cancelled = false;
+    enterPartnerLink(collegeId)
+      .then((entered) => {
+        if (cancelled) return;
+        if (entered) {
+          router.replace(user ? '/(tabs)' : '/login');
+        } else {
+          setStatus('inactive');
+        }
+      })
+      .catch((error) => {
+        console.error('Error opening partner link:', error);
+        if (!cancelled) setStatus('failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only re-run for a different link, not when auth or partner state changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [collegeId, isHydrated]);
+
+  const handleContinue = () => {
+    router.replace(user ? '/(tabs)' : '/login');
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {status === 'loading' ? (
+        <View style={styles.centered}>
+          <LottieLoader size={150} />
+        </View>
+      ) : (
+        <View style={styles.centered}>
+          <ThemedText style={styles.icon}>🎓</ThemedText>
+          <ThemedText style={[Typography.h2, styles.title, { color: colors.text }]}>
+            {status === 'inactive' ? "This partner link isn't active" : 'Could not open this link'}
+          </ThemedText>
+          <ThemedText style={[Typography.body, styles.message, { color: colors.textSecondary }]}>
+            {status === 'inactive'
+              ? 'The college may no longer be a partner. You can still browse every course.'
+              : 'Please check your connection and try again.'}
+          </ThemedText>
+          <Button title="Continue" onPress={handleContinue} variant="primary" />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.xl,
+  },
+  icon: {
+    fontSize: 48,
+    lineHeight: 56,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: Spacing.sm,
+  },
+  message: {
+    textAlign: 'center',
+    marginBottom: Spacing.xl,
+  },
+});
@@ -7,6 +7,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -21,6 +22,8 @@ import { Select } from '@/components/admin/select';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 import { University, College, Branch } from '@/types/admin';
+import { getPendingAdminInvite } from '@/services/admin-service';
+import { ACADEMIC_YEARS, getAdmissionBatchForYear, getAdmissionBatchOptions } from '@/lib/academic-year';
 
 export default function SignupScreen() {
   const router = useRouter();
@@ -43,6 +46,8 @@ export default function SignupScreen() {
   const [selectedUniversityId, setSelectedUniversityId] = useState('');
   const [selectedCollegeId, setSelectedCollegeId] = useState('');
   const [selectedBranchId, setSelectedBranchId] = useState('');
+  const [selectedYear, setSelectedYear] = useState('');
+  const [selectedBatch, setSelectedBatch] = useState('');
   const [loadingData, setLoadingData] = useState(false);
   
   // Load universities on mount
@@ -144,17 +149,24 @@ export default function SignupScreen() {
       return;
     }
     
-    // For students, require university, college, and branch
-    const isStudent = !tutorCode.trim() || tutorCode.trim() !== 'TUTOR';
-    if (isStudent && (!selectedUniversityId || !selectedCollegeId || !selectedBranchId)) {
-      setError('Please select your university, college, and branch');
-      return;
-    }
-    
     setLoading(true);
     setError('');
     
     try {
+      // Invited admins don't belong to a university/college/branch
+      const adminInvite = await getPendingAdminInvite(email);
+      
+      // For students, require university, college, branch, and academic year
+      const isStudent = !adminInvite && !tutorCode.trim();
+      if (isStudent && (!selectedUniversityId || !selectedCollegeId || !selectedBranchId)) {
+        setError('Please select your university, college, and branch');
+        return;
+      }
+      if (isStudent && (!selectedYear || !selectedBatch)) {
+        setError('Please select your year and admission batch');
+        return;
+      }
+      
       await signUp(
         email.trim(),
         password,
@@ -162,8 +174,18 @@ export default function SignupScreen() {
         tutorCode.trim() || undefined,
         isStudent ? selectedUniversityId : undefined,
         isStudent ? selectedCollegeId : undefined,
-        isStudent ? selectedBranchId : undefined
+        isStudent ? selectedBranchId : undefined,
+        isStudent ? selectedYear : undefined,
+        isStudent ? Number(selectedBatch) : undefined
       );
+      if (adminInvite) {
+        Alert.alert(
+          'Verify your email',
+          `We sent a verification link to ${email.trim()}. Verify your email, then sign in to activate admin access.`
+        );
+        router.replace('/login');
+        return;
+      }
       // Navigation will happen automatically via auth state change
     } catch (err: any) {
       setError(err.message || 'Failed to create account');
@@ -353,7 +375,7 @@ export default function SignupScreen() {
                         borderColor: colors.border,
                       },
                     ]}
-                    placeholder="Enter TUTOR to become an instructor"
+                    placeholder="Enter the invite code from your admin"
                     placeholderTextColor={colors.textTertiary}
                     value={tutorCode}
                     onChangeText={setTutorCode}
@@ -374,7 +396,7 @@ export default function SignupScreen() {
               </Animated.View>
               
               {/* University/College/Branch Selection (only for students) */}
-              {(!tutorCode.trim() || tutorCode.trim() !== 'TUTOR') && (
+              {!tutorCode.trim() && (
                 <>
                   <Animated.View entering={FadeInDown.duration(600).delay(300)}>
                     <View style={styles.inputContainer}>
@@ -454,6 +476,60 @@ export default function SignupScreen() {
                       </View>
                     </Animated.View>
                   )}
+                  
+                  {selectedBranchId && (
+                    <Animated.View entering={FadeInDown.duration(600).delay(450)}>
+                      <View style={styles.inputContainer}>
+                        <ThemedText
+                          style={[
+                            Typography.bodySmall,
+                            {
+                              color: colors.textSecondary,
+                              marginBottom: Spacing.xs,
+                            },
+                          ]}
+                        >
+                          Year *
+                        </ThemedText>
+                        <Select
+                          label=""
+                          value={selectedYear}
+                          options={ACADEMIC_YEARS.map((y) => ({ label: y.label, value: y.key }))}
+                          onChange={(value) => {
+                            setSelectedYear(value);
+                            // Suggest the batch that would be in this year now
+                            if (!selectedBatch) setSelectedBatch(String(getAdmissionBatchForYear(value)));
+                          }}
+                          placeholder="Select your current year"
+                          required
+                        />
+                      </View>
+                      <View style={styles.inputContainer}>
+                        <ThemedText
+                          style={[
+                            Typography.bodySmall,
+                            {
+                              color: colors.textSecondary,
+                              marginBottom: Spacing.xs,
+                            },
+                          ]}
+                        >
+                          Admission Batch *
+                        </ThemedText>
+                        <Select
+                          label=""
+                          value={selectedBatch}
+                          options={getAdmissionBatchOptions().map((batch) => ({
+                            label: String(batch),
+                            value: String(batch),
+                          }))}
+                          onChange={setSelectedBatch}
+                          placeholder="Year you were admitted"
+                          required
+                        />
+                      </View>
+                    </Animated.View>
+                  )}
                 </>
               )}
               
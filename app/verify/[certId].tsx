@@ -0,0 +1,343 @@
+/**
+ * Public certificate verification page
+ * Anyone with the link (or the ID printed on a certificate) can confirm it is genuine.
+ */
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { LottieLoader } from '@/components/lottie-loader';
+import { Colors, Layout, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  buildCertificateHtml,
+  getCertificate,
+  getCertificateVerifyUrl,
+} from '@/services/certificate-service';
+import { Certificate } from '@/types/certificate';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  Image,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+export default function VerifyCertificateScreen() {
+  const { certId } = useLocalSearchParams<{ certId: string }>();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const loadCertificate = async () => {
+      if (!certId) return;
+      try {
+        setCertificate(await getCertificate(certId));
+      } catch (error) {
+        console.error('Error verifying certificate:', error);
+        setFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCertificate();
+  }, [certId]);
+
+  const isOwner = !!certificate && certificate.user_id === userProfile?.uid;
+
+  const handlePrint = () => {
+    if (!certificate || Platform.OS !== 'web') return;
+    // Open the standalone certificate page and hand it to the browser's print dialog
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(buildCertificateHtml(certificate));
+    printWindow.document.close();
+    printWindow.onload = () => printWindow.print();
+  };
+
+  const handleShare = async () => {
+    if (!certificate) return;
+    try {
+      await Share.share({
+        message: `I completed "${certificate.course_title}". Verify my certificate: ${getCertificateVerifyUrl(certificate.id)}`,
+      });
+    } catch (error) {
+      console.error('Error sharing certificate:', error);
+    }
+  };
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  const isWeb = Platform.OS === 'web';
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      edges={['top', 'bottom']}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        {router.canGoBack() && (
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <IconSymbol name="chevron.left" size={24} color={colors.text} />
+          </TouchableOpacity>
+        )}
+        <ThemedText style={[Typography.h2, { color: colors.text, fontSize: 20 }]}>
+          Certificate Verification
+        </ThemedText>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <LottieLoader size={150} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, isWeb && styles.scrollContentWeb]}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={isWeb ? styles.contentWrapWeb : undefined}>
+            {/* Status */}
+            <View
+              style={[
+                styles.statusBanner,
+                { backgroundColor: (certificate ? colors.success : colors.accent) + '20' },
+              ]}
+            >
+              <IconSymbol
+                name={certificate ? 'checkmark.circle.fill' : 'xmark'}
+                size={24}
+                color={certificate ? colors.success : colors.accent}
+              />
+              <View style={styles.statusInfo}>
+                <ThemedText style={[Typography.body, { color: colors.text, fontWeight: '600' }]}>
+                  {certificate
+                    ? 'Verified certificate'
+                    : failed
+                      ? 'Could not verify right now'
+                      : 'No certificate found'}
+                </ThemedText>
+                <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+                  {certificate
+                    ? `Issued ${formatDate(certificate.issued_at)}`
+                    : failed
+                      ? 'Please try again in a moment.'
+                      : `There is no certificate with ID ${certId}.`}
+                </ThemedText>
+              </View>
+            </View>
+
+            {certificate && (
+              <>
+                {/* Certificate */}
+                <View style={styles.certificate}>
+                  {certificate.college_logo ? (
+                    <Image
+                      source={{ uri: certificate.college_logo }}
+                      style={styles.logo}
+                      resizeMode="contain"
+                    />
+                  ) : (
+                    <ThemedText style={styles.logoFallback}>🎓</ThemedText>
+                  )}
+                  <ThemedText style={styles.issuer}>
+                    {certificate.college_name || 'Cohort Launchpad'}
+                    {certificate.university_name ? ` · ${certificate.university_name}` : ''}
+                  </ThemedText>
+                  <ThemedText style={styles.certTitle}>Certificate of Completion</ThemedText>
+                  <ThemedText style={styles.certLabel}>This certifies that</ThemedText>
+                  <ThemedText style={styles.studentName}>{certificate.student_name}</ThemedText>
+                  <ThemedText style={styles.certLabel}>has successfully completed</ThemedText>
+                  <ThemedText style={styles.courseTitle}>{certificate.course_title}</ThemedText>
+                  <ThemedText style={styles.certLabel}>
+                    on {formatDate(certificate.completed_at)}
+                  </ThemedText>
+
+                  <View style={styles.certFooter}>
+                    <View>
+                      <ThemedText style={styles.footerValue}>{certificate.trainer_name}</ThemedText>
+                      <ThemedText style={styles.footerLabel}>Trainer</ThemedText>
+                    </View>
+                    <View style={styles.footerRight}>
+                      <ThemedText selectable style={styles.footerValue}>
+                        {certificate.id}
+                      </ThemedText>
+                      <ThemedText style={styles.footerLabel}>Verification ID</ThemedText>
+                    </View>
+                  </View>
+                </View>
+
+                {/* Actions (owner only) */}
+                {isOwner && (
+                  <View style={styles.actions}>
+                    {isWeb && (
+                      <Button
+                        title="Print / Save as PDF"
+                        onPress={handlePrint}
+                        variant="primary"
+                        size="large"
+                        fullWidth
+                      />
+                    )}
+                    <Button
+                      title="Share Certificate"
+                      onPress={handleShare}
+                      variant={isWeb ? 'secondary' : 'primary'}
+                      size="large"
+                      fullWidth
+                    />
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+  },
+  scrollContentWeb: {
+    padding: Spacing.xl,
+  },
+  contentWrapWeb: {
+    maxWidth: Layout.contentMaxWidth,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.md,
+  },
+  statusInfo: {
+    flex: 1,
+  },
+  // The certificate itself is always light, like the printed version
+  certificate: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 3,
+    borderColor: '#1C1D1F',
+    borderRadius: Radius.sm,
+    padding: Spacing.xl,
+    alignItems: 'center',
+  },
+  logo: {
+    width: 120,
+    height: 56,
+  },
+  logoFallback: {
+    fontSize: 36,
+    lineHeight: 44,
+  },
+  issuer: {
+    ...Typography.caption,
+    color: '#6A6F73',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+    marginTop: Spacing.sm,
+    textAlign: 'center',
+  },
+  certTitle: {
+    ...Typography.h2,
+    color: '#1C1D1F',
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.md,
+    textAlign: 'center',
+  },
+  certLabel: {
+    ...Typography.bodySmall,
+    color: '#6A6F73',
+    textAlign: 'center',
+  },
+  studentName: {
+    ...Typography.h2,
+    color: '#1C1D1F',
+    fontWeight: '700',
+    marginVertical: Spacing.sm,
+    paddingBottom: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: '#D1D7DC',
+    textAlign: 'center',
+  },
+  courseTitle: {
+    ...Typography.h3,
+    color: '#1C1D1F',
+    marginVertical: Spacing.sm,
+    textAlign: 'center',
+  },
+  certFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    alignSelf: 'stretch',
+    marginTop: Spacing.xl,
+    gap: Spacing.md,
+  },
+  footerRight: {
+    alignItems: 'flex-end',
+  },
+  footerValue: {
+    ...Typography.bodySmall,
+    color: '#1C1D1F',
+    fontWeight: '600',
+  },
+  footerLabel: {
+    ...Typography.caption,
+    color: '#6A6F73',
+  },
+  actions: {
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+});
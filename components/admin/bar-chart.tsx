@@ -0,0 +1,87 @@
+/**
+ * 📊 Bar Chart Component
+ * Simple vertical bar chart for admin analytics
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors, Typography, Spacing, Radius } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+interface BarChartProps {
+  data: { label: string; value: number }[];
+  height?: number;
+  emptyMessage?: string;
+}
+
+export function BarChart({ data, height = 160, emptyMessage = 'No data for this period' }: BarChartProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const max = Math.max(1, ...data.map((item) => item.value));
+
+  if (data.length === 0) {
+    return (
+      <View style={[styles.empty, { height, backgroundColor: colors.surface }]}>
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>{emptyMessage}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <View style={[styles.bars, { height }]}>
+        {data.map((item) => (
+          <View key={item.label} style={styles.column}>
+            <View
+              style={[
+                styles.bar,
+                { height: `${(item.value / max) * 100}%`, backgroundColor: colors.primary },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.axis}>
+        <Text style={[styles.axisLabel, { color: colors.textTertiary }]}>{data[0].label}</Text>
+        <Text style={[styles.axisLabel, { color: colors.textTertiary }]}>Peak {max}</Text>
+        <Text style={[styles.axisLabel, { color: colors.textTertiary }]}>{data[data.length - 1].label}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.lg,
+    borderRadius: Radius.lg,
+    borderWidth: 1,
+  },
+  empty: {
+    borderRadius: Radius.lg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  column: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    minHeight: 2,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm,
+  },
+  axisLabel: {
+    ...Typography.caption,
+  },
+});
@@ -0,0 +1,80 @@
+/**
+ * 📈 Engagement Table Component
+ * Learners, enrollments and completions per university, college or branch
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { DataTable, Column } from '@/components/admin/data-table';
+import { AdminButton } from '@/components/admin/button';
+import { GroupEngagement } from '@/types/analytics';
+
+interface EngagementTableProps {
+  data: GroupEngagement[];
+  nameLabel: string;
+  emptyMessage?: string;
+  onView?: (item: GroupEngagement) => void;
+}
+
+export function EngagementTable({ data, nameLabel, emptyMessage, onView }: EngagementTableProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+
+  const countColumn = (key: 'learners' | 'enrollments' | 'completions', label: string): Column<GroupEngagement> => ({
+    key,
+    label,
+    width: 130,
+    render: (item) => (
+      <Text style={{ color: colors.text, ...Typography.body }}>{item[key].toLocaleString()}</Text>
+    ),
+  });
+
+  const columns: Column<GroupEngagement>[] = [
+    {
+      key: 'name',
+      label: nameLabel,
+      render: (item) => (
+        <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+          {item.name}
+        </Text>
+      ),
+    },
+    countColumn('learners', 'Learners'),
+    countColumn('enrollments', 'Enrollments'),
+    countColumn('completions', 'Completions'),
+    {
+      key: 'completionRate',
+      label: 'Completion',
+      width: 120,
+      render: (item) => (
+        <Text style={{ color: colors.textSecondary, ...Typography.bodySmall }}>
+          {item.enrollments > 0 ? `${Math.round((item.completions / item.enrollments) * 100)}%` : '—'}
+        </Text>
+      ),
+    },
+  ];
+
+  if (onView) {
+    columns.push({
+      key: 'actions',
+      label: 'Actions',
+      width: 120,
+      render: (item) => (
+        <View>
+          <AdminButton label="View" onPress={() => onView(item)} variant="secondary" size="small" />
+        </View>
+      ),
+    });
+  }
+
+  return <DataTable data={data} columns={columns} emptyMessage={emptyMessage} />;
+}
+
+const styles = StyleSheet.create({
+  name: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+});
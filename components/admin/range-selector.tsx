@@ -0,0 +1,39 @@
+/**
+ * 📅 Range Selector Component
+ * Time range presets for admin analytics
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Spacing } from '@/constants/theme';
+import { AdminButton } from '@/components/admin/button';
+import { RANGE_PRESETS, RangePreset } from '@/lib/date-range';
+
+interface RangeSelectorProps {
+  value: RangePreset;
+  onChange: (value: RangePreset) => void;
+}
+
+export function RangeSelector({ value, onChange }: RangeSelectorProps) {
+  return (
+    <View style={styles.container}>
+      {RANGE_PRESETS.map((option) => (
+        <AdminButton
+          key={option.key}
+          label={option.label}
+          onPress={() => onChange(option.key)}
+          variant={option.key === value ? 'primary' : 'secondary'}
+          size="small"
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+});
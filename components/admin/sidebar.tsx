@@ -20,6 +20,8 @@ const navItems: NavItem[] = [
   { icon: 'account_balance', label: 'Universities', path: '/(admin)/universities' },
   { icon: 'school', label: 'Colleges', path: '/(admin)/colleges' },
   { icon: 'handshake', label: 'Partnered Colleges', path: '/(admin)/partners' },
+  { icon: 'key', label: 'Tutor Invites', path: '/(admin)/tutor-invites' },
+  { icon: 'rate_review', label: 'Course Reviews', path: '/(admin)/course-reviews' },
   { icon: 'settings', label: 'Settings', path: '/(admin)/settings' },
 ];
 
@@ -91,6 +93,8 @@ function getIconEmoji(iconName: string): string {
     account_balance: '🏛',
     school: '🎓',
     handshake: '🤝',
+    key: '🔑',
+    rate_review: '📝',
     settings: '⚙️',
   };
   return iconMap[iconName] || '•';
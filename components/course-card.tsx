@@ -1,5 +1,6 @@
 import { ThemedText } from '@/components/themed-text';
 import { ProgressArc } from '@/components/ui/progress-arc';
+import { WishlistButton } from '@/components/wishlist-button';
 import { Colors, Radius, Shadows, Spacing, Typography, Glows, BrandColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useRouter } from 'expo-router';
@@ -104,6 +105,11 @@ export function CourseCard({ course, featured = false, index = 0 }: CourseCardPr
             </View>
           </View>
         )}
+        
+        {/* Wishlist toggle */}
+        <View style={styles.wishlistOverlay}>
+          <WishlistButton courseId={course.id} size={20} />
+        </View>
       </View>
       
       {/* Content */}
@@ -248,6 +254,11 @@ const styles = StyleSheet.create({
     bottom: Spacing.md,
     right: Spacing.md,
   },
+  wishlistOverlay: {
+    position: 'absolute',
+    top: Spacing.sm,
+    right: Spacing.sm,
+  },
   progressWrapper: {
     position: 'relative',
     width: 64,
@@ -1,6 +1,8 @@
 import { ThemedText } from '@/components/themed-text';
+import { WishlistButton } from '@/components/wishlist-button';
 import { Colors, Radius, Spacing, Typography, Glows, BrandColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { CourseHighlight, HighlightSegment } from '@/types/course';
 import { useRouter } from 'expo-router';
 import React from 'react';
 import { Image, StyleSheet, TouchableOpacity, View } from 'react-native';
@@ -22,11 +24,12 @@ interface CourseResult {
 interface CourseResultCardProps {
   course: CourseResult;
   index?: number;
+  highlight?: CourseHighlight; // Search matches to mark in the title and snippet
 }
 
 const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
 
-export function CourseResultCard({ course, index = 0 }: CourseResultCardProps) {
+export function CourseResultCard({ course, index = 0, highlight }: CourseResultCardProps) {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'];
@@ -49,6 +52,17 @@ export function CourseResultCard({ course, index = 0 }: CourseResultCardProps) {
     transform: [{ scale: scale.value }],
   }));
   
+  const renderSegments = (segments: HighlightSegment[]) =>
+    segments.map((segment, idx) =>
+      segment.highlight ? (
+        <ThemedText key={idx} style={[styles.match, { color: colors.text }]}>
+          {segment.text}
+        </ThemedText>
+      ) : (
+        segment.text
+      )
+    );
+  
   const getOutcomeColor = (outcome: string) => {
     switch (outcome) {
       case 'Placement':
@@ -98,6 +112,11 @@ export function CourseResultCard({ course, index = 0 }: CourseResultCardProps) {
             {course.outcome}
           </ThemedText>
         </View>
+        
+        {/* Wishlist toggle */}
+        <View style={styles.wishlistOverlay}>
+          <WishlistButton courseId={course.id} />
+        </View>
       </View>
       
       {/* Content */}
@@ -109,7 +128,7 @@ export function CourseResultCard({ course, index = 0 }: CourseResultCardProps) {
           ]}
           numberOfLines={2}
         >
-          {course.title}
+          {highlight ? renderSegments(highlight.title) : course.title}
         </ThemedText>
         
         {course.university && (
@@ -134,6 +153,22 @@ export function CourseResultCard({ course, index = 0 }: CourseResultCardProps) {
           {course.instructor}
         </ThemedText>
         
+        {/* Search match */}
+        {highlight?.snippet && (
+          <ThemedText
+            style={[
+              Typography.bodySmall,
+              { color: colors.textSecondary, marginBottom: Spacing.md },
+            ]}
+            numberOfLines={2}
+          >
+            <ThemedText style={[Typography.bodySmall, { color: colors.textTertiary, fontWeight: '600' }]}>
+              {highlight.snippet.label}:{' '}
+            </ThemedText>
+            {renderSegments(highlight.snippet.segments)}
+          </ThemedText>
+        )}
+        
         {/* Skills */}
         {course.skills.length > 0 && (
           <View style={styles.skillsContainer}>
@@ -258,6 +293,11 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.xs,
     borderRadius: Radius.sm,
   },
+  wishlistOverlay: {
+    position: 'absolute',
+    top: Spacing.md,
+    left: Spacing.md,
+  },
   content: {
     padding: Spacing.lg,
   },
@@ -284,5 +324,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  match: {
+    backgroundColor: BrandColors.highlightYellow + '40',
+    fontWeight: '700',
+  },
 });
 
@@ -0,0 +1,126 @@
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  deleteDownload,
+  downloadLesson,
+  getDownload,
+  isOfflineDownloadSupported,
+  subscribeToDownloads,
+} from '@/services/download-service';
+import { Course, Topic } from '@/types/course';
+import { LessonDownload } from '@/types/download';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+
+interface DownloadButtonProps {
+  course: Course;
+  topic: Topic;
+  style?: ViewStyle;
+}
+
+/**
+ * Save a lesson for offline viewing, show its progress, or remove it.
+ * Renders nothing on web or for lessons without a video.
+ */
+export function DownloadButton({ course, topic, style }: DownloadButtonProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+  const [download, setDownload] = useState<LessonDownload | null>(null);
+
+  useEffect(() => {
+    if (!isOfflineDownloadSupported()) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      getDownload(course.id, topic.id).then((value) => {
+        if (!cancelled) setDownload(value);
+      });
+    };
+
+    refresh();
+    const unsubscribe = subscribeToDownloads(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [course.id, topic.id]);
+
+  const startDownload = () => {
+    downloadLesson(course, topic).catch((error) => {
+      Alert.alert('Download failed', error?.message || 'Please try again.');
+    });
+  };
+
+  const handlePress = () => {
+    if (download?.status === 'completed') {
+      Alert.alert('Remove download?', `"${topic.title}" will no longer be available offline.`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            deleteDownload(course.id, topic.id).catch(() => {
+              Alert.alert('Error', 'Could not remove the download.');
+            });
+          },
+        },
+      ]);
+      return;
+    }
+    startDownload();
+  };
+
+  if (!isOfflineDownloadSupported() || !topic.videoUrl) {
+    return null;
+  }
+
+  const downloading = download?.status === 'downloading';
+  const label =
+    download?.status === 'completed'
+      ? 'Downloaded'
+      : downloading
+        ? `Downloading ${Math.round(download.progress * 100)}%`
+        : download?.status === 'failed'
+          ? 'Retry download'
+          : 'Download';
+  const tint =
+    download?.status === 'completed'
+      ? colors.success
+      : download?.status === 'failed'
+        ? colors.accent
+        : colors.primary;
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, { borderColor: tint }, style]}
+      onPress={handlePress}
+      disabled={downloading}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      <IconSymbol
+        name={download?.status === 'completed' ? 'arrow.down.circle.fill' : 'arrow.down.circle'}
+        size={18}
+        color={tint}
+      />
+      <ThemedText style={[Typography.caption, { color: tint, fontWeight: '600' }]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+    borderWidth: 1,
+    borderRadius: Radius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+});
@@ -2,8 +2,10 @@ import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { groupTopicsBySection } from '@/lib/course-sections';
+import { CourseSection } from '@/types/course';
 import { LinearGradient } from 'expo-linear-gradient';
-import React from 'react';
+import React, { useState } from 'react';
 import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import Animated, {
   FadeInDown
@@ -15,125 +17,215 @@ interface Lesson {
   duration: string;
   completed?: boolean;
   current?: boolean;
+  locked?: boolean; // Sequential courses: previous lesson not completed yet
+  sectionId?: string;
 }
 
 interface LessonListProps {
   lessons: Lesson[];
+  sections?: CourseSection[]; // Groups lessons under collapsible headers when provided
   currentLessonId?: string;
   onLessonPress: (lessonId: string) => void;
 }
 
 const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
 
-export function LessonList({ lessons, currentLessonId, onLessonPress }: LessonListProps) {
+export function LessonList({ lessons, sections = [], currentLessonId, onLessonPress }: LessonListProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'dark'];
   
-  return (
-    <ScrollView
-      style={styles.container}
-      contentContainerStyle={styles.content}
-      showsVerticalScrollIndicator={false}
-    >
-      {lessons.map((lesson, index) => {
-        const isCurrent = lesson.id === currentLessonId;
-        const isCompleted = lesson.completed;
-        
-        return (
-          <AnimatedTouchable
-            key={lesson.id}
-            entering={FadeInDown.duration(400).delay(index * 50)}
+  // Start with only the current lesson's section open
+  const [collapsedSectionIds, setCollapsedSectionIds] = useState<Set<string>>(() => {
+    const currentSectionId = lessons.find((lesson) => lesson.id === currentLessonId)?.sectionId;
+    return new Set(
+      sections.filter((section) => section.id !== currentSectionId).map((section) => section.id)
+    );
+  });
+  
+  const toggleSection = (sectionId: string) => {
+    setCollapsedSectionIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(sectionId)) {
+        next.delete(sectionId);
+      } else {
+        next.add(sectionId);
+      }
+      return next;
+    });
+  };
+  
+  const renderLesson = (lesson: Lesson, index: number, isLast: boolean) => {
+    const isCurrent = lesson.id === currentLessonId;
+    const isCompleted = lesson.completed;
+    const isLocked = lesson.locked && !isCurrent;
+    
+    return (
+      <AnimatedTouchable
+        key={lesson.id}
+        entering={FadeInDown.duration(400).delay(index * 50)}
+        style={[
+          styles.lessonItem,
+          {
+            backgroundColor: isCurrent ? colors.surfaceElevated : colors.surface,
+          },
+          isLocked && styles.lockedItem,
+        ]}
+        onPress={() => onLessonPress(lesson.id)}
+        disabled={isLocked}
+        activeOpacity={0.7}
+        accessibilityState={{ disabled: isLocked }}
+      >
+        {/* Flow Indicator Line */}
+        {!isLast && (
+          <View
             style={[
-              styles.lessonItem,
+              styles.flowLine,
               {
-                backgroundColor: isCurrent ? colors.surfaceElevated : colors.surface,
+                backgroundColor: isCompleted
+                  ? colors.completed
+                  : colors.progressBackground,
+                opacity: isCompleted ? 0.3 : 0.1,
               },
             ]}
-            onPress={() => onLessonPress(lesson.id)}
-            activeOpacity={0.7}
-          >
-            {/* Flow Indicator Line */}
-            {index < lessons.length - 1 && (
-              <View
-                style={[
-                  styles.flowLine,
-                  {
-                    backgroundColor: isCompleted
-                      ? colors.completed
-                      : colors.progressBackground,
-                    opacity: isCompleted ? 0.3 : 0.1,
-                  },
-                ]}
-              />
-            )}
-            
-            {/* Lesson Content */}
-            <View style={styles.lessonContent}>
-              {/* Lesson Number & Status */}
-              <View style={styles.lessonNumberContainer}>
-                {isCompleted ? (
-                  <View style={[styles.completedCircle, { backgroundColor: colors.completed }]}>
-                    <IconSymbol
-                      name="checkmark.circle.fill"
-                      size={24}
-                      color={colors.background}
-                    />
-                  </View>
-                ) : isCurrent ? (
-                  <View style={[styles.currentCircle, { backgroundColor: colors.current }]}>
-                    <View style={styles.currentInnerCircle} />
-                  </View>
-                ) : (
-                  <View style={[styles.pendingCircle, { borderColor: colors.progressBackground }]}>
-                    <ThemedText
-                      style={[
-                        Typography.bodySmall,
-                        { color: colors.textTertiary, fontWeight: '600' },
-                      ]}
-                    >
-                      {String(index + 1).padStart(2, '0')}
-                    </ThemedText>
-                  </View>
-                )}
+          />
+        )}
+        
+        {/* Lesson Content */}
+        <View style={styles.lessonContent}>
+          {/* Lesson Number & Status */}
+          <View style={styles.lessonNumberContainer}>
+            {isCompleted ? (
+              <View style={[styles.completedCircle, { backgroundColor: colors.completed }]}>
+                <IconSymbol
+                  name="checkmark.circle.fill"
+                  size={24}
+                  color={colors.background}
+                />
               </View>
-              
-              {/* Lesson Info */}
-              <View style={styles.lessonInfo}>
-                <ThemedText
-                  style={[
-                    Typography.bodyLarge,
-                    {
-                      color: isCurrent ? colors.text : colors.textSecondary,
-                      marginBottom: Spacing.xs,
-                      fontWeight: isCurrent ? '600' : '400',
-                    },
-                  ]}
-                  numberOfLines={2}
-                >
-                  {lesson.title}
-                </ThemedText>
-                
+            ) : isCurrent ? (
+              <View style={[styles.currentCircle, { backgroundColor: colors.current }]}>
+                <View style={styles.currentInnerCircle} />
+              </View>
+            ) : isLocked ? (
+              <View style={[styles.pendingCircle, { borderColor: colors.progressBackground }]}>
+                <IconSymbol name="lock.fill" size={18} color={colors.textTertiary} />
+              </View>
+            ) : (
+              <View style={[styles.pendingCircle, { borderColor: colors.progressBackground }]}>
                 <ThemedText
                   style={[
-                    Typography.caption,
-                    { color: colors.textTertiary },
+                    Typography.bodySmall,
+                    { color: colors.textTertiary, fontWeight: '600' },
                   ]}
                 >
-                  {lesson.duration}
+                  {String(index + 1).padStart(2, '0')}
                 </ThemedText>
               </View>
-              
-              {/* Completed Glow Effect */}
-              {isCompleted && !isCurrent && (
-                <LinearGradient
-                  colors={[`${colors.completed}15`, 'transparent']}
-                  start={{ x: 0, y: 0 }}
-                  end={{ x: 1, y: 0 }}
-                  style={styles.completedGlow}
+            )}
+          </View>
+          
+          {/* Lesson Info */}
+          <View style={styles.lessonInfo}>
+            <ThemedText
+              style={[
+                Typography.bodyLarge,
+                {
+                  color: isCurrent ? colors.text : colors.textSecondary,
+                  marginBottom: Spacing.xs,
+                  fontWeight: isCurrent ? '600' : '400',
+                },
+              ]}
+              numberOfLines={2}
+            >
+              {lesson.title}
+            </ThemedText>
+            
+            <ThemedText
+              style={[
+                Typography.caption,
+                { color: colors.textTertiary },
+              ]}
+            >
+              {isLocked ? `${lesson.duration} • Complete the previous lesson to unlock` : lesson.duration}
+            </ThemedText>
+          </View>
+          
+          {/* Completed Glow Effect */}
+          {isCompleted && !isCurrent && (
+            <LinearGradient
+              colors={[`${colors.completed}15`, 'transparent']}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 0 }}
+              style={styles.completedGlow}
+            />
+          )}
+        </View>
+      </AnimatedTouchable>
+    );
+  };
+  
+  if (sections.length === 0) {
+    return (
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {lessons.map((lesson, index) => renderLesson(lesson, index, index === lessons.length - 1))}
+      </ScrollView>
+    );
+  }
+  
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      {groupTopicsBySection(lessons, sections).map((group) => {
+        const sectionKey = group.section?.id ?? 'unsectioned';
+        const isCollapsed = !!group.section && collapsedSectionIds.has(group.section.id);
+        const completedCount = group.topics.filter((lesson) => lesson.completed).length;
+        
+        return (
+          <View key={sectionKey} style={styles.section}>
+            {group.section && (
+              <TouchableOpacity
+                style={[styles.sectionHeader, { borderBottomColor: colors.border }]}
+                onPress={() => toggleSection(group.section!.id)}
+                activeOpacity={0.7}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: !isCollapsed }}
+              >
+                <View style={styles.sectionInfo}>
+                  <ThemedText style={[Typography.body, { color: colors.text, fontWeight: '700' }]}>
+                    {group.section.title}
+                  </ThemedText>
+                  {!!group.section.description && !isCollapsed && (
+                    <ThemedText style={[Typography.caption, { color: colors.textSecondary, marginTop: 2 }]}>
+                      {group.section.description}
+                    </ThemedText>
+                  )}
+                  <ThemedText style={[Typography.caption, { color: colors.textTertiary, marginTop: 2 }]}>
+                    {completedCount}/{group.topics.length} completed
+                  </ThemedText>
+                </View>
+                <IconSymbol
+                  name={isCollapsed ? 'chevron.right' : 'chevron.down'}
+                  size={22}
+                  color={colors.textSecondary}
                 />
+              </TouchableOpacity>
+            )}
+            {!isCollapsed &&
+              group.topics.map((lesson, index) =>
+                renderLesson(
+                  lesson,
+                  lessons.findIndex((l) => l.id === lesson.id),
+                  index === group.topics.length - 1
+                )
               )}
-            </View>
-          </AnimatedTouchable>
+          </View>
         );
       })}
     </ScrollView>
@@ -148,6 +240,20 @@ const styles = StyleSheet.create({
     padding: Spacing.lg,
     paddingBottom: Spacing.xxxl,
   },
+  section: {
+    marginBottom: Spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    marginBottom: Spacing.md,
+    borderBottomWidth: 1,
+    gap: Spacing.sm,
+  },
+  sectionInfo: {
+    flex: 1,
+  },
   lessonItem: {
     borderRadius: Radius.lg,
     marginBottom: Spacing.md,
@@ -155,6 +261,9 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     position: 'relative',
   },
+  lockedItem: {
+    opacity: 0.6,
+  },
   flowLine: {
     position: 'absolute',
     left: 28,
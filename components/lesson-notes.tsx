@@ -0,0 +1,261 @@
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatTimestamp } from '@/lib/format-time';
+import { createNote, deleteNote, getTopicNotes, updateNote } from '@/services/notes-service';
+import { LectureNote } from '@/types/note';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface LessonNotesProps {
+  courseId: string;
+  topicId: string;
+  getCurrentPosition?: () => number; // Current video position in seconds
+  onSeek?: (positionSeconds: number) => void; // Jump the player to a note
+  onViewAll?: () => void;
+}
+
+/**
+ * Personal notes panel for a lesson. New notes are stamped with the
+ * current video position; tapping a timestamp jumps back to it.
+ */
+export function LessonNotes({
+  courseId,
+  topicId,
+  getCurrentPosition,
+  onSeek,
+  onViewAll,
+}: LessonNotesProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [notes, setNotes] = useState<LectureNote[]>([]);
+  const [noteText, setNoteText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  useEffect(() => {
+    if (!userProfile) return;
+    let cancelled = false;
+    setEditingId(null);
+    getTopicNotes(userProfile.uid, courseId, topicId)
+      .then((data) => {
+        if (!cancelled) setNotes(data);
+      })
+      .catch((error) => console.error('Error loading notes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userProfile, courseId, topicId]);
+
+  const handleAdd = async () => {
+    if (!userProfile || !noteText.trim()) return;
+    setSaving(true);
+    try {
+      const positionSeconds = getCurrentPosition ? getCurrentPosition() : 0;
+      const note = await createNote(userProfile.uid, {
+        course_id: courseId,
+        topic_id: topicId,
+        body: noteText,
+        position_millis: positionSeconds * 1000,
+      });
+      setNotes(
+        [...notes, note].sort((a, b) => a.position_millis - b.position_millis)
+      );
+      setNoteText('');
+    } catch (error) {
+      console.error('Error saving note:', error);
+      Alert.alert('Error', 'Failed to save your note. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async (note: LectureNote) => {
+    if (!editText.trim()) return;
+    try {
+      await updateNote(note.id, editText);
+      setNotes(notes.map((n) => (n.id === note.id ? { ...n, body: editText.trim() } : n)));
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error updating note:', error);
+      Alert.alert('Error', 'Failed to update your note. Please try again.');
+    }
+  };
+
+  const handleDelete = async (note: LectureNote) => {
+    try {
+      await deleteNote(note.id);
+      setNotes(notes.filter((n) => n.id !== note.id));
+    } catch (error) {
+      console.error('Error deleting note:', error);
+    }
+  };
+
+  if (!userProfile) {
+    return null;
+  }
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: colors.surface, color: colors.text, borderColor: colors.border },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.composer}>
+        <TextInput
+          style={[inputStyle, styles.composerInput]}
+          placeholder={
+            getCurrentPosition ? 'Write a note at the current time...' : 'Write a note...'
+          }
+          placeholderTextColor={colors.textTertiary}
+          value={noteText}
+          onChangeText={setNoteText}
+          multiline
+          textAlignVertical="top"
+        />
+        <Button
+          title="Save"
+          onPress={handleAdd}
+          variant="secondary"
+          size="small"
+          loading={saving}
+          disabled={!noteText.trim()}
+        />
+      </View>
+
+      {notes.map((note) => (
+        <View key={note.id} style={[styles.noteRow, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity
+            style={[styles.timestamp, { backgroundColor: colors.accent + '20' }]}
+            onPress={() => onSeek?.(note.position_millis / 1000)}
+            disabled={!onSeek}
+            accessibilityLabel={`Jump to ${formatTimestamp(note.position_millis / 1000)}`}
+          >
+            <IconSymbol name="play.fill" size={10} color={colors.accent} />
+            <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+              {formatTimestamp(note.position_millis / 1000)}
+            </ThemedText>
+          </TouchableOpacity>
+
+          {editingId === note.id ? (
+            <View style={styles.noteBody}>
+              <TextInput
+                style={inputStyle}
+                value={editText}
+                onChangeText={setEditText}
+                multiline
+                autoFocus
+              />
+              <View style={styles.noteActions}>
+                <TouchableOpacity onPress={() => setEditingId(null)}>
+                  <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                    Cancel
+                  </ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleSaveEdit(note)}>
+                  <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+                    Save
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.noteBody}>
+              <ThemedText style={[Typography.bodySmall, { color: colors.text }]}>
+                {note.body}
+              </ThemedText>
+              <View style={styles.noteActions}>
+                <TouchableOpacity
+                  onPress={() => {
+                    setEditingId(note.id);
+                    setEditText(note.body);
+                  }}
+                >
+                  <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                    Edit
+                  </ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDelete(note)}>
+                  <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                    Delete
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+      ))}
+
+      {onViewAll && (
+        <TouchableOpacity style={styles.viewAll} onPress={onViewAll}>
+          <ThemedText style={[Typography.bodySmall, { color: colors.accent, fontWeight: '600' }]}>
+            All notes for this course
+          </ThemedText>
+          <IconSymbol name="chevron.right" size={16} color={colors.accent} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  input: {
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    ...Typography.body,
+    fontSize: 15,
+  },
+  composerInput: {
+    flex: 1,
+    minHeight: 44,
+  },
+  noteRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.md,
+    paddingBottom: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  timestamp: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: Radius.sm,
+  },
+  noteBody: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  noteActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  viewAll: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,445 @@
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatTimestamp } from '@/lib/format-time';
+import {
+  getAnswers,
+  getTopicQuestions,
+  postAnswer,
+  postQuestion,
+  setQuestionAnswered,
+  toggleQuestionUpvote,
+} from '@/services/discussion-service';
+import { CourseQuestion, QuestionAnswer } from '@/types/discussion';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+interface LessonQuestionsProps {
+  courseId: string;
+  topicId: string;
+  trainerId: string;
+  getCurrentPosition?: () => number; // Current video position in seconds, for pinning
+}
+
+/**
+ * Q&A panel for a lesson: ask a question (optionally pinned to the current
+ * video time), upvote, and read or post replies.
+ */
+export function LessonQuestions({
+  courseId,
+  topicId,
+  trainerId,
+  getCurrentPosition,
+}: LessonQuestionsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [questions, setQuestions] = useState<CourseQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [questionText, setQuestionText] = useState('');
+  const [pinnedSeconds, setPinnedSeconds] = useState<number | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuestionAnswer[]>>({});
+  const [replyText, setReplyText] = useState('');
+  const [replying, setReplying] = useState(false);
+
+  const isTrainer = userProfile?.uid === trainerId;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setExpandedId(null);
+    getTopicQuestions(courseId, topicId)
+      .then((data) => {
+        if (!cancelled) setQuestions(data);
+      })
+      .catch((error) => console.error('Error loading questions:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, topicId]);
+
+  const togglePin = () => {
+    if (pinnedSeconds !== null) {
+      setPinnedSeconds(null);
+    } else if (getCurrentPosition) {
+      setPinnedSeconds(Math.floor(getCurrentPosition()));
+    }
+  };
+
+  const handleAsk = async () => {
+    if (!userProfile || !questionText.trim()) return;
+    setPosting(true);
+    try {
+      const question = await postQuestion(
+        {
+          course_id: courseId,
+          topic_id: topicId,
+          body: questionText,
+          timestamp_seconds: pinnedSeconds,
+        },
+        { uid: userProfile.uid, displayName: userProfile.displayName, role: userProfile.role }
+      );
+      setQuestions([question, ...questions]);
+      setQuestionText('');
+      setPinnedSeconds(null);
+    } catch (error) {
+      console.error('Error posting question:', error);
+      Alert.alert('Error', 'Failed to post your question. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleUpvote = async (question: CourseQuestion) => {
+    if (!userProfile) return;
+    try {
+      const updated = await toggleQuestionUpvote(question.id, userProfile.uid);
+      setQuestions(questions.map((q) => (q.id === updated.id ? updated : q)));
+    } catch (error) {
+      console.error('Error upvoting question:', error);
+    }
+  };
+
+  const toggleExpanded = async (question: CourseQuestion) => {
+    if (expandedId === question.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(question.id);
+    setReplyText('');
+    if (!answers[question.id]) {
+      try {
+        const data = await getAnswers(question.id);
+        setAnswers((prev) => ({ ...prev, [question.id]: data }));
+      } catch (error) {
+        console.error('Error loading answers:', error);
+      }
+    }
+  };
+
+  const handleReply = async (question: CourseQuestion) => {
+    if (!userProfile || !replyText.trim()) return;
+    setReplying(true);
+    try {
+      const answer = await postAnswer(question.id, replyText, {
+        uid: userProfile.uid,
+        displayName: userProfile.displayName,
+        role: userProfile.role,
+      });
+      setAnswers((prev) => ({ ...prev, [question.id]: [...(prev[question.id] || []), answer] }));
+      setQuestions(
+        questions.map((q) =>
+          q.id === question.id
+            ? { ...q, answer_count: q.answer_count + 1, is_answered: q.is_answered || isTrainer }
+            : q
+        )
+      );
+      setReplyText('');
+    } catch (error) {
+      console.error('Error posting reply:', error);
+      Alert.alert('Error', 'Failed to post your reply. Please try again.');
+    } finally {
+      setReplying(false);
+    }
+  };
+
+  const handleMarkAnswered = async (question: CourseQuestion) => {
+    try {
+      await setQuestionAnswered(question.id, !question.is_answered);
+      setQuestions(
+        questions.map((q) => (q.id === question.id ? { ...q, is_answered: !q.is_answered } : q))
+      );
+    } catch (error) {
+      console.error('Error updating question:', error);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: colors.surface, color: colors.text, borderColor: colors.border },
+  ];
+
+  return (
+    <View style={styles.container}>
+      {/* Ask */}
+      {userProfile && (
+        <View style={styles.askBox}>
+          <TextInput
+            style={[inputStyle, styles.askInput]}
+            placeholder="Ask a question about this lesson..."
+            placeholderTextColor={colors.textTertiary}
+            value={questionText}
+            onChangeText={setQuestionText}
+            multiline
+            textAlignVertical="top"
+          />
+          <View style={styles.askActions}>
+            {getCurrentPosition ? (
+              <TouchableOpacity
+                style={[
+                  styles.pinChip,
+                  {
+                    backgroundColor: pinnedSeconds !== null ? colors.accent : colors.surface,
+                    borderColor: pinnedSeconds !== null ? colors.accent : colors.border,
+                  },
+                ]}
+                onPress={togglePin}
+              >
+                <ThemedText
+                  style={[
+                    Typography.caption,
+                    { color: pinnedSeconds !== null ? '#FFFFFF' : colors.textSecondary, fontWeight: '600' },
+                  ]}
+                >
+                  {pinnedSeconds !== null ? `📌 ${formatTimestamp(pinnedSeconds)}` : '📌 Pin current time'}
+                </ThemedText>
+              </TouchableOpacity>
+            ) : (
+              <View />
+            )}
+            <Button
+              title="Ask"
+              onPress={handleAsk}
+              variant="primary"
+              size="small"
+              loading={posting}
+              disabled={!questionText.trim()}
+            />
+          </View>
+        </View>
+      )}
+
+      {/* Questions */}
+      {loading ? (
+        <ThemedText style={[Typography.bodySmall, { color: colors.textTertiary }]}>
+          Loading questions...
+        </ThemedText>
+      ) : questions.length === 0 ? (
+        <ThemedText style={[Typography.bodySmall, { color: colors.textTertiary }]}>
+          No questions yet. Be the first to ask.
+        </ThemedText>
+      ) : (
+        questions.map((question, index) => {
+          const upvoted = !!userProfile && (question.upvoted_by || []).includes(userProfile.uid);
+          const expanded = expandedId === question.id;
+          const canMarkAnswered = isTrainer || userProfile?.uid === question.user_id;
+          return (
+            <Animated.View
+              key={question.id}
+              entering={FadeInDown.duration(300).delay(index * 30)}
+              style={[styles.questionCard, { backgroundColor: colors.surface, borderColor: colors.border }]}
+            >
+              <View style={styles.questionRow}>
+                {/* Upvote */}
+                <TouchableOpacity
+                  style={styles.upvote}
+                  onPress={() => handleUpvote(question)}
+                  disabled={!userProfile}
+                  accessibilityLabel={upvoted ? 'Remove upvote' : 'Upvote question'}
+                >
+                  <ThemedText
+                    style={[Typography.body, { color: upvoted ? colors.accent : colors.textTertiary }]}
+                  >
+                    ▲
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      Typography.caption,
+                      { color: upvoted ? colors.accent : colors.textSecondary, fontWeight: '600' },
+                    ]}
+                  >
+                    {question.upvote_count}
+                  </ThemedText>
+                </TouchableOpacity>
+
+                <View style={styles.questionBody}>
+                  <View style={styles.metaRow}>
+                    <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                      {question.user_name} · {new Date(question.createdAt).toLocaleDateString()}
+                    </ThemedText>
+                    {question.timestamp_seconds !== null && (
+                      <View style={[styles.badge, { backgroundColor: colors.surfaceElevated }]}>
+                        <ThemedText style={[Typography.caption, { color: colors.text }]}>
+                          {formatTimestamp(question.timestamp_seconds)}
+                        </ThemedText>
+                      </View>
+                    )}
+                    {question.is_answered && (
+                      <View style={[styles.badge, { backgroundColor: colors.success + '30' }]}>
+                        <ThemedText style={[Typography.caption, { color: colors.success, fontWeight: '600' }]}>
+                          Answered
+                        </ThemedText>
+                      </View>
+                    )}
+                  </View>
+                  <ThemedText style={[Typography.body, { color: colors.text }]}>
+                    {question.body}
+                  </ThemedText>
+
+                  <View style={styles.metaRow}>
+                    <TouchableOpacity onPress={() => toggleExpanded(question)}>
+                      <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+                        {expanded
+                          ? 'Hide replies'
+                          : question.answer_count === 1
+                            ? '1 reply'
+                            : `${question.answer_count} replies`}
+                      </ThemedText>
+                    </TouchableOpacity>
+                    {canMarkAnswered && (
+                      <TouchableOpacity onPress={() => handleMarkAnswered(question)}>
+                        <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                          {question.is_answered ? 'Reopen' : 'Mark answered'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  {/* Thread */}
+                  {expanded && (
+                    <View style={[styles.thread, { borderLeftColor: colors.border }]}>
+                      {(answers[question.id] || []).map((answer) => (
+                        <View key={answer.id} style={styles.answer}>
+                          <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+                            {answer.user_name}
+                            {answer.user_id === trainerId ? ' · Instructor' : ''} ·{' '}
+                            {new Date(answer.createdAt).toLocaleDateString()}
+                          </ThemedText>
+                          <ThemedText style={[Typography.bodySmall, { color: colors.text }]}>
+                            {answer.body}
+                          </ThemedText>
+                        </View>
+                      ))}
+                      {userProfile && (
+                        <View style={styles.replyRow}>
+                          <TextInput
+                            style={[inputStyle, styles.replyInput]}
+                            placeholder={isTrainer ? 'Answer this question...' : 'Add a reply...'}
+                            placeholderTextColor={colors.textTertiary}
+                            value={replyText}
+                            onChangeText={setReplyText}
+                            multiline
+                          />
+                          <Button
+                            title="Reply"
+                            onPress={() => handleReply(question)}
+                            variant="secondary"
+                            size="small"
+                            loading={replying}
+                            disabled={!replyText.trim()}
+                          />
+                        </View>
+                      )}
+                    </View>
+                  )}
+                </View>
+              </View>
+            </Animated.View>
+          );
+        })
+      )}
+
+      {!loading && questions.length > 0 && (
+        <View style={styles.footerHint}>
+          <IconSymbol name="list.bullet" size={14} color={colors.textTertiary} />
+          <ThemedText style={[Typography.caption, { color: colors.textTertiary, marginLeft: Spacing.xs }]}>
+            Sorted by most upvoted
+          </ThemedText>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+  },
+  askBox: {
+    gap: Spacing.sm,
+  },
+  input: {
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    ...Typography.body,
+    fontSize: 15,
+  },
+  askInput: {
+    minHeight: 72,
+  },
+  askActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  pinChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+  },
+  questionCard: {
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+  },
+  questionRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  upvote: {
+    alignItems: 'center',
+    width: 32,
+  },
+  questionBody: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: Radius.sm,
+  },
+  thread: {
+    borderLeftWidth: 2,
+    paddingLeft: Spacing.md,
+    marginTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  answer: {
+    gap: 2,
+  },
+  replyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: Spacing.sm,
+  },
+  replyInput: {
+    flex: 1,
+    minHeight: 44,
+  },
+  footerHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
@@ -7,8 +7,9 @@
 import React from 'react';
 import { View, Text, Image, StyleSheet } from 'react-native';
 import { usePartner } from '@/contexts/partner-context';
-import { Colors, Typography, Spacing } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePartnerTheme } from '@/contexts/partner-theme-context';
+import { Typography, Spacing } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
 
 interface PartnerBrandingProps {
   variant?: 'header' | 'full' | 'compact';
@@ -17,8 +18,8 @@ interface PartnerBrandingProps {
 
 export function PartnerBranding({ variant = 'header', showName = true }: PartnerBrandingProps) {
   const { partnerContext, isPartnerMode } = usePartner();
-  const colorScheme = useColorScheme();
-  const colors = Colors[colorScheme ?? 'dark'];
+  const { appName, fontFamily } = usePartnerTheme();
+  const colors = useThemeColors();
 
   if (!isPartnerMode || !partnerContext) {
     // Default branding - show Cohort Launchpad logo
@@ -33,7 +34,6 @@ export function PartnerBranding({ variant = 'header', showName = true }: Partner
   }
 
   const { college } = partnerContext;
-  const appName = `${college.name} Digital Library`;
 
   return (
     <View style={styles.container}>
@@ -49,6 +49,7 @@ export function PartnerBranding({ variant = 'header', showName = true }: Partner
           style={[
             variant === 'full' ? styles.fullName : styles.name,
             { color: colors.text },
+            fontFamily ? { fontFamily } : undefined,
           ]}
           numberOfLines={1}
         >
@@ -0,0 +1,217 @@
+/**
+ * components/tutor/caption-upload.tsx
+ * Manage subtitle tracks for a topic video (WebVTT or SRT, converted to WebVTT)
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { toWebVtt, uploadCaptionTrack } from '@/services/caption-service';
+import { CaptionTrack } from '@/types/course';
+
+export interface CaptionUploadProps {
+  value?: CaptionTrack[];
+  onChange: (captions: CaptionTrack[]) => void;
+  videoJobId?: string | null; // Captions are stored next to this video's HLS output
+  disabled?: boolean;
+}
+
+export function CaptionUpload({ value = [], onChange, videoJobId, disabled = false }: CaptionUploadProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+
+  const [language, setLanguage] = useState('en');
+  const [label, setLabel] = useState('English');
+  const [uploading, setUploading] = useState(false);
+
+  async function pickCaptionFile(): Promise<{ text: string; name: string } | null> {
+    // WEB
+    if (Platform.OS === 'web') {
+      return new Promise((resolve) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.vtt,.srt,text/vtt';
+        input.onchange = async () => {
+          const file = input.files?.[0];
+          resolve(file ? { text: await file.text(), name: file.name } : null);
+        };
+        input.click();
+      });
+    }
+
+    // MOBILE
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return null;
+
+    const asset = result.assets[0];
+    const response = await fetch(asset.uri);
+    return { text: await response.text(), name: asset.name || 'captions.srt' };
+  }
+
+  async function handleUpload() {
+    if (uploading || disabled || !videoJobId) return;
+
+    const code = language.trim().toLowerCase();
+    if (!code || !label.trim()) {
+      Alert.alert('Missing details', 'Enter a language code and a label for this track.');
+      return;
+    }
+
+    try {
+      const file = await pickCaptionFile();
+      if (!file) return;
+
+      setUploading(true);
+      const vtt = toWebVtt(file.text, file.name);
+      const track = await uploadCaptionTrack(videoJobId, vtt, code, label.trim());
+
+      // One track per language; re-uploading replaces it
+      onChange([...value.filter((t) => t.language !== track.language), track]);
+    } catch (error: any) {
+      console.error(error);
+      Alert.alert('Caption upload failed', error?.message || 'Unknown error');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  function handleRemove(languageCode: string) {
+    onChange(value.filter((t) => t.language !== languageCode));
+  }
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: colors.surface, color: colors.text, borderColor: colors.border },
+  ];
+
+  return (
+    <View style={styles.container}>
+      {value.map((track) => (
+        <View
+          key={track.language}
+          style={[styles.track, { backgroundColor: colors.surface, borderColor: colors.border }]}
+        >
+          <View style={[styles.ccBadge, { borderColor: colors.text }]}>
+            <ThemedText style={[Typography.caption, { color: colors.text, fontWeight: '700' }]}>
+              CC
+            </ThemedText>
+          </View>
+          <ThemedText style={[Typography.bodySmall, { flex: 1, marginLeft: Spacing.sm }]} numberOfLines={1}>
+            {track.label} ({track.language})
+          </ThemedText>
+          <TouchableOpacity onPress={() => handleRemove(track.language)} disabled={disabled}>
+            <ThemedText style={[Typography.caption, { color: colors.accent }]}>Remove</ThemedText>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {videoJobId ? (
+        <View style={styles.row}>
+          <TextInput
+            style={[inputStyle, styles.languageInput]}
+            placeholder="en"
+            placeholderTextColor={colors.textTertiary}
+            value={language}
+            onChangeText={setLanguage}
+            autoCapitalize="none"
+            autoCorrect={false}
+            maxLength={10}
+            editable={!uploading && !disabled}
+          />
+          <TextInput
+            style={[inputStyle, styles.labelInput]}
+            placeholder="English"
+            placeholderTextColor={colors.textTertiary}
+            value={label}
+            onChangeText={setLabel}
+            editable={!uploading && !disabled}
+          />
+          <TouchableOpacity
+            style={[
+              styles.uploadButton,
+              { borderColor: colors.border, opacity: uploading || disabled ? 0.6 : 1 },
+            ]}
+            onPress={handleUpload}
+            disabled={uploading || disabled}
+          >
+            {uploading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <ThemedText style={[Typography.caption, { color: colors.primary, fontWeight: '600' }]}>
+                Upload .vtt / .srt
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.row}>
+          <IconSymbol name="exclamationmark.circle.fill" size={16} color={colors.textTertiary} />
+          <ThemedText style={[Typography.caption, { color: colors.textTertiary, marginLeft: Spacing.xs, flex: 1 }]}>
+            Upload the lesson video first; captions are stored with it.
+          </ThemedText>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  track: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    padding: Spacing.sm,
+    borderRadius: Radius.md,
+  },
+  ccBadge: {
+    borderWidth: 1,
+    borderRadius: 3,
+    paddingHorizontal: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  input: {
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    ...Typography.bodySmall,
+  },
+  languageInput: {
+    width: 64,
+  },
+  labelInput: {
+    flex: 1,
+  },
+  uploadButton: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: Radius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 120,
+  },
+});
@@ -0,0 +1,89 @@
+/**
+ * components/tutor/draggable-row.tsx
+ * Fixed-height list row that can be dragged to a new position by its handle
+ * (gesture-handler pan on native; see draggable-row.web.tsx for web)
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Spacing } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+export interface DraggableRowProps {
+  index: number;
+  count: number; // Number of rows in the list
+  rowHeight: number; // Every row must have this height for drop positions to line up
+  onMove: (fromIndex: number, toIndex: number) => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+export function DraggableRow({
+  index,
+  count,
+  rowHeight,
+  onMove,
+  disabled = false,
+  children,
+}: DraggableRowProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+  const [dragOffset, setDragOffset] = useState<number | null>(null);
+
+  const pan = Gesture.Pan()
+    .enabled(!disabled)
+    .runOnJS(true)
+    .onStart(() => setDragOffset(0))
+    .onUpdate((event) => setDragOffset(event.translationY))
+    .onEnd((event) => {
+      const target = Math.min(count - 1, Math.max(0, index + Math.round(event.translationY / rowHeight)));
+      if (target !== index) {
+        onMove(index, target);
+      }
+    })
+    .onFinalize(() => setDragOffset(null));
+
+  const dragging = dragOffset !== null;
+
+  return (
+    <View
+      style={[
+        styles.row,
+        { height: rowHeight },
+        dragging && [
+          styles.dragging,
+          { backgroundColor: colors.surfaceElevated, transform: [{ translateY: dragOffset }] },
+        ],
+      ]}
+    >
+      <GestureDetector gesture={pan}>
+        <View style={styles.handle} accessibilityLabel="Drag to reorder">
+          <IconSymbol name="line.3.horizontal" size={22} color={colors.textTertiary} />
+        </View>
+      </GestureDetector>
+      <View style={styles.content}>{children}</View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dragging: {
+    zIndex: 10,
+    elevation: 4,
+    opacity: 0.9,
+  },
+  handle: {
+    paddingHorizontal: Spacing.sm,
+    alignSelf: 'stretch',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,68 @@
+/**
+ * components/tutor/draggable-row.web.tsx
+ * Web version of DraggableRow using HTML5 drag and drop
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Spacing } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { DraggableRowProps } from '@/components/tutor/draggable-row';
+
+const DRAG_DATA_TYPE = 'application/x-topic-index';
+
+export function DraggableRow({ index, rowHeight, onMove, disabled = false, children }: DraggableRowProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  return (
+    <div
+      draggable={!disabled}
+      onDragStart={(event) => {
+        event.dataTransfer.setData(DRAG_DATA_TYPE, String(index));
+        event.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={(event) => {
+        // Only accept rows from this list
+        if (!event.dataTransfer.types.includes(DRAG_DATA_TYPE)) return;
+        event.preventDefault();
+        setIsDropTarget(true);
+      }}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setIsDropTarget(false);
+        const fromIndex = Number(event.dataTransfer.getData(DRAG_DATA_TYPE));
+        if (!Number.isNaN(fromIndex) && fromIndex !== index) {
+          onMove(fromIndex, index);
+        }
+      }}
+      style={{
+        display: 'flex',
+        flexDirection: 'row',
+        alignItems: 'center',
+        height: rowHeight,
+        cursor: disabled ? 'default' : 'grab',
+        boxShadow: isDropTarget ? `inset 0 2px 0 ${colors.primary}` : undefined,
+      }}
+    >
+      <View style={styles.handle}>
+        <IconSymbol name="line.3.horizontal" size={22} color={colors.textTertiary} />
+      </View>
+      <View style={styles.content}>{children}</View>
+    </div>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    paddingHorizontal: Spacing.sm,
+    alignSelf: 'stretch',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,197 @@
+/**
+ * components/tutor/question-inbox.tsx
+ * Unanswered student questions across a trainer's courses, answerable inline
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Glows, Radius, Spacing, Typography } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatTimestamp } from '@/lib/format-time';
+import {
+  getUnansweredQuestionsForTrainer,
+  postAnswer,
+  setQuestionAnswered,
+} from '@/services/discussion-service';
+import { Course } from '@/types/course';
+import { CourseQuestion } from '@/types/discussion';
+
+export interface QuestionInboxProps {
+  trainerId: string;
+  courses: Course[]; // Trainer's courses, used to label each question
+}
+
+export function QuestionInbox({ trainerId, courses }: QuestionInboxProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+  const { userProfile } = useAuth();
+
+  const [questions, setQuestions] = useState<CourseQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUnansweredQuestionsForTrainer(trainerId)
+      .then(setQuestions)
+      .catch((error) => console.error('Error loading unanswered questions:', error))
+      .finally(() => setLoading(false));
+  }, [trainerId]);
+
+  const removeQuestion = (questionId: string) => {
+    setQuestions((prev) => prev.filter((q) => q.id !== questionId));
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const handleAnswer = async (question: CourseQuestion) => {
+    const body = drafts[question.id]?.trim();
+    if (!body) return;
+    setBusyId(question.id);
+    try {
+      await postAnswer(question.id, body, {
+        uid: trainerId,
+        displayName: userProfile?.displayName ?? null,
+        role: 'tutor',
+      });
+      removeQuestion(question.id);
+    } catch (error) {
+      console.error('Error answering question:', error);
+      Alert.alert('Error', 'Failed to post your answer. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleMarkAnswered = async (question: CourseQuestion) => {
+    setBusyId(question.id);
+    try {
+      await setQuestionAnswered(question.id, true);
+      removeQuestion(question.id);
+    } catch (error) {
+      console.error('Error marking question answered:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeLocation = (question: CourseQuestion) => {
+    const course = courses.find((c) => c.id === question.course_id);
+    const topic = course?.topics.find((t) => t.id === question.topic_id);
+    const parts = [course?.title || 'Course', topic?.title || 'Lesson'];
+    if (question.timestamp_seconds !== null) {
+      parts.push(formatTimestamp(question.timestamp_seconds));
+    }
+    return parts.join(' › ');
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  if (questions.length === 0) {
+    return (
+      <View style={[styles.emptyCard, { backgroundColor: colors.surface }]}>
+        <IconSymbol name="checkmark.circle.fill" size={20} color={colors.success} />
+        <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, marginLeft: Spacing.sm }]}>
+          You&apos;re all caught up. No unanswered questions.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {questions.map((question) => (
+        <View key={question.id} style={[styles.card, { backgroundColor: colors.surface }]}>
+          <ThemedText
+            style={[Typography.caption, { color: colors.accent, fontWeight: '600', marginBottom: Spacing.xs }]}
+            numberOfLines={1}
+          >
+            {describeLocation(question)}
+          </ThemedText>
+          <ThemedText style={[Typography.body, { color: colors.text, marginBottom: Spacing.xs }]}>
+            {question.body}
+          </ThemedText>
+          <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+            {question.user_name} · {new Date(question.createdAt).toLocaleDateString()}
+            {question.upvote_count > 0 ? ` · ▲ ${question.upvote_count}` : ''}
+            {question.answer_count > 0
+              ? ` · ${question.answer_count} ${question.answer_count === 1 ? 'reply' : 'replies'}`
+              : ''}
+          </ThemedText>
+
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: colors.background, color: colors.text, borderColor: colors.border },
+            ]}
+            placeholder="Write an answer..."
+            placeholderTextColor={colors.textTertiary}
+            value={drafts[question.id] || ''}
+            onChangeText={(text) => setDrafts((prev) => ({ ...prev, [question.id]: text }))}
+            multiline
+            textAlignVertical="top"
+            editable={busyId !== question.id}
+          />
+          <View style={styles.actions}>
+            <Button
+              title="Mark answered"
+              onPress={() => handleMarkAnswered(question)}
+              variant="ghost"
+              size="small"
+              disabled={busyId === question.id}
+            />
+            <Button
+              title="Answer"
+              onPress={() => handleAnswer(question)}
+              variant="primary"
+              size="small"
+              loading={busyId === question.id}
+              disabled={!drafts[question.id]?.trim()}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: Radius.card,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+    ...Glows.card,
+  },
+  emptyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: Radius.card,
+    padding: Spacing.lg,
+  },
+  input: {
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.md,
+    minHeight: 64,
+    ...Typography.body,
+    fontSize: 15,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+});
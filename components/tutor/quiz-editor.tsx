@@ -0,0 +1,439 @@
+/**
+ * components/tutor/quiz-editor.tsx
+ * Authoring UI for the optional quiz attached to a course topic
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  DEFAULT_PASSING_SCORE,
+  getQuizValidationError,
+  TRUE_FALSE_OPTIONS,
+} from '@/services/quiz-service';
+import { AuthoredQuiz, AuthoredQuizQuestion, QuizQuestionType } from '@/types/course';
+
+export interface QuizEditorProps {
+  value?: AuthoredQuiz;
+  onChange: (quiz: AuthoredQuiz | undefined) => void;
+  disabled?: boolean;
+}
+
+const QUESTION_TYPES: { type: QuizQuestionType; label: string }[] = [
+  { type: 'mcq', label: 'Single choice' },
+  { type: 'multi_select', label: 'Multi-select' },
+  { type: 'true_false', label: 'True / False' },
+  { type: 'numeric', label: 'Numeric' },
+];
+
+const createQuestion = (type: QuizQuestionType = 'mcq'): AuthoredQuizQuestion => {
+  const id = `q-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+  switch (type) {
+    case 'true_false':
+      return { id, type, prompt: '', options: [...TRUE_FALSE_OPTIONS], correctOptions: [0] };
+    case 'numeric':
+      return { id, type, prompt: '', tolerance: 0 };
+    default:
+      return { id, type, prompt: '', options: ['', ''], correctOptions: [] };
+  }
+};
+
+/**
+ * Text field bound to an optional number.
+ * Keeps the raw text locally so partial input like "-" or "1." can be typed.
+ */
+function NumberField({
+  value,
+  onChange,
+  placeholder,
+  style,
+  placeholderTextColor,
+  editable,
+}: {
+  value?: number;
+  onChange: (value: number | undefined) => void;
+  placeholder: string;
+  style: any;
+  placeholderTextColor: string;
+  editable: boolean;
+}) {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  return (
+    <TextInput
+      style={style}
+      placeholder={placeholder}
+      placeholderTextColor={placeholderTextColor}
+      value={text}
+      editable={editable}
+      keyboardType="numeric"
+      onChangeText={(next) => {
+        setText(next);
+        const parsed = Number(next);
+        onChange(next.trim() && Number.isFinite(parsed) ? parsed : undefined);
+      }}
+    />
+  );
+}
+
+export function QuizEditor({ value, onChange, disabled = false }: QuizEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'dark'] || Colors.dark;
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: colors.surface,
+      color: colors.text,
+      borderColor: colors.border,
+    },
+  ];
+
+  if (!value) {
+    return (
+      <Button
+        title="Add Quiz"
+        onPress={() =>
+          onChange({ passingScore: DEFAULT_PASSING_SCORE, questions: [createQuestion()] })
+        }
+        variant="secondary"
+        size="small"
+        disabled={disabled}
+        fullWidth
+      />
+    );
+  }
+
+  const quiz = value;
+  const validationError = getQuizValidationError(quiz);
+
+  const updateQuestion = (index: number, changes: Partial<AuthoredQuizQuestion>) => {
+    const questions = [...quiz.questions];
+    questions[index] = { ...questions[index], ...changes };
+    onChange({ ...quiz, questions });
+  };
+
+  const changeQuestionType = (index: number, type: QuizQuestionType) => {
+    const current = quiz.questions[index];
+    if (current.type === type) return;
+    const replacement = { ...createQuestion(type), id: current.id, prompt: current.prompt };
+    // Keep authored options when switching between the two free-form choice types
+    if ((type === 'mcq' || type === 'multi_select') && (current.type === 'mcq' || current.type === 'multi_select')) {
+      replacement.options = current.options;
+      replacement.correctOptions = type === 'mcq'
+        ? (current.correctOptions || []).slice(0, 1)
+        : current.correctOptions;
+    }
+    const questions = [...quiz.questions];
+    questions[index] = replacement;
+    onChange({ ...quiz, questions });
+  };
+
+  const toggleCorrectOption = (index: number, optionIndex: number) => {
+    const question = quiz.questions[index];
+    const correct = question.correctOptions || [];
+    if (question.type === 'multi_select') {
+      updateQuestion(index, {
+        correctOptions: correct.includes(optionIndex)
+          ? correct.filter((o) => o !== optionIndex)
+          : [...correct, optionIndex],
+      });
+    } else {
+      updateQuestion(index, { correctOptions: [optionIndex] });
+    }
+  };
+
+  const updateOption = (index: number, optionIndex: number, text: string) => {
+    const options = [...(quiz.questions[index].options || [])];
+    options[optionIndex] = text;
+    updateQuestion(index, { options });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = quiz.questions[index];
+    updateQuestion(index, {
+      options: (question.options || []).filter((_, i) => i !== optionIndex),
+      // Shift indexes of correct options that came after the removed one
+      correctOptions: (question.correctOptions || [])
+        .filter((o) => o !== optionIndex)
+        .map((o) => (o > optionIndex ? o - 1 : o)),
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange({ ...quiz, questions: quiz.questions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <View style={[styles.container, { borderColor: colors.border }]}>
+      <View style={styles.headerRow}>
+        <ThemedText style={[Typography.body, { color: colors.text, fontWeight: '600' }]}>
+          Quiz
+        </ThemedText>
+        <TouchableOpacity onPress={() => onChange(undefined)} disabled={disabled}>
+          <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+            Remove Quiz
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.fieldGroup}>
+        <ThemedText style={[Typography.bodySmall, styles.label, { color: colors.textSecondary }]}>
+          Passing Score (%)
+        </ThemedText>
+        <NumberField
+          value={quiz.passingScore}
+          onChange={(score) => onChange({ ...quiz, passingScore: score ?? DEFAULT_PASSING_SCORE })}
+          placeholder={`e.g., ${DEFAULT_PASSING_SCORE}`}
+          style={inputStyle}
+          placeholderTextColor={colors.textTertiary}
+          editable={!disabled}
+        />
+      </View>
+
+      {quiz.questions.map((question, index) => (
+        <View
+          key={question.id}
+          style={[styles.questionCard, { backgroundColor: colors.background, borderColor: colors.border }]}
+        >
+          <View style={styles.headerRow}>
+            <ThemedText style={[Typography.bodySmall, { color: colors.text, fontWeight: '600' }]}>
+              Question {index + 1}
+            </ThemedText>
+            {quiz.questions.length > 1 && (
+              <TouchableOpacity onPress={() => removeQuestion(index)} disabled={disabled}>
+                <IconSymbol name="xmark" size={18} color={colors.textTertiary} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.chipRow}>
+            {QUESTION_TYPES.map(({ type, label }) => {
+              const selected = question.type === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: selected ? colors.accent : colors.surface,
+                      borderColor: selected ? colors.accent : colors.border,
+                    },
+                  ]}
+                  onPress={() => changeQuestionType(index, type)}
+                  disabled={disabled}
+                >
+                  <ThemedText
+                    style={[
+                      Typography.caption,
+                      { color: selected ? '#FFFFFF' : colors.text, fontWeight: selected ? '600' : '400' },
+                    ]}
+                  >
+                    {label}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TextInput
+            style={[inputStyle, styles.promptInput]}
+            placeholder="Question prompt"
+            placeholderTextColor={colors.textTertiary}
+            value={question.prompt}
+            onChangeText={(text) => updateQuestion(index, { prompt: text })}
+            editable={!disabled}
+            multiline
+          />
+
+          {question.type === 'numeric' ? (
+            <View style={styles.numericRow}>
+              <View style={styles.numericField}>
+                <ThemedText style={[Typography.caption, styles.label, { color: colors.textSecondary }]}>
+                  Correct answer
+                </ThemedText>
+                <NumberField
+                  value={question.correctNumber}
+                  onChange={(correctNumber) => updateQuestion(index, { correctNumber })}
+                  placeholder="e.g., 42"
+                  style={inputStyle}
+                  placeholderTextColor={colors.textTertiary}
+                  editable={!disabled}
+                />
+              </View>
+              <View style={styles.numericField}>
+                <ThemedText style={[Typography.caption, styles.label, { color: colors.textSecondary }]}>
+                  Tolerance (±)
+                </ThemedText>
+                <NumberField
+                  value={question.tolerance}
+                  onChange={(tolerance) => updateQuestion(index, { tolerance: tolerance ?? 0 })}
+                  placeholder="0"
+                  style={inputStyle}
+                  placeholderTextColor={colors.textTertiary}
+                  editable={!disabled}
+                />
+              </View>
+            </View>
+          ) : (
+            <View>
+              <ThemedText style={[Typography.caption, styles.label, { color: colors.textSecondary }]}>
+                {question.type === 'multi_select'
+                  ? 'Tap every correct option'
+                  : 'Tap the correct option'}
+              </ThemedText>
+              {(question.options || []).map((option, optionIndex) => {
+                const isCorrect = (question.correctOptions || []).includes(optionIndex);
+                return (
+                  <View key={optionIndex} style={styles.optionRow}>
+                    <TouchableOpacity
+                      onPress={() => toggleCorrectOption(index, optionIndex)}
+                      disabled={disabled}
+                      style={styles.optionToggle}
+                    >
+                      <IconSymbol
+                        name={isCorrect ? 'checkmark.circle.fill' : 'circle'}
+                        size={22}
+                        color={isCorrect ? colors.success : colors.textTertiary}
+                      />
+                    </TouchableOpacity>
+                    {question.type === 'true_false' ? (
+                      <ThemedText style={[Typography.body, { color: colors.text, flex: 1 }]}>
+                        {option}
+                      </ThemedText>
+                    ) : (
+                      <TextInput
+                        style={[inputStyle, { flex: 1 }]}
+                        placeholder={`Option ${optionIndex + 1}`}
+                        placeholderTextColor={colors.textTertiary}
+                        value={option}
+                        onChangeText={(text) => updateOption(index, optionIndex, text)}
+                        editable={!disabled}
+                      />
+                    )}
+                    {question.type !== 'true_false' && (question.options || []).length > 2 && (
+                      <TouchableOpacity
+                        onPress={() => removeOption(index, optionIndex)}
+                        disabled={disabled}
+                        style={styles.optionToggle}
+                      >
+                        <IconSymbol name="xmark" size={18} color={colors.textTertiary} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+              {question.type !== 'true_false' && (
+                <TouchableOpacity
+                  onPress={() => updateQuestion(index, { options: [...(question.options || []), ''] })}
+                  disabled={disabled}
+                >
+                  <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+                    + Add Option
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          <TextInput
+            style={[inputStyle, styles.explanationInput]}
+            placeholder="Explanation shown after submitting (optional)"
+            placeholderTextColor={colors.textTertiary}
+            value={question.explanation || ''}
+            onChangeText={(text) => updateQuestion(index, { explanation: text || undefined })}
+            editable={!disabled}
+          />
+        </View>
+      ))}
+
+      <Button
+        title="Add Question"
+        onPress={() => onChange({ ...quiz, questions: [...quiz.questions, createQuestion()] })}
+        variant="secondary"
+        size="small"
+        disabled={disabled}
+        fullWidth
+      />
+
+      {validationError && (
+        <ThemedText style={[Typography.caption, { color: colors.warning, marginTop: Spacing.sm }]}>
+          {validationError}
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    paddingTop: Spacing.md,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  fieldGroup: {
+    marginBottom: Spacing.md,
+  },
+  label: {
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    minHeight: 44,
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    ...Typography.body,
+    fontSize: 15,
+  },
+  questionCard: {
+    borderWidth: 1,
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+  },
+  promptInput: {
+    marginBottom: Spacing.sm,
+  },
+  explanationInput: {
+    marginTop: Spacing.sm,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  optionToggle: {
+    padding: Spacing.xs,
+  },
+  numericRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  numericField: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,209 @@
+/**
+ * components/tutor/section-editor.tsx
+ * Manage a course's sections (modules) and assign topics to them
+ */
+
+import React from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { CourseSection } from '@/types/course';
+
+export interface SectionEditorProps {
+  value: CourseSection[]; // In display order
+  onChange: (sections: CourseSection[]) => void;
+  disabled?: boolean;
+}
+
+// Keep orderIndex in step with array order
+const withOrder = (sections: CourseSection[]) =>
+  sections.map((section, index) => ({ ...section, orderIndex: index }));
+
+export function SectionEditor({ value, onChange, disabled = false }: SectionEditorProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+
+  const addSection = () => {
+    onChange(
+      withOrder([
+        ...value,
+        { id: `section-${Date.now()}`, title: '', orderIndex: value.length },
+      ])
+    );
+  };
+
+  const updateSection = (index: number, field: 'title' | 'description', text: string) => {
+    const updated = [...value];
+    updated[index] = { ...updated[index], [field]: text };
+    onChange(updated);
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+    const updated = [...value];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(withOrder(updated));
+  };
+
+  const removeSection = (index: number) => {
+    onChange(withOrder(value.filter((_, i) => i !== index)));
+  };
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: colors.background, color: colors.text, borderColor: colors.border },
+  ];
+
+  return (
+    <View style={styles.container}>
+      {value.map((section, index) => (
+        <View key={section.id} style={[styles.section, { borderColor: colors.border }]}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, flex: 1 }]}>
+              Section {index + 1}
+            </ThemedText>
+            <TouchableOpacity
+              onPress={() => moveSection(index, -1)}
+              disabled={disabled || index === 0}
+              style={[styles.iconButton, { opacity: index === 0 ? 0.3 : 1 }]}
+              accessibilityLabel="Move section up"
+            >
+              <IconSymbol name="chevron.up" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => moveSection(index, 1)}
+              disabled={disabled || index === value.length - 1}
+              style={[styles.iconButton, { opacity: index === value.length - 1 ? 0.3 : 1 }]}
+              accessibilityLabel="Move section down"
+            >
+              <IconSymbol name="chevron.down" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => removeSection(index)}
+              disabled={disabled}
+              style={styles.iconButton}
+              accessibilityLabel="Remove section"
+            >
+              <IconSymbol name="xmark" size={18} color={colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            style={inputStyle}
+            placeholder="Section title, e.g. Week 1: Foundations"
+            placeholderTextColor={colors.textTertiary}
+            value={section.title}
+            onChangeText={(text) => updateSection(index, 'title', text)}
+            editable={!disabled}
+          />
+          <TextInput
+            style={[inputStyle, { marginTop: Spacing.sm }]}
+            placeholder="Description (optional)"
+            placeholderTextColor={colors.textTertiary}
+            value={section.description || ''}
+            onChangeText={(text) => updateSection(index, 'description', text)}
+            editable={!disabled}
+          />
+        </View>
+      ))}
+
+      <Button
+        title="Add Section"
+        onPress={addSection}
+        variant="secondary"
+        size="small"
+        disabled={disabled}
+      />
+    </View>
+  );
+}
+
+export interface SectionPickerProps {
+  sections: CourseSection[];
+  value?: string; // Selected section ID
+  onChange: (sectionId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chip row for choosing which section a topic belongs to
+ */
+export function SectionPicker({ sections, value, onChange, disabled = false }: SectionPickerProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+
+  const options: { id?: string; label: string }[] = [
+    { id: undefined, label: 'No section' },
+    ...sections.map((section, index) => ({
+      id: section.id,
+      label: section.title.trim() || `Section ${index + 1}`,
+    })),
+  ];
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+      {options.map((option) => {
+        const selected = option.id === value || (!option.id && !sections.some((s) => s.id === value));
+        return (
+          <TouchableOpacity
+            key={option.id ?? 'none'}
+            style={[
+              styles.chip,
+              {
+                backgroundColor: selected ? colors.primary : 'transparent',
+                borderColor: selected ? colors.primary : colors.border,
+              },
+            ]}
+            onPress={() => onChange(option.id)}
+            disabled={disabled}
+          >
+            <ThemedText
+              style={[Typography.caption, { color: selected ? '#FFFFFF' : colors.textSecondary, fontWeight: '600' }]}
+              numberOfLines={1}
+            >
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+  },
+  section: {
+    borderWidth: 1,
+    borderRadius: Radius.md,
+    padding: Spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  input: {
+    borderRadius: Radius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    ...Typography.body,
+  },
+  chips: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+    maxWidth: 200,
+  },
+});
@@ -0,0 +1,256 @@
+/**
+ * components/tutor/topic-outline.tsx
+ * Compact topic list for the course editor: drag to reorder, select several
+ * topics to delete, duplicate or move them at once
+ */
+
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { DraggableRow } from '@/components/tutor/draggable-row';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { moveTopic, syncTopicsWithSections } from '@/lib/course-sections';
+import { CourseSection } from '@/types/course';
+
+const ROW_HEIGHT = 52;
+
+interface OutlineTopic {
+  id?: string;
+  title: string;
+  sectionId?: string;
+}
+
+export interface TopicOutlineProps<T extends OutlineTopic> {
+  topics: T[];
+  sections: CourseSection[];
+  onChange: (topics: T[]) => void;
+  disabled?: boolean;
+}
+
+export function TopicOutline<T extends OutlineTopic>({
+  topics,
+  sections,
+  onChange,
+  disabled = false,
+}: TopicOutlineProps<T>) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+  // Topics are tracked by object so the selection survives reordering
+  const [selected, setSelected] = useState<Set<T>>(new Set());
+
+  const selectedTopics = topics.filter((topic) => selected.has(topic));
+  const sectionTitle = (sectionId?: string) =>
+    sections.find((section) => section.id === sectionId)?.title.trim() || '';
+
+  const toggleSelected = (topic: T) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(topic)) {
+        next.delete(topic);
+      } else {
+        next.add(topic);
+      }
+      return next;
+    });
+  };
+
+  const applyBulkChange = (updated: T[]) => {
+    onChange(updated);
+    setSelected(new Set());
+  };
+
+  const handleMove = (fromIndex: number, toIndex: number) => {
+    onChange(moveTopic(topics, fromIndex, toIndex, sections));
+  };
+
+  const handleDelete = () => {
+    if (selectedTopics.length === topics.length) {
+      Alert.alert('Cannot delete all topics', 'A course needs at least one topic.');
+      return;
+    }
+    applyBulkChange(topics.filter((topic) => !selected.has(topic)));
+  };
+
+  const handleDuplicate = () => {
+    // Copies go right after their originals and get new IDs when saved
+    applyBulkChange(
+      topics.flatMap((topic) =>
+        selected.has(topic)
+          ? [topic, { ...topic, id: undefined, title: `${topic.title} (copy)` }]
+          : [topic]
+      )
+    );
+  };
+
+  const handleMoveTo = (destination: 'top' | 'bottom' | CourseSection) => {
+    const rest = topics.filter((topic) => !selected.has(topic));
+    if (destination === 'top') {
+      applyBulkChange(syncTopicsWithSections([...selectedTopics, ...rest], sections));
+    } else if (destination === 'bottom') {
+      applyBulkChange(syncTopicsWithSections([...rest, ...selectedTopics], sections));
+    } else {
+      applyBulkChange(
+        syncTopicsWithSections(
+          topics.map((topic) => (selected.has(topic) ? { ...topic, sectionId: destination.id } : topic)),
+          sections
+        )
+      );
+    }
+  };
+
+  const actionChip = (label: string, onPress: () => void, key = label) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor: colors.border }]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <ThemedText style={[Typography.caption, { color: colors.text, fontWeight: '600' }]} numberOfLines={1}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { borderColor: colors.border }]}>
+      {/* Selection toolbar */}
+      <View style={styles.toolbar}>
+        <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, flex: 1 }]}>
+          {selectedTopics.length > 0
+            ? `${selectedTopics.length} selected`
+            : 'Drag the handle to reorder. Tap topics to select them.'}
+        </ThemedText>
+        <TouchableOpacity
+          onPress={() => setSelected(selectedTopics.length === topics.length ? new Set() : new Set(topics))}
+          disabled={disabled}
+        >
+          <ThemedText style={[Typography.caption, { color: colors.primary, fontWeight: '600' }]}>
+            {selectedTopics.length === topics.length ? 'Clear' : 'Select all'}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      {selectedTopics.length > 0 && (
+        <View style={styles.bulkActions}>
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.actionButton} onPress={handleDuplicate} disabled={disabled}>
+              <IconSymbol name="plus.square.on.square" size={18} color={colors.primary} />
+              <ThemedText style={[Typography.caption, { color: colors.primary, fontWeight: '600' }]}>
+                Duplicate
+              </ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleDelete} disabled={disabled}>
+              <IconSymbol name="trash" size={18} color={colors.accent} />
+              <ThemedText style={[Typography.caption, { color: colors.accent, fontWeight: '600' }]}>
+                Delete
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.actionRow}>
+            <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>Move to:</ThemedText>
+            {actionChip('Top', () => handleMoveTo('top'))}
+            {actionChip('Bottom', () => handleMoveTo('bottom'))}
+            {sections.map((section, index) =>
+              actionChip(section.title.trim() || `Section ${index + 1}`, () => handleMoveTo(section), section.id)
+            )}
+          </ScrollView>
+        </View>
+      )}
+
+      {/* Rows */}
+      {topics.map((topic, index) => {
+        const isSelected = selected.has(topic);
+        const section = sectionTitle(topic.sectionId);
+        return (
+          <DraggableRow
+            key={topic.id ?? `new-${index}`}
+            index={index}
+            count={topics.length}
+            rowHeight={ROW_HEIGHT}
+            onMove={handleMove}
+            disabled={disabled}
+          >
+            <TouchableOpacity
+              style={[
+                styles.rowContent,
+                { borderTopColor: colors.border },
+                isSelected && { backgroundColor: colors.primary + '15' },
+              ]}
+              onPress={() => toggleSelected(topic)}
+              disabled={disabled}
+              activeOpacity={0.7}
+            >
+              <IconSymbol
+                name={isSelected ? 'checkmark.square.fill' : 'square'}
+                size={20}
+                color={isSelected ? colors.primary : colors.textTertiary}
+              />
+              <ThemedText style={[Typography.caption, { color: colors.textTertiary, width: 24 }]}>
+                {String(index + 1).padStart(2, '0')}
+              </ThemedText>
+              <View style={styles.rowInfo}>
+                <ThemedText style={[Typography.bodySmall, { color: colors.text }]} numberOfLines={1}>
+                  {topic.title.trim() || 'Untitled topic'}
+                </ThemedText>
+                {!!section && (
+                  <ThemedText style={[Typography.caption, { color: colors.textTertiary }]} numberOfLines={1}>
+                    {section}
+                  </ThemedText>
+                )}
+              </View>
+            </TouchableOpacity>
+          </DraggableRow>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: Radius.md,
+    overflow: 'hidden',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  bulkActions: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.md,
+    gap: Spacing.sm,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+    maxWidth: 180,
+  },
+  rowContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: '100%',
+    paddingRight: Spacing.md,
+    gap: Spacing.sm,
+    borderTopWidth: 1,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+});
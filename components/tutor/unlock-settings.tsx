@@ -0,0 +1,184 @@
+/**
+ * components/tutor/unlock-settings.tsx
+ * Sequential lesson unlocking and prerequisite courses for the course editor
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getCourseById, getCoursesPage } from '@/services/course-service';
+import { Course } from '@/types/course';
+
+export interface UnlockSettingsProps {
+  sequential: boolean;
+  onSequentialChange: (sequential: boolean) => void;
+  prerequisiteCourseIds: string[];
+  onPrerequisitesChange: (courseIds: string[]) => void;
+  courseId?: string; // The course being edited, left out of the prerequisite options
+  disabled?: boolean;
+}
+
+export function UnlockSettings({
+  sequential,
+  onSequentialChange,
+  prerequisiteCourseIds,
+  onPrerequisitesChange,
+  courseId,
+  disabled = false,
+}: UnlockSettingsProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // First page of published courses, plus chosen prerequisites that aren't on it so they still show as selected
+  useEffect(() => {
+    setLoading(true);
+    getCoursesPage(null)
+      .then(async (page) => {
+        const missing = prerequisiteCourseIds.filter((id) => !page.courses.some((course) => course.id === id));
+        const selected = (await Promise.all(missing.map((id) => getCourseById(id)))).filter(
+          (course): course is Course => !!course
+        );
+        setCourses([...selected, ...page.courses].filter((course) => course.id !== courseId));
+        setNextCursor(page.nextCursor);
+      })
+      .catch((error) => console.error('Error loading courses for prerequisites:', error))
+      .finally(() => setLoading(false));
+    // Prerequisites chosen later are already in the list, so only the course being edited reloads it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await getCoursesPage(null, nextCursor);
+      setCourses((prev) => [
+        ...prev,
+        ...page.courses.filter((course) => course.id !== courseId && !prev.some((existing) => existing.id === course.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more courses for prerequisites:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const togglePrerequisite = (id: string) => {
+    onPrerequisitesChange(
+      prerequisiteCourseIds.includes(id)
+        ? prerequisiteCourseIds.filter((existing) => existing !== id)
+        : [...prerequisiteCourseIds, id]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.switchRow}>
+        <View style={styles.switchLabel}>
+          <ThemedText style={[Typography.body, { color: colors.text }]}>Unlock topics in order</ThemedText>
+          <ThemedText style={[Typography.caption, { color: colors.textSecondary }]}>
+            Students must complete each topic before the next one opens
+          </ThemedText>
+        </View>
+        <Switch
+          value={sequential}
+          onValueChange={onSequentialChange}
+          disabled={disabled}
+          trackColor={{ false: colors.border, true: colors.primary }}
+        />
+      </View>
+
+      <View>
+        <ThemedText style={[Typography.body, { color: colors.text }]}>Prerequisite courses</ThemedText>
+        <ThemedText style={[Typography.caption, { color: colors.textSecondary, marginBottom: Spacing.sm }]}>
+          Students must complete these before they can enroll
+        </ThemedText>
+        {loading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : courses.length === 0 ? (
+          <ThemedText style={[Typography.bodySmall, { color: colors.textTertiary }]}>
+            No published courses to choose from yet.
+          </ThemedText>
+        ) : (
+          <View style={styles.chips}>
+            {courses.map((course) => {
+              const selected = prerequisiteCourseIds.includes(course.id);
+              return (
+                <TouchableOpacity
+                  key={course.id}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: selected ? colors.primary : 'transparent',
+                      borderColor: selected ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => togglePrerequisite(course.id)}
+                  disabled={disabled}
+                >
+                  <ThemedText
+                    style={[
+                      Typography.caption,
+                      { color: selected ? '#FFFFFF' : colors.textSecondary, fontWeight: '600' },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {course.title}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+            {nextCursor && (
+              <TouchableOpacity
+                style={[styles.chip, { borderColor: colors.border, borderStyle: 'dashed' }]}
+                onPress={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <ThemedText style={[Typography.caption, { color: colors.primary, fontWeight: '600' }]}>
+                    Show more courses
+                  </ThemedText>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.lg,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: Radius.full,
+    borderWidth: 1,
+    maxWidth: 240,
+  },
+});
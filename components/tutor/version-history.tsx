@@ -0,0 +1,258 @@
+/**
+ * components/tutor/version-history.tsx
+ * Saved versions of a course with what each edit changed, and one-tap restore
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, Radius, Spacing, Typography } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { CourseDiff, diffCourses, isEmptyDiff, TopicChangeKind } from '@/lib/course-diff';
+import { CourseEditor, getCourseVersions, restoreCourseVersion } from '@/services/course-service';
+import { Course, CourseVersion } from '@/types/course';
+
+export interface VersionHistoryProps {
+  course: Course; // As currently saved
+  editor: CourseEditor | null;
+  onRestored: () => void;
+  disabled?: boolean;
+}
+
+const TOPIC_CHANGE_LABELS: Record<TopicChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  edited: 'Edited',
+  moved: 'Moved',
+};
+
+export function VersionHistory({ course, editor, onRestored, disabled = false }: VersionHistoryProps) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+  const [versions, setVersions] = useState<CourseVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getCourseVersions(course.id)
+      .then((result) => {
+        if (!cancelled) setVersions(result);
+      })
+      .catch((error) => console.error('Error loading course versions:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [course.id, course.updatedAt]);
+
+  const handleRestore = async (version: CourseVersion) => {
+    if (!editor) return;
+    setRestoringId(version.id);
+    try {
+      await restoreCourseVersion(course.id, version.id, editor);
+      setConfirmingId(null);
+      setExpandedId(null);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      Alert.alert('Error', 'Failed to restore this version. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <ActivityIndicator color={colors.primary} style={styles.loading} />;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+        No earlier versions yet. Each time you save, the previous version is kept here.
+      </ThemedText>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {versions.map((version, index) => {
+        // Each version was replaced by the next newer one (or the current course)
+        const replacedBy = index === 0 ? course : versions[index - 1].snapshot;
+        const diff = diffCourses(version.snapshot, replacedBy);
+        const isExpanded = expandedId === version.id;
+        const isConfirming = confirmingId === version.id;
+
+        return (
+          <View key={version.id} style={[styles.version, { borderColor: colors.border }]}>
+            <TouchableOpacity
+              style={styles.versionHeader}
+              onPress={() => setExpandedId(isExpanded ? null : version.id)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.versionInfo}>
+                <ThemedText style={[Typography.bodySmall, { color: colors.text, fontWeight: '600' }]}>
+                  {new Date(version.createdAt).toLocaleString()}
+                </ThemedText>
+                <ThemedText style={[Typography.caption, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {version.restoredFrom ? 'Replaced by a restore' : 'Replaced by an edit'} from {version.authorName}
+                </ThemedText>
+              </View>
+              <IconSymbol
+                name={isExpanded ? 'chevron.up' : 'chevron.down'}
+                size={20}
+                color={colors.textSecondary}
+              />
+            </TouchableOpacity>
+
+            {isExpanded && (
+              <View style={styles.versionBody}>
+                <DiffSummary diff={diff} />
+                {isConfirming ? (
+                  <View style={styles.confirmRow}>
+                    <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary, flex: 1 }]}>
+                      Replace the current course with this version?
+                    </ThemedText>
+                    <Button
+                      title="Cancel"
+                      onPress={() => setConfirmingId(null)}
+                      variant="ghost"
+                      size="small"
+                      disabled={restoringId !== null}
+                    />
+                    <Button
+                      title="Restore"
+                      onPress={() => handleRestore(version)}
+                      variant="primary"
+                      size="small"
+                      loading={restoringId === version.id}
+                    />
+                  </View>
+                ) : (
+                  <Button
+                    title="Restore This Version"
+                    onPress={() => setConfirmingId(version.id)}
+                    variant="secondary"
+                    size="small"
+                    disabled={disabled || !editor || restoringId !== null}
+                  />
+                )}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * What an edit changed, reading from the saved version to the one after it
+ */
+function DiffSummary({ diff }: { diff: CourseDiff }) {
+  const colors = Colors[useColorScheme() ?? 'dark'] || Colors.dark;
+
+  if (isEmptyDiff(diff)) {
+    return (
+      <ThemedText style={[Typography.bodySmall, { color: colors.textSecondary }]}>
+        No changes to the title, description, outcomes or topics.
+      </ThemedText>
+    );
+  }
+
+  return (
+    <View style={styles.diff}>
+      {diff.fields.map((change) => (
+        <View key={change.field}>
+          <ThemedText style={[Typography.caption, { color: colors.textSecondary, fontWeight: '600' }]}>
+            {change.label}
+          </ThemedText>
+          <ThemedText
+            style={[Typography.bodySmall, styles.removed, { color: colors.accent }]}
+            numberOfLines={4}
+          >
+            − {change.before || '(empty)'}
+          </ThemedText>
+          <ThemedText style={[Typography.bodySmall, { color: colors.success }]} numberOfLines={4}>
+            + {change.after || '(empty)'}
+          </ThemedText>
+        </View>
+      ))}
+
+      {diff.topics.length > 0 && (
+        <View>
+          <ThemedText style={[Typography.caption, { color: colors.textSecondary, fontWeight: '600' }]}>
+            Topics
+          </ThemedText>
+          {diff.topics.map((change, index) => (
+            <ThemedText key={index} style={[Typography.bodySmall, { color: colors.text }]}>
+              <ThemedText
+                style={[
+                  Typography.bodySmall,
+                  {
+                    color:
+                      change.kind === 'added'
+                        ? colors.success
+                        : change.kind === 'removed'
+                          ? colors.accent
+                          : colors.textSecondary,
+                    fontWeight: '600',
+                  },
+                ]}
+              >
+                {TOPIC_CHANGE_LABELS[change.kind]}
+              </ThemedText>{' '}
+              {change.title}
+              {change.details.length > 0 ? ` (${change.details.join(', ')})` : ''}
+            </ThemedText>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  loading: {
+    paddingVertical: Spacing.md,
+  },
+  version: {
+    borderWidth: 1,
+    borderRadius: Radius.md,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  versionInfo: {
+    flex: 1,
+  },
+  versionBody: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.md,
+    gap: Spacing.md,
+  },
+  confirmRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  diff: {
+    gap: Spacing.sm,
+  },
+  removed: {
+    textDecorationLine: 'line-through',
+  },
+});
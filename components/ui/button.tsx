@@ -1,7 +1,7 @@
 import React from 'react';
 import { TouchableOpacity, StyleSheet, ActivityIndicator, Platform } from 'react-native';
-import { Colors, Typography, Radius, Spacing, Glows, BrandColors } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Typography, Radius, Spacing, Glows } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
 import { ThemedText } from '@/components/themed-text';
 
 interface ButtonProps {
@@ -23,22 +23,23 @@ export function Button({
   disabled = false,
   fullWidth = false,
 }: ButtonProps) {
-  const colorScheme = useColorScheme();
-  const colors = Colors[colorScheme ?? 'dark'];
+  const colors = useThemeColors();
   
   const isDisabled = disabled || loading;
   
   // 🚀 Button Design (Glow-Based) - Launch Control Interface
   const variantStyles = {
     primary: {
-      backgroundColor: BrandColors.electricCyan, // #29B6F6
+      backgroundColor: colors.primary, // #29B6F6, or the partner's brand color
       borderWidth: 0,
       ...Glows.primary, // Cyan glow replaces elevation
+      shadowColor: colors.primary,
     },
     accent: {
-      backgroundColor: BrandColors.rocketRed, // #F44336 - Launch moments
+      backgroundColor: colors.accent, // #F44336 - Launch moments
       borderWidth: 0,
       ...Glows.accent, // Red glow for launch moments
+      shadowColor: colors.accent,
     },
     secondary: {
       backgroundColor: 'transparent',
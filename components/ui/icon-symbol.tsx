@@ -20,6 +20,7 @@ const MAPPING = {
   'chevron.right': 'keyboard-arrow-right',
   'chevron.left': 'chevron-left',
   'chevron.down': 'keyboard-arrow-down',
+  'chevron.up': 'keyboard-arrow-up',
   'book.fill': 'menu-book',
   'magnifyingglass': 'search',
   'checkmark.circle.fill': 'check-circle',
@@ -34,9 +35,24 @@ const MAPPING = {
   'arrow.up.left.and.arrow.down.right': 'fullscreen',
   'star.fill': 'star',
   'heart.fill': 'favorite',
+  'heart': 'favorite-border',
   'person.circle': 'person',
   'pencil': 'edit',
   'plus.circle.fill': 'add-circle',
+  'circle': 'radio-button-unchecked',
+  'square': 'check-box-outline-blank',
+  'checkmark.square.fill': 'check-box',
+  'questionmark.circle.fill': 'quiz',
+  'square.and.arrow.up': 'ios-share',
+  'note.text': 'sticky-note-2',
+  'exclamationmark.circle.fill': 'error',
+  'arrow.down.circle': 'download-for-offline',
+  'arrow.down.circle.fill': 'download-done',
+  'trash': 'delete-outline',
+  'line.3.horizontal': 'drag-indicator',
+  'plus.square.on.square': 'content-copy',
+  'icloud.slash': 'cloud-off',
+  'lock.fill': 'lock',
 } as IconMapping;
 
 /**
@@ -1,5 +1,4 @@
-import { Colors } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useThemeColors } from '@/hooks/use-theme-color';
 import React from 'react';
 import { StyleSheet, View } from 'react-native';
 import Animated, {
@@ -24,8 +23,7 @@ export function ProgressArc({
   strokeWidth = 8,
   showGlow = false,
 }: ProgressArcProps) {
-  const colorScheme = useColorScheme();
-  const colors = Colors[colorScheme ?? 'dark'];
+  const colors = useThemeColors();
   
   const animatedProgress = useSharedValue(0);
   
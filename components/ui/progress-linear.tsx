@@ -5,8 +5,8 @@ import Animated, {
   useSharedValue,
   withTiming,
 } from 'react-native-reanimated';
-import { Colors, Radius } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Radius } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
 
 interface ProgressLinearProps {
   progress: number; // 0 to 1
@@ -19,8 +19,7 @@ export function ProgressLinear({
   height = 4,
   showBackground = true,
 }: ProgressLinearProps) {
-  const colorScheme = useColorScheme();
-  const colors = Colors[colorScheme ?? 'dark'];
+  const colors = useThemeColors();
   
   const animatedProgress = useSharedValue(0);
   
@@ -6,8 +6,7 @@ import Animated, {
   useSharedValue,
   withTiming,
 } from 'react-native-reanimated';
-import { Colors } from '@/constants/theme';
-import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useThemeColors } from '@/hooks/use-theme-color';
 
 const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 
@@ -22,8 +21,7 @@ export function ProgressRing({
   size = 60,
   strokeWidth = 4,
 }: ProgressRingProps) {
-  const colorScheme = useColorScheme();
-  const colors = Colors[colorScheme ?? 'dark'];
+  const colors = useThemeColors();
   
   const animatedProgress = useSharedValue(0);
   
@@ -1,4 +1,14 @@
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CaptionCue, getActiveCue, loadCaptionCues } from '@/services/caption-service';
+import {
+  getHlsVariants,
+  getQualityPreference,
+  HlsVariant,
+  QualityPreference,
+  selectVariant,
+  setQualityPreference as saveQualityPreference,
+} from '@/services/video-quality-service';
+import { CaptionTrack } from '@/types/course';
 import { AVPlaybackStatus, ResizeMode, Video } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as ScreenOrientation from 'expo-screen-orientation';
@@ -37,6 +47,9 @@ interface VideoPlayerProps {
   initialPosition?: number; // in seconds, for resume
   onProgressUpdate?: (positionSeconds: number, durationSeconds: number) => void; // Called every 10 seconds
   onProgressSave?: (positionSeconds: number, isCompleted: boolean) => void; // Called on pause/exit
+  onPositionChange?: (positionSeconds: number) => void; // Called on every playback status update
+  seekRequest?: { positionSeconds: number; requestedAt: number }; // Jump to a position; requestedAt makes repeats distinct
+  captions?: CaptionTrack[]; // Selectable subtitle tracks (WebVTT)
 }
 
 interface SeekAnimationState {
@@ -56,6 +69,9 @@ export function VideoPlayer({
   initialPosition = 0,
   onProgressUpdate,
   onProgressSave,
+  onPositionChange,
+  seekRequest,
+  captions = [],
 }: VideoPlayerProps) {
   const videoRef = useRef<Video>(null);
   const insets = useSafeAreaInsets();
@@ -74,6 +90,11 @@ export function VideoPlayer({
   });
   const [hasCompleted, setHasCompleted] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [captionLanguage, setCaptionLanguage] = useState<string | null>(null);
+  const [captionCues, setCaptionCues] = useState<CaptionCue[]>([]);
+  const [variants, setVariants] = useState<HlsVariant[]>([]);
+  const [qualityPreference, setQualityPreference] = useState<QualityPreference>('auto');
+  const [showQualityMenu, setShowQualityMenu] = useState(false);
   
   const lastTapTimeRef = useRef<{ left: number; right: number }>({ left: 0, right: 0 });
   const singleTapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -83,6 +104,7 @@ export function VideoPlayer({
   const progressUpdateIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const lastProgressUpdateRef = useRef<number>(0);
   const hasInitialSeekedRef = useRef<boolean>(false);
+  const qualitySwitchRef = useRef<{ positionMillis: number; shouldPlay: boolean } | null>(null);
   
   const seekOpacity = useSharedValue(0);
   const seekScale = useSharedValue(0.8);
@@ -122,6 +144,7 @@ export function VideoPlayer({
     if (status.isLoaded) {
       setLoadError(null); // Clear any previous errors
       setIsPlaying(status.isPlaying);
+      onPositionChange?.(status.positionMillis / 1000);
       if (status.durationMillis && status.positionMillis !== undefined) {
         const progress = status.positionMillis / status.durationMillis;
         setProgressBarWidth(progress);
@@ -319,6 +342,21 @@ export function VideoPlayer({
     showControlsNow();
   };
 
+  // Cycle captions: off -> each track -> off
+  const handleCaptionsToggle = () => {
+    const options = [null, ...captions.map((track) => track.language)];
+    const currentIndex = options.indexOf(captionLanguage);
+    setCaptionLanguage(options[(currentIndex + 1) % options.length]);
+    showControlsNow();
+  };
+
+  const handleQualitySelect = (preference: QualityPreference) => {
+    setQualityPreference(preference);
+    saveQualityPreference(preference);
+    setShowQualityMenu(false);
+    showControlsNow();
+  };
+
   const handleFullscreen = async () => {
     try {
       if (!isFullscreen) {
@@ -445,6 +483,97 @@ export function VideoPlayer({
     }
   }, [initialPosition]);
 
+  // Seek when the parent asks (e.g. jumping to a note's timestamp)
+  useEffect(() => {
+    if (seekRequest && videoRef.current) {
+      videoRef.current
+        .setPositionAsync(seekRequest.positionSeconds * 1000)
+        .then(() => showControlsNow())
+        .catch((error) => console.error('Error seeking to requested position:', error));
+    }
+  }, [seekRequest]);
+
+  // Quality preference is stored per device
+  useEffect(() => {
+    getQualityPreference().then(setQualityPreference);
+  }, []);
+
+  // List the renditions in the master playlist
+  useEffect(() => {
+    let cancelled = false;
+    setVariants([]);
+    setShowQualityMenu(false);
+    getHlsVariants(source.uri).then((list) => {
+      if (!cancelled) setVariants(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source.uri]);
+
+  // Pinned renditions play their variant playlist directly instead of the master
+  const selectedVariant = selectVariant(variants, qualityPreference);
+  const playbackUri = selectedVariant?.uri ?? source.uri;
+  const qualityOptions: QualityPreference[] = [
+    'auto',
+    ...variants
+      .map((variant) => variant.height || 0)
+      .filter((height, index, heights) => height > 0 && heights.indexOf(height) === index),
+  ];
+  const lastPlaybackRef = useRef({ sourceUri: source.uri, playbackUri });
+  useEffect(() => {
+    const last = lastPlaybackRef.current;
+    // Same lesson, different rendition: resume where we were once the new stream loads
+    if (last.sourceUri === source.uri && last.playbackUri !== playbackUri) {
+      qualitySwitchRef.current = {
+        positionMillis:
+          hasInitialSeekedRef.current || initialPosition <= 0
+            ? getCurrentTime()
+            : initialPosition * 1000,
+        shouldPlay: isPlaying,
+      };
+    }
+    lastPlaybackRef.current = { sourceUri: source.uri, playbackUri };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source.uri, playbackUri]);
+
+  const handleVideoLoad = async () => {
+    const pending = qualitySwitchRef.current;
+    if (!pending || !videoRef.current) return;
+    qualitySwitchRef.current = null;
+    try {
+      await videoRef.current.setPositionAsync(pending.positionMillis);
+      hasInitialSeekedRef.current = true;
+      if (pending.shouldPlay) {
+        await videoRef.current.playAsync();
+      }
+    } catch (error) {
+      console.error('Error resuming after quality change:', error);
+    }
+  };
+
+  // Load cues for the selected caption track (kept across lessons when the language exists)
+  const activeCaptionTrack = captions.find((track) => track.language === captionLanguage);
+  const activeCaptionUrl = activeCaptionTrack?.url;
+  useEffect(() => {
+    setCaptionCues([]);
+    if (!activeCaptionUrl) return;
+
+    let cancelled = false;
+    loadCaptionCues(activeCaptionUrl)
+      .then((cues) => {
+        if (!cancelled) setCaptionCues(cues);
+      })
+      .catch(() => {
+        // Already logged by the service; leave captions blank
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeCaptionUrl]);
+
+  const activeCue = activeCaptionTrack ? getActiveCue(captionCues, getCurrentTime() / 1000) : null;
+
   // Set up progress tracking interval (every 10 seconds)
   useEffect(() => {
     if (isPlaying && status?.isLoaded && 'durationMillis' in status && status.durationMillis) {
@@ -517,11 +646,12 @@ export function VideoPlayer({
       <Video
         ref={videoRef}
         style={[styles.video, isFullscreen && styles.videoFullscreen]}
-        source={source}
+        source={{ uri: playbackUri }}
         resizeMode={isFullscreen ? ResizeMode.COVER : ResizeMode.CONTAIN}
         shouldPlay={false}
         isLooping={false}
         onPlaybackStatusUpdate={handlePlaybackStatusUpdate}
+        onLoad={handleVideoLoad}
         useNativeControls={false}
         progressUpdateIntervalMillis={250}
       />
@@ -534,6 +664,18 @@ export function VideoPlayer({
         </View>
       )}
 
+      {/* Captions */}
+      {activeCue && (
+        <View
+          pointerEvents="none"
+          style={[styles.captionContainer, { bottom: showControls ? (isLandscape ? 88 : 72) : 16 }]}
+        >
+          <Text style={[styles.captionText, isLandscape && styles.captionTextLandscape]}>
+            {activeCue.text}
+          </Text>
+        </View>
+      )}
+
       {/* Left Tap Zone */}
       <TouchableOpacity
         style={styles.leftTapZone}
@@ -632,6 +774,27 @@ export function VideoPlayer({
             </Animated.View>
           )}
 
+          {/* Quality Menu */}
+          {showQualityMenu && qualityOptions.length > 1 && (
+            <View style={[styles.qualityMenu, isLandscape && styles.qualityMenuLandscape]}>
+              {qualityOptions.map((option) => {
+                const isSelected = option === (selectedVariant?.height ?? 'auto');
+                return (
+                  <TouchableOpacity
+                    key={String(option)}
+                    style={styles.qualityOption}
+                    onPress={() => handleQualitySelect(option)}
+                  >
+                    <Text style={[styles.qualityOptionText, isSelected && styles.qualityOptionSelected]}>
+                      {option === 'auto' ? 'Auto' : `${option}p`}
+                    </Text>
+                    {isSelected && <IconSymbol name="checkmark.circle.fill" size={14} color="#E50914" />}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
           {/* Bottom Control Bar */}
           <LinearGradient
             colors={['transparent', 'rgba(0,0,0,0.85)']}
@@ -687,6 +850,45 @@ export function VideoPlayer({
                   </Text>
                 </TouchableOpacity>
 
+                {qualityOptions.length > 1 && (
+                  <TouchableOpacity
+                    style={[styles.speedButton, isLandscape && styles.speedButtonLandscape]}
+                    onPress={() => {
+                      setShowQualityMenu(!showQualityMenu);
+                      showControlsNow();
+                    }}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    accessibilityLabel="Video quality"
+                  >
+                    <Text style={[styles.speedText, isLandscape && styles.speedTextLandscape]}>
+                      {selectedVariant ? selectedVariant.label : 'Auto'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                {captions.length > 0 && (
+                  <TouchableOpacity
+                    style={[styles.speedButton, isLandscape && styles.speedButtonLandscape]}
+                    onPress={handleCaptionsToggle}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    accessibilityLabel={
+                      activeCaptionTrack ? `Captions: ${activeCaptionTrack.label}` : 'Captions off'
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.speedText,
+                        isLandscape && styles.speedTextLandscape,
+                        !activeCaptionTrack && styles.captionsOffText,
+                      ]}
+                    >
+                      {activeCaptionTrack && captions.length > 1
+                        ? `CC ${activeCaptionTrack.language.toUpperCase()}`
+                        : 'CC'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
                 <TouchableOpacity
                   style={[styles.controlButton, isLandscape && styles.controlButtonLandscape]}
                   onPress={handleFullscreen}
@@ -936,6 +1138,60 @@ const styles = StyleSheet.create({
   speedTextLandscape: {
     fontSize: 15,
   },
+  qualityMenu: {
+    position: 'absolute',
+    right: 16,
+    bottom: 72,
+    minWidth: 120,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(20,20,20,0.95)',
+    zIndex: 6,
+  },
+  qualityMenuLandscape: {
+    bottom: 88,
+  },
+  qualityOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 12,
+  },
+  qualityOptionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  qualityOptionSelected: {
+    fontWeight: '700',
+  },
+  captionsOffText: {
+    opacity: 0.5,
+    textDecorationLine: 'line-through',
+  },
+  captionContainer: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    alignItems: 'center',
+    zIndex: 4,
+  },
+  captionText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    lineHeight: 21,
+    textAlign: 'center',
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  captionTextLandscape: {
+    fontSize: 18,
+    lineHeight: 25,
+  },
   errorOverlay: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,93 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { BrandColors } from '@/constants/theme';
+import { useAuth } from '@/contexts/auth-context';
+import { isWishlisted, toggleWishlist } from '@/services/wishlist-service';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+
+interface WishlistButtonProps {
+  courseId: string;
+  size?: number;
+  color?: string;
+  style?: ViewStyle;
+  onChange?: (wishlisted: boolean) => void;
+}
+
+/**
+ * Heart toggle for saving a course to the student's wishlist.
+ * Renders nothing for non-students.
+ */
+export function WishlistButton({
+  courseId,
+  size = 22,
+  color = '#FFFFFF',
+  style,
+  onChange,
+}: WishlistButtonProps) {
+  const { userProfile } = useAuth();
+  const [wishlisted, setWishlisted] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const isStudent = userProfile?.role === 'student';
+
+  useEffect(() => {
+    if (!isStudent || !userProfile) return;
+
+    let cancelled = false;
+    isWishlisted(userProfile.uid, courseId).then((value) => {
+      if (!cancelled) setWishlisted(value);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, userProfile, isStudent]);
+
+  const handlePress = async () => {
+    if (!userProfile || saving) return;
+
+    // Optimistic update, reverted if the write fails
+    const previous = wishlisted;
+    setWishlisted(!previous);
+    setSaving(true);
+    try {
+      const next = await toggleWishlist(userProfile.uid, courseId);
+      setWishlisted(next);
+      onChange?.(next);
+    } catch (error) {
+      console.error('Error toggling wishlist:', error);
+      setWishlisted(previous);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isStudent) {
+    return null;
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={handlePress}
+      disabled={saving}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={wishlisted ? 'Remove from wishlist' : 'Add to wishlist'}
+    >
+      <IconSymbol
+        name={wishlisted ? 'heart.fill' : 'heart'}
+        size={size}
+        color={wishlisted ? BrandColors.rocketRed : color}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
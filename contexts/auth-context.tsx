@@ -5,9 +5,12 @@ import {
   createUserWithEmailAndPassword,
   signOut,
   onAuthStateChanged,
+  sendEmailVerification,
 } from 'firebase/auth';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
+import { acceptAdminInvite, getPendingAdminInvite } from '@/services/admin-service';
+import { redeemTutorInviteCode, validateTutorInviteCode } from '@/services/tutor-invite-service';
 
 export type UserRole = 'student' | 'tutor' | 'admin';
 
@@ -19,6 +22,8 @@ interface UserProfile {
   university_id?: string;
   college_id?: string;
   branch_id?: string;
+  year?: string; // Current academic year, '1' to '4' (students)
+  admission_batch?: number; // Year of admission, e.g. 2024 (students)
 }
 
 interface AuthContextType {
@@ -26,7 +31,8 @@ interface AuthContextType {
   userProfile: UserProfile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, name: string, tutorCode?: string, universityId?: string, collegeId?: string, branchId?: string) => Promise<void>;
+  signUp: (email: string, password: string, name: string, tutorCode?: string, universityId?: string, collegeId?: string, branchId?: string, year?: string, admissionBatch?: number) => Promise<void>;
+  updateAcademicProfile: (year: string, admissionBatch: number) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -36,7 +42,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isAdminMode, setIsAdminMode] = useState(false);
 
   // Fetch user profile from Firestore
   const fetchUserProfile = async (user: User): Promise<UserProfile | null> => {
@@ -52,6 +57,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           university_id: data.university_id,
           college_id: data.college_id,
           branch_id: data.branch_id,
+          year: data.year,
+          admission_batch: data.admission_batch,
         };
       }
       return null;
@@ -61,18 +68,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Grant the admin role if this verified email has a pending invite
+  const acceptPendingAdminInvite = async (user: User): Promise<boolean> => {
+    try {
+      if (!user.email || !(await getPendingAdminInvite(user.email))) {
+        return false;
+      }
+      // The function checks email_verified on the ID token, so make sure it's current
+      await user.getIdToken(true);
+      await acceptAdminInvite();
+      return true;
+    } catch (error) {
+      console.error('Error accepting admin invite:', error);
+      return false;
+    }
+  };
+
   // Listen to auth state changes
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      // Don't override admin mode if it's active
-      if (isAdminMode) {
-        setLoading(false);
-        return;
-      }
-
       if (user) {
         setUser(user);
-        const profile = await fetchUserProfile(user);
+        let profile = await fetchUserProfile(user);
+        if (profile && profile.role !== 'admin' && user.emailVerified && (await acceptPendingAdminInvite(user))) {
+          profile = await fetchUserProfile(user);
+        }
         setUserProfile(profile);
       } else {
         setUser(null);
@@ -82,33 +102,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
 
     return unsubscribe;
-  }, [isAdminMode]);
+  }, []);
 
   const signIn = async (email: string, password: string) => {
     try {
-      // Admin login check (username: "admin", password: "admin")
-      if (email.toLowerCase().trim() === 'admin' && password === 'admin') {
-        // Create a mock admin user profile
-        const adminProfile: UserProfile = {
-          uid: 'admin-user',
-          email: 'admin@cohortlaunchpad.com',
-          displayName: 'Admin',
-          role: 'admin',
-        };
-        setIsAdminMode(true);
-        setUserProfile(adminProfile);
-        // Set a mock user object
-        setUser({
-          uid: 'admin-user',
-          email: 'admin@cohortlaunchpad.com',
-        } as any);
-        setLoading(false);
-        return;
-      }
+      // Admins sign in like everyone else; their role comes from the users profile
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
 
-      // Regular Firebase authentication
-      setIsAdminMode(false);
-      await signInWithEmailAndPassword(auth, email, password);
+      // Invited admins must verify their email before the invite is accepted
+      if (!user.emailVerified && (await getPendingAdminInvite(email))) {
+        await sendEmailVerification(user);
+        await signOut(auth);
+        throw new Error(`Verify your email to activate your admin account. We sent a new link to ${email}.`);
+      }
     } catch (error: any) {
       throw new Error(error.message || 'Failed to sign in');
     }
@@ -121,14 +127,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     tutorCode?: string,
     universityId?: string,
     collegeId?: string,
-    branchId?: string
+    branchId?: string,
+    year?: string,
+    admissionBatch?: number
   ) => {
     try {
+      // A pending admin invite for this email takes precedence over the tutor code
+      const adminInvite = await getPendingAdminInvite(email);
+      const inviteCode = !adminInvite && tutorCode?.trim() ? tutorCode : undefined;
+
+      // Reject bad tutor codes before creating the auth account
+      if (inviteCode) {
+        const validation = await validateTutorInviteCode(inviteCode);
+        if (!validation.valid) {
+          throw new Error(validation.reason || 'Invalid tutor code');
+        }
+      }
+
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       const user = userCredential.user;
 
-      // Determine role based on tutor code
-      const role: UserRole = tutorCode === 'TUTOR' ? 'tutor' : 'student';
+      // Roles are granted server-side: the tutor code is redeemed by a Cloud Function,
+      // and invited admins stay students until their invite is accepted
+      const role: UserRole = inviteCode ? 'tutor' : 'student';
 
       // Create user profile in Firestore
       const profileData: any = {
@@ -138,14 +159,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         createdAt: new Date().toISOString(),
       };
 
-      // Only add university/college/branch for students
+      // Only add university/college/branch and academic year for students
       if (role === 'student' && universityId && collegeId && branchId) {
         profileData.university_id = universityId;
         profileData.college_id = collegeId;
         profileData.branch_id = branchId;
       }
+      if (role === 'student' && year && admissionBatch) {
+        profileData.year = year;
+        profileData.admission_batch = admissionBatch;
+      }
+
+      let tutorUniversityId: string | undefined;
+      if (inviteCode) {
+        // The function consumes the code and writes the tutor profile in one transaction;
+        // if the code was used up in the meantime, roll back the auth account
+        try {
+          const invite = await redeemTutorInviteCode(inviteCode, name);
+          tutorUniversityId = invite.university_id;
+        } catch (inviteError) {
+          await user.delete();
+          throw inviteError;
+        }
+      } else {
+        await setDoc(doc(db, 'users', user.uid), profileData);
+      }
 
-      await setDoc(doc(db, 'users', user.uid), profileData);
+      // The invite is accepted on the first sign-in after the email is verified
+      if (adminInvite) {
+        await sendEmailVerification(user);
+        await signOut(auth);
+        return;
+      }
 
       // Update user profile state
       setUserProfile({
@@ -153,27 +198,41 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         email: user.email,
         displayName: name,
         role,
-        university_id: role === 'student' ? universityId : undefined,
+        university_id: role === 'student' ? universityId : tutorUniversityId,
         college_id: role === 'student' ? collegeId : undefined,
         branch_id: role === 'student' ? branchId : undefined,
+        year: role === 'student' ? year : undefined,
+        admission_batch: role === 'student' ? admissionBatch : undefined,
       });
     } catch (error: any) {
       throw new Error(error.message || 'Failed to sign up');
     }
   };
 
+  /**
+   * Update the signed-in student's academic year and admission batch
+   */
+  const updateAcademicProfile = async (year: string, admissionBatch: number) => {
+    if (!user) {
+      throw new Error('You must be signed in');
+    }
+    try {
+      await updateDoc(doc(db, 'users', user.uid), {
+        year,
+        admission_batch: admissionBatch,
+        updatedAt: new Date().toISOString(),
+      });
+      setUserProfile((profile) => (profile ? { ...profile, year, admission_batch: admissionBatch } : profile));
+    } catch (error: any) {
+      throw new Error(error.message || 'Failed to update profile');
+    }
+  };
+
   const logout = async () => {
     try {
-      if (isAdminMode) {
-        // Clear admin mode
-        setIsAdminMode(false);
-        setUser(null);
-        setUserProfile(null);
-      } else {
-        await signOut(auth);
-        setUser(null);
-        setUserProfile(null);
-      }
+      await signOut(auth);
+      setUser(null);
+      setUserProfile(null);
     } catch (error: any) {
       throw new Error(error.message || 'Failed to sign out');
     }
@@ -187,6 +246,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loading,
         signIn,
         signUp,
+        updateAcademicProfile,
         logout,
       }}
     >
@@ -2,48 +2,127 @@
  * 🤝 Partner Context
  * Manages white-label behavior when a college is partnered
  * Dynamically changes app branding, logo, name, and course filtering
+ * (student-facing screens scope their course queries with useCatalogScope)
+ *
+ * The active partner is saved to AsyncStorage and restored on launch. It comes from
+ * (in order of precedence) the signed-in student's own partnered college, a partner
+ * link (/p/{collegeId}), or an admin's "Preview as College".
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { College, University, Branch, PartnerContext as IPartnerContext } from '@/types/admin';
+import { useAuth } from '@/contexts/auth-context';
+import { getPartnerContextForCollege } from '@/services/admin-service';
+
+const PARTNER_CONTEXT_KEY = 'partnerContext';
+
+type PartnerSource = 'profile' | 'link' | 'preview';
+
+interface StoredPartnerContext {
+  context: IPartnerContext;
+  source: PartnerSource;
+}
 
 interface PartnerContextType {
   partnerContext: IPartnerContext | null;
   setPartnerCollege: (college: College | null, university: University | null, branches: Branch[]) => void;
+  enterPartnerLink: (collegeId: string) => Promise<boolean>;
   clearPartnerContext: () => void;
   isPartnerMode: boolean;
+  isHydrated: boolean; // False until the saved partner has been restored
 }
 
 const PartnerContext = createContext<PartnerContextType | undefined>(undefined);
 
 export function PartnerProvider({ children }: { children: ReactNode }) {
+  const { user, userProfile, loading: authLoading } = useAuth();
   const [partnerContext, setPartnerContextState] = useState<IPartnerContext | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Where the active partner came from; a ref so effects can read it without re-running
+  const sourceRef = useRef<PartnerSource | null>(null);
 
-  // Load from storage on mount (for persistence)
+  const applyPartnerContext = useCallback((context: IPartnerContext | null, source: PartnerSource | null) => {
+    setPartnerContextState(context);
+    sourceRef.current = context ? source : null;
+
+    const save = context && source
+      ? AsyncStorage.setItem(PARTNER_CONTEXT_KEY, JSON.stringify({ context, source } as StoredPartnerContext))
+      : AsyncStorage.removeItem(PARTNER_CONTEXT_KEY);
+    save.catch((error) => console.error('Error saving partner context:', error));
+  }, []);
+
+  // Restore the saved partner on launch
   useEffect(() => {
-    // In a real app, load from AsyncStorage or similar
-    // For now, we'll keep it in memory
+    const loadStoredContext = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(PARTNER_CONTEXT_KEY);
+        if (stored) {
+          const { context, source } = JSON.parse(stored) as StoredPartnerContext;
+          setPartnerContextState(context);
+          sourceRef.current = source;
+        }
+      } catch (error) {
+        console.error('Error loading partner context:', error);
+      } finally {
+        setIsHydrated(true);
+      }
+    };
+    loadStoredContext();
   }, []);
 
+  // Follow the signed-in student's college: partnered colleges switch white-label mode on
+  useEffect(() => {
+    if (!isHydrated || authLoading) return;
+
+    if (!user) {
+      // Signing out ends a partner that came from the profile; links and previews stay
+      if (sourceRef.current === 'profile') applyPartnerContext(null, null);
+      return;
+    }
+    if (userProfile?.role !== 'student' || !userProfile.college_id) return;
+
+    let cancelled = false;
+    getPartnerContextForCollege(userProfile.college_id)
+      .then((context) => {
+        if (cancelled) return;
+        if (context) {
+          applyPartnerContext(context, 'profile');
+        } else if (sourceRef.current === 'profile') {
+          // The college is no longer partnered
+          applyPartnerContext(null, null);
+        }
+      })
+      .catch((error) => console.error('Error loading partner college:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isHydrated, authLoading, user, userProfile?.role, userProfile?.college_id, applyPartnerContext]);
+
   const setPartnerCollege = (college: College | null, university: University | null, branches: Branch[]) => {
     if (college && university) {
-      const context: IPartnerContext = {
-        college,
-        university,
-        branches,
-      };
-      setPartnerContextState(context);
-      // Persist to storage
-      // await AsyncStorage.setItem('partnerContext', JSON.stringify(context));
+      applyPartnerContext({ college, university, branches }, 'preview');
     } else {
-      setPartnerContextState(null);
-      // await AsyncStorage.removeItem('partnerContext');
+      applyPartnerContext(null, null);
     }
   };
 
+  /**
+   * Enter white-label mode from a partner link
+   * @returns false if the college doesn't exist or isn't partnered
+   */
+  const enterPartnerLink = async (collegeId: string): Promise<boolean> => {
+    const context = await getPartnerContextForCollege(collegeId);
+    if (!context) return false;
+    // A student's own partnered college takes precedence over links
+    if (sourceRef.current !== 'profile') {
+      applyPartnerContext(context, 'link');
+    }
+    return true;
+  };
+
   const clearPartnerContext = () => {
-    setPartnerContextState(null);
-    // await AsyncStorage.removeItem('partnerContext');
+    applyPartnerContext(null, null);
   };
 
   const isPartnerMode = partnerContext !== null;
@@ -53,8 +132,10 @@ export function PartnerProvider({ children }: { children: ReactNode }) {
       value={{
         partnerContext,
         setPartnerCollege,
+        enterPartnerLink,
         clearPartnerContext,
         isPartnerMode,
+        isHydrated,
       }}
     >
       {children}
@@ -69,4 +150,3 @@ export function usePartner() {
   }
   return context;
 }
-
@@ -0,0 +1,82 @@
+/**
+ * 🎨 Partner Theme Context
+ * Applies a partner college's brand colors, font, app name and favicon while partner mode is active
+ * useThemeColor / useThemeColors read from here, so themed components pick up the partner palette.
+ */
+
+import React, { createContext, useContext, useEffect, useMemo, ReactNode } from 'react';
+import { Platform } from 'react-native';
+import { Colors, Fonts } from '@/constants/theme';
+import { usePartner } from '@/contexts/partner-context';
+import { buildPartnerColors, getPartnerAppName, DEFAULT_APP_NAME, ThemeColors } from '@/lib/partner-theme';
+
+interface PartnerThemeContextType {
+  colors: { light: ThemeColors; dark: ThemeColors };
+  appName: string;
+  fontFamily?: string; // Only set when the partner picked a font
+  splashImage?: string;
+  isPartnerTheme: boolean;
+}
+
+const defaultTheme: PartnerThemeContextType = {
+  colors: Colors,
+  appName: DEFAULT_APP_NAME,
+  isPartnerTheme: false,
+};
+
+// Defaults to the standard theme so components also render outside the provider
+const PartnerThemeContext = createContext<PartnerThemeContextType>(defaultTheme);
+
+export function PartnerThemeProvider({ children }: { children: ReactNode }) {
+  const { partnerContext } = usePartner();
+  const college = partnerContext?.college ?? null;
+
+  const value = useMemo<PartnerThemeContextType>(() => {
+    if (!college) return defaultTheme;
+    const theme = college.theme;
+    return {
+      colors: {
+        light: buildPartnerColors(theme, 'light'),
+        dark: buildPartnerColors(theme, 'dark'),
+      },
+      appName: getPartnerAppName(college),
+      fontFamily: theme?.font ? Fonts?.[theme.font] : undefined,
+      splashImage: theme?.splash_image || undefined,
+      isPartnerTheme: true,
+    };
+  }, [college]);
+
+  // On web, show the partner's name and favicon in the browser tab
+  const favicon = college?.theme?.favicon;
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') return;
+
+    const previousTitle = document.title;
+    document.title = value.appName;
+
+    let icon = document.querySelector<HTMLLinkElement>("link[rel~='icon']");
+    const previousIcon = icon?.href;
+    if (favicon) {
+      if (!icon) {
+        icon = document.createElement('link');
+        icon.rel = 'icon';
+        document.head.appendChild(icon);
+      }
+      icon.href = favicon;
+    }
+
+    return () => {
+      document.title = previousTitle;
+      if (icon && favicon) {
+        if (previousIcon) icon.href = previousIcon;
+        else icon.remove();
+      }
+    };
+  }, [value.appName, favicon]);
+
+  return <PartnerThemeContext.Provider value={value}>{children}</PartnerThemeContext.Provider>;
+}
+
+export function usePartnerTheme() {
+  return useContext(PartnerThemeContext);
+}
@@ -0,0 +1,46 @@
+/**
+ * Admin invitations
+ *
+ * An invited email signs up as a normal account; once the address is verified
+ * this function grants the admin role and marks the invite accepted.
+ */
+
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db } from './firebase';
+
+export const acceptAdminInvite = onCall(async (request) => {
+  const auth = request.auth;
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in');
+  }
+  if (!auth.token.email || !auth.token.email_verified) {
+    throw new HttpsError('failed-precondition', 'Verify your email address to accept the admin invite');
+  }
+
+  const email = auth.token.email.trim().toLowerCase();
+  const inviteRef = db.collection('admin_invites').doc(email);
+  const userRef = db.collection('users').doc(auth.uid);
+
+  await db.runTransaction(async (transaction) => {
+    const inviteSnap = await transaction.get(inviteRef);
+    const invite = inviteSnap.data();
+    if (!invite || invite.status !== 'pending') {
+      throw new HttpsError('not-found', 'No pending admin invite for this email');
+    }
+
+    const now = new Date().toISOString();
+    transaction.set(
+      userRef,
+      { email, role: 'admin', invited_by: invite.invited_by, updatedAt: now },
+      { merge: true }
+    );
+    transaction.update(inviteRef, {
+      status: 'accepted',
+      accepted_by: auth.uid,
+      acceptedAt: now,
+      updatedAt: now,
+    });
+  });
+
+  return { role: 'admin' };
+});
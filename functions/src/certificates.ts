@@ -0,0 +1,118 @@
+/**
+ * Completion certificates
+ *
+ * Certificates are public and verifiable, so only this function issues them,
+ * after checking completion against the student's lecture progress and
+ * passed quiz attempts rather than trusting the app.
+ */
+
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db } from './firebase';
+
+// Unambiguous characters (no 0/O, 1/I/L)
+const ID_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+interface StoredTopic {
+  id: string;
+  quiz?: unknown;
+}
+
+function generateVerificationId(): string {
+  const segment = () =>
+    Array.from({ length: 4 }, () => ID_ALPHABET[Math.floor(Math.random() * ID_ALPHABET.length)]).join('');
+  return `CERT-${segment()}-${segment()}-${segment()}`;
+}
+
+export const issueCertificate = onCall<{ courseId?: string }>(async (request) => {
+  const auth = request.auth;
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in');
+  }
+  const { courseId } = request.data;
+  if (!courseId) {
+    throw new HttpsError('invalid-argument', 'courseId is required');
+  }
+
+  // Idempotent: one certificate per student per course
+  const existing = await db
+    .collection('certificates')
+    .where('user_id', '==', auth.uid)
+    .where('course_id', '==', courseId)
+    .limit(1)
+    .get();
+  if (!existing.empty) {
+    return { id: existing.docs[0].id, ...existing.docs[0].data() };
+  }
+
+  const [courseSnap, userSnap, progressSnap, lectureSnap, attemptSnap] = await Promise.all([
+    db.collection('courses').doc(courseId).get(),
+    db.collection('users').doc(auth.uid).get(),
+    db.collection('user_course_progress').doc(`${auth.uid}_${courseId}`).get(),
+    db
+      .collection('user_lecture_progress')
+      .where('user_id', '==', auth.uid)
+      .where('course_id', '==', courseId)
+      .get(),
+    db
+      .collection('user_quiz_attempts')
+      .where('user_id', '==', auth.uid)
+      .where('course_id', '==', courseId)
+      .get(),
+  ]);
+
+  const course = courseSnap.data();
+  if (!course) {
+    throw new HttpsError('not-found', `Course ${courseId} not found`);
+  }
+
+  // Every topic watched, and every quiz passed (attempts are only written by submitQuizAttempt)
+  const watched = new Set(
+    lectureSnap.docs.filter((doc) => doc.data().is_completed === true).map((doc) => doc.data().lecture_id)
+  );
+  const passed = new Set(
+    attemptSnap.docs.filter((doc) => doc.data().passed === true).map((doc) => doc.data().topic_id)
+  );
+  const topics = (course.topics || []) as StoredTopic[];
+  const completed =
+    topics.length > 0 && topics.every((topic) => watched.has(topic.id) && (!topic.quiz || passed.has(topic.id)));
+  if (!completed) {
+    throw new HttpsError('failed-precondition', `Course ${courseId} has not been completed`);
+  }
+
+  const userData = userSnap.data() || {};
+  const now = new Date().toISOString();
+  const certificate: Record<string, unknown> = {
+    user_id: auth.uid,
+    course_id: courseId,
+    student_name: userData.displayName || userData.email || 'Student',
+    course_title: course.title,
+    trainer_name: course.trainerName,
+    completed_at: progressSnap.data()?.completed_at || now,
+    issued_at: now,
+  };
+
+  // Brand with the student's partner college, the same one PartnerContext shows
+  if (userData.college_id) {
+    const college = (await db.collection('colleges').doc(userData.college_id).get()).data();
+    if (college?.is_partnered) {
+      certificate.college_id = userData.college_id;
+      certificate.college_name = college.name;
+      if (college.logo) {
+        certificate.college_logo = college.logo;
+      }
+      const university = (await db.collection('universities').doc(college.university_id).get()).data();
+      if (university) {
+        certificate.university_name = university.name;
+      }
+    }
+  }
+
+  // Retry on the (unlikely) collision with an existing ID
+  let certId = generateVerificationId();
+  while ((await db.collection('certificates').doc(certId).get()).exists) {
+    certId = generateVerificationId();
+  }
+
+  await db.collection('certificates').doc(certId).create(certificate);
+  return { id: certId, ...certificate };
+});
@@ -0,0 +1,79 @@
+/**
+ * Course counters
+ *
+ * Enrollment and rating counters on a course drive the "most popular" sort,
+ * recommendations and analytics, so students can't write them. They're kept
+ * here as enrollments and ratings are written.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentCreated, onDocumentDeleted, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { db } from './firebase';
+
+interface StoredEnrollment {
+  studentId: string;
+  courseId: string;
+}
+
+interface StoredRating {
+  courseId: string;
+  rating: number;
+}
+
+// Ratings outside 1-5 are clamped the same way the app does
+function clampRating(rating: number): number {
+  return Math.max(1, Math.min(5, Number(rating) || 0));
+}
+
+async function countEnrollment(enrollment: StoredEnrollment, change: 1 | -1): Promise<void> {
+  // Peers in the same branch drive recommendations, so count enrollments per branch too
+  const studentSnap = await db.collection('users').doc(enrollment.studentId).get();
+  const branchId = studentSnap.data()?.branch_id as string | undefined;
+
+  await db
+    .collection('courses')
+    .doc(enrollment.courseId)
+    .update({
+      enrollmentCount: FieldValue.increment(change),
+      ...(branchId && { [`branchEnrollmentCounts.${branchId}`]: FieldValue.increment(change) }),
+    });
+}
+
+export const onEnrollmentCreated = onDocumentCreated('enrollments/{enrollmentId}', async (event) => {
+  const enrollment = event.data?.data() as StoredEnrollment | undefined;
+  if (enrollment?.courseId && enrollment.studentId) {
+    await countEnrollment(enrollment, 1);
+  }
+});
+
+export const onEnrollmentDeleted = onDocumentDeleted('enrollments/{enrollmentId}', async (event) => {
+  const enrollment = event.data?.data() as StoredEnrollment | undefined;
+  if (enrollment?.courseId && enrollment.studentId) {
+    await countEnrollment(enrollment, -1);
+  }
+});
+
+export const onRatingWritten = onDocumentWritten('ratings/{ratingId}', async (event) => {
+  const before = event.data?.before.data() as StoredRating | undefined;
+  const after = event.data?.after.data() as StoredRating | undefined;
+  const courseId = after?.courseId || before?.courseId;
+  if (!courseId) return;
+
+  // Recomputed from the stored sum and count in a transaction, so concurrent ratings don't clobber each other
+  const courseRef = db.collection('courses').doc(courseId);
+  await db.runTransaction(async (transaction) => {
+    const courseSnap = await transaction.get(courseRef);
+    if (!courseSnap.exists) return;
+
+    const course = courseSnap.data() || {};
+    const ratingCount = Math.max(0, (course.ratingCount || 0) + (after ? 1 : 0) - (before ? 1 : 0));
+    const ratingSum =
+      (course.ratingSum || 0) + (after ? clampRating(after.rating) : 0) - (before ? clampRating(before.rating) : 0);
+
+    transaction.update(courseRef, {
+      ratingCount,
+      ratingSum,
+      rating: ratingCount > 0 ? Math.round((ratingSum / ratingCount) * 10) / 10 : 0,
+    });
+  });
+});
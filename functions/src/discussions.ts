@@ -0,0 +1,32 @@
+/**
+ * Lesson Q&A
+ *
+ * A question's answer count and answered flag are shown to everyone, so only
+ * this trigger updates them when a reply is posted.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { db } from './firebase';
+
+interface StoredAnswer {
+  question_id: string;
+  user_id: string;
+  createdAt: string;
+}
+
+export const onAnswerCreated = onDocumentCreated('question_answers/{answerId}', async (event) => {
+  const answer = event.data?.data() as StoredAnswer | undefined;
+  if (!answer?.question_id) return;
+
+  const questionRef = db.collection('course_questions').doc(answer.question_id);
+  const questionSnap = await questionRef.get();
+  if (!questionSnap.exists) return;
+
+  // A reply from the course trainer marks the question as answered
+  await questionRef.update({
+    answer_count: FieldValue.increment(1),
+    updatedAt: answer.createdAt || new Date().toISOString(),
+    ...(answer.user_id === questionSnap.data()?.trainer_id && { is_answered: true }),
+  });
+});
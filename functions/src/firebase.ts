@@ -0,0 +1,7 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Functions run with admin credentials, so security rules don't apply to these writes
+initializeApp();
+
+export const db = getFirestore();
@@ -0,0 +1,12 @@
+/**
+ * Cloud Functions for writes the app can't be trusted to make itself
+ * (granting roles, grading quizzes, issuing certificates, keeping course and Q&A counters).
+ * Deploy with `npm run deploy` from this folder.
+ */
+
+export { acceptAdminInvite } from './admin-invites';
+export { issueCertificate } from './certificates';
+export { onEnrollmentCreated, onEnrollmentDeleted, onRatingWritten } from './course-counters';
+export { onAnswerCreated } from './discussions';
+export { submitQuizAttempt } from './quizzes';
+export { redeemTutorInviteCode } from './tutor-invites';
@@ -0,0 +1,123 @@
+/**
+ * Quiz grading
+ *
+ * Students can't read answer keys (courses/{courseId}/quiz_keys/{topicId}) or
+ * write quiz attempts, so submissions are graded and recorded here.
+ */
+
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db } from './firebase';
+
+const DEFAULT_PASSING_SCORE = 70;
+
+type QuizAnswer = number[] | number | null;
+
+interface QuizQuestion {
+  id: string;
+  type: 'mcq' | 'multi_select' | 'true_false' | 'numeric';
+}
+
+interface StoredTopic {
+  id: string;
+  quiz?: { passingScore?: number; questions: QuizQuestion[] };
+}
+
+interface QuizQuestionKey {
+  correctOptions?: number[];
+  correctNumber?: number;
+  tolerance?: number;
+  explanation?: string;
+}
+
+interface SubmitQuizAttemptRequest {
+  courseId?: string;
+  topicId?: string;
+  answers?: Record<string, QuizAnswer>;
+}
+
+function isAnswerCorrect(question: QuizQuestion, key: QuizQuestionKey | undefined, answer: QuizAnswer): boolean {
+  if (!key || answer === null || answer === undefined) {
+    return false;
+  }
+
+  if (question.type === 'numeric') {
+    if (typeof answer !== 'number' || key.correctNumber === undefined) {
+      return false;
+    }
+    return Math.abs(answer - key.correctNumber) <= Math.abs(key.tolerance || 0);
+  }
+
+  if (!Array.isArray(answer)) {
+    return false;
+  }
+
+  // Choice questions: the selected set must match the correct set exactly
+  const correct = [...(key.correctOptions || [])].sort((a, b) => a - b);
+  const selected = [...new Set(answer)].sort((a, b) => a - b);
+  return (
+    correct.length > 0 &&
+    correct.length === selected.length &&
+    correct.every((option, index) => option === selected[index])
+  );
+}
+
+export const submitQuizAttempt = onCall<SubmitQuizAttemptRequest>(async (request) => {
+  const auth = request.auth;
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in');
+  }
+
+  const { courseId, topicId } = request.data;
+  if (!courseId || !topicId) {
+    throw new HttpsError('invalid-argument', 'courseId and topicId are required');
+  }
+
+  const [courseSnap, keySnap, enrollmentSnap] = await Promise.all([
+    db.collection('courses').doc(courseId).get(),
+    db.collection('courses').doc(courseId).collection('quiz_keys').doc(topicId).get(),
+    db.collection('enrollments').doc(`${auth.uid}_${courseId}`).get(),
+  ]);
+
+  if (!enrollmentSnap.exists) {
+    throw new HttpsError('permission-denied', 'Enroll in the course to take its quizzes');
+  }
+  const topic = ((courseSnap.data()?.topics || []) as StoredTopic[]).find((t) => t.id === topicId);
+  if (!topic?.quiz) {
+    throw new HttpsError('not-found', `Topic ${topicId} has no quiz`);
+  }
+  const keys = (keySnap.data()?.questions || {}) as Record<string, QuizQuestionKey>;
+
+  // Only answers to this quiz's questions are graded and stored
+  const answers: Record<string, QuizAnswer> = {};
+  const results: Record<string, boolean> = {};
+  const explanations: Record<string, string> = {};
+  topic.quiz.questions.forEach((question) => {
+    answers[question.id] = request.data.answers?.[question.id] ?? null;
+    results[question.id] = isAnswerCorrect(question, keys[question.id], answers[question.id]);
+    const explanation = keys[question.id]?.explanation;
+    if (explanation) {
+      explanations[question.id] = explanation;
+    }
+  });
+
+  const totalQuestions = topic.quiz.questions.length;
+  const correctCount = Object.values(results).filter(Boolean).length;
+  const score = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 100;
+  const passingScore = topic.quiz.passingScore ?? DEFAULT_PASSING_SCORE;
+
+  const attempt = {
+    user_id: auth.uid,
+    course_id: courseId,
+    topic_id: topicId,
+    answers,
+    correct_count: correctCount,
+    total_questions: totalQuestions,
+    score,
+    passing_score: passingScore,
+    passed: score >= passingScore,
+    submitted_at: new Date().toISOString(),
+  };
+  const attemptRef = await db.collection('user_quiz_attempts').add(attempt);
+
+  return { id: attemptRef.id, ...attempt, results, explanations };
+});
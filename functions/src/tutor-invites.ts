@@ -0,0 +1,73 @@
+/**
+ * Tutor invite codes
+ *
+ * Redeeming a code and creating the tutor's profile happen in one transaction,
+ * so the tutor role is only ever granted for a code that was actually consumed.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db } from './firebase';
+
+interface RedeemTutorInviteRequest {
+  code?: string;
+  displayName?: string;
+}
+
+export const redeemTutorInviteCode = onCall<RedeemTutorInviteRequest>(async (request) => {
+  const auth = request.auth;
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in');
+  }
+
+  const code = (request.data.code || '').trim().toUpperCase();
+  if (!code) {
+    throw new HttpsError('invalid-argument', 'Enter a tutor code');
+  }
+
+  const codeRef = db.collection('tutor_invite_codes').doc(code);
+  const userRef = db.collection('users').doc(auth.uid);
+
+  return db.runTransaction(async (transaction) => {
+    const [codeSnap, userSnap] = await Promise.all([transaction.get(codeRef), transaction.get(userRef)]);
+    const invite = codeSnap.data();
+    if (!invite) {
+      throw new HttpsError('not-found', 'Invalid tutor code');
+    }
+    // Codes are for new accounts only; existing profiles can't redeem one to change role
+    if (userSnap.exists) {
+      throw new HttpsError('already-exists', 'This account already has a profile');
+    }
+
+    if (invite.status === 'revoked') {
+      throw new HttpsError('failed-precondition', 'This tutor code has been revoked');
+    }
+    if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) {
+      throw new HttpsError('failed-precondition', 'This tutor code has expired');
+    }
+    if (invite.use_count >= invite.max_uses) {
+      throw new HttpsError('failed-precondition', 'This tutor code has already been used');
+    }
+
+    const now = new Date().toISOString();
+    transaction.update(codeRef, {
+      use_count: FieldValue.increment(1),
+      used_by: FieldValue.arrayUnion(auth.uid),
+      updatedAt: now,
+    });
+
+    const profile: Record<string, unknown> = {
+      email: auth.token.email ?? null,
+      displayName: request.data.displayName?.trim() || null,
+      role: 'tutor',
+      tutor_invite_code: code,
+      createdAt: now,
+    };
+    if (invite.university_id) {
+      profile.university_id = invite.university_id;
+    }
+    transaction.set(userRef, profile);
+
+    return { university_id: invite.university_id ?? null };
+  });
+});
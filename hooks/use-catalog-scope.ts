@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+
+import { useAuth } from '@/contexts/auth-context';
+import { usePartner } from '@/contexts/partner-context';
+import { buildCatalogScope } from '@/lib/catalog-scope';
+import { CatalogScope } from '@/types/course';
+
+/**
+ * Catalog scope for student-facing course queries (see buildCatalogScope)
+ * Stable until the profile or partner changes, so screens can reload when it does.
+ */
+export function useCatalogScope(): CatalogScope | null {
+  const { userProfile } = useAuth();
+  const { partnerContext } = usePartner();
+  const role = userProfile?.role;
+  const universityId = userProfile?.university_id;
+  const branchId = userProfile?.branch_id;
+
+  return useMemo(
+    () =>
+      buildCatalogScope(
+        role ? { role, university_id: universityId, branch_id: branchId } : null,
+        partnerContext
+      ),
+    [role, universityId, branchId, partnerContext]
+  );
+}
@@ -0,0 +1,37 @@
+import NetInfo from '@react-native-community/netinfo';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+import { syncQueuedProgress } from '@/services/offline-progress-service';
+
+/**
+ * Send the signed-in user's progress recorded offline when the app starts,
+ * whenever the device reconnects, and whenever the app returns to the foreground
+ */
+export function useOfflineProgressSync(userId: string | null | undefined) {
+  useEffect(() => {
+    if (!userId) return;
+
+    syncQueuedProgress(userId);
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncQueuedProgress(userId);
+      }
+    });
+
+    // NetInfo reports the current state on subscribe, so only sync on a change back online
+    let wasConnected: boolean | null = null;
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const isConnected = state.isConnected === true && state.isInternetReachable !== false;
+      if (isConnected && wasConnected === false) {
+        syncQueuedProgress(userId);
+      }
+      wasConnected = isConnected;
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      unsubscribeNetInfo();
+    };
+  }, [userId]);
+}
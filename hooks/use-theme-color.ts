@@ -4,6 +4,7 @@
  */
 
 import { Colors } from '@/constants/theme';
+import { usePartnerTheme } from '@/contexts/partner-theme-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 export function useThemeColor(
@@ -11,11 +12,20 @@ export function useThemeColor(
   colorName: keyof typeof Colors.light & keyof typeof Colors.dark
 ) {
   const theme = useColorScheme() ?? 'light';
+  const { colors } = usePartnerTheme();
   const colorFromProps = props[theme];
 
   if (colorFromProps) {
     return colorFromProps;
   } else {
-    return Colors[theme][colorName];
+    return colors[theme][colorName];
   }
 }
+
+/**
+ * The full palette for the current color scheme, with partner brand colors applied
+ */
+export function useThemeColors() {
+  const { colors } = usePartnerTheme();
+  return colors[useColorScheme() ?? 'dark'];
+}
@@ -0,0 +1,57 @@
+import {
+  ACADEMIC_YEARS,
+  getAcademicYearForBatch,
+  getAdmissionBatchForYear,
+  getAdmissionBatchOptions,
+} from '@/lib/academic-year';
+
+// October 2026 is in the academic year that started in July 2026
+const OCTOBER = new Date(2026, 9, 19);
+// March 2027 is still in that academic year
+const MARCH = new Date(2027, 2, 1);
+
+describe('getAdmissionBatchForYear', () => {
+  it('counts back from the academic year that started in July', () => {
+    expect(getAdmissionBatchForYear('1', OCTOBER)).toBe(2026);
+    expect(getAdmissionBatchForYear('4', OCTOBER)).toBe(2023);
+    expect(getAdmissionBatchForYear('1', MARCH)).toBe(2026);
+  });
+});
+
+describe('getAdmissionBatchOptions', () => {
+  it('lists recent batches newest first', () => {
+    const options = getAdmissionBatchOptions(OCTOBER);
+    expect(options[0]).toBe(2026);
+    expect(options).toEqual([...options].sort((a, b) => b - a));
+  });
+});
+
+describe('getAcademicYearForBatch', () => {
+  it('is the inverse of getAdmissionBatchForYear', () => {
+    ACADEMIC_YEARS.forEach(({ key }) => {
+      expect(getAcademicYearForBatch(getAdmissionBatchForYear(key, OCTOBER), OCTOBER)).toBe(key);
+    });
+  });
+
+  it('keeps batches past their final year in it', () => {
+    expect(getAcademicYearForBatch(2020, OCTOBER)).toBe('4');
+  });
+
+  it('gives null for batches not admitted yet', () => {
+    expect(getAcademicYearForBatch(2027, OCTOBER)).toBeNull();
+  });
+
+  it('moves a batch up only when the academic year changes', () => {
+    const june = new Date(2026, 5, 30);
+    const july = new Date(2026, 6, 1);
+    expect(getAcademicYearForBatch(2025, june)).toBe('1');
+    expect(getAcademicYearForBatch(2025, july)).toBe('2');
+  });
+
+  it('gives the same year however often it is applied within an academic year', () => {
+    const first = getAcademicYearForBatch(2024, OCTOBER);
+    const again = getAcademicYearForBatch(2024, MARCH);
+    expect(first).toBe('3');
+    expect(again).toBe(first);
+  });
+});
@@ -0,0 +1,46 @@
+import { buildCatalogScope } from '@/lib/catalog-scope';
+import { College, PartnerContext } from '@/types/admin';
+
+const college: College = {
+  id: 'college-1',
+  university_id: 'uni-1',
+  name: 'City College',
+  chairman_name: 'Chair',
+  contact_numbers: [],
+  offered_branches: ['cse', 'ece'],
+  is_partnered: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const partnerContext: PartnerContext = { college, university: null, branches: [] };
+
+describe('buildCatalogScope', () => {
+  it("limits students to their university and branch, but not their year", () => {
+    expect(
+      buildCatalogScope({ role: 'student', university_id: 'uni-2', branch_id: 'mech' }, partnerContext)
+    ).toEqual({ universityId: 'uni-2', branchIds: ['mech'] });
+  });
+
+  it("falls back to the partner college's university and branches", () => {
+    expect(buildCatalogScope({ role: 'student' }, partnerContext)).toEqual({
+      universityId: 'uni-1',
+      branchIds: ['cse', 'ece'],
+    });
+  });
+
+  it('shows students without a university or partner the whole catalog', () => {
+    expect(buildCatalogScope({ role: 'student' }, null)).toBeNull();
+  });
+
+  it("limits anyone else browsing as a partner to that college's catalog", () => {
+    expect(buildCatalogScope({ role: 'admin' }, partnerContext)).toEqual({
+      universityId: 'uni-1',
+      branchIds: ['cse', 'ece'],
+    });
+    expect(buildCatalogScope(null, partnerContext)).toEqual({ universityId: 'uni-1', branchIds: ['cse', 'ece'] });
+  });
+
+  it('leaves everyone else unscoped', () => {
+    expect(buildCatalogScope({ role: 'tutor', university_id: 'uni-1' }, null)).toBeNull();
+  });
+});
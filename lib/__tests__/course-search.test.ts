@@ -0,0 +1,58 @@
+import {
+  decodeCourseCursor,
+  encodeCourseCursor,
+  getCourseOutcome,
+  getDurationBucket,
+} from '@/lib/course-search';
+import { Course } from '@/types/course';
+
+const makeCourse = (overrides: Partial<Course> = {}): Course => ({
+  id: 'course-1',
+  title: 'Data Structures',
+  description: '',
+  outcomes: [],
+  totalDuration: 0,
+  totalTopics: 0,
+  trainerName: 'Tutor',
+  trainerId: 'tutor-1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  topics: [],
+  ...overrides,
+});
+
+describe('course cursors', () => {
+  it('round-trips the sort value and course ID', () => {
+    const course = makeCourse({ rating: 4.5 });
+    expect(decodeCourseCursor(encodeCourseCursor(course, 'rating'))).toEqual([4.5, 'course-1']);
+    expect(decodeCourseCursor(encodeCourseCursor(course, 'createdAt'))).toEqual([
+      '2026-01-01T00:00:00.000Z',
+      'course-1',
+    ]);
+  });
+
+  it('stores null for courses missing the sort field', () => {
+    const course = makeCourse();
+    expect(decodeCourseCursor(encodeCourseCursor(course, 'enrollmentCount'))).toEqual([null, 'course-1']);
+  });
+});
+
+describe('getCourseOutcome', () => {
+  it('reads the outcome from the learning outcomes, placement first', () => {
+    expect(getCourseOutcome(makeCourse({ outcomes: ['Industry certification prep'] }))).toBe('Certification');
+    expect(getCourseOutcome(makeCourse({ outcomes: ['Summer internship', 'Placement support'] }))).toBe('Placement');
+    expect(getCourseOutcome(makeCourse({ outcomes: ['Internship with a partner'] }))).toBe('Internship');
+  });
+
+  it('defaults to placement', () => {
+    expect(getCourseOutcome(makeCourse({ outcomes: ['Build a web app'] }))).toBe('Placement');
+  });
+});
+
+describe('getDurationBucket', () => {
+  it('buckets course length by whole hours', () => {
+    expect(getDurationBucket(4 * 60 + 59)).toBe('under_5h');
+    expect(getDurationBucket(5 * 60)).toBe('5_10h');
+    expect(getDurationBucket(20 * 60)).toBe('10_20h');
+    expect(getDurationBucket(21 * 60)).toBe('over_20h');
+  });
+});
@@ -0,0 +1,61 @@
+import { buildSearchIndex, searchIndex, tokenize } from '@/lib/search-index';
+import { Course } from '@/types/course';
+
+const makeCourse = (id: string, overrides: Partial<Course> = {}): Course => ({
+  id,
+  title: '',
+  description: '',
+  outcomes: [],
+  totalDuration: 0,
+  totalTopics: 0,
+  trainerName: 'Tutor',
+  trainerId: 'tutor-1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  topics: [],
+  ...overrides,
+});
+
+const index = buildSearchIndex([
+  makeCourse('python-title', { title: 'Python Programming' }),
+  makeCourse('python-description', { title: 'Scripting Basics', description: 'Automate tasks with python' }),
+  makeCourse('java', { title: 'Java Fundamentals', trainerName: 'Ada Lovelace' }),
+]);
+
+const ids = (query: string) => searchIndex(index, query).map((hit) => hit.course.id);
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and splits on punctuation', () => {
+    expect(tokenize('Café-Culture, 101!')).toEqual(['cafe', 'culture', '101']);
+  });
+});
+
+describe('searchIndex', () => {
+  it('ranks a title match above a description match', () => {
+    expect(ids('python')).toEqual(['python-title', 'python-description']);
+  });
+
+  it('matches word prefixes as the student types', () => {
+    expect(ids('progr')).toEqual(['python-title']);
+  });
+
+  it('tolerates a typo', () => {
+    expect(ids('pyhton')).toContain('python-title');
+  });
+
+  it('requires every query word to match', () => {
+    expect(ids('python programming')).toEqual(['python-title']);
+  });
+
+  it('searches the tutor name', () => {
+    expect(ids('lovelace')).toEqual(['java']);
+  });
+
+  it('highlights the matched words in the title', () => {
+    const [hit] = searchIndex(index, 'java');
+    expect(hit.highlight.title).toContainEqual({ text: 'Java', highlight: true });
+  });
+
+  it('finds nothing for words no course contains', () => {
+    expect(ids('zzzz')).toEqual([]);
+  });
+});
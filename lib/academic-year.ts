@@ -0,0 +1,45 @@
+export const ACADEMIC_YEARS: { key: string; label: string }[] = [
+  { key: '1', label: '1st Year' },
+  { key: '2', label: '2nd Year' },
+  { key: '3', label: '3rd Year' },
+  { key: '4', label: '4th Year' },
+];
+
+// Month (0-based) the academic year starts in
+const ACADEMIC_YEAR_START_MONTH = 6; // July
+
+// How many past admission batches to offer when picking one
+const ADMISSION_BATCH_OPTIONS = 6;
+
+/**
+ * Calendar year the current academic year started in
+ */
+function currentAcademicYearStart(today: Date = new Date()): number {
+  return today.getMonth() >= ACADEMIC_YEAR_START_MONTH ? today.getFullYear() : today.getFullYear() - 1;
+}
+
+/**
+ * Admission batch of a student who is in the given academic year now
+ */
+export function getAdmissionBatchForYear(year: string, today: Date = new Date()): number {
+  return currentAcademicYearStart(today) - (Number(year) - 1);
+}
+
+/**
+ * Recent admission batches, newest first
+ */
+export function getAdmissionBatchOptions(today: Date = new Date()): number[] {
+  const latest = currentAcademicYearStart(today);
+  return Array.from({ length: ADMISSION_BATCH_OPTIONS }, (_, i) => latest - i);
+}
+
+/**
+ * Year an admission batch is in for the current academic year
+ * Batches past their final year stay in it; batches not admitted yet give null.
+ */
+export function getAcademicYearForBatch(batch: number, today: Date = new Date()): string | null {
+  const match = ACADEMIC_YEARS.find((option) => getAdmissionBatchForYear(option.key, today) === batch);
+  if (match) return match.key;
+  const finalYear = ACADEMIC_YEARS[ACADEMIC_YEARS.length - 1].key;
+  return batch < getAdmissionBatchForYear(finalYear, today) ? finalYear : null;
+}
@@ -0,0 +1,39 @@
+import { PartnerContext } from '@/types/admin';
+import { CatalogScope } from '@/types/course';
+
+interface ScopeProfile {
+  role: string;
+  university_id?: string;
+  branch_id?: string;
+}
+
+/**
+ * The part of the catalog a viewer can see, or null for the whole catalog
+ * Students see courses for their university and their own branch (or, without one, the branches
+ * their partner college offers); their year is only the explore screen's default filter, so other
+ * years stay browsable. Anyone else browsing as a partner college (a partner link or an admin's
+ * preview) sees that college's catalog.
+ */
+export function buildCatalogScope(
+  profile: ScopeProfile | null,
+  partnerContext: PartnerContext | null
+): CatalogScope | null {
+  const college = partnerContext?.college ?? null;
+  const offeredBranches = college?.offered_branches?.length ? college.offered_branches : undefined;
+
+  if (profile?.role === 'student') {
+    const universityId = profile.university_id || college?.university_id;
+    if (!universityId) return null;
+    const branchIds = profile.branch_id ? [profile.branch_id] : offeredBranches;
+    return {
+      universityId,
+      ...(branchIds && { branchIds }),
+    };
+  }
+
+  if (!college) return null;
+  return {
+    universityId: college.university_id,
+    ...(offeredBranches && { branchIds: offeredBranches }),
+  };
+}
@@ -0,0 +1,108 @@
+import { CourseSnapshot, Topic } from '@/types/course';
+
+export interface FieldChange {
+  field: 'title' | 'description' | 'outcomes';
+  label: string;
+  before: string;
+  after: string;
+}
+
+export type TopicChangeKind = 'added' | 'removed' | 'edited' | 'moved';
+
+export interface TopicChange {
+  kind: TopicChangeKind;
+  title: string; // Title after the change (before, for removed topics)
+  details: string[]; // e.g. 'Renamed from "Intro"', 'Video replaced'
+}
+
+export interface CourseDiff {
+  fields: FieldChange[];
+  topics: TopicChange[];
+}
+
+type DiffableCourse = Pick<CourseSnapshot, 'title' | 'description' | 'outcomes' | 'topics'>;
+
+/**
+ * Summarise what changed between two versions of a course
+ * Topics are matched by ID, so reordering shows up as a move rather than an edit.
+ */
+export function diffCourses(before: DiffableCourse, after: DiffableCourse): CourseDiff {
+  const fields: FieldChange[] = [];
+
+  if (before.title !== after.title) {
+    fields.push({ field: 'title', label: 'Title', before: before.title, after: after.title });
+  }
+  if (before.description !== after.description) {
+    fields.push({
+      field: 'description',
+      label: 'Description',
+      before: before.description,
+      after: after.description,
+    });
+  }
+  const beforeOutcomes = (before.outcomes || []).join('\n');
+  const afterOutcomes = (after.outcomes || []).join('\n');
+  if (beforeOutcomes !== afterOutcomes) {
+    fields.push({ field: 'outcomes', label: 'Outcomes', before: beforeOutcomes, after: afterOutcomes });
+  }
+
+  return { fields, topics: diffTopics(before.topics || [], after.topics || []) };
+}
+
+function diffTopics(before: Topic[], after: Topic[]): TopicChange[] {
+  const changes: TopicChange[] = [];
+  const beforeById = new Map(before.map((topic, index) => [topic.id, { topic, index }]));
+  const afterIds = new Set(after.map((topic) => topic.id));
+
+  after.forEach((topic, index) => {
+    const previous = beforeById.get(topic.id);
+    if (!previous) {
+      changes.push({ kind: 'added', title: topic.title, details: [] });
+      return;
+    }
+
+    const details = describeTopicEdits(previous.topic, topic);
+    if (details.length > 0) {
+      changes.push({ kind: 'edited', title: topic.title, details });
+    } else if (previous.index !== index) {
+      changes.push({
+        kind: 'moved',
+        title: topic.title,
+        details: [`Position ${previous.index + 1} → ${index + 1}`],
+      });
+    }
+  });
+
+  before.forEach((topic) => {
+    if (!afterIds.has(topic.id)) {
+      changes.push({ kind: 'removed', title: topic.title, details: [] });
+    }
+  });
+
+  return changes;
+}
+
+function describeTopicEdits(before: Topic, after: Topic): string[] {
+  const details: string[] = [];
+  if (before.title !== after.title) details.push(`Renamed from "${before.title}"`);
+  if ((before.description || '') !== (after.description || '')) details.push('Description changed');
+  if (before.videoUrl !== after.videoUrl) details.push('Video replaced');
+  if (before.videoDuration !== after.videoDuration) {
+    details.push(`Duration ${before.videoDuration} → ${after.videoDuration} min`);
+  }
+  if (JSON.stringify(before.quiz ?? null) !== JSON.stringify(after.quiz ?? null)) {
+    details.push(!before.quiz ? 'Quiz added' : !after.quiz ? 'Quiz removed' : 'Quiz changed');
+  }
+  if (JSON.stringify(before.captions ?? []) !== JSON.stringify(after.captions ?? [])) {
+    details.push('Captions changed');
+  }
+  if (before.sectionId !== after.sectionId) details.push('Moved to another section');
+  return details;
+}
+
+/**
+ * True when the diff has nothing to show (e.g. only thumbnail or targeting changed)
+ */
+export function isEmptyDiff(diff: CourseDiff): boolean {
+  return diff.fields.length === 0 && diff.topics.length === 0;
+}
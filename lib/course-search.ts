@@ -0,0 +1,52 @@
+import { Course, CourseOutcome, CourseSort, DurationBucket } from '@/types/course';
+
+// Course fields paged lists can sort on
+export type CourseSortField = keyof Pick<Course, 'createdAt' | 'rating' | 'enrollmentCount'>;
+
+export const DURATION_BUCKETS: { key: DurationBucket; label: string }[] = [
+  { key: 'under_5h', label: '< 5 hours' },
+  { key: '5_10h', label: '5-10 hours' },
+  { key: '10_20h', label: '10-20 hours' },
+  { key: 'over_20h', label: '> 20 hours' },
+];
+
+export const COURSE_OUTCOMES: CourseOutcome[] = ['Placement', 'Internship', 'Certification'];
+
+export const COURSE_SORTS: { key: CourseSort; label: string }[] = [
+  { key: 'relevance', label: 'Best Match' },
+  { key: 'newest', label: 'Newest' },
+  { key: 'rating', label: 'Top Rated' },
+  { key: 'popularity', label: 'Most Popular' },
+];
+
+/**
+ * Duration bucket for a course length in minutes
+ */
+export function getDurationBucket(totalMinutes: number): DurationBucket {
+  const hours = Math.floor(totalMinutes / 60);
+  if (hours < 5) return 'under_5h';
+  if (hours <= 10) return '5_10h';
+  if (hours <= 20) return '10_20h';
+  return 'over_20h';
+}
+
+/**
+ * What a course leads to, from the first outcome kind its learning outcomes mention (Placement when none do)
+ */
+export function getCourseOutcome(course: Pick<Course, 'outcomes'>): CourseOutcome {
+  const outcomes = (course.outcomes || []).map((outcome) => outcome.toLowerCase());
+  return (
+    COURSE_OUTCOMES.find((kind) => outcomes.some((outcome) => outcome.includes(kind.toLowerCase()))) ?? 'Placement'
+  );
+}
+
+/**
+ * Cursor after a course in a list sorted by sortField: its sort value and ID, for startAfter
+ */
+export function encodeCourseCursor(course: Course, sortField: CourseSortField): string {
+  return JSON.stringify([course[sortField] ?? null, course.id]);
+}
+
+export function decodeCourseCursor(cursor: string): [Course[CourseSortField] | null, string] {
+  return JSON.parse(cursor);
+}
@@ -0,0 +1,89 @@
+import { CourseSection } from '@/types/course';
+
+export interface SectionGroup<T> {
+  section: CourseSection | null; // null for topics not assigned to a section
+  topics: T[];
+}
+
+/**
+ * Sections in display order
+ */
+export function sortSections(sections: CourseSection[] = []): CourseSection[] {
+  return [...sections].sort((a, b) => a.orderIndex - b.orderIndex);
+}
+
+/**
+ * Group topics under their sections, keeping topic order within each section.
+ * Topics without a (known) section come first in an untitled group.
+ */
+export function groupTopicsBySection<T extends { sectionId?: string }>(
+  topics: T[],
+  sections: CourseSection[] = []
+): SectionGroup<T>[] {
+  const sorted = sortSections(sections);
+  const sectionIds = new Set(sorted.map((section) => section.id));
+
+  const unsectioned = topics.filter((topic) => !topic.sectionId || !sectionIds.has(topic.sectionId));
+  const groups: SectionGroup<T>[] = sorted.map((section) => ({
+    section,
+    topics: topics.filter((topic) => topic.sectionId === section.id),
+  }));
+
+  return unsectioned.length > 0 ? [{ section: null, topics: unsectioned }, ...groups] : groups;
+}
+
+/**
+ * Reorder topics so each section's topics are contiguous, in section order
+ * (the flat order used for orderIndex and "next lesson")
+ */
+export function orderTopicsBySection<T extends { sectionId?: string }>(
+  topics: T[],
+  sections: CourseSection[] = []
+): T[] {
+  return groupTopicsBySection(topics, sections).flatMap((group) => group.topics);
+}
+
+/**
+ * Clear assignments to sections that no longer exist and regroup the topics
+ * Editors call this whenever sections or a topic's section change.
+ */
+export function syncTopicsWithSections<T extends { sectionId?: string }>(
+  topics: T[],
+  sections: CourseSection[]
+): T[] {
+  const sectionIds = new Set(sections.map((section) => section.id));
+  const assigned = topics.map((topic) =>
+    topic.sectionId && !sectionIds.has(topic.sectionId) ? { ...topic, sectionId: undefined } : topic
+  );
+  return orderTopicsBySection(assigned, sections);
+}
+
+/**
+ * Trimmed sections ready to save (orderIndex from array order, no empty descriptions)
+ */
+export function normalizeSections(sections: CourseSection[]): CourseSection[] {
+  return sections.map((section, index) => ({
+    id: section.id,
+    title: section.title.trim(),
+    orderIndex: index,
+    ...(section.description?.trim() ? { description: section.description.trim() } : {}),
+  }));
+}
+
+/**
+ * Move a topic to another position, e.g. after a drag
+ * A topic dropped among another section's topics joins that section.
+ */
+export function moveTopic<T extends { sectionId?: string }>(
+  topics: T[],
+  fromIndex: number,
+  toIndex: number,
+  sections: CourseSection[] = []
+): T[] {
+  const target = topics[toIndex];
+  const updated = [...topics];
+  const [moved] = updated.splice(fromIndex, 1);
+  const changesSection = target && target.sectionId !== moved.sectionId;
+  updated.splice(toIndex, 0, changesSection ? { ...moved, sectionId: target.sectionId } : moved);
+  return syncTopicsWithSections(updated, sections);
+}
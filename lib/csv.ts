@@ -0,0 +1,42 @@
+import { File, Paths } from 'expo-file-system';
+import { Platform, Share } from 'react-native';
+
+type CsvCell = string | number | null | undefined;
+
+function escapeCell(cell: CsvCell): string {
+  const text = cell === null || cell === undefined ? '' : String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows to CSV text (RFC 4180 quoting)
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/**
+ * Download the CSV in the browser, or share it as a file on native
+ */
+export async function exportCsv(filename: string, rows: CsvCell[][]): Promise<void> {
+  const csv = toCsv(rows);
+
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, filename);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(csv);
+  // Android's share sheet only takes text, so send the CSV itself there
+  await Share.share(Platform.OS === 'ios' ? { url: file.uri } : { title: filename, message: csv });
+}
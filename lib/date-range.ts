@@ -0,0 +1,20 @@
+import { DateRange } from '@/types/analytics';
+
+export type RangePreset = '7d' | '30d' | '90d' | 'all';
+
+export const RANGE_PRESETS: { key: RangePreset; label: string; days?: number }[] = [
+  { key: '7d', label: '7 days', days: 7 },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+  { key: 'all', label: 'All time' },
+];
+
+/**
+ * The date range for a preset, ending today
+ */
+export function toRange(preset: RangePreset): DateRange {
+  const days = RANGE_PRESETS.find((option) => option.key === preset)?.days;
+  if (!days) return {};
+  const from = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+  return { from: from.toISOString().slice(0, 10), to: new Date().toISOString().slice(0, 10) };
+}
@@ -0,0 +1,35 @@
+/**
+ * IDs of the topics a student can't open yet in a sequential course
+ * A topic unlocks once the one before it is completed. Topics already
+ * completed stay open even if an earlier one was added later.
+ */
+export function getLockedTopicIds(
+  topics: { id: string }[], // In course order
+  completedIds: Set<string>,
+  sequential?: boolean
+): Set<string> {
+  if (!sequential) {
+    return new Set();
+  }
+
+  return new Set(
+    topics
+      .filter(
+        (topic, index) =>
+          index > 0 && !completedIds.has(topics[index - 1].id) && !completedIds.has(topic.id)
+      )
+      .map((topic) => topic.id)
+  );
+}
+
+/**
+ * The topic a student should continue with: the first open one they haven't completed
+ */
+export function getFirstOpenTopicId(
+  topics: { id: string }[],
+  completedIds: Set<string>,
+  lockedIds: Set<string>
+): string | null {
+  const next = topics.find((topic) => !completedIds.has(topic.id) && !lockedIds.has(topic.id));
+  return next?.id ?? topics[0]?.id ?? null;
+}
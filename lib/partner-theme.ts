@@ -0,0 +1,64 @@
+import { Colors } from '@/constants/theme';
+import { PartnerTheme } from '@/types/admin';
+
+export type ThemeColors = typeof Colors.dark;
+
+export const DEFAULT_APP_NAME = 'Cohort Launchpad';
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR.test(value.trim());
+}
+
+/**
+ * Blend a hex color towards another (amount 0 = color, 1 = target)
+ */
+function mixHex(color: string, target: string, amount: number): string {
+  const toRgb = (hex: string) => {
+    const value = hex.replace('#', '');
+    const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+    return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16));
+  };
+  const from = toRgb(color);
+  const to = toRgb(target);
+  return `#${from
+    .map((channel, i) => Math.round(channel + (to[i] - channel) * amount).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+/**
+ * The app palette for a partner college, with its brand colors in place of the defaults
+ * Invalid or missing colors keep the default; dark mode falls back to the light colors.
+ */
+export function buildPartnerColors(theme: PartnerTheme | undefined, scheme: 'light' | 'dark'): ThemeColors {
+  const base = Colors[scheme];
+  if (!theme) return base;
+
+  const pick = (...values: (string | undefined)[]) => values.find((value) => value && isHexColor(value));
+  const primary = scheme === 'dark' ? pick(theme.dark_primary_color, theme.primary_color) : pick(theme.primary_color);
+  const accent = scheme === 'dark' ? pick(theme.dark_accent_color, theme.accent_color) : pick(theme.accent_color);
+
+  return {
+    ...base,
+    ...(primary && {
+      primary,
+      primarySoft: mixHex(primary, '#FFFFFF', 0.4),
+      accentHover: mixHex(primary, '#FFFFFF', 0.2),
+      progress: primary,
+      tint: primary,
+      tabIconSelected: primary,
+    }),
+    ...(accent && {
+      accent,
+      current: accent,
+    }),
+  };
+}
+
+/**
+ * Name shown in place of "Cohort Launchpad" for a partner college
+ */
+export function getPartnerAppName(college: { name: string; theme?: PartnerTheme }): string {
+  return college.theme?.app_name?.trim() || `${college.name} Digital Library`;
+}
@@ -0,0 +1,293 @@
+import { Course, CourseHighlight, HighlightSegment } from '@/types/course';
+
+type SearchField =
+  | 'title'
+  | 'topicTitle'
+  | 'outcomes'
+  | 'category'
+  | 'trainerName'
+  | 'description'
+  | 'topicDescription';
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  topicTitle: 5,
+  outcomes: 4,
+  category: 4,
+  trainerName: 4,
+  description: 2,
+  topicDescription: 1,
+};
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  topicTitle: 'Topic',
+  outcomes: 'Outcome',
+  category: 'Category',
+  trainerName: 'Tutor',
+  description: 'Description',
+  topicDescription: 'Topic',
+};
+
+// Match quality: exact word, start of a word (search-as-you-type), close misspelling
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const TYPO_MATCH = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'to', 'in', 'for', 'with', 'on', 'by', 'is']);
+
+// Characters around the match shown in a snippet
+const SNIPPET_CONTEXT = 60;
+
+const SEPARATOR = /[\s.,;:!?()[\]{}"'`/\\|_+=*&^%$#@~<>–—-]+/;
+const SEPARATOR_CAPTURE = /([\s.,;:!?()[\]{}"'`/\\|_+=*&^%$#@~<>–—-]+)/;
+
+interface IndexedText {
+  field: SearchField;
+  text: string;
+}
+
+interface Posting {
+  doc: number; // Index into SearchIndex.docs
+  text: number; // Index into that doc's texts
+}
+
+export interface SearchIndex {
+  docs: { course: Course; texts: IndexedText[] }[];
+  postings: Map<string, Posting[]>; // Term -> where it appears
+  terms: string[]; // Every indexed term, sorted, for prefix lookups
+}
+
+export interface SearchHit {
+  course: Course;
+  score: number;
+  highlight: CourseHighlight;
+}
+
+/**
+ * Lowercase, strip accents and split into words
+ */
+function normalize(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalize(text)
+    .split(SEPARATOR)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Damerau-Levenshtein distance (with adjacent swaps), giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Build a search index over course text, including topic titles and descriptions
+ */
+export function buildSearchIndex(courses: Course[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+
+  const docs = courses.map((course, doc) => {
+    const texts: IndexedText[] = [
+      { field: 'title', text: course.title },
+      ...(course.category ? [{ field: 'category' as const, text: course.category }] : []),
+      { field: 'trainerName', text: course.trainerName },
+      ...course.outcomes.map((outcome) => ({ field: 'outcomes' as const, text: outcome })),
+      { field: 'description', text: course.description || '' },
+      ...(course.topics || []).flatMap((topic) => [
+        { field: 'topicTitle' as const, text: topic.title },
+        ...(topic.description ? [{ field: 'topicDescription' as const, text: topic.description }] : []),
+      ]),
+    ];
+
+    texts.forEach(({ text }, textIndex) => {
+      new Set(tokenize(text)).forEach((term) => {
+        if (!postings.has(term)) postings.set(term, []);
+        postings.get(term)!.push({ doc, text: textIndex });
+      });
+    });
+
+    return { course, texts };
+  });
+
+  return { docs, postings, terms: [...postings.keys()].sort() };
+}
+
+/**
+ * Indexed terms a query word matches, with how well each matches
+ */
+function expandTerm(index: SearchIndex, word: string): Map<string, number> {
+  const matches = new Map<string, number>();
+
+  if (index.postings.has(word)) {
+    matches.set(word, EXACT_MATCH);
+  }
+
+  // Prefix matches: binary search to the first term >= word, then walk forward
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.terms[mid] < word) low = mid + 1;
+    else high = mid;
+  }
+  for (let i = low; i < index.terms.length && index.terms[i].startsWith(word); i++) {
+    if (!matches.has(index.terms[i])) matches.set(index.terms[i], PREFIX_MATCH);
+  }
+
+  // Typo tolerance: one edit for medium words, two for long ones; short words must be exact
+  if (word.length >= 4) {
+    const maxEdits = word.length >= 8 ? 2 : 1;
+    index.terms.forEach((term) => {
+      if (!matches.has(term) && editDistance(word, term, maxEdits) <= maxEdits) {
+        matches.set(term, TYPO_MATCH);
+      }
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Split text into highlighted and plain runs, highlighting words in terms
+ */
+function highlightText(text: string, terms: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  text.split(SEPARATOR_CAPTURE).forEach((piece) => {
+    if (!piece) return;
+    const highlight = terms.has(normalize(piece));
+    const last = segments[segments.length - 1];
+    if (last && last.highlight === highlight) {
+      last.text += piece;
+    } else {
+      segments.push({ text: piece, highlight });
+    }
+  });
+  return segments;
+}
+
+/**
+ * The part of a long text around its first match, trimmed to whole words
+ */
+function excerpt(text: string, terms: Set<string>): string {
+  if (text.length <= SNIPPET_CONTEXT * 2) return text;
+
+  const words = text.split(SEPARATOR_CAPTURE);
+  let offset = 0;
+  let matchAt = 0;
+  for (const word of words) {
+    if (terms.has(normalize(word))) {
+      matchAt = offset;
+      break;
+    }
+    offset += word.length;
+  }
+
+  let start = Math.max(0, matchAt - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, matchAt + SNIPPET_CONTEXT);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > matchAt) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Find courses matching every word of the query, most relevant first
+ * Each word scores its best match in the course (field weight × match quality);
+ * words that appear in no course are skipped so one typo too many doesn't empty the results.
+ */
+export function searchIndex(index: SearchIndex, text: string): SearchHit[] {
+  const tokens = [...new Set(tokenize(text))];
+  const words = tokens.filter((token) => !STOP_WORDS.has(token));
+  const queryWords = words.length > 0 ? words : tokens;
+
+  const expansions = queryWords
+    .map((word) => expandTerm(index, word))
+    .filter((expansion) => expansion.size > 0);
+  if (expansions.length === 0) return [];
+
+  // Per doc: summed score, words matched so far, and which terms (in which texts) matched
+  const results = new Map<number, { score: number; matched: number; terms: Set<string>; texts: Set<number> }>();
+
+  expansions.forEach((expansion, wordIndex) => {
+    const best = new Map<number, number>();
+    expansion.forEach((quality, term) => {
+      index.postings.get(term)!.forEach(({ doc, text: textIndex }) => {
+        // Only docs that matched every previous word can still qualify
+        const result = results.get(doc);
+        if (wordIndex > 0 && (!result || result.matched < wordIndex)) return;
+
+        const field = index.docs[doc].texts[textIndex].field;
+        best.set(doc, Math.max(best.get(doc) || 0, FIELD_WEIGHTS[field] * quality));
+
+        const entry = result || { score: 0, matched: 0, terms: new Set<string>(), texts: new Set<number>() };
+        entry.terms.add(term);
+        entry.texts.add(textIndex);
+        results.set(doc, entry);
+      });
+    });
+    best.forEach((score, doc) => {
+      const entry = results.get(doc)!;
+      entry.score += score;
+      entry.matched = wordIndex + 1;
+    });
+  });
+
+  const normalizedQuery = normalize(text.trim());
+  const hits: SearchHit[] = [];
+  results.forEach(({ score, matched, terms, texts }, doc) => {
+    if (matched < expansions.length) return;
+    const { course, texts: docTexts } = index.docs[doc];
+
+    // The whole query appearing as typed in the title is the strongest signal
+    const phraseBonus = normalize(course.title).includes(normalizedQuery) ? FIELD_WEIGHTS.title : 0;
+
+    // Snippet from the highest-weighted matching text other than the title
+    const snippetText = [...texts]
+      .map((textIndex) => docTexts[textIndex])
+      .filter((entry) => entry.field !== 'title')
+      .sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])[0];
+
+    hits.push({
+      course,
+      score: score + phraseBonus,
+      highlight: {
+        title: highlightText(course.title, terms),
+        snippet: snippetText
+          ? {
+              label: FIELD_LABELS[snippetText.field],
+              segments: highlightText(excerpt(snippetText.text, terms), terms),
+            }
+          : null,
+      },
+    });
+  });
+
+  return hits.sort((a, b) => b.score - a.score);
+}
@@ -3,7 +3,9 @@
  * Firebase operations for admin panel
  */
 
-import { db } from '@/lib/firebase';
+import * as Linking from 'expo-linking';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '@/lib/firebase';
 import {
   collection,
   doc,
@@ -12,10 +14,25 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  setDoc,
   query,
   where,
+  writeBatch,
 } from 'firebase/firestore';
-import { University, College, Branch, UniversityFormData, CollegeFormData, BranchFormData } from '@/types/admin';
+import {
+  University,
+  College,
+  Branch,
+  UniversityFormData,
+  CollegeFormData,
+  BranchFormData,
+  AdminUser,
+  AdminInvite,
+  PartnerContext,
+  StudentBatch,
+  PromoteBatchResult,
+} from '@/types/admin';
+import { ACADEMIC_YEARS, getAcademicYearForBatch } from '@/lib/academic-year';
 
 // Universities
 export async function getUniversities(): Promise<University[]> {
@@ -154,3 +171,220 @@ export async function deleteCollege(id: string): Promise<void> {
   await deleteDoc(doc(db, 'colleges', id));
 }
 
+// Link that opens the app in a partnered college's white-label mode
+export function getPartnerLinkUrl(collegeId: string): string {
+  return Linking.createURL(`/p/${collegeId}`);
+}
+
+// White-label context for a college; null unless it's partnered
+export async function getPartnerContextForCollege(collegeId: string): Promise<PartnerContext | null> {
+  const college = await getCollege(collegeId);
+  if (!college || !college.is_partnered) {
+    return null;
+  }
+  const [university, branches] = await Promise.all([
+    getUniversity(college.university_id),
+    getBranchesByUniversity(college.university_id),
+  ]);
+  if (!university) {
+    return null;
+  }
+  return {
+    college,
+    university,
+    branches: branches.filter((branch) => college.offered_branches?.includes(branch.id)),
+  };
+}
+
+
+// Admin accounts & invitations
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function getAdminUsers(): Promise<AdminUser[]> {
+  const q = query(collection(db, 'users'), where('role', '==', 'admin'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    email: doc.data().email ?? null,
+    displayName: doc.data().displayName ?? null,
+    createdAt: doc.data().createdAt,
+    invited_by: doc.data().invited_by,
+  }));
+}
+
+export async function getAdminInvites(): Promise<AdminInvite[]> {
+  const snapshot = await getDocs(collection(db, 'admin_invites'));
+  const invites = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as AdminInvite[];
+  return invites.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Invite an admin by email.
+ * If an account with that email already exists it is promoted immediately;
+ * otherwise the invite stays pending until that email signs up.
+ */
+export async function createAdminInvite(
+  email: string,
+  invitedBy: { uid: string; displayName: string | null }
+): Promise<AdminInvite> {
+  const normalized = normalizeEmail(email);
+  const now = new Date().toISOString();
+  const inviteRef = doc(db, 'admin_invites', normalized);
+
+  const inviteData: Omit<AdminInvite, 'id'> = {
+    email: normalized,
+    status: 'pending',
+    invited_by: invitedBy.uid,
+    createdAt: now,
+  };
+  if (invitedBy.displayName) {
+    inviteData.invited_by_name = invitedBy.displayName;
+  }
+
+  const existingUsers = await getDocs(
+    query(collection(db, 'users'), where('email', '==', normalized))
+  );
+
+  if (existingUsers.empty) {
+    await setDoc(inviteRef, inviteData);
+    return { id: normalized, ...inviteData };
+  }
+
+  // Existing account: promote it and record the invite as accepted in one batch
+  const userDoc = existingUsers.docs[0];
+  const acceptedData: Omit<AdminInvite, 'id'> = {
+    ...inviteData,
+    status: 'accepted',
+    accepted_by: userDoc.id,
+    acceptedAt: now,
+  };
+
+  const batch = writeBatch(db);
+  batch.update(userDoc.ref, {
+    role: 'admin',
+    invited_by: invitedBy.uid,
+    updatedAt: now,
+  });
+  batch.set(inviteRef, acceptedData);
+  await batch.commit();
+
+  return { id: normalized, ...acceptedData };
+}
+
+export async function getPendingAdminInvite(email: string): Promise<AdminInvite | null> {
+  const docSnap = await getDoc(doc(db, 'admin_invites', normalizeEmail(email)));
+  if (docSnap.exists() && docSnap.data().status === 'pending') {
+    return { id: docSnap.id, ...docSnap.data() } as AdminInvite;
+  }
+  return null;
+}
+
+// Accept the pending invite for the signed-in account's email.
+// Runs in the acceptAdminInvite Cloud Function, which requires a verified email.
+export async function acceptAdminInvite(): Promise<void> {
+  await httpsCallable(functions, 'acceptAdminInvite')();
+}
+
+export async function revokeAdminInvite(inviteId: string): Promise<void> {
+  await updateDoc(doc(db, 'admin_invites', inviteId), {
+    status: 'revoked',
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function removeAdminRole(uid: string): Promise<void> {
+  await updateDoc(doc(db, 'users', uid), {
+    role: 'student',
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Student batches
+interface StudentRecord {
+  id: string;
+  role?: string;
+  branch_id?: string;
+  year?: string;
+  admission_batch?: number;
+}
+
+async function getCollegeStudents(collegeId: string): Promise<StudentRecord[]> {
+  // Query by college only to avoid index requirements, then filter in memory
+  const snapshot = await getDocs(query(collection(db, 'users'), where('college_id', '==', collegeId)));
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as StudentRecord)
+    .filter((user) => (user.role || 'student') === 'student');
+}
+
+// A college's students grouped by branch and admission batch, newest batch first
+export async function getStudentBatches(collegeId: string): Promise<StudentBatch[]> {
+  const students = await getCollegeStudents(collegeId);
+
+  const groups = new Map<string, { branchId: string | null; batch: number; years: Map<string, number>; count: number }>();
+  students.forEach((student) => {
+    if (!student.admission_batch) return;
+    const key = `${student.branch_id || ''}_${student.admission_batch}`;
+    const group = groups.get(key) || {
+      branchId: student.branch_id || null,
+      batch: student.admission_batch,
+      years: new Map<string, number>(),
+      count: 0,
+    };
+    group.count += 1;
+    if (student.year) group.years.set(student.year, (group.years.get(student.year) || 0) + 1);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      branch_id: group.branchId,
+      admission_batch: group.batch,
+      year: Array.from(group.years.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null,
+      student_count: group.count,
+    }))
+    .sort((a, b) => b.admission_batch - a.admission_batch || (a.branch_id || '').localeCompare(b.branch_id || ''));
+}
+
+// Move an admission batch up to the year it's in this academic year, across the college or for one branch.
+// The year comes from the admission batch, so running it again changes nothing; nobody is moved down.
+export async function promoteBatch(
+  collegeId: string,
+  admissionBatch: number,
+  branchId?: string
+): Promise<PromoteBatchResult> {
+  const targetYear = getAcademicYearForBatch(admissionBatch);
+  if (!targetYear) return { promoted: 0, finalYear: 0 };
+
+  const students = (await getCollegeStudents(collegeId)).filter(
+    (student) => student.admission_batch === admissionBatch && (!branchId || student.branch_id === branchId)
+  );
+
+  const finalYearKey = ACADEMIC_YEARS[ACADEMIC_YEARS.length - 1].key;
+  const now = new Date().toISOString();
+  const updates: { id: string; year: string }[] = [];
+  let finalYear = 0;
+  students.forEach((student) => {
+    if (!student.year || Number(student.year) < Number(targetYear)) {
+      updates.push({ id: student.id, year: targetYear });
+    } else if (student.year === finalYearKey) {
+      finalYear += 1;
+    }
+  });
+
+  // Firestore batches hold at most 500 writes
+  const BATCH_LIMIT = 500;
+  for (let start = 0; start < updates.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    updates.slice(start, start + BATCH_LIMIT).forEach(({ id, year }) => {
+      batch.update(doc(db, 'users', id), { year, updatedAt: now });
+    });
+    await batch.commit();
+  }
+
+  return { promoted: updates.length, finalYear };
+}
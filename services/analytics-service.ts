@@ -0,0 +1,416 @@
+/**
+ * Analytics Service
+ *
+ * Per-course analytics for tutors and platform-wide analytics for admins,
+ * aggregated in memory from enrollments, progress and ratings.
+ */
+
+import { collection, getDocs, query, QueryConstraint, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Branch, College, University } from '@/types/admin';
+import { Course } from '@/types/course';
+import { LearnerActivity, UserCourseProgress, UserLectureProgress } from '@/types/progress';
+import {
+  CourseAnalytics,
+  CourseRanking,
+  DailyCount,
+  DateRange,
+  GroupEngagement,
+  PlatformAnalytics,
+  TopicAnalytics,
+  TutorActivity,
+} from '@/types/analytics';
+import type { Enrollment } from './enrollment-service';
+import type { Rating } from './rating-service';
+
+const ENROLLMENTS_COLLECTION = 'enrollments';
+const USER_LECTURE_PROGRESS_COLLECTION = 'user_lecture_progress';
+const RATINGS_COLLECTION = 'ratings';
+const USER_COURSE_PROGRESS_COLLECTION = 'user_course_progress';
+const LEARNER_ACTIVITY_COLLECTION = 'learner_activity';
+
+const TOP_COURSES_LIMIT = 5;
+
+/**
+ * Whether an ISO timestamp falls inside the range (dates compared by day)
+ */
+export function isInRange(timestamp: string | undefined, range: DateRange): boolean {
+  if (!timestamp) return false;
+  const day = timestamp.slice(0, 10);
+  if (range.from && day < range.from.slice(0, 10)) return false;
+  if (range.to && day > range.to.slice(0, 10)) return false;
+  return true;
+}
+
+function countByDay(timestamps: string[]): DailyCount[] {
+  const counts = new Map<string, number>();
+  timestamps.forEach((timestamp) => {
+    const day = timestamp.slice(0, 10);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, count]) => ({ date, count }));
+}
+
+/**
+ * Analytics for one course
+ * Topic completion and drop-off follow one cohort: the students who enrolled in
+ * the date range, with all of their progress so far. Ratings are filtered by createdAt.
+ */
+export async function getCourseAnalytics(course: Course, range: DateRange = {}): Promise<CourseAnalytics> {
+  try {
+    // Query by course only to avoid index requirements, then filter in memory
+    const [enrollmentSnap, progressSnap, ratingSnap] = await Promise.all([
+      getDocs(query(collection(db, ENROLLMENTS_COLLECTION), where('courseId', '==', course.id))),
+      getDocs(query(collection(db, USER_LECTURE_PROGRESS_COLLECTION), where('course_id', '==', course.id))),
+      getDocs(query(collection(db, RATINGS_COLLECTION), where('courseId', '==', course.id))),
+    ]);
+
+    const enrollments = enrollmentSnap.docs
+      .map((doc) => doc.data() as Enrollment)
+      .filter((enrollment) => isInRange(enrollment.enrolledAt, range));
+    const cohort = new Set(enrollments.map((enrollment) => enrollment.studentId));
+    const lectureProgress = progressSnap.docs
+      .map((doc) => doc.data() as UserLectureProgress)
+      .filter((progress) => cohort.has(progress.user_id));
+    const ratings = ratingSnap.docs
+      .map((doc) => doc.data() as Rating)
+      .filter((rating) => isInRange(rating.createdAt, range));
+
+    const topicIndex = new Map(course.topics.map((topic, index) => [topic.id, index]));
+
+    // Each unfinished student's furthest topic is where they stopped
+    const furthestByStudent = new Map<string, number>();
+    const completedByStudent = new Map<string, number>();
+    lectureProgress.forEach((progress) => {
+      const index = topicIndex.get(progress.lecture_id);
+      if (index === undefined) return;
+      furthestByStudent.set(progress.user_id, Math.max(furthestByStudent.get(progress.user_id) ?? -1, index));
+      if (progress.is_completed) {
+        completedByStudent.set(progress.user_id, (completedByStudent.get(progress.user_id) || 0) + 1);
+      }
+    });
+    const stoppedAt = new Map<number, number>();
+    furthestByStudent.forEach((index, studentId) => {
+      if ((completedByStudent.get(studentId) || 0) < course.topics.length) {
+        stoppedAt.set(index, (stoppedAt.get(index) || 0) + 1);
+      }
+    });
+
+    const totalEnrollments = enrollments.length;
+    const topics: TopicAnalytics[] = course.topics.map((topic, index) => {
+      const records = lectureProgress.filter((progress) => progress.lecture_id === topic.id);
+      const completed = records.filter((progress) => progress.is_completed).length;
+      const watched = records.reduce((sum, progress) => sum + (progress.watched_duration_seconds || 0), 0);
+      return {
+        topicId: topic.id,
+        title: topic.title,
+        started: records.length,
+        completed,
+        completionRate: totalEnrollments > 0 ? Math.round((completed / totalEnrollments) * 100) : 0,
+        averageWatchedSeconds: records.length > 0 ? Math.round(watched / records.length) : 0,
+        videoDurationSeconds: topic.videoDuration * 60,
+        stoppedHere: stoppedAt.get(index) || 0,
+      };
+    });
+
+    const dropOff = topics.reduce<TopicAnalytics | null>(
+      (worst, topic) => (topic.stoppedHere > (worst?.stoppedHere ?? 0) ? topic : worst),
+      null
+    );
+
+    const ratingDistribution: CourseAnalytics['ratingDistribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    ratings.forEach((rating) => {
+      const stars = Math.min(5, Math.max(1, Math.round(rating.rating))) as 1 | 2 | 3 | 4 | 5;
+      ratingDistribution[stars] += 1;
+    });
+    const ratingSum = ratings.reduce((sum, rating) => sum + rating.rating, 0);
+
+    return {
+      courseId: course.id,
+      range,
+      totalEnrollments,
+      enrollmentsByDay: countByDay(enrollments.map((enrollment) => enrollment.enrolledAt)),
+      topics,
+      ratingDistribution,
+      ratingCount: ratings.length,
+      averageRating: ratings.length > 0 ? Math.round((ratingSum / ratings.length) * 10) / 10 : 0,
+      dropOffTopicId: dropOff?.topicId ?? null,
+    };
+  } catch (error) {
+    console.error('Error fetching course analytics:', error);
+    throw error;
+  }
+}
+
+/**
+ * Flatten course analytics into CSV rows (header row first)
+ */
+export function courseAnalyticsToRows(course: Course, analytics: CourseAnalytics): (string | number)[][] {
+  const rows: (string | number)[][] = [
+    ['Course', course.title],
+    ['From', analytics.range.from || 'All time'],
+    ['To', analytics.range.to || 'Today'],
+    ['Enrollments', analytics.totalEnrollments],
+    ['Average rating', analytics.averageRating],
+    ['Ratings', analytics.ratingCount],
+    [],
+    [
+      'Topic',
+      'Started',
+      'Completed',
+      'Completion rate (%)',
+      'Average watched (s)',
+      'Video length (s)',
+      'Students who stopped here',
+    ],
+    ...analytics.topics.map((topic) => [
+      topic.title,
+      topic.started,
+      topic.completed,
+      topic.completionRate,
+      topic.averageWatchedSeconds,
+      topic.videoDurationSeconds,
+      topic.stoppedHere,
+    ]),
+    [],
+    ['Date', 'Enrollments'],
+    ...analytics.enrollmentsByDay.map((day) => [day.date, day.count]),
+    [],
+    ['Stars', 'Ratings'],
+    ...([5, 4, 3, 2, 1] as const).map((stars) => [stars, analytics.ratingDistribution[stars]]),
+  ];
+  return rows;
+}
+
+/**
+ * Firestore range filters on an ISO timestamp field
+ * Single-field range filters use automatic indexes, so no composite index is needed.
+ */
+function rangeConstraints(field: string, range: DateRange): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+  if (range.from) constraints.push(where(field, '>=', range.from.slice(0, 10)));
+  if (range.to) {
+    const dayAfter = new Date(range.to.slice(0, 10));
+    dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+    constraints.push(where(field, '<', dayAfter.toISOString().slice(0, 10)));
+  }
+  return constraints;
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week an ISO timestamp falls in
+ */
+function weekStart(timestamp: string): string {
+  const date = new Date(timestamp.slice(0, 10));
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function countDistinct(entries: { key: string; userId: string }[]): DailyCount[] {
+  const users = new Map<string, Set<string>>();
+  entries.forEach(({ key, userId }) => {
+    if (!users.has(key)) users.set(key, new Set());
+    users.get(key)!.add(userId);
+  });
+  return [...users.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, ids]) => ({ date, count: ids.size }));
+}
+
+interface StudentGroups {
+  university_id?: string;
+  college_id?: string;
+  branch_id?: string;
+}
+
+/**
+ * Platform analytics for admins
+ * @param universityId - Limit to students of one university (university drill-down)
+ */
+export async function getPlatformAnalytics(
+  range: DateRange = {},
+  universityId?: string
+): Promise<PlatformAnalytics> {
+  try {
+    const [
+      userSnap,
+      enrollmentSnap,
+      completionSnap,
+      activitySnap,
+      ratingSnap,
+      courseSnap,
+      universitySnap,
+      collegeSnap,
+      branchSnap,
+    ] = await Promise.all([
+      getDocs(collection(db, 'users')),
+      getDocs(query(collection(db, ENROLLMENTS_COLLECTION), ...rangeConstraints('enrolledAt', range))),
+      getDocs(
+        query(
+          collection(db, USER_COURSE_PROGRESS_COLLECTION),
+          ...(range.from || range.to
+            ? rangeConstraints('completed_at', range)
+            : [where('status', '==', 'completed')])
+        )
+      ),
+      getDocs(query(collection(db, LEARNER_ACTIVITY_COLLECTION), ...rangeConstraints('date', range))),
+      getDocs(query(collection(db, RATINGS_COLLECTION), ...rangeConstraints('createdAt', range))),
+      getDocs(collection(db, 'courses')),
+      getDocs(collection(db, 'universities')),
+      getDocs(collection(db, 'colleges')),
+      getDocs(collection(db, 'branches')),
+    ]);
+
+    // Students, keyed by uid, with the groups they belong to
+    const students = new Map<string, StudentGroups>();
+    const tutorNames = new Map<string, string>();
+    userSnap.docs.forEach((doc) => {
+      const data = doc.data();
+      if (data.role === 'tutor') {
+        tutorNames.set(doc.id, data.displayName || data.email || 'Tutor');
+      } else if (data.role === 'student' && (!universityId || data.university_id === universityId)) {
+        students.set(doc.id, {
+          university_id: data.university_id,
+          college_id: data.college_id,
+          branch_id: data.branch_id,
+        });
+      }
+    });
+
+    const enrollments = enrollmentSnap.docs
+      .map((doc) => doc.data() as Enrollment)
+      .filter((enrollment) => students.has(enrollment.studentId));
+    const completions = completionSnap.docs
+      .map((doc) => doc.data() as UserCourseProgress)
+      .filter((progress) => progress.status === 'completed' && students.has(progress.user_id));
+    const activity = activitySnap.docs
+      .map((doc) => doc.data() as LearnerActivity)
+      .filter((day) => students.has(day.user_id));
+    const ratings = ratingSnap.docs
+      .map((doc) => doc.data() as Rating)
+      .filter((rating) => students.has(rating.studentId));
+    const courses = courseSnap.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as Course[];
+
+    // Active learners, from the per-day activity docs written with lecture progress
+    const activeLearnersByDay = countDistinct(activity.map((day) => ({ key: day.date, userId: day.user_id })));
+    const activeLearnersByWeek = countDistinct(
+      activity.map((day) => ({ key: weekStart(day.date), userId: day.user_id }))
+    );
+    const today = new Date().toISOString().slice(0, 10);
+    const weekAgo = new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const activeToday = new Set(activity.filter((day) => day.date === today).map((day) => day.user_id)).size;
+    const activeThisWeek = new Set(activity.filter((day) => day.date >= weekAgo).map((day) => day.user_id)).size;
+
+    // Enrollments and completions per university / college / branch
+    const groupBy = (
+      key: keyof StudentGroups,
+      entities: { id: string; name: string }[]
+    ): GroupEngagement[] => {
+      const groups = new Map(
+        entities.map((entity) => [
+          entity.id,
+          { id: entity.id, name: entity.name, learners: 0, enrollments: 0, completions: 0 },
+        ])
+      );
+      students.forEach((student) => {
+        const group = student[key] ? groups.get(student[key]!) : undefined;
+        if (group) group.learners += 1;
+      });
+      enrollments.forEach((enrollment) => {
+        const groupId = students.get(enrollment.studentId)?.[key];
+        const group = groupId ? groups.get(groupId) : undefined;
+        if (group) group.enrollments += 1;
+      });
+      completions.forEach((progress) => {
+        const groupId = students.get(progress.user_id)?.[key];
+        const group = groupId ? groups.get(groupId) : undefined;
+        if (group) group.completions += 1;
+      });
+      return [...groups.values()].sort((a, b) => b.enrollments - a.enrollments || a.name.localeCompare(b.name));
+    };
+
+    const universities = universitySnap.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as University)
+      .filter((university) => !universityId || university.id === universityId);
+    const colleges = collegeSnap.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as College)
+      .filter((college) => !universityId || college.university_id === universityId);
+    const branches = branchSnap.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as Branch)
+      .filter((branch) => !universityId || branch.university_id === universityId);
+
+    // Course rankings
+    const enrollmentsByCourse = new Map<string, number>();
+    enrollments.forEach((enrollment) => {
+      enrollmentsByCourse.set(enrollment.courseId, (enrollmentsByCourse.get(enrollment.courseId) || 0) + 1);
+    });
+    const ratingsByCourse = new Map<string, number[]>();
+    ratings.forEach((rating) => {
+      ratingsByCourse.set(rating.courseId, [...(ratingsByCourse.get(rating.courseId) || []), rating.rating]);
+    });
+    const rankings: CourseRanking[] = courses.map((course) => {
+      const courseRatings = ratingsByCourse.get(course.id) || [];
+      return {
+        id: course.id,
+        title: course.title,
+        trainerName: course.trainerName,
+        enrollments: enrollmentsByCourse.get(course.id) || 0,
+        averageRating:
+          courseRatings.length > 0
+            ? Math.round((courseRatings.reduce((sum, value) => sum + value, 0) / courseRatings.length) * 10) / 10
+            : 0,
+        ratingCount: courseRatings.length,
+      };
+    });
+
+    // Tutor activity
+    const tutors: TutorActivity[] = [...tutorNames.entries()]
+      .map(([tutorId, name]) => {
+        const tutorCourses = courses.filter((course) => course.trainerId === tutorId);
+        const lastUpdatedAt = tutorCourses
+          .map((course) => course.updatedAt || course.createdAt)
+          .sort()
+          .pop();
+        return {
+          id: tutorId,
+          name,
+          courses: tutorCourses.length,
+          publishedCourses: tutorCourses.filter((course) => (course.status ?? 'published') === 'published').length,
+          enrollments: tutorCourses.reduce((sum, course) => sum + (enrollmentsByCourse.get(course.id) || 0), 0),
+          lastUpdatedAt: lastUpdatedAt ?? null,
+        };
+      })
+      .sort((a, b) => b.enrollments - a.enrollments || (b.lastUpdatedAt || '').localeCompare(a.lastUpdatedAt || ''));
+
+    return {
+      range,
+      ...(universityId ? { universityId } : {}),
+      activeLearnersByDay,
+      activeLearnersByWeek,
+      activeToday,
+      activeThisWeek,
+      totalEnrollments: enrollments.length,
+      totalCompletions: completions.length,
+      byUniversity: groupBy('university_id', universities),
+      byCollege: groupBy('college_id', colleges),
+      byBranch: groupBy(
+        'branch_id',
+        branches.map((branch) => ({ id: branch.id, name: `${branch.code} – ${branch.name}` }))
+      ),
+      topCoursesByEnrollment: rankings
+        .filter((course) => course.enrollments > 0)
+        .sort((a, b) => b.enrollments - a.enrollments)
+        .slice(0, TOP_COURSES_LIMIT),
+      topCoursesByRating: rankings
+        .filter((course) => course.ratingCount > 0)
+        .sort((a, b) => b.averageRating - a.averageRating || b.ratingCount - a.ratingCount)
+        .slice(0, TOP_COURSES_LIMIT),
+      tutors,
+    };
+  } catch (error) {
+    console.error('Error fetching platform analytics:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Caption Service
+ *
+ * Converts tutor-supplied SRT/WebVTT files to WebVTT, uploads them next to
+ * the lesson's HLS output, and parses tracks for the player's caption overlay.
+ */
+
+import { CaptionTrack } from '@/types/course';
+import { R2_PUBLIC_URL, UPLOAD_API_URL } from '@/services/video-upload-service';
+
+// POST /api/captions on the upload server stores the file at hls/{jobId}/captions/{language}.vtt
+// (see "Caption Tracks" in BACKEND_HLS_IMPLEMENTATION.md). Set EXPO_PUBLIC_CAPTION_UPLOAD_URL
+// when captions are served from somewhere else.
+export const CAPTION_UPLOAD_API_URL =
+  process.env.EXPO_PUBLIC_CAPTION_UPLOAD_URL || UPLOAD_API_URL.replace(/\/upload$/, '/captions');
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+const TIMING_LINE = /(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s*-->\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}/;
+
+/**
+ * Public URL of a caption track stored alongside the HLS output
+ */
+export function getR2CaptionUrl(jobId: string, language: string): string {
+  return `${R2_PUBLIC_URL}/hls/${jobId}/captions/${language}.vtt`;
+}
+
+/**
+ * Recover the processing job ID from an HLS URL (hls/{jobId}/master.m3u8)
+ */
+export function getJobIdFromVideoUrl(videoUrl?: string): string | null {
+  const match = videoUrl?.match(/\/hls\/([^/]+)\/master\.m3u8/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Convert SubRip (.srt) text to WebVTT
+ */
+export function srtToVtt(srt: string): string {
+  const blocks = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n{2,}/);
+
+  const cues = blocks.map((block) => {
+    const lines = block.split('\n');
+    // Drop the numeric cue index that SRT puts before the timing line
+    if (lines.length > 1 && /^\d+$/.test(lines[0].trim()) && TIMING_LINE.test(lines[1])) {
+      lines.shift();
+    }
+    // SRT uses a comma before milliseconds; WebVTT uses a dot
+    lines[0] = lines[0].replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+    return lines.join('\n');
+  });
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+/**
+ * Normalise an uploaded caption file to WebVTT
+ * Throws if the file is neither WebVTT nor SRT.
+ */
+export function toWebVtt(text: string, fileName: string): string {
+  const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  if (content.trimStart().startsWith('WEBVTT')) {
+    return content;
+  }
+  if (fileName.toLowerCase().endsWith('.srt') || TIMING_LINE.test(content)) {
+    return srtToVtt(content);
+  }
+
+  throw new Error('Caption files must be WebVTT (.vtt) or SubRip (.srt)');
+}
+
+const parseTimestamp = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * Parse WebVTT text into cues (NOTE/STYLE blocks and markup are ignored)
+ */
+export function parseVtt(vtt: string): CaptionCue[] {
+  const blocks = vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+
+  blocks.forEach((block) => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) return;
+
+    const [startText, rest] = lines[timingIndex].split('-->');
+    const endText = rest.trim().split(/\s+/)[0]; // Drop cue settings like "align:start"
+    const text = lines
+      .slice(timingIndex + 1)
+      .join('\n')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+
+    if (text) {
+      cues.push({ start: parseTimestamp(startText), end: parseTimestamp(endText), text });
+    }
+  });
+
+  return cues;
+}
+
+/**
+ * Find the cue showing at a playback position
+ */
+export function getActiveCue(cues: CaptionCue[], positionSeconds: number): CaptionCue | null {
+  return cues.find((cue) => positionSeconds >= cue.start && positionSeconds <= cue.end) || null;
+}
+
+/**
+ * Download and parse a caption track
+ */
+export async function loadCaptionCues(url: string): Promise<CaptionCue[]> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Caption download failed ${response.status}`);
+    }
+    return parseVtt(await response.text());
+  } catch (error) {
+    console.error('Error loading captions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Upload a WebVTT track for a processed video
+ * @param jobId - Processing job ID of the lesson video
+ * @param vtt - WebVTT file contents (see toWebVtt)
+ */
+export async function uploadCaptionTrack(
+  jobId: string,
+  vtt: string,
+  language: string,
+  label: string
+): Promise<CaptionTrack> {
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // Only set ngrok header if we're using ngrok
+    if (CAPTION_UPLOAD_API_URL.includes('ngrok')) {
+      headers['ngrok-skip-browser-warning'] = 'true';
+    }
+
+    const response = await fetch(CAPTION_UPLOAD_API_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jobId, language, label, vtt }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Caption upload failed ${response.status}: ${errorText}`);
+    }
+
+    const res = await response.json().catch(() => ({}));
+    return {
+      language,
+      label,
+      url: res.url || getR2CaptionUrl(jobId, language),
+    };
+  } catch (error) {
+    console.error('Error uploading captions:', error);
+    throw error;
+  }
+}
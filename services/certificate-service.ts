@@ -0,0 +1,203 @@
+/**
+ * Certificate Service
+ *
+ * Issues a completion certificate when a student finishes a course and
+ * looks certificates up by their public verification ID.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import * as Linking from 'expo-linking';
+import { db, functions } from '@/lib/firebase';
+import { Certificate } from '@/types/certificate';
+
+const CERTIFICATES_COLLECTION = 'certificates';
+
+// Where the web app is hosted, e.g. https://learn.example.com (no trailing slash needed)
+const PUBLIC_WEB_URL = process.env.EXPO_PUBLIC_WEB_URL?.replace(/\/+$/, '');
+
+export function normalizeVerificationId(certId: string): string {
+  return certId.trim().toUpperCase();
+}
+
+/**
+ * Public link to the verification page for a certificate
+ * Uses EXPO_PUBLIC_WEB_URL so links shared from the native app open on the web;
+ * without it, web falls back to the current site and native to an app link.
+ */
+export function getCertificateVerifyUrl(certId: string): string {
+  const path = `/verify/${certId}`;
+  return PUBLIC_WEB_URL ? `${PUBLIC_WEB_URL}${path}` : Linking.createURL(path);
+}
+
+/**
+ * Get the certificate issued to a user for a course, if any
+ */
+export async function getCertificateForCourse(
+  userId: string,
+  courseId: string
+): Promise<Certificate | null> {
+  try {
+    const q = query(
+      collection(db, CERTIFICATES_COLLECTION),
+      where('user_id', '==', userId),
+      where('course_id', '==', courseId)
+    );
+    const querySnapshot = await getDocs(q);
+    if (querySnapshot.empty) {
+      return null;
+    }
+
+    const certDoc = querySnapshot.docs[0];
+    return { id: certDoc.id, ...certDoc.data() } as Certificate;
+  } catch (error) {
+    console.error('Error fetching certificate for course:', error);
+    throw error;
+  }
+}
+
+/**
+ * Issue a certificate for a completed course
+ * Idempotent: returns the existing certificate if one was already issued.
+ * The issueCertificate Cloud Function checks completion and writes the certificate;
+ * it throws if the course has not been completed.
+ */
+export async function issueCertificate(
+  userId: string,
+  courseId: string
+): Promise<Certificate> {
+  try {
+    const existing = await getCertificateForCourse(userId, courseId);
+    if (existing) {
+      return existing;
+    }
+
+    const issue = httpsCallable<{ courseId: string }, Certificate>(functions, 'issueCertificate');
+    const { data } = await issue({ courseId });
+    return data;
+  } catch (error) {
+    console.error('Error issuing certificate:', error);
+    throw error;
+  }
+}
+
+/**
+ * Look up a certificate by verification ID (public)
+ */
+export async function getCertificate(certId: string): Promise<Certificate | null> {
+  try {
+    const certSnap = await getDoc(
+      doc(db, CERTIFICATES_COLLECTION, normalizeVerificationId(certId))
+    );
+    if (!certSnap.exists()) {
+      return null;
+    }
+    return { id: certSnap.id, ...certSnap.data() } as Certificate;
+  } catch (error) {
+    console.error('Error fetching certificate:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all certificates for a user (most recently completed first)
+ */
+export async function getUserCertificates(userId: string): Promise<Certificate[]> {
+  try {
+    const q = query(
+      collection(db, CERTIFICATES_COLLECTION),
+      where('user_id', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const certificates = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Certificate[];
+
+    // Sort in memory to avoid index requirement
+    return certificates.sort(
+      (a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching certificates:', error);
+    throw error;
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render a certificate as a standalone, print-ready HTML page
+ * (landscape A4; "Save as PDF" from the print dialog produces the PDF)
+ */
+export function buildCertificateHtml(certificate: Certificate): string {
+  const issuer = certificate.college_name || 'Cohort Launchpad';
+  const completedOn = new Date(certificate.completed_at).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  const verifyUrl = getCertificateVerifyUrl(certificate.id);
+  const logo = certificate.college_logo
+    ? `<img class="logo" src="${escapeHtml(certificate.college_logo)}" alt="" />`
+    : '<div class="logo-fallback">🎓</div>';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Certificate ${escapeHtml(certificate.id)}</title>
+<style>
+  @page { size: A4 landscape; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Georgia, 'Times New Roman', serif; color: #1C1D1F; background: #FFFFFF; }
+  .page { width: 297mm; height: 210mm; padding: 18mm; display: flex; }
+  .frame { flex: 1; border: 3px solid #1C1D1F; outline: 1px solid #D1D7DC; outline-offset: -10px;
+    padding: 14mm; display: flex; flex-direction: column; align-items: center; text-align: center; }
+  .logo { height: 22mm; object-fit: contain; }
+  .logo-fallback { font-size: 40px; }
+  .issuer { font-size: 14px; letter-spacing: 3px; text-transform: uppercase; color: #6A6F73; margin-top: 4mm; }
+  h1 { font-size: 40px; margin: 10mm 0 4mm; letter-spacing: 1px; }
+  .label { font-size: 15px; color: #6A6F73; }
+  .student { font-size: 34px; font-weight: bold; margin: 5mm 0; border-bottom: 1px solid #D1D7DC; padding: 0 12mm 3mm; }
+  .course { font-size: 24px; font-weight: bold; margin: 4mm 0; }
+  .footer { margin-top: auto; width: 100%; display: flex; justify-content: space-between; align-items: flex-end;
+    font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 12px; color: #6A6F73; text-align: left; }
+  .footer strong { display: block; color: #1C1D1F; font-size: 14px; }
+  .verify { text-align: right; }
+</style>
+</head>
+<body>
+  <div class="page">
+    <div class="frame">
+      ${logo}
+      <div class="issuer">${escapeHtml(issuer)}${certificate.university_name ? ` · ${escapeHtml(certificate.university_name)}` : ''}</div>
+      <h1>Certificate of Completion</h1>
+      <div class="label">This certifies that</div>
+      <div class="student">${escapeHtml(certificate.student_name)}</div>
+      <div class="label">has successfully completed</div>
+      <div class="course">${escapeHtml(certificate.course_title)}</div>
+      <div class="label">on ${escapeHtml(completedOn)}</div>
+      <div class="footer">
+        <div><strong>${escapeHtml(certificate.trainer_name)}</strong>Trainer</div>
+        <div class="verify"><strong>${escapeHtml(certificate.id)}</strong>Verify at ${escapeHtml(verifyUrl)}</div>
+      </div>
+    </div>
+  </div>
+</body>
+</html>`;
+}
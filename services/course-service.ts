@@ -1,26 +1,147 @@
 import { 
   collection, 
   doc, 
-  addDoc, 
   updateDoc, 
   getDocs, 
   getDoc,
   query,
   where,
   orderBy,
-  Timestamp 
+  Timestamp,
+  deleteField,
+  runTransaction,
+  limit,
+  startAfter,
+  documentId,
+  writeBatch,
+  WriteBatch,
+  QueryConstraint,
+  getCountFromServer,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Course, Topic, CourseFormData } from '@/types/course';
-import { getCourseRatingStats } from './rating-service';
+import {
+  AuthoredQuiz,
+  Course,
+  Topic,
+  CourseFormData,
+  CourseStatus,
+  CourseSnapshot,
+  CourseVersion,
+  CoursePage,
+  CourseSearchFilters,
+  CourseSearchOptions,
+  CourseSort,
+  CatalogScope,
+  QuizAnswerKey,
+} from '@/types/course';
+import {
+  CourseSortField,
+  decodeCourseCursor,
+  DURATION_BUCKETS,
+  encodeCourseCursor,
+  getCourseOutcome,
+  getDurationBucket,
+} from '@/lib/course-search';
+import { buildSearchIndex, SearchIndex, searchIndex } from '@/lib/search-index';
+import { QUIZ_KEYS_SUBCOLLECTION, splitQuizAnswers } from '@/services/quiz-service';
 
 const COURSES_COLLECTION = 'courses';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+// Fields copied into a version snapshot and written back on restore
+const SNAPSHOT_FIELDS: (keyof CourseSnapshot)[] = [
+  'title',
+  'description',
+  'thumbnail',
+  'category',
+  'language',
+  'trainerCredentials',
+  'outcomes',
+  'university_ids',
+  'branch_ids',
+  'year',
+  'sections',
+  'sequential',
+  'prerequisiteCourseIds',
+  'topics',
+  'totalDuration',
+  'totalTopics',
+];
+
+export interface CourseEditor {
+  id: string;
+  name: string;
+  isAdmin?: boolean; // Admins edit published courses in place; a tutor's edit sends them back to review
+}
 const ENROLLMENTS_COLLECTION = 'enrollments';
+const RATINGS_COLLECTION = 'ratings';
+const USERS_COLLECTION = 'users';
+const DEFAULT_PAGE_SIZE = 20;
+// Upper bound on extra reads when in-memory filters reject most of a page
+const MAX_SCAN_BATCHES = 5;
+
+// Rebuild the local text search index after this long
+const SEARCH_INDEX_TTL_MS = 5 * 60 * 1000;
+
+// Course field each sort order reads from, newest / highest first
+const SORT_FIELDS: Record<CourseSort, CourseSortField> = {
+  relevance: 'createdAt', // Without a search query
+  newest: 'createdAt',
+  rating: 'rating',
+  popularity: 'enrollmentCount',
+};
+
+// A topic as the tutor edits it, with its quiz answers still inline
+type AuthoredTopic = Omit<Topic, 'quiz'> & { quiz?: AuthoredQuiz };
+
+/**
+ * Take quiz answers out of topics before they're stored on the course, where every student can read them
+ * @returns The topics to store, and the answer key of each topic with a quiz by topic ID
+ */
+function separateQuizAnswers(topics: AuthoredTopic[]): {
+  topics: Topic[];
+  answerKeys: Record<string, QuizAnswerKey>;
+} {
+  const updatedAt = new Date().toISOString();
+  const answerKeys: Record<string, QuizAnswerKey> = {};
+  const publicTopics = topics.map(({ quiz, ...topic }) => {
+    if (!quiz) return topic;
+    const { quiz: publicQuiz, answerKey } = splitQuizAnswers(quiz);
+    answerKeys[topic.id] = { ...answerKey, updatedAt };
+    return { ...topic, quiz: publicQuiz };
+  });
+  return { topics: publicTopics, answerKeys };
+}
+
+function hasInlineQuizAnswers(topics: AuthoredTopic[]): boolean {
+  return topics.some((topic) =>
+    topic.quiz?.questions.some(
+      (question) =>
+        question.correctOptions !== undefined ||
+        question.correctNumber !== undefined ||
+        question.tolerance !== undefined ||
+        question.explanation !== undefined
+    )
+  );
+}
 
+/**
+ * Courses without a status predate the review workflow and stay visible
+ */
+export function getCourseStatus(course: Pick<Course, 'status'>): CourseStatus {
+  return course.status ?? 'published';
+}
+
+/**
+ * Create a course
+ * @param status - 'draft' to keep editing, 'in_review' to submit straight away;
+ * admin bulk imports publish directly
+ */
 export async function createCourse(
   courseData: CourseFormData,
   trainerId: string,
-  trainerName: string
+  trainerName: string,
+  status: CourseStatus = 'draft'
 ): Promise<string> {
   try {
     // Calculate totals
@@ -31,6 +152,14 @@ export async function createCourse(
     const totalTopics = courseData.topics.length;
     const now = new Date().toISOString();
 
+    const { topics, answerKeys } = separateQuizAnswers(
+      courseData.topics.map((topic, index) => ({
+        ...topic,
+        id: `topic-${Date.now()}-${index}`,
+        orderIndex: index,
+      }))
+    );
+
     const course: Omit<Course, 'id'> = {
       title: courseData.title,
       description: courseData.description,
@@ -38,72 +167,95 @@ export async function createCourse(
       outcomes: courseData.outcomes,
       totalDuration,
       totalTopics,
+      durationBucket: getDurationBucket(totalDuration),
       trainerName,
       trainerId,
       createdAt: now,
       updatedAt: now,
+      status,
+      ...(status === 'in_review' ? { submittedAt: now } : {}),
+      ...(status === 'published' ? { publishedAt: now } : {}),
       category: courseData.category || 'Development', // Default to Development if not provided
       language: courseData.language || 'English', // Default to English if not provided
       trainerCredentials: courseData.trainerCredentials,
       rating: 0,
       ratingCount: 0,
+      ratingSum: 0,
       enrollmentCount: 0,
       university_ids: courseData.university_ids || [],
       branch_ids: courseData.branch_ids || [],
       year: courseData.year,
-      topics: courseData.topics.map((topic, index) => ({
-        ...topic,
-        id: `topic-${Date.now()}-${index}`,
-      })),
+      topics,
+      ...(courseData.sections && courseData.sections.length > 0
+        ? { sections: courseData.sections }
+        : {}),
+      ...(courseData.sequential ? { sequential: true } : {}),
+      ...(courseData.prerequisiteCourseIds && courseData.prerequisiteCourseIds.length > 0
+        ? { prerequisiteCourseIds: courseData.prerequisiteCourseIds }
+        : {}),
     };
 
-    const docRef = await addDoc(collection(db, COURSES_COLLECTION), course);
-    return docRef.id;
+    // The course and its quiz answer keys are written together
+    const courseRef = doc(collection(db, COURSES_COLLECTION));
+    const batch = writeBatch(db);
+    batch.set(courseRef, course);
+    Object.entries(answerKeys).forEach(([topicId, answerKey]) => {
+      batch.set(doc(db, COURSES_COLLECTION, courseRef.id, QUIZ_KEYS_SUBCOLLECTION, topicId), answerKey);
+    });
+    await batch.commit();
+    return courseRef.id;
   } catch (error) {
     console.error('Error creating course:', error);
     throw error;
   }
 }
 
-export async function getCourses(): Promise<Course[]> {
+/**
+ * Whether a course is visible within a catalog scope (see buildCatalogScope); no scope shows everything
+ * Courses not tied to any branch are open to every branch of their universities.
+ */
+export function isCourseInScope(course: Course, scope?: CatalogScope | null): boolean {
+  if (!scope) return true;
+  if (!course.university_ids?.includes(scope.universityId)) return false;
+  if (scope.branchIds && course.branch_ids && course.branch_ids.length > 0) {
+    const branchIds = scope.branchIds;
+    if (!course.branch_ids.some((id) => branchIds.includes(id))) return false;
+  }
+  return true;
+}
+
+/**
+ * Firestore constraint and in-memory check that keep a paged query inside a catalog scope
+ */
+function scopeQuery(scope?: CatalogScope | null): {
+  constraints: QueryConstraint[];
+  check?: (course: Course) => boolean;
+} {
+  if (!scope) return { constraints: [] };
+  return {
+    constraints: [where('university_ids', 'array-contains', scope.universityId)],
+    check: (course) => isCourseInScope(course, scope),
+  };
+}
+
+/**
+ * Get the course catalog (published courses only)
+ * Enrollment and rating figures come from the counters on each course document.
+ * @param scope - Limit to a student's catalog; student-facing screens pass useCatalogScope()
+ */
+export async function getCourses(scope?: CatalogScope | null): Promise<Course[]> {
   try {
     // Query without orderBy to avoid index requirement, then sort in memory
     const querySnapshot = await getDocs(collection(db, COURSES_COLLECTION));
     
-    const courses = querySnapshot.docs.map((doc) => ({
+    // Filter in memory: courses created before the review workflow have no status
+    const courses = (querySnapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
-    })) as Course[];
-    
-    // Fetch dynamic data for all courses (in batches to avoid overwhelming)
-    const coursesWithStats = await Promise.all(
-      courses.map(async (course) => {
-        try {
-          const [enrollmentCount, ratingStats] = await Promise.all([
-            getEnrollmentCount(course.id),
-            getCourseRatingStats(course.id),
-          ]);
-
-          return {
-            ...course,
-            enrollmentCount,
-            rating: ratingStats.averageRating,
-            ratingCount: ratingStats.ratingCount,
-          };
-        } catch (error) {
-          console.error(`Error fetching stats for course ${course.id}:`, error);
-          return {
-            ...course,
-            enrollmentCount: 0,
-            rating: 0,
-            ratingCount: 0,
-          };
-        }
-      })
-    );
+    })) as Course[]).filter((course) => getCourseStatus(course) === 'published' && isCourseInScope(course, scope));
     
     // Sort by createdAt in descending order (newest first)
-    return coursesWithStats.sort((a, b) => {
+    return courses.sort((a, b) => {
       const dateA = new Date(a.createdAt).getTime();
       const dateB = new Date(b.createdAt).getTime();
       return dateB - dateA;
@@ -115,45 +267,237 @@ export async function getCourses(): Promise<Course[]> {
 }
 
 /**
- * Get enrollment count for a course
+ * Cursors are the last course's sort value and ID, so pages stay stable when courses tie
+ */
+/**
+ * Read one page of courses, highest sortField first
+ * Needs a composite index on each filter field + sortField (desc) + __name__ (desc); see FIREBASE_SETUP.md.
+ * @param matches - Extra in-memory filter for conditions Firestore can't combine in one query;
+ * further batches are read (up to MAX_SCAN_BATCHES) until the page is full
+ */
+async function getCoursePage(
+  filters: QueryConstraint[],
+  sortField: CourseSortField,
+  pageSize: number,
+  cursor?: string | null,
+  matches?: (course: Course) => boolean
+): Promise<CoursePage> {
+  const courses: Course[] = [];
+  let after = cursor;
+  let exhausted = false;
+
+  for (let batch = 0; batch < MAX_SCAN_BATCHES && !exhausted && courses.length < pageSize; batch++) {
+    const constraints: QueryConstraint[] = [
+      ...filters,
+      orderBy(sortField, 'desc'),
+      orderBy(documentId(), 'desc'),
+    ];
+    if (after) {
+      constraints.push(startAfter(...decodeCourseCursor(after)));
+    }
+    constraints.push(limit(pageSize));
+
+    const querySnapshot = await getDocs(query(collection(db, COURSES_COLLECTION), ...constraints));
+    const scanned = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Course[];
+
+    let consumed = 0;
+    for (const course of scanned) {
+      consumed += 1;
+      if (!matches || matches(course)) {
+        courses.push(course);
+        if (courses.length === pageSize) break;
+      }
+    }
+    if (consumed > 0) {
+      after = encodeCourseCursor(scanned[consumed - 1], sortField);
+    }
+    exhausted = scanned.length < pageSize && consumed === scanned.length;
+  }
+
+  return { courses, nextCursor: exhausted ? null : after ?? null };
+}
+
+/**
+ * Get a page of the published catalog
+ * Courses created before the review workflow only appear once rebuildCourseStats has stamped their status.
+ * @param scope - Limit to a student's catalog; student-facing screens pass useCatalogScope()
  */
-async function getEnrollmentCount(courseId: string): Promise<number> {
+export async function getCoursesPage(
+  scope: CatalogScope | null,
+  cursor?: string | null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<CoursePage> {
   try {
-    const q = query(
-      collection(db, ENROLLMENTS_COLLECTION),
-      where('courseId', '==', courseId)
+    const scoped = scopeQuery(scope);
+    return await getCoursePage(
+      [where('status', '==', 'published'), ...scoped.constraints],
+      SORT_FIELDS.newest,
+      pageSize,
+      cursor,
+      scoped.check
+    );
+  } catch (error) {
+    console.error('Error fetching course page:', error);
+    throw error;
+  }
+}
+
+let catalogIndex: { index: SearchIndex; builtAt: number } | null = null;
+
+/**
+ * Full-text index over the published catalog, kept in memory and rebuilt every few minutes
+ * Covers every published course; searches filter hits by their catalog scope.
+ */
+async function getCatalogIndex(): Promise<SearchIndex> {
+  if (!catalogIndex || Date.now() - catalogIndex.builtAt > SEARCH_INDEX_TTL_MS) {
+    const querySnapshot = await getDocs(collection(db, COURSES_COLLECTION));
+    const published = (querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Course[]).filter((course) => getCourseStatus(course) === 'published');
+    catalogIndex = { index: buildSearchIndex(published), builtAt: Date.now() };
+  }
+  return catalogIndex.index;
+}
+
+function matchesFilters(course: Course, filters: CourseSearchFilters): boolean {
+  return (
+    (!filters.universityId || !!course.university_ids?.includes(filters.universityId)) &&
+    (!filters.branchId || !!course.branch_ids?.includes(filters.branchId)) &&
+    (!filters.year || course.year === filters.year) &&
+    (!filters.category || course.category === filters.category) &&
+    (!filters.language || course.language === filters.language) &&
+    (!filters.durationBucket || getDurationBucket(course.totalDuration) === filters.durationBucket) &&
+    (!filters.minRating || (course.rating || 0) >= filters.minRating) &&
+    (!filters.outcome || getCourseOutcome(course) === filters.outcome)
+  );
+}
+
+/**
+ * Text search against the local index; the cursor is an offset into the ranked results
+ */
+async function searchCatalogText(
+  text: string,
+  scope: CatalogScope | null | undefined,
+  filters: CourseSearchFilters,
+  sort: CourseSort,
+  cursor: string | null | undefined,
+  pageSize: number
+): Promise<CoursePage> {
+  const hits = searchIndex(await getCatalogIndex(), text).filter(
+    (hit) => isCourseInScope(hit.course, scope) && matchesFilters(hit.course, filters)
+  );
+  if (sort !== 'relevance') {
+    const field = SORT_FIELDS[sort];
+    // Array sort is stable, so ties stay in relevance order
+    hits.sort((a, b) => {
+      const valueA = a.course[field] ?? 0;
+      const valueB = b.course[field] ?? 0;
+      return valueA < valueB ? 1 : valueA > valueB ? -1 : 0;
+    });
+  }
+
+  const offset = cursor ? Number(cursor) : 0;
+  const page = hits.slice(offset, offset + pageSize);
+  return {
+    courses: page.map((hit) => hit.course),
+    nextCursor: offset + pageSize < hits.length ? String(offset + pageSize) : null,
+    highlights: Object.fromEntries(page.map((hit) => [hit.course.id, hit.highlight])),
+  };
+}
+
+/**
+ * Search the published catalog with filters, a sort order and cursor pagination
+ * Results are limited to options.scope when given. Without a query, equality filters run in Firestore. Firestore allows one array-contains per
+ * query and one inequality alongside the sort, so the branch (when a university is also set) and
+ * minimum rating (unless sorting by rating) are checked in memory, as is the outcome, which is read from free text.
+ * With a query, the catalog is searched through the local full-text index (title, description,
+ * outcomes, tutor, category and topics, with prefix and typo matching) and results carry
+ * highlighted snippets.
+ */
+export async function searchCourses(options: CourseSearchOptions = {}): Promise<CoursePage> {
+  try {
+    const {
+      query: text = '',
+      scope,
+      filters = {},
+      sort = 'relevance',
+      cursor,
+      pageSize = DEFAULT_PAGE_SIZE,
+    } = options;
+
+    if (text.trim()) {
+      return await searchCatalogText(text, scope, filters, sort, cursor, pageSize);
+    }
+
+    const constraints: QueryConstraint[] = [where('status', '==', 'published')];
+    const checks: ((course: Course) => boolean)[] = [];
+
+    // The scope's university takes the array-contains slot unless the filters already use it
+    const scoped = scopeQuery(scope);
+    if (scoped.check) checks.push(scoped.check);
+    const universityId = filters.universityId || scope?.universityId;
+
+    if (filters.year) constraints.push(where('year', '==', filters.year));
+    if (filters.category) constraints.push(where('category', '==', filters.category));
+    if (filters.language) constraints.push(where('language', '==', filters.language));
+    if (filters.durationBucket) constraints.push(where('durationBucket', '==', filters.durationBucket));
+
+    if (universityId) {
+      constraints.push(where('university_ids', 'array-contains', universityId));
+      if (filters.branchId) {
+        const branchId = filters.branchId;
+        checks.push((course) => !!course.branch_ids?.includes(branchId));
+      }
+    } else if (filters.branchId) {
+      constraints.push(where('branch_ids', 'array-contains', filters.branchId));
+    }
+
+    if (filters.minRating) {
+      const minRating = filters.minRating;
+      if (sort === 'rating') {
+        constraints.push(where('rating', '>=', minRating));
+      } else {
+        checks.push((course) => (course.rating || 0) >= minRating);
+      }
+    }
+
+    if (filters.outcome) {
+      const outcome = filters.outcome;
+      checks.push((course) => getCourseOutcome(course) === outcome);
+    }
+
+    return await getCoursePage(
+      constraints,
+      SORT_FIELDS[sort],
+      pageSize,
+      cursor,
+      checks.length > 0 ? (course) => checks.every((check) => check(course)) : undefined
     );
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.size;
   } catch (error) {
-    console.error('Error fetching enrollment count:', error);
-    return 0;
+    console.error('Error searching courses:', error);
+    throw error;
   }
 }
 
-export async function getCourseById(courseId: string): Promise<Course | null> {
+/**
+ * Get a course by ID
+ * @param scope - A student's catalog scope; courses outside it come back as null
+ */
+export async function getCourseById(courseId: string, scope?: CatalogScope | null): Promise<Course | null> {
   try {
     const docRef = doc(db, COURSES_COLLECTION, courseId);
     const docSnap = await getDoc(docRef);
     
     if (docSnap.exists()) {
-      const courseData = {
+      const course = {
         id: docSnap.id,
         ...docSnap.data(),
       } as Course;
-
-      // Fetch dynamic data
-      const [enrollmentCount, ratingStats] = await Promise.all([
-        getEnrollmentCount(courseId),
-        getCourseRatingStats(courseId),
-      ]);
-
-      // Update course with dynamic data
-      courseData.enrollmentCount = enrollmentCount;
-      courseData.rating = ratingStats.averageRating;
-      courseData.ratingCount = ratingStats.ratingCount;
-
-      return courseData;
+      return isCourseInScope(course, scope) ? course : null;
     }
     return null;
   } catch (error) {
@@ -162,61 +506,237 @@ export async function getCourseById(courseId: string): Promise<Course | null> {
   }
 }
 
-export async function getCoursesByTrainer(trainerId: string): Promise<Course[]> {
+/**
+ * Get a page of a tutor's courses, in any status
+ */
+export async function getCoursesByTrainerPage(
+  trainerId: string,
+  cursor?: string | null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<CoursePage> {
   try {
-    // Query without orderBy to avoid index requirement, then sort in memory
-    const q = query(
-      collection(db, COURSES_COLLECTION),
-      where('trainerId', '==', trainerId)
-    );
-    const querySnapshot = await getDocs(q);
-    
-    const courses = querySnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as Course[];
-    
-    // Fetch dynamic data for all courses
-    const coursesWithStats = await Promise.all(
-      courses.map(async (course) => {
-        const [enrollmentCount, ratingStats] = await Promise.all([
-          getEnrollmentCount(course.id),
-          getCourseRatingStats(course.id),
-        ]);
-
-        return {
-          ...course,
-          enrollmentCount,
-          rating: ratingStats.averageRating,
-          ratingCount: ratingStats.ratingCount,
-        };
-      })
+    return await getCoursePage([where('trainerId', '==', trainerId)], SORT_FIELDS.newest, pageSize, cursor);
+  } catch (error) {
+    console.error('Error fetching trainer course page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Number of courses a tutor has, in any status, without reading them
+ */
+export async function countCoursesByTrainer(trainerId: string): Promise<number> {
+  try {
+    const snapshot = await getCountFromServer(
+      query(collection(db, COURSES_COLLECTION), where('trainerId', '==', trainerId))
     );
-    
-    // Sort by createdAt in descending order (newest first)
-    return coursesWithStats.sort((a, b) => {
-      const dateA = new Date(a.createdAt).getTime();
-      const dateB = new Date(b.createdAt).getTime();
-      return dateB - dateA;
+    return snapshot.data().count;
+  } catch (error) {
+    console.error('Error counting trainer courses:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recompute every course's enrollment (overall and per branch) and rating counters from the source collections
+ * One-off backfill for courses created before the counters existed, or to repair drift.
+ * Also stamps legacy courses without a status as published and fills in their duration bucket,
+ * so paged and filtered queries include them, and moves quiz answers still stored on a course into its answer keys.
+ * @returns Number of courses updated
+ */
+export async function rebuildCourseStats(): Promise<number> {
+  try {
+    const [courseSnap, enrollmentSnap, ratingSnap, userSnap] = await Promise.all([
+      getDocs(collection(db, COURSES_COLLECTION)),
+      getDocs(collection(db, ENROLLMENTS_COLLECTION)),
+      getDocs(collection(db, RATINGS_COLLECTION)),
+      getDocs(collection(db, USERS_COLLECTION)),
+    ]);
+
+    const studentBranches = new Map<string, string>();
+    userSnap.docs.forEach((doc) => {
+      if (doc.data().branch_id) studentBranches.set(doc.id, doc.data().branch_id);
+    });
+
+    const enrollmentCounts = new Map<string, number>();
+    const branchCounts = new Map<string, Record<string, number>>();
+    enrollmentSnap.docs.forEach((doc) => {
+      const { courseId, studentId } = doc.data() as { courseId: string; studentId: string };
+      enrollmentCounts.set(courseId, (enrollmentCounts.get(courseId) || 0) + 1);
+      const branchId = studentBranches.get(studentId);
+      if (branchId) {
+        const counts = branchCounts.get(courseId) || {};
+        counts[branchId] = (counts[branchId] || 0) + 1;
+        branchCounts.set(courseId, counts);
+      }
     });
+    const ratingTotals = new Map<string, { sum: number; count: number }>();
+    ratingSnap.docs.forEach((doc) => {
+      const { courseId, rating } = doc.data() as { courseId: string; rating: number };
+      const totals = ratingTotals.get(courseId) || { sum: 0, count: 0 };
+      ratingTotals.set(courseId, { sum: totals.sum + rating, count: totals.count + 1 });
+    });
+
+    // Courses saved before answer keys were split out still carry quiz answers in their topics
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    courseSnap.docs.forEach((courseDoc) => {
+      const totals = ratingTotals.get(courseDoc.id) || { sum: 0, count: 0 };
+      const storedTopics = (courseDoc.data().topics || []) as AuthoredTopic[];
+      const quizAnswers = hasInlineQuizAnswers(storedTopics) ? separateQuizAnswers(storedTopics) : null;
+
+      writes.push((batch) =>
+        batch.update(courseDoc.ref, {
+          enrollmentCount: enrollmentCounts.get(courseDoc.id) || 0,
+          branchEnrollmentCounts: branchCounts.get(courseDoc.id) || {},
+          ratingCount: totals.count,
+          ratingSum: totals.sum,
+          rating: totals.count > 0 ? Math.round((totals.sum / totals.count) * 10) / 10 : 0,
+          durationBucket: getDurationBucket(courseDoc.data().totalDuration || 0),
+          ...(courseDoc.data().status ? {} : { status: 'published' }),
+          ...(quizAnswers ? { topics: quizAnswers.topics } : {}),
+        })
+      );
+      Object.entries(quizAnswers?.answerKeys || {}).forEach(([topicId, answerKey]) => {
+        writes.push((batch) =>
+          batch.set(doc(db, COURSES_COLLECTION, courseDoc.id, QUIZ_KEYS_SUBCOLLECTION, topicId), answerKey)
+        );
+      });
+    });
+
+    // Firestore batches hold at most 500 writes
+    const BATCH_LIMIT = 500;
+    for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      writes.slice(start, start + BATCH_LIMIT).forEach((write) => write(batch));
+      await batch.commit();
+    }
+
+    return courseSnap.size;
   } catch (error) {
-    console.error('Error fetching trainer courses:', error);
+    console.error('Error rebuilding course stats:', error);
     throw error;
   }
 }
 
+/**
+ * Number of courses missing the fields paged queries filter and sort on (status, durationBucket, counters)
+ * Runs count queries only, so the admin dashboard can check on load and run rebuildCourseStats when needed.
+ */
+export async function countCoursesNeedingBackfill(): Promise<number> {
+  try {
+    const courses = collection(db, COURSES_COLLECTION);
+    const statuses: CourseStatus[] = ['draft', 'in_review', 'published', 'archived'];
+    const [total, withStatus, withBucket, withCounters] = await Promise.all([
+      getCountFromServer(courses),
+      getCountFromServer(query(courses, where('status', 'in', statuses))),
+      getCountFromServer(query(courses, where('durationBucket', 'in', DURATION_BUCKETS.map((bucket) => bucket.key)))),
+      getCountFromServer(query(courses, where('enrollmentCount', '>=', 0))),
+    ]);
+    const complete = Math.min(withStatus.data().count, withBucket.data().count, withCounters.data().count);
+    return total.data().count - complete;
+  } catch (error) {
+    console.error('Error counting courses needing backfill:', error);
+    throw error;
+  }
+}
+
+/**
+ * Copy the course's editable fields, leaving out ones it doesn't have
+ */
+function toSnapshot(course: Partial<Course>): CourseSnapshot {
+  const snapshot: Partial<CourseSnapshot> = {};
+  const copyField = <K extends keyof CourseSnapshot>(field: K) => {
+    if (course[field] !== undefined) {
+      snapshot[field] = course[field];
+    }
+  };
+  SNAPSHOT_FIELDS.forEach(copyField);
+  return snapshot as CourseSnapshot;
+}
+
+/**
+ * Save the current course as a version, then apply the update, in one transaction
+ * A published course edited by anyone but an admin goes back to review, so the change is approved before students see it.
+ */
+async function updateWithVersion(
+  courseId: string,
+  updateData: Record<string, unknown>,
+  editor: CourseEditor,
+  options: {
+    restoredFrom?: string;
+    answerKeys?: Record<string, QuizAnswerKey>; // Replaces the course's quiz answer keys
+  } = {}
+): Promise<void> {
+  const { restoredFrom, answerKeys } = options;
+  const courseRef = doc(db, COURSES_COLLECTION, courseId);
+  const versionRef = doc(collection(db, COURSES_COLLECTION, courseId, VERSIONS_SUBCOLLECTION));
+
+  await runTransaction(db, async (transaction) => {
+    const courseSnap = await transaction.get(courseRef);
+    if (!courseSnap.exists()) {
+      throw new Error(`Course ${courseId} not found`);
+    }
+
+    // Keep the answer keys with the version, so restoring it brings its quizzes back gradable
+    const quizTopics = ((courseSnap.data().topics || []) as Topic[]).filter((topic) => topic.quiz);
+    const keySnaps = await Promise.all(
+      quizTopics.map((topic) =>
+        transaction.get(doc(db, COURSES_COLLECTION, courseId, QUIZ_KEYS_SUBCOLLECTION, topic.id))
+      )
+    );
+    const currentKeys: Record<string, QuizAnswerKey> = {};
+    keySnaps.forEach((keySnap) => {
+      if (keySnap.exists()) currentKeys[keySnap.id] = keySnap.data() as QuizAnswerKey;
+    });
+
+    const version: Omit<CourseVersion, 'id'> = {
+      snapshot: toSnapshot(courseSnap.data() as Course),
+      answerKeys: currentKeys,
+      authorId: editor.id,
+      authorName: editor.name,
+      createdAt: new Date().toISOString(),
+      ...(restoredFrom ? { restoredFrom } : {}),
+    };
+    transaction.set(versionRef, version);
+    if (!editor.isAdmin && getCourseStatus(courseSnap.data() as Course) === 'published') {
+      transaction.update(courseRef, {
+        ...updateData,
+        status: 'in_review',
+        submittedAt: new Date().toISOString(),
+        reviewComment: deleteField(),
+      });
+    } else {
+      transaction.update(courseRef, updateData);
+    }
+
+    if (answerKeys) {
+      Object.entries(answerKeys).forEach(([topicId, answerKey]) => {
+        transaction.set(doc(db, COURSES_COLLECTION, courseId, QUIZ_KEYS_SUBCOLLECTION, topicId), answerKey);
+      });
+      // Drop the keys of quizzes that were removed
+      ((courseSnap.data().topics || []) as Topic[])
+        .filter((topic) => topic.quiz && !answerKeys[topic.id])
+        .forEach((topic) => {
+          transaction.delete(doc(db, COURSES_COLLECTION, courseId, QUIZ_KEYS_SUBCOLLECTION, topic.id));
+        });
+    }
+  });
+}
+
 /**
  * Update course (for when course content is modified)
+ * The previous content is kept in its version history.
  */
 export async function updateCourse(
   courseId: string,
-  updates: Partial<CourseFormData>
+  updates: Partial<CourseFormData>,
+  editor: CourseEditor
 ): Promise<void> {
   try {
-    const courseRef = doc(db, COURSES_COLLECTION, courseId);
     const updateData: any = {
       updatedAt: new Date().toISOString(),
     };
+    let answerKeys: Record<string, QuizAnswerKey> | undefined;
 
     if (updates.title !== undefined) updateData.title = updates.title;
     if (updates.description !== undefined) updateData.description = updates.description;
@@ -228,26 +748,193 @@ export async function updateCourse(
     if (updates.university_ids !== undefined) updateData.university_ids = updates.university_ids;
     if (updates.branch_ids !== undefined) updateData.branch_ids = updates.branch_ids;
     if (updates.year !== undefined) updateData.year = updates.year;
+    if (updates.sections !== undefined) updateData.sections = updates.sections;
+    if (updates.sequential !== undefined) updateData.sequential = updates.sequential;
+    if (updates.prerequisiteCourseIds !== undefined) {
+      updateData.prerequisiteCourseIds = updates.prerequisiteCourseIds;
+    }
     if (updates.topics !== undefined) {
       const totalDuration = updates.topics.reduce(
         (sum, topic) => sum + topic.videoDuration,
         0
       );
       updateData.totalDuration = totalDuration;
+      updateData.durationBucket = getDurationBucket(totalDuration);
       updateData.totalTopics = updates.topics.length;
-      updateData.topics = updates.topics.map((topic, index) => ({
-        ...topic,
-        id: topic.id || `topic-${Date.now()}-${index}`,
-      }));
+      // Array order is the topic order; existing topics keep their IDs so
+      // progress, notes and questions stay attached after reordering
+      const { topics, answerKeys: topicAnswerKeys } = separateQuizAnswers(
+        updates.topics.map((topic, index) => ({
+          ...topic,
+          id: topic.id || `topic-${Date.now()}-${index}`,
+          orderIndex: index,
+        }))
+      );
+      updateData.topics = topics;
+      answerKeys = topicAnswerKeys;
     }
 
-    await updateDoc(courseRef, updateData);
+    await updateWithVersion(courseId, updateData, editor, { answerKeys });
   } catch (error) {
     console.error('Error updating course:', error);
     throw error;
   }
 }
 
+/**
+ * Get a course's saved versions, newest first
+ */
+export async function getCourseVersions(courseId: string): Promise<CourseVersion[]> {
+  try {
+    const q = query(
+      collection(db, COURSES_COLLECTION, courseId, VERSIONS_SUBCOLLECTION),
+      orderBy('createdAt', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as CourseVersion[];
+  } catch (error) {
+    console.error('Error fetching course versions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Put a saved version's content and quiz answer keys back on the course
+ * The content being replaced is versioned too, so a restore can be undone.
+ */
+export async function restoreCourseVersion(
+  courseId: string,
+  versionId: string,
+  editor: CourseEditor
+): Promise<void> {
+  try {
+    const versionSnap = await getDoc(
+      doc(db, COURSES_COLLECTION, courseId, VERSIONS_SUBCOLLECTION, versionId)
+    );
+    if (!versionSnap.exists()) {
+      throw new Error(`Version ${versionId} not found`);
+    }
+
+    const { snapshot, answerKeys } = versionSnap.data() as CourseVersion;
+    const updateData: Record<string, unknown> = {
+      updatedAt: new Date().toISOString(),
+    };
+    // Fields the old version didn't have are removed rather than left as they are now
+    SNAPSHOT_FIELDS.forEach((field) => {
+      updateData[field] = snapshot[field] !== undefined ? snapshot[field] : deleteField();
+    });
+    if (snapshot.totalDuration !== undefined) {
+      updateData.durationBucket = getDurationBucket(snapshot.totalDuration);
+    }
+
+    // Versions saved before answer keys were kept leave the current keys as they are
+    await updateWithVersion(courseId, updateData, editor, { restoredFrom: versionId, answerKeys });
+  } catch (error) {
+    console.error('Error restoring course version:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get courses in a lifecycle state (e.g. the admin review queue), oldest submission first
+ */
+export async function getCoursesByStatus(status: CourseStatus): Promise<Course[]> {
+  try {
+    const q = query(collection(db, COURSES_COLLECTION), where('status', '==', status));
+    const querySnapshot = await getDocs(q);
+
+    const courses = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Course[];
+
+    // Sort in memory to avoid index requirement
+    return courses.sort(
+      (a, b) =>
+        new Date(a.submittedAt || a.createdAt).getTime() -
+        new Date(b.submittedAt || b.createdAt).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching courses by status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Submit a draft (or archived) course for admin review
+ */
+export async function submitCourseForReview(courseId: string): Promise<void> {
+  try {
+    const now = new Date().toISOString();
+    await updateDoc(doc(db, COURSES_COLLECTION, courseId), {
+      status: 'in_review',
+      submittedAt: now,
+      reviewComment: deleteField(),
+      updatedAt: now,
+    });
+  } catch (error) {
+    console.error('Error submitting course for review:', error);
+    throw error;
+  }
+}
+
+/**
+ * Approve or reject a course in review
+ * Approval publishes it; rejection returns it to draft with the reviewer's comment.
+ */
+export async function reviewCourse(
+  courseId: string,
+  reviewerId: string,
+  decision: 'approve' | 'reject',
+  comment?: string
+): Promise<void> {
+  try {
+    const courseRef = doc(db, COURSES_COLLECTION, courseId);
+    const courseSnap = await getDoc(courseRef);
+    if (!courseSnap.exists()) {
+      throw new Error(`Course ${courseId} not found`);
+    }
+    if ((courseSnap.data() as Course).status !== 'in_review') {
+      throw new Error('This course is not awaiting review');
+    }
+    if (decision === 'reject' && !comment?.trim()) {
+      throw new Error('Add a comment explaining what needs to change');
+    }
+
+    const now = new Date().toISOString();
+    await updateDoc(courseRef, {
+      status: decision === 'approve' ? 'published' : 'draft',
+      reviewedAt: now,
+      reviewedBy: reviewerId,
+      reviewComment: comment?.trim() ? comment.trim() : deleteField(),
+      ...(decision === 'approve' ? { publishedAt: now } : {}),
+      updatedAt: now,
+    });
+  } catch (error) {
+    console.error('Error reviewing course:', error);
+    throw error;
+  }
+}
+
+/**
+ * Archive a course: hidden from the catalog, still available to enrolled students
+ */
+export async function archiveCourse(courseId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, COURSES_COLLECTION, courseId), {
+      status: 'archived',
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error archiving course:', error);
+    throw error;
+  }
+}
+
 /**
  * Update video processing status for a specific topic
  * @param courseId - Course ID
@@ -0,0 +1,248 @@
+/**
+ * Discussion Service
+ *
+ * Q&A threads scoped to a course topic. Students ask (optionally pinned to
+ * a video timestamp), anyone enrolled can reply, and a reply from the
+ * course trainer marks the question as answered.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  updateDoc,
+  runTransaction,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { CourseQuestion, QuestionAnswer, QuestionFormData } from '@/types/discussion';
+
+const QUESTIONS_COLLECTION = 'course_questions';
+const ANSWERS_COLLECTION = 'question_answers';
+
+interface DiscussionAuthor {
+  uid: string;
+  displayName: string | null;
+  role: QuestionAnswer['user_role'];
+}
+
+// Most upvoted first, then newest
+const sortQuestions = (questions: CourseQuestion[]) =>
+  questions.sort(
+    (a, b) =>
+      b.upvote_count - a.upvote_count ||
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+/**
+ * Post a new question on a course topic
+ */
+export async function postQuestion(
+  data: QuestionFormData,
+  author: DiscussionAuthor
+): Promise<CourseQuestion> {
+  try {
+    const { getCourseById } = await import('@/services/course-service');
+    const course = await getCourseById(data.course_id);
+    if (!course) {
+      throw new Error(`Course ${data.course_id} not found`);
+    }
+
+    const questionRef = doc(collection(db, QUESTIONS_COLLECTION));
+    const question: Omit<CourseQuestion, 'id'> = {
+      course_id: data.course_id,
+      topic_id: data.topic_id,
+      trainer_id: course.trainerId,
+      user_id: author.uid,
+      user_name: author.displayName || 'Student',
+      body: data.body.trim(),
+      timestamp_seconds:
+        data.timestamp_seconds !== undefined && data.timestamp_seconds !== null
+          ? Math.floor(data.timestamp_seconds)
+          : null,
+      upvoted_by: [],
+      upvote_count: 0,
+      answer_count: 0,
+      is_answered: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    await setDoc(questionRef, question);
+    return { id: questionRef.id, ...question };
+  } catch (error) {
+    console.error('Error posting question:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get questions for a topic (most upvoted first)
+ */
+export async function getTopicQuestions(
+  courseId: string,
+  topicId: string
+): Promise<CourseQuestion[]> {
+  try {
+    const q = query(
+      collection(db, QUESTIONS_COLLECTION),
+      where('course_id', '==', courseId),
+      where('topic_id', '==', topicId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const questions = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as CourseQuestion[];
+
+    // Sort in memory to avoid index requirement
+    return sortQuestions(questions);
+  } catch (error) {
+    console.error('Error fetching topic questions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get unanswered questions across all of a trainer's courses (oldest first)
+ */
+export async function getUnansweredQuestionsForTrainer(
+  trainerId: string
+): Promise<CourseQuestion[]> {
+  try {
+    const q = query(
+      collection(db, QUESTIONS_COLLECTION),
+      where('trainer_id', '==', trainerId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const questions = querySnapshot.docs
+      .map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      }) as CourseQuestion)
+      .filter((question) => !question.is_answered);
+
+    // Oldest first so nobody waits forever
+    return questions.sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching unanswered questions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get answers for a question (oldest first)
+ */
+export async function getAnswers(questionId: string): Promise<QuestionAnswer[]> {
+  try {
+    const q = query(
+      collection(db, ANSWERS_COLLECTION),
+      where('question_id', '==', questionId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const answers = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as QuestionAnswer[];
+
+    return answers.sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching answers:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reply to a question
+ * The onAnswerCreated function counts the reply on the question, and marks it
+ * answered when the reply is from the course trainer.
+ */
+export async function postAnswer(
+  questionId: string,
+  body: string,
+  author: DiscussionAuthor
+): Promise<QuestionAnswer> {
+  try {
+    const questionRef = doc(db, QUESTIONS_COLLECTION, questionId);
+    const questionSnap = await getDoc(questionRef);
+    if (!questionSnap.exists()) {
+      throw new Error(`Question ${questionId} not found`);
+    }
+
+    const answerRef = doc(collection(db, ANSWERS_COLLECTION));
+    const now = new Date().toISOString();
+    const answer: Omit<QuestionAnswer, 'id'> = {
+      question_id: questionId,
+      user_id: author.uid,
+      user_name: author.displayName || (author.role === 'tutor' ? 'Instructor' : 'Student'),
+      user_role: author.role,
+      body: body.trim(),
+      createdAt: now,
+    };
+
+    await setDoc(answerRef, answer);
+
+    return { id: answerRef.id, ...answer };
+  } catch (error) {
+    console.error('Error posting answer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Toggle the user's upvote on a question
+ * Returns the updated question
+ */
+export async function toggleQuestionUpvote(
+  questionId: string,
+  userId: string
+): Promise<CourseQuestion> {
+  const questionRef = doc(db, QUESTIONS_COLLECTION, questionId);
+
+  return runTransaction(db, async (transaction) => {
+    const questionSnap = await transaction.get(questionRef);
+    if (!questionSnap.exists()) {
+      throw new Error(`Question ${questionId} not found`);
+    }
+
+    const question = { id: questionSnap.id, ...questionSnap.data() } as CourseQuestion;
+    const upvotedBy = question.upvoted_by || [];
+    const nextUpvotedBy = upvotedBy.includes(userId)
+      ? upvotedBy.filter((id) => id !== userId)
+      : [...upvotedBy, userId];
+
+    transaction.update(questionRef, {
+      upvoted_by: nextUpvotedBy,
+      upvote_count: nextUpvotedBy.length,
+    });
+
+    return { ...question, upvoted_by: nextUpvotedBy, upvote_count: nextUpvotedBy.length };
+  });
+}
+
+/**
+ * Mark a question as answered (or reopen it)
+ */
+export async function setQuestionAnswered(
+  questionId: string,
+  isAnswered: boolean
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, QUESTIONS_COLLECTION, questionId), {
+      is_answered: isAnswered,
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating question status:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Download Service
+ *
+ * Saves lesson videos to device storage for offline playback. HLS lessons
+ * are downloaded as one rendition: its media playlist is rewritten to point
+ * at the local segment files. Download state is kept per topic in
+ * AsyncStorage, along with a snapshot of the course so the lesson screen
+ * can open without a connection.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import { Course, Topic } from '@/types/course';
+import { LessonDownload } from '@/types/download';
+import {
+  getHlsVariants,
+  getQualityPreference,
+  resolvePlaylistUri,
+  selectVariant,
+} from '@/services/video-quality-service';
+
+const DOWNLOADS_KEY = '@lesson_downloads';
+const OFFLINE_COURSES_KEY = '@offline_courses';
+const DOWNLOADS_DIRECTORY = 'lesson-downloads';
+
+// Rendition used when the player is on Auto: small enough for phone storage
+const DEFAULT_DOWNLOAD_HEIGHT = 720;
+
+type DownloadRegistry = Record<string, LessonDownload>;
+
+let registryCache: DownloadRegistry | null = null;
+const activeDownloads = new Set<string>();
+const listeners = new Set<() => void>();
+
+const downloadKey = (courseId: string, topicId: string) => `${courseId}_${topicId}`;
+
+const getLessonDirectory = (courseId: string, topicId: string) =>
+  new Directory(Paths.document, DOWNLOADS_DIRECTORY, courseId, topicId);
+
+async function readRegistry(): Promise<DownloadRegistry> {
+  if (!registryCache) {
+    const stored = await AsyncStorage.getItem(DOWNLOADS_KEY);
+    const registry: DownloadRegistry = stored ? JSON.parse(stored) : {};
+
+    // Downloads still marked in progress were cut off when the app was closed; mark them failed so they can be retried
+    let interrupted = false;
+    Object.entries(registry).forEach(([key, download]) => {
+      if (download.status !== 'downloading' || activeDownloads.has(key)) return;
+      const directory = getLessonDirectory(download.course_id, download.topic_id);
+      if (directory.exists) {
+        directory.delete();
+      }
+      registry[key] = { ...download, status: 'failed', local_uri: undefined, error: 'Download was interrupted' };
+      interrupted = true;
+    });
+
+    registryCache = registry;
+    if (interrupted) {
+      await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(registry));
+    }
+  }
+  return registryCache;
+}
+
+async function saveDownload(download: LessonDownload): Promise<void> {
+  const registry = await readRegistry();
+  registry[downloadKey(download.course_id, download.topic_id)] = download;
+  await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(registry));
+  listeners.forEach((listener) => listener());
+}
+
+async function saveOfflineCourse(course: Course): Promise<void> {
+  const stored = await AsyncStorage.getItem(OFFLINE_COURSES_KEY);
+  const courses: Record<string, Course> = stored ? JSON.parse(stored) : {};
+  courses[course.id] = course;
+  await AsyncStorage.setItem(OFFLINE_COURSES_KEY, JSON.stringify(courses));
+}
+
+/**
+ * Downloads need device storage, so they are not offered on web
+ */
+export function isOfflineDownloadSupported(): boolean {
+  return Platform.OS !== 'web';
+}
+
+/**
+ * Be notified whenever a download starts, progresses, finishes or is removed
+ * @returns Unsubscribe function
+ */
+export function subscribeToDownloads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get all downloads (newest first)
+ */
+export async function getDownloads(): Promise<LessonDownload[]> {
+  const registry = await readRegistry();
+  return Object.values(registry).sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+export async function getDownload(
+  courseId: string,
+  topicId: string
+): Promise<LessonDownload | null> {
+  const registry = await readRegistry();
+  return registry[downloadKey(courseId, topicId)] || null;
+}
+
+/**
+ * Course snapshot saved with its downloads, for opening lessons offline
+ */
+export async function getOfflineCourse(courseId: string): Promise<Course | null> {
+  try {
+    const stored = await AsyncStorage.getItem(OFFLINE_COURSES_KEY);
+    const courses: Record<string, Course> = stored ? JSON.parse(stored) : {};
+    return courses[courseId] || null;
+  } catch (error) {
+    console.error('Error reading offline course:', error);
+    return null;
+  }
+}
+
+/**
+ * Local file to play for a lesson, if it has been downloaded
+ */
+export async function getOfflineVideoUri(
+  courseId: string,
+  topicId: string
+): Promise<string | null> {
+  if (!isOfflineDownloadSupported()) {
+    return null;
+  }
+
+  const download = await getDownload(courseId, topicId);
+  if (download?.status !== 'completed' || !download.local_uri) {
+    return null;
+  }
+  // The OS may have cleared app storage since the download
+  return new File(download.local_uri).exists ? download.local_uri : null;
+}
+
+// Segment, key and init-section URIs of a media playlist, with local file names
+const parseMediaPlaylist = (playlist: string, playlistUrl: string) => {
+  const files: { url: string; name: string }[] = [];
+
+  const localName = (uri: string) => {
+    const extension = uri.split('?')[0].match(/\.[a-z0-9]+$/i)?.[0] || '.ts';
+    const name = `part-${files.length}${extension}`;
+    files.push({ url: resolvePlaylistUri(uri, playlistUrl), name });
+    return name;
+  };
+
+  const localPlaylist = playlist
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((rawLine) => {
+      const line = rawLine.trim();
+      if (!line) return line;
+      if (line.startsWith('#')) {
+        // EXT-X-KEY / EXT-X-MAP reference files through a URI attribute
+        return line.replace(/URI="([^"]+)"/, (_match, uri: string) => `URI="${localName(uri)}"`);
+      }
+      return localName(line);
+    })
+    .join('\n');
+
+  return { files, localPlaylist };
+};
+
+/**
+ * Download a lesson video for offline playback
+ * Re-downloading replaces any previous copy.
+ */
+export async function downloadLesson(course: Course, topic: Topic): Promise<LessonDownload> {
+  const key = downloadKey(course.id, topic.id);
+  if (!isOfflineDownloadSupported()) {
+    throw new Error('Offline downloads are only available in the mobile app');
+  }
+  if (!topic.videoUrl) {
+    throw new Error(`Topic ${topic.id} has no video`);
+  }
+  if (activeDownloads.has(key)) {
+    throw new Error('This lesson is already downloading');
+  }
+
+  activeDownloads.add(key);
+  const directory = getLessonDirectory(course.id, topic.id);
+  let download: LessonDownload = {
+    course_id: course.id,
+    topic_id: topic.id,
+    course_title: course.title,
+    topic_title: topic.title,
+    status: 'downloading',
+    progress: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await saveDownload(download);
+    await saveOfflineCourse(course);
+
+    if (directory.exists) {
+      directory.delete();
+    }
+    directory.create({ intermediates: true });
+
+    if (!topic.videoUrl.split('?')[0].endsWith('.m3u8')) {
+      // Progressive file (e.g. MP4): a single download
+      const file = await File.downloadFileAsync(topic.videoUrl, new File(directory, 'video.mp4'));
+      download = { ...download, local_uri: file.uri, size_bytes: file.size || undefined };
+    } else {
+      // Pick one rendition; the player's quality preference applies here too
+      const variants = await getHlsVariants(topic.videoUrl);
+      const preference = await getQualityPreference();
+      const variant = selectVariant(
+        variants,
+        preference === 'auto' ? DEFAULT_DOWNLOAD_HEIGHT : preference
+      );
+      const mediaUrl = variant?.uri ?? topic.videoUrl;
+
+      const response = await fetch(mediaUrl);
+      if (!response.ok) {
+        throw new Error(`Playlist download failed ${response.status}`);
+      }
+      const { files, localPlaylist } = parseMediaPlaylist(await response.text(), mediaUrl);
+
+      let sizeBytes = 0;
+      for (let index = 0; index < files.length; index++) {
+        const file = await File.downloadFileAsync(
+          files[index].url,
+          new File(directory, files[index].name),
+          { idempotent: true }
+        );
+        sizeBytes += file.size || 0;
+        download = { ...download, progress: (index + 1) / files.length };
+        await saveDownload(download);
+      }
+
+      const playlistFile = new File(directory, 'index.m3u8');
+      playlistFile.create({ overwrite: true });
+      playlistFile.write(localPlaylist);
+
+      download = {
+        ...download,
+        local_uri: playlistFile.uri,
+        size_bytes: sizeBytes,
+        ...(variant ? { quality: variant.label } : {}),
+      };
+    }
+
+    download = {
+      ...download,
+      status: 'completed',
+      progress: 1,
+      completedAt: new Date().toISOString(),
+    };
+    await saveDownload(download);
+    return download;
+  } catch (error: any) {
+    console.error('Error downloading lesson:', error);
+    if (directory.exists) {
+      directory.delete();
+    }
+    await saveDownload({
+      ...download,
+      status: 'failed',
+      local_uri: undefined,
+      error: error?.message || 'Download failed',
+    });
+    throw error;
+  } finally {
+    activeDownloads.delete(key);
+  }
+}
+
+/**
+ * Remove a downloaded lesson and its files
+ */
+export async function deleteDownload(courseId: string, topicId: string): Promise<void> {
+  try {
+    const directory = getLessonDirectory(courseId, topicId);
+    if (directory.exists) {
+      directory.delete();
+    }
+
+    const registry = await readRegistry();
+    delete registry[downloadKey(courseId, topicId)];
+    await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(registry));
+
+    // Drop the course snapshot once none of its lessons are downloaded
+    if (!Object.values(registry).some((download) => download.course_id === courseId)) {
+      const stored = await AsyncStorage.getItem(OFFLINE_COURSES_KEY);
+      const courses: Record<string, Course> = stored ? JSON.parse(stored) : {};
+      delete courses[courseId];
+      await AsyncStorage.setItem(OFFLINE_COURSES_KEY, JSON.stringify(courses));
+    }
+
+    listeners.forEach((listener) => listener());
+  } catch (error) {
+    console.error('Error deleting download:', error);
+    throw error;
+  }
+}
@@ -1,18 +1,17 @@
 import { 
   collection, 
   doc, 
-  addDoc, 
   getDocs,
-  getDoc,
   query,
   where,
   Timestamp,
   setDoc,
   updateDoc,
+  runTransaction,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Course } from '@/types/course';
-import { initializeCourseProgress } from './progress-service';
+import { CatalogScope, Course } from '@/types/course';
+import { getCompletedCourseIds, initializeCourseProgress } from './progress-service';
 
 const ENROLLMENTS_COLLECTION = 'enrollments';
 const PROGRESS_COLLECTION = 'progress';
@@ -45,10 +44,12 @@ export interface CourseProgress {
 
 /**
  * Enroll a student in a course
+ * @param scope - The student's catalog scope (useCatalogScope); courses outside it can't be joined
  */
 export async function enrollInCourse(
   studentId: string,
-  courseId: string
+  courseId: string,
+  scope?: CatalogScope | null
 ): Promise<string> {
   try {
     // Check if already enrolled
@@ -57,15 +58,42 @@ export async function enrollInCourse(
       return existingEnrollment.id!;
     }
 
-    // Create enrollment
+    // Only published courses in the student's catalog take new enrollments
+    const { getCourseById, getCourseStatus } = await import('./course-service');
+    const course = await getCourseById(courseId, scope);
+    if (!course || getCourseStatus(course) !== 'published') {
+      throw new Error('This course is not open for enrollment');
+    }
+
+    if (course.prerequisiteCourseIds && course.prerequisiteCourseIds.length > 0) {
+      const completed = await getCompletedCourseIds(studentId, course.prerequisiteCourseIds);
+      if (course.prerequisiteCourseIds.some((id) => !completed.has(id))) {
+        throw new Error('Complete the prerequisite courses before enrolling');
+      }
+    }
+
+    // Create the enrollment; the onEnrollmentCreated function bumps the course's counters.
+    // The enrollment ID is derived from student and course so a double tap can't count twice.
     const enrollment: Omit<Enrollment, 'id'> = {
       studentId,
       courseId,
       enrolledAt: new Date().toISOString(),
       lastAccessedAt: new Date().toISOString(),
     };
+    const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, `${studentId}_${courseId}`);
+
+    const created = await runTransaction(db, async (transaction) => {
+      const enrollmentSnap = await transaction.get(enrollmentRef);
+      if (enrollmentSnap.exists()) {
+        return false;
+      }
+      transaction.set(enrollmentRef, enrollment);
+      return true;
+    });
 
-    const docRef = await addDoc(collection(db, ENROLLMENTS_COLLECTION), enrollment);
+    if (!created) {
+      return enrollmentRef.id;
+    }
     
     // Initialize course progress tracking
     try {
@@ -75,7 +103,7 @@ export async function enrollInCourse(
       // Don't fail enrollment if progress init fails
     }
     
-    return docRef.id;
+    return enrollmentRef.id;
   } catch (error) {
     console.error('Error enrolling in course:', error);
     throw error;
@@ -224,7 +224,8 @@ export async function importCourses(
             })),
           };
           
-          await createCourse(courseData, trainerId, trainerName);
+          // Imported by an admin, so no review step
+          await createCourse(courseData, trainerId, trainerName, 'published');
           result.coursesCreated++;
           current++;
           
@@ -0,0 +1,185 @@
+/**
+ * Notes Service
+ *
+ * Private, timestamped notes a student takes while watching a lecture.
+ */
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { formatTimestamp } from '@/lib/format-time';
+import { Course } from '@/types/course';
+import { LectureNote, LectureNoteFormData } from '@/types/note';
+
+const NOTES_COLLECTION = 'lecture_notes';
+
+const byPosition = (a: LectureNote, b: LectureNote) =>
+  a.position_millis - b.position_millis ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+/**
+ * Create a note at the given video position
+ */
+export async function createNote(
+  userId: string,
+  data: LectureNoteFormData
+): Promise<LectureNote> {
+  try {
+    const noteRef = doc(collection(db, NOTES_COLLECTION));
+    const note: Omit<LectureNote, 'id'> = {
+      user_id: userId,
+      course_id: data.course_id,
+      topic_id: data.topic_id,
+      body: data.body.trim(),
+      position_millis: Math.max(0, Math.round(data.position_millis)),
+      createdAt: new Date().toISOString(),
+    };
+
+    await setDoc(noteRef, note);
+    return { id: noteRef.id, ...note };
+  } catch (error) {
+    console.error('Error creating note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's notes for a course (ordered by video position within each topic)
+ */
+export async function getCourseNotes(
+  userId: string,
+  courseId: string
+): Promise<LectureNote[]> {
+  try {
+    const q = query(
+      collection(db, NOTES_COLLECTION),
+      where('user_id', '==', userId),
+      where('course_id', '==', courseId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const notes = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as LectureNote[];
+
+    // Sort in memory to avoid index requirement
+    return notes.sort(byPosition);
+  } catch (error) {
+    console.error('Error fetching course notes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's notes for a single topic (ordered by video position)
+ */
+export async function getTopicNotes(
+  userId: string,
+  courseId: string,
+  topicId: string
+): Promise<LectureNote[]> {
+  const notes = await getCourseNotes(userId, courseId);
+  return notes.filter((note) => note.topic_id === topicId);
+}
+
+/**
+ * Edit the text of a note
+ */
+export async function updateNote(noteId: string, body: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, NOTES_COLLECTION, noteId), {
+      body: body.trim(),
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a note
+ */
+export async function deleteNote(noteId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, NOTES_COLLECTION, noteId));
+  } catch (error) {
+    console.error('Error deleting note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Filter notes by a search string (matches note text or lesson title)
+ */
+export function searchNotes(
+  notes: LectureNote[],
+  course: Course,
+  searchQuery: string
+): LectureNote[] {
+  const needle = searchQuery.trim().toLowerCase();
+  if (!needle) {
+    return notes;
+  }
+
+  return notes.filter((note) => {
+    const topic = course.topics.find((t) => t.id === note.topic_id);
+    return (
+      note.body.toLowerCase().includes(needle) ||
+      (topic?.title.toLowerCase().includes(needle) ?? false)
+    );
+  });
+}
+
+/**
+ * Group notes under their lessons, in course order
+ * Notes whose lesson was removed from the course are grouped last.
+ */
+export function groupNotesByTopic(
+  notes: LectureNote[],
+  course: Course
+): { topicId: string; title: string; notes: LectureNote[] }[] {
+  const groups = course.topics
+    .map((topic) => ({
+      topicId: topic.id,
+      title: topic.title,
+      notes: notes.filter((note) => note.topic_id === topic.id),
+    }))
+    .filter((group) => group.notes.length > 0);
+
+  const topicIds = new Set(course.topics.map((topic) => topic.id));
+  const orphaned = notes.filter((note) => !topicIds.has(note.topic_id));
+  if (orphaned.length > 0) {
+    groups.push({ topicId: 'removed', title: 'Removed lessons', notes: orphaned });
+  }
+
+  return groups;
+}
+
+/**
+ * Render a course's notes as a Markdown document
+ */
+export function buildNotesMarkdown(course: Course, notes: LectureNote[]): string {
+  const lines = [`# ${course.title} — My Notes`, ''];
+
+  groupNotesByTopic(notes, course).forEach((group) => {
+    lines.push(`## ${group.title}`, '');
+    group.notes.forEach((note) => {
+      // Indent continuation lines so multi-line notes stay inside their bullet
+      const body = note.body.split('\n').join('\n  ');
+      lines.push(`- **[${formatTimestamp(note.position_millis / 1000)}]** ${body}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
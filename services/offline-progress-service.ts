@@ -0,0 +1,189 @@
+/**
+ * Offline Progress Service
+ *
+ * Holds lecture progress that could not be saved while the device was
+ * offline and replays it through updateLectureProgress once it reconnects.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { QueuedProgressUpdate } from '@/types/download';
+import { ProgressUpdatePayload } from '@/types/progress';
+
+const QUEUED_PROGRESS_KEY = '@queued_progress';
+
+// Firestore / Firebase error codes for a request that never reached the server
+const NETWORK_ERROR_CODES = ['unavailable', 'deadline-exceeded', 'auth/network-request-failed'];
+
+let syncInFlight: Promise<number> | null = null;
+
+async function readQueue(): Promise<QueuedProgressUpdate[]> {
+  const stored = await AsyncStorage.getItem(QUEUED_PROGRESS_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+async function writeQueue(queue: QueuedProgressUpdate[]): Promise<void> {
+  if (queue.length === 0) {
+    await AsyncStorage.removeItem(QUEUED_PROGRESS_KEY);
+  } else {
+    await AsyncStorage.setItem(QUEUED_PROGRESS_KEY, JSON.stringify(queue));
+  }
+}
+
+// One queue entry per user and lecture
+function isSameLecture(a: QueuedProgressUpdate, b: QueuedProgressUpdate): boolean {
+  return a.user_id === b.user_id && a.course_id === b.course_id && a.lecture_id === b.lecture_id;
+}
+
+/**
+ * Fold an update into the entry for the same lecture: the furthest position
+ * wins and a completed lecture stays completed
+ */
+function mergeInto(queue: QueuedProgressUpdate[], update: QueuedProgressUpdate): void {
+  const existing = queue.find((entry) => isSameLecture(entry, update));
+  if (!existing) {
+    queue.push(update);
+    return;
+  }
+  existing.watched_duration_seconds = Math.max(
+    existing.watched_duration_seconds,
+    update.watched_duration_seconds
+  );
+  existing.is_completed = existing.is_completed || update.is_completed;
+  existing.queued_at = update.queued_at > existing.queued_at ? update.queued_at : existing.queued_at;
+}
+
+/**
+ * Whether an error means the server couldn't be reached, so the update is worth retrying
+ * Permission and validation errors would fail the same way every time.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  if (code) {
+    return NETWORK_ERROR_CODES.includes(code);
+  }
+  return /network|offline|failed to fetch/i.test(message || '');
+}
+
+/**
+ * Whether a progress save that failed with this error should be queued: the device is offline or the request never got through
+ */
+export async function shouldQueueAfterError(error: unknown): Promise<boolean> {
+  if (isNetworkError(error)) return true;
+  try {
+    const state = await NetInfo.fetch();
+    return state.isConnected === false || state.isInternetReachable === false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Queue a progress update to send later
+ * Keeps one entry per user and lecture (see mergeInto).
+ */
+export async function queueProgressUpdate(
+  userId: string,
+  payload: ProgressUpdatePayload
+): Promise<void> {
+  try {
+    const queue = await readQueue();
+    mergeInto(queue, { ...payload, user_id: userId, queued_at: new Date().toISOString() });
+    await writeQueue(queue);
+  } catch (error) {
+    console.error('Error queueing progress update:', error);
+  }
+}
+
+/**
+ * IDs of the lectures in a course a user completed while offline, still waiting to sync
+ */
+export async function getQueuedCompletedLectureIds(
+  userId: string,
+  courseId: string
+): Promise<Set<string>> {
+  try {
+    const queue = await readQueue();
+    return new Set(
+      queue
+        .filter(
+          (update) => update.user_id === userId && update.course_id === courseId && update.is_completed
+        )
+        .map((update) => update.lecture_id)
+    );
+  } catch (error) {
+    console.error('Error reading queued progress:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Number of a user's progress updates waiting to be synced
+ */
+export async function getQueuedProgressCount(userId: string): Promise<number> {
+  try {
+    return (await readQueue()).filter((update) => update.user_id === userId).length;
+  } catch (error) {
+    console.error('Error reading queued progress:', error);
+    return 0;
+  }
+}
+
+/**
+ * Send a user's queued progress updates
+ * Other accounts' updates stay queued for when they sign in again. Updates that fail
+ * because the server can't be reached stay queued for the next attempt; ones it rejects are dropped.
+ * @returns Number of updates synced
+ */
+export function syncQueuedProgress(userId: string): Promise<number> {
+  // Progress saves and app-state changes can both trigger a sync
+  if (!syncInFlight) {
+    syncInFlight = (async () => {
+      try {
+        const queue = (await readQueue()).filter((update) => update.user_id === userId);
+        if (queue.length === 0) return 0;
+
+        const { updateLectureProgress } = await import('@/services/progress-service');
+        const remaining: QueuedProgressUpdate[] = [];
+        let synced = 0;
+
+        for (const update of queue) {
+          try {
+            await updateLectureProgress(update.user_id, {
+              course_id: update.course_id,
+              lecture_id: update.lecture_id,
+              watched_duration_seconds: update.watched_duration_seconds,
+              is_completed: update.is_completed,
+              watched_at: update.queued_at,
+            });
+            synced += 1;
+          } catch (error) {
+            if (isNetworkError(error)) {
+              remaining.push(update);
+            } else {
+              console.error('Dropping queued progress update the server rejected:', error);
+            }
+          }
+        }
+
+        // Keep other users' updates and anything queued while this sync was running, merged with what failed
+        const latest = await readQueue();
+        latest
+          .filter(
+            (update) =>
+              !queue.some((sent) => isSameLecture(sent, update) && sent.queued_at === update.queued_at)
+          )
+          .forEach((update) => mergeInto(remaining, update));
+        await writeQueue(remaining);
+
+        return synced;
+      } catch (error) {
+        console.error('Error syncing queued progress:', error);
+        return 0;
+      } finally {
+        syncInFlight = null;
+      }
+    })();
+  }
+  return syncInFlight;
+}
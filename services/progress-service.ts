@@ -18,9 +18,11 @@ import {
   Timestamp,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getQueuedCompletedLectureIds } from '@/services/offline-progress-service';
 import {
   UserCourseProgress,
   UserLectureProgress,
+  LearnerActivity,
   LectureProgressResponse,
   CourseProgressSummary,
   ProgressUpdatePayload,
@@ -30,6 +32,7 @@ import { Course, Topic } from '@/types/course';
 
 const USER_COURSE_PROGRESS_COLLECTION = 'user_course_progress';
 const USER_LECTURE_PROGRESS_COLLECTION = 'user_lecture_progress';
+const LEARNER_ACTIVITY_COLLECTION = 'learner_activity';
 
 /**
  * Get or create UserCourseProgress
@@ -72,9 +75,11 @@ async function getOrCreateCourseProgress(
 
 /**
  * Recalculate course progress (SERVER-SIDE ONLY)
- * This is the single source of truth for progress calculation
+ * This is the single source of truth for progress calculation.
+ * A topic counts as completed once its video is watched and, if it has
+ * a quiz, the user has a passing attempt.
  */
-async function recalculateCourseProgress(
+export async function recalculateCourseProgress(
   userId: string,
   courseId: string
 ): Promise<UserCourseProgress> {
@@ -86,10 +91,11 @@ async function recalculateCourseProgress(
   );
   const lectureProgressSnap = await getDocs(lectureProgressQuery);
 
-  // Count completed lectures
-  const completedLectures = lectureProgressSnap.docs.filter(
-    (doc) => doc.data().is_completed === true
-  ).length;
+  const watchedLectureIds = new Set(
+    lectureProgressSnap.docs
+      .filter((doc) => doc.data().is_completed === true)
+      .map((doc) => doc.data().lecture_id as string)
+  );
 
   // Get course to get total lectures
   const { getCourseById } = await import('@/services/course-service');
@@ -100,6 +106,19 @@ async function recalculateCourseProgress(
 
   const totalLectures = course.topics.length;
 
+  // Topics with a quiz also need a passing attempt
+  const { getPassedQuizTopicIds } = await import('@/services/quiz-service');
+  const passedQuizTopicIds = course.topics.some((topic) => topic.quiz)
+    ? await getPassedQuizTopicIds(userId, courseId)
+    : new Set<string>();
+
+  // Count completed lectures
+  const completedLectures = course.topics.filter(
+    (topic) =>
+      watchedLectureIds.has(topic.id) &&
+      (!topic.quiz || passedQuizTopicIds.has(topic.id))
+  ).length;
+
   // Calculate completion percentage
   const completionPercentage = totalLectures > 0
     ? Math.round((completedLectures / totalLectures) * 100)
@@ -144,6 +163,16 @@ async function recalculateCourseProgress(
 
   await updateDoc(progressRef, updateData);
 
+  // Issue the completion certificate; a failure here must not block progress
+  if (updateData.completed_at) {
+    try {
+      const { issueCertificate } = await import('@/services/certificate-service');
+      await issueCertificate(userId, courseId);
+    } catch (error) {
+      console.error('Error issuing certificate on completion:', error);
+    }
+  }
+
   return {
     ...courseProgress,
     ...updateData,
@@ -190,6 +219,72 @@ export async function getLectureProgress(
   }
 }
 
+/**
+ * Get IDs of the lectures a user has finished watching in a course
+ * Used for completion marks and sequential locks in the lesson list.
+ * Includes completions still queued offline; returns null if progress can't be
+ * read, so callers keep what they already have instead of re-locking topics.
+ */
+export async function getCompletedLectureIds(
+  userId: string,
+  courseId: string
+): Promise<Set<string> | null> {
+  try {
+    const lectureProgressQuery = query(
+      collection(db, USER_LECTURE_PROGRESS_COLLECTION),
+      where('user_id', '==', userId),
+      where('course_id', '==', courseId)
+    );
+    const [lectureProgressSnap, completedIds] = await Promise.all([
+      getDocs(lectureProgressQuery),
+      getQueuedCompletedLectureIds(userId, courseId),
+    ]);
+
+    lectureProgressSnap.docs
+      .filter((doc) => doc.data().is_completed === true)
+      .forEach((doc) => completedIds.add(doc.data().lecture_id as string));
+    return completedIds;
+  } catch (error) {
+    console.error('Error fetching completed lectures:', error);
+    return null;
+  }
+}
+
+/**
+ * Get which of the given courses a user has completed
+ * Used for course prerequisites; reads stored progress without creating it
+ */
+export async function getCompletedCourseIds(
+  userId: string,
+  courseIds: string[]
+): Promise<Set<string>> {
+  const snaps = await Promise.all(
+    courseIds.map((courseId) =>
+      getDoc(doc(db, USER_COURSE_PROGRESS_COLLECTION, `${userId}_${courseId}`))
+    )
+  );
+
+  return new Set(
+    snaps
+      .filter((snap) => snap.exists() && (snap.data() as UserCourseProgress).status === 'completed')
+      .map((snap) => (snap.data() as UserCourseProgress).course_id)
+  );
+}
+
+/**
+ * Get a user's completed courses, most recently completed first
+ */
+export async function getCompletedCourseProgress(userId: string): Promise<UserCourseProgress[]> {
+  const progressSnap = await getDocs(
+    query(collection(db, USER_COURSE_PROGRESS_COLLECTION), where('user_id', '==', userId))
+  );
+
+  return progressSnap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as UserCourseProgress)
+    .filter((progress) => progress.status === 'completed')
+    .sort((a, b) => (b.completed_at || '').localeCompare(a.completed_at || ''));
+}
+
 /**
  * Update lecture progress
  * Called every 10 seconds during playback and on pause/exit
@@ -200,6 +295,7 @@ export async function updateLectureProgress(
 ): Promise<void> {
   try {
     const { course_id, lecture_id, watched_duration_seconds, is_completed } = payload;
+    const watchedAt = payload.watched_at || new Date().toISOString();
 
     // Get course to validate lecture exists and get duration
     const { getCourseById } = await import('@/services/course-service');
@@ -236,11 +332,19 @@ export async function updateLectureProgress(
       lecture_id,
       watched_duration_seconds: validWatchedDuration,
       is_completed: shouldBeCompleted,
-      last_watched_at: new Date().toISOString(),
+      last_watched_at: watchedAt,
     };
 
     await setDoc(progressRef, lectureProgress, { merge: true });
 
+    // Record the day as active for the learner
+    const activity: LearnerActivity = {
+      user_id: userId,
+      date: watchedAt.slice(0, 10),
+      last_active_at: watchedAt,
+    };
+    await setDoc(doc(db, LEARNER_ACTIVITY_COLLECTION, `${userId}_${activity.date}`), activity, { merge: true });
+
     // Update course progress (last accessed lecture and timestamp)
     const courseProgressId = `${userId}_${course_id}`;
     const courseProgressRef = doc(db, USER_COURSE_PROGRESS_COLLECTION, courseProgressId);
@@ -0,0 +1,333 @@
+/**
+ * Quiz Service
+ *
+ * Quizzes for course topics. Answer keys are kept apart from the course
+ * (courses/{courseId}/quiz_keys/{topicId}) and submissions are graded by
+ * the submitQuizAttempt Cloud Function, which also stores every attempt.
+ * A topic with a quiz only counts towards course progress once the
+ * student has a passing attempt.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '@/lib/firebase';
+import {
+  AuthoredQuiz,
+  AuthoredQuizQuestion,
+  Quiz,
+  QuizAnswerKey,
+  QuizQuestion,
+  QuizQuestionKey,
+} from '@/types/course';
+import { QuizAnswer, UserQuizAttempt } from '@/types/progress';
+
+const USER_QUIZ_ATTEMPTS_COLLECTION = 'user_quiz_attempts';
+export const QUIZ_KEYS_SUBCOLLECTION = 'quiz_keys';
+
+export const DEFAULT_PASSING_SCORE = 70;
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export interface QuizGradeResult {
+  correct_count: number;
+  total_questions: number;
+  score: number;
+  passed: boolean;
+  results: Record<string, boolean>; // keyed by question id
+  explanations: Record<string, string>; // keyed by question id, for questions that have one
+}
+
+/**
+ * Check a single answer against its question
+ */
+export function isAnswerCorrect(question: AuthoredQuizQuestion, answer: QuizAnswer): boolean {
+  if (answer === null || answer === undefined) {
+    return false;
+  }
+
+  if (question.type === 'numeric') {
+    if (typeof answer !== 'number' || question.correctNumber === undefined) {
+      return false;
+    }
+    const tolerance = Math.abs(question.tolerance || 0);
+    return Math.abs(answer - question.correctNumber) <= tolerance;
+  }
+
+  if (!Array.isArray(answer)) {
+    return false;
+  }
+
+  // Choice questions: the selected set must match the correct set exactly
+  const correct = [...(question.correctOptions || [])].sort((a, b) => a - b);
+  const selected = [...new Set(answer)].sort((a, b) => a - b);
+  return (
+    correct.length > 0 &&
+    correct.length === selected.length &&
+    correct.every((option, index) => option === selected[index])
+  );
+}
+
+/**
+ * Grade a set of answers against a quiz
+ */
+export function gradeQuiz(
+  quiz: AuthoredQuiz,
+  answers: Record<string, QuizAnswer>
+): QuizGradeResult {
+  const results: Record<string, boolean> = {};
+  const explanations: Record<string, string> = {};
+  quiz.questions.forEach((question) => {
+    results[question.id] = isAnswerCorrect(question, answers[question.id] ?? null);
+    if (question.explanation) {
+      explanations[question.id] = question.explanation;
+    }
+  });
+
+  const totalQuestions = quiz.questions.length;
+  const correctCount = Object.values(results).filter(Boolean).length;
+  const score = totalQuestions > 0
+    ? Math.round((correctCount / totalQuestions) * 100)
+    : 100;
+
+  return {
+    correct_count: correctCount,
+    total_questions: totalQuestions,
+    score,
+    passed: score >= (quiz.passingScore ?? DEFAULT_PASSING_SCORE),
+    results,
+    explanations,
+  };
+}
+
+/**
+ * Returns why a quiz cannot be saved, or null if it is valid
+ */
+export function getQuizValidationError(quiz: AuthoredQuiz): string | null {
+  if (quiz.questions.length === 0) {
+    return 'Add at least one question';
+  }
+  if (quiz.passingScore < 0 || quiz.passingScore > 100) {
+    return 'Passing score must be between 0 and 100';
+  }
+
+  for (let i = 0; i < quiz.questions.length; i++) {
+    const question = quiz.questions[i];
+    const label = `Question ${i + 1}`;
+
+    if (!question.prompt.trim()) {
+      return `${label} needs a prompt`;
+    }
+
+    if (question.type === 'numeric') {
+      if (question.correctNumber === undefined || !Number.isFinite(question.correctNumber)) {
+        return `${label} needs a numeric answer`;
+      }
+      continue;
+    }
+
+    const options = question.options || [];
+    const correct = question.correctOptions || [];
+    if (options.length < 2 || options.some((option) => !option.trim())) {
+      return `${label} needs at least two non-empty options`;
+    }
+    if (correct.length === 0) {
+      return `${label} needs a correct answer`;
+    }
+    if (question.type !== 'multi_select' && correct.length !== 1) {
+      return `${label} must have exactly one correct answer`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Trim authored text and drop unset fields before saving a quiz
+ * (Firestore rejects undefined values)
+ */
+export function normalizeQuiz(quiz: AuthoredQuiz): AuthoredQuiz {
+  const normalized: AuthoredQuiz = {
+    passingScore: Math.min(100, Math.max(0, Math.round(quiz.passingScore))),
+    questions: quiz.questions.map((question) => {
+      const result: AuthoredQuizQuestion = {
+        id: question.id,
+        type: question.type,
+        prompt: question.prompt.trim(),
+      };
+      if (question.type === 'numeric') {
+        result.correctNumber = question.correctNumber;
+        result.tolerance = Math.abs(question.tolerance || 0);
+      } else {
+        result.options = (question.options || []).map((option) => option.trim());
+        result.correctOptions = question.correctOptions || [];
+      }
+      if (question.explanation?.trim()) {
+        result.explanation = question.explanation.trim();
+      }
+      return result;
+    }),
+  };
+  if (quiz.title?.trim()) {
+    normalized.title = quiz.title.trim();
+  }
+  return normalized;
+}
+
+/**
+ * Split an authored quiz into what students see and its answer key
+ */
+export function splitQuizAnswers(quiz: AuthoredQuiz): {
+  quiz: Quiz;
+  answerKey: Omit<QuizAnswerKey, 'updatedAt'>;
+} {
+  const questions: QuizQuestion[] = [];
+  const keys: Record<string, QuizQuestionKey> = {};
+
+  quiz.questions.forEach(({ correctOptions, correctNumber, tolerance, explanation, ...question }) => {
+    questions.push(question);
+    const key: QuizQuestionKey = {};
+    if (correctOptions !== undefined) key.correctOptions = correctOptions;
+    if (correctNumber !== undefined) key.correctNumber = correctNumber;
+    if (tolerance !== undefined) key.tolerance = tolerance;
+    if (explanation !== undefined) key.explanation = explanation;
+    keys[question.id] = key;
+  });
+
+  return { quiz: { ...quiz, questions }, answerKey: { questions: keys } };
+}
+
+/**
+ * Put a quiz back together with its answer key for editing
+ * Questions missing from the key (e.g. after restoring an old version) come back unanswered.
+ */
+export function withQuizAnswers(quiz: Quiz, answerKey?: QuizAnswerKey | null): AuthoredQuiz {
+  return {
+    ...quiz,
+    questions: quiz.questions.map((question) => ({
+      ...question,
+      ...(answerKey?.questions[question.id] || {}),
+    })),
+  };
+}
+
+/**
+ * Get the answer key for one topic's quiz (course tutor and admins only)
+ */
+export async function getQuizAnswerKey(
+  courseId: string,
+  topicId: string
+): Promise<QuizAnswerKey | null> {
+  try {
+    const keySnap = await getDoc(
+      doc(db, 'courses', courseId, QUIZ_KEYS_SUBCOLLECTION, topicId)
+    );
+    return keySnap.exists() ? (keySnap.data() as QuizAnswerKey) : null;
+  } catch (error) {
+    console.error('Error fetching quiz answer key:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the answer keys for every quiz in a course, by topic ID (course tutor and admins only)
+ */
+export async function getQuizAnswerKeys(courseId: string): Promise<Record<string, QuizAnswerKey>> {
+  try {
+    const querySnapshot = await getDocs(
+      collection(db, 'courses', courseId, QUIZ_KEYS_SUBCOLLECTION)
+    );
+    const keys: Record<string, QuizAnswerKey> = {};
+    querySnapshot.docs.forEach((keyDoc) => {
+      keys[keyDoc.id] = keyDoc.data() as QuizAnswerKey;
+    });
+    return keys;
+  } catch (error) {
+    console.error('Error fetching quiz answer keys:', error);
+    throw error;
+  }
+}
+
+/**
+ * Submit answers for grading, then refresh course progress
+ * Grading and storing the attempt happen in the submitQuizAttempt Cloud Function,
+ * since students can't read the answer key or write attempts themselves.
+ */
+export async function submitQuizAttempt(
+  userId: string,
+  courseId: string,
+  topicId: string,
+  answers: Record<string, QuizAnswer>
+): Promise<UserQuizAttempt & QuizGradeResult> {
+  try {
+    const submit = httpsCallable<
+      { courseId: string; topicId: string; answers: Record<string, QuizAnswer> },
+      UserQuizAttempt & QuizGradeResult
+    >(functions, 'submitQuizAttempt');
+    const { data: attempt } = await submit({ courseId, topicId, answers });
+
+    // A passing attempt can complete the topic
+    if (attempt.passed) {
+      const { recalculateCourseProgress } = await import('@/services/progress-service');
+      await recalculateCourseProgress(userId, courseId);
+    }
+
+    return attempt;
+  } catch (error) {
+    console.error('Error submitting quiz attempt:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's quiz attempts for a course (most recent first)
+ * Optionally limited to a single topic
+ */
+export async function getQuizAttempts(
+  userId: string,
+  courseId: string,
+  topicId?: string
+): Promise<UserQuizAttempt[]> {
+  try {
+    const q = query(
+      collection(db, USER_QUIZ_ATTEMPTS_COLLECTION),
+      where('user_id', '==', userId),
+      where('course_id', '==', courseId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const attempts = querySnapshot.docs
+      .map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      }) as UserQuizAttempt)
+      .filter((attempt) => !topicId || attempt.topic_id === topicId);
+
+    // Sort in memory to avoid index requirement
+    return attempts.sort(
+      (a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching quiz attempts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the IDs of topics whose quiz the user has passed in a course
+ */
+export async function getPassedQuizTopicIds(
+  userId: string,
+  courseId: string
+): Promise<Set<string>> {
+  const attempts = await getQuizAttempts(userId, courseId);
+  return new Set(
+    attempts.filter((attempt) => attempt.passed).map((attempt) => attempt.topic_id)
+  );
+}
@@ -1,18 +1,16 @@
 import { 
   collection, 
   doc, 
-  addDoc, 
   getDocs,
   getDoc,
   query,
   where,
-  updateDoc,
   setDoc,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 
 const RATINGS_COLLECTION = 'ratings';
-const COURSE_RATINGS_COLLECTION = 'courseRatings';
+const COURSES_COLLECTION = 'courses';
 
 export interface Rating {
   id?: string;
@@ -31,6 +29,7 @@ export interface CourseRatingStats {
 
 /**
  * Add or update a rating for a course
+ * The onRatingWritten function keeps the course's ratingCount / ratingSum / rating counters.
  */
 export async function addOrUpdateRating(
   courseId: string,
@@ -39,30 +38,25 @@ export async function addOrUpdateRating(
   review?: string
 ): Promise<string> {
   try {
-    // Check if rating already exists
+    // Check if rating already exists (older ratings have generated IDs, so look them up first)
     const existingRating = await getRating(courseId, studentId);
-    
+    const ratingRef = existingRating?.id
+      ? doc(db, RATINGS_COLLECTION, existingRating.id)
+      : doc(db, RATINGS_COLLECTION, `${courseId}_${studentId}`);
+    const clampedRating = Math.max(1, Math.min(5, rating)); // Clamp between 1-5
+
+    const now = new Date().toISOString();
     const ratingData: Omit<Rating, 'id'> = {
       courseId,
       studentId,
-      rating: Math.max(1, Math.min(5, rating)), // Clamp between 1-5
-      review,
-      updatedAt: new Date().toISOString(),
-      createdAt: existingRating?.createdAt || new Date().toISOString(),
+      rating: clampedRating,
+      ...(review !== undefined ? { review } : {}),
+      updatedAt: now,
+      createdAt: existingRating?.createdAt || now,
     };
+    await setDoc(ratingRef, ratingData, { merge: true });
 
-    if (existingRating?.id) {
-      // Update existing rating
-      const ratingRef = doc(db, RATINGS_COLLECTION, existingRating.id);
-      await updateDoc(ratingRef, ratingData);
-      await updateCourseRatingStats(courseId);
-      return existingRating.id;
-    } else {
-      // Create new rating
-      const docRef = await addDoc(collection(db, RATINGS_COLLECTION), ratingData);
-      await updateCourseRatingStats(courseId);
-      return docRef.id;
-    }
+    return ratingRef.id;
   } catch (error) {
     console.error('Error adding/updating rating:', error);
     throw error;
@@ -121,44 +115,16 @@ export async function getCourseRatings(courseId: string): Promise<Rating[]> {
 }
 
 /**
- * Get rating statistics for a course
+ * Get rating statistics for a course, from the counters on the course document
  */
 export async function getCourseRatingStats(courseId: string): Promise<CourseRatingStats> {
   try {
-    // Try to get cached stats first
-    const statsRef = doc(db, COURSE_RATINGS_COLLECTION, courseId);
-    const statsDoc = await getDoc(statsRef);
-    
-    if (statsDoc.exists()) {
-      const data = statsDoc.data();
-      return {
-        averageRating: data.averageRating || 0,
-        ratingCount: data.ratingCount || 0,
-      };
-    }
-
-    // Calculate from ratings if cache doesn't exist
-    const ratings = await getCourseRatings(courseId);
-    
-    if (ratings.length === 0) {
-      return {
-        averageRating: 0,
-        ratingCount: 0,
-      };
-    }
-
-    const totalRating = ratings.reduce((sum, r) => sum + r.rating, 0);
-    const averageRating = totalRating / ratings.length;
-    
-    const stats = {
-      averageRating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
-      ratingCount: ratings.length,
+    const courseDoc = await getDoc(doc(db, COURSES_COLLECTION, courseId));
+    const data = courseDoc.exists() ? courseDoc.data() : {};
+    return {
+      averageRating: data.rating || 0,
+      ratingCount: data.ratingCount || 0,
     };
-
-    // Cache the stats
-    await setDoc(statsRef, stats);
-    
-    return stats;
   } catch (error) {
     console.error('Error fetching course rating stats:', error);
     return {
@@ -167,33 +133,3 @@ export async function getCourseRatingStats(courseId: string): Promise<CourseRati
     };
   }
 }
-
-/**
- * Update course rating statistics (called after rating changes)
- */
-async function updateCourseRatingStats(courseId: string): Promise<void> {
-  try {
-    const ratings = await getCourseRatings(courseId);
-    
-    if (ratings.length === 0) {
-      const statsRef = doc(db, COURSE_RATINGS_COLLECTION, courseId);
-      await setDoc(statsRef, {
-        averageRating: 0,
-        ratingCount: 0,
-      });
-      return;
-    }
-
-    const totalRating = ratings.reduce((sum, r) => sum + r.rating, 0);
-    const averageRating = totalRating / ratings.length;
-    
-    const statsRef = doc(db, COURSE_RATINGS_COLLECTION, courseId);
-    await setDoc(statsRef, {
-      averageRating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
-      ratingCount: ratings.length,
-    });
-  } catch (error) {
-    console.error('Error updating course rating stats:', error);
-  }
-}
-
@@ -0,0 +1,232 @@
+import { CatalogScope, Course } from '@/types/course';
+import { tokenize } from '@/lib/search-index';
+import { getCourseById, searchCourses } from './course-service';
+import { getStudentEnrollments } from './enrollment-service';
+import { getCompletedCourseProgress } from './progress-service';
+
+export interface RecommendationProfile {
+  studentId: string;
+  branchId?: string;
+  year?: string; // '1' to '4'
+  scope?: CatalogScope | null; // The student's catalog (useCatalogScope)
+}
+
+export type RecommendationReason = 'branch' | 'year' | 'peers' | 'similar';
+
+export interface CourseRecommendation {
+  course: Course;
+  score: number;
+  reasons: RecommendationReason[]; // Strongest signals behind the score
+}
+
+export interface RecommendationRails {
+  forYou: CourseRecommendation[]; // Best overall match for the student's branch and year
+  popularWithPeers: Course[]; // Most enrolled by students in the same branch
+  similar: { basedOn: Course; courses: Course[] } | null; // Like the most recently completed course
+}
+
+// How much each signal counts towards a course's score (each signal is 0-1)
+const WEIGHTS = {
+  branch: 3,
+  year: 2,
+  peers: 2,
+  similar: 2,
+  popularity: 1,
+};
+
+// Courses open to every branch / year still fit the student, just less specifically
+// (kept below REASON_THRESHOLD so only targeted courses list branch / year as a reason)
+const OPEN_COURSE_MATCH = 0.4;
+
+// A signal at least this strong is shown as a reason
+const REASON_THRESHOLD = 0.5;
+
+const DEFAULT_RAIL_SIZE = 10;
+
+// Courses read from each slice of the catalog (popular, newest, for the branch, for the year)
+const CANDIDATE_PAGE_SIZE = 50;
+
+/**
+ * 1 for a course targeted at the value, OPEN_COURSE_MATCH for one open to all, 0 for one targeted elsewhere
+ */
+function targetMatch(targets: string[], value?: string): number {
+  if (targets.length === 0) return OPEN_COURSE_MATCH;
+  if (!value) return 0;
+  return targets.includes(value) ? 1 : 0;
+}
+
+function courseTerms(course: Course): Set<string> {
+  return new Set(
+    tokenize([course.title, ...course.outcomes, ...(course.topics || []).map((topic) => topic.title)].join(' '))
+      .filter((term) => term.length > 2)
+  );
+}
+
+/**
+ * How alike two courses are (0-1): shared category and tutor, and overlap of title, outcome and topic words
+ */
+function similarity(course: Course, terms: Set<string>, other: Course, otherTerms: Set<string>): number {
+  let shared = 0;
+  terms.forEach((term) => {
+    if (otherTerms.has(term)) shared += 1;
+  });
+  const union = terms.size + otherTerms.size - shared;
+  const overlap = union > 0 ? shared / union : 0;
+
+  const sameCategory = !!course.category && course.category === other.category ? 1 : 0;
+  const sameTutor = course.trainerId === other.trainerId ? 1 : 0;
+  return Math.min(1, sameCategory * 0.4 + sameTutor * 0.2 + overlap * 0.8);
+}
+
+/**
+ * Scale counts to 0-1 on a log curve, so a few very popular courses don't flatten the rest
+ */
+function normalizeCount(count: number, max: number): number {
+  return max > 0 ? Math.log1p(count) / Math.log1p(max) : 0;
+}
+
+/**
+ * Courses worth scoring, read as a few pages of the student's catalog instead of the whole catalog:
+ * the most popular and newest courses, and the most popular ones targeted at the student's branch and year
+ */
+async function getCandidateCourses(profile: RecommendationProfile): Promise<Course[]> {
+  const { scope } = profile;
+  const pageSize = CANDIDATE_PAGE_SIZE;
+  const pages = await Promise.all([
+    searchCourses({ scope, sort: 'popularity', pageSize }),
+    searchCourses({ scope, sort: 'newest', pageSize }),
+    profile.branchId
+      ? searchCourses({ scope, filters: { branchId: profile.branchId }, sort: 'popularity', pageSize })
+      : null,
+    profile.year ? searchCourses({ scope, filters: { year: profile.year }, sort: 'popularity', pageSize }) : null,
+  ]);
+
+  const candidates = new Map<string, Course>();
+  pages.forEach((page) => page?.courses.forEach((course) => candidates.set(course.id, course)));
+  return [...candidates.values()];
+}
+
+/**
+ * Score the candidate courses the student isn't enrolled in yet, best match first
+ * Reads the candidates, the student's enrollments and their completed courses.
+ */
+async function scoreCatalog(profile: RecommendationProfile): Promise<{
+  recommendations: CourseRecommendation[];
+  completed: Course[];
+}> {
+  const [catalog, enrollments, completedProgress] = await Promise.all([
+    getCandidateCourses(profile),
+    getStudentEnrollments(profile.studentId),
+    getCompletedCourseProgress(profile.studentId),
+  ]);
+
+  const enrolledIds = new Set(enrollments.map((enrollment) => enrollment.courseId));
+  const completed = (
+    await Promise.all(completedProgress.map((progress) => getCourseById(progress.course_id)))
+  ).filter((course): course is Course => !!course);
+  const completedTerms = completed.map((course) => courseTerms(course));
+
+  const candidates = catalog.filter((course) => !enrolledIds.has(course.id));
+  const peerCount = (course: Course) =>
+    profile.branchId ? course.branchEnrollmentCounts?.[profile.branchId] || 0 : 0;
+  const maxPeers = Math.max(0, ...candidates.map(peerCount));
+  const maxEnrollments = Math.max(0, ...candidates.map((course) => course.enrollmentCount || 0));
+
+  const recommendations = candidates.map((course) => {
+    const terms = courseTerms(course);
+    const signals: Record<RecommendationReason, number> = {
+      branch: profile.branchId ? targetMatch(course.branch_ids || [], profile.branchId) : 0,
+      year: profile.year ? targetMatch(course.year ? [course.year] : [], profile.year) : 0,
+      peers: normalizeCount(peerCount(course), maxPeers),
+      similar: Math.max(
+        0,
+        ...completed.map((done, i) => similarity(course, terms, done, completedTerms[i]))
+      ),
+    };
+    // Rated courses get a little extra on top of enrollments
+    const popularity =
+      normalizeCount(course.enrollmentCount || 0, maxEnrollments) * 0.8 + ((course.rating || 0) / 5) * 0.2;
+
+    const score =
+      signals.branch * WEIGHTS.branch +
+      signals.year * WEIGHTS.year +
+      signals.peers * WEIGHTS.peers +
+      signals.similar * WEIGHTS.similar +
+      popularity * WEIGHTS.popularity;
+    const reasons = (Object.keys(signals) as RecommendationReason[]).filter(
+      (reason) => signals[reason] >= REASON_THRESHOLD
+    );
+
+    return { course, score, reasons };
+  });
+
+  return {
+    recommendations: recommendations.sort((a, b) => b.score - a.score),
+    completed,
+  };
+}
+
+/**
+ * Recommend courses for a student
+ * Ranks by fit to their branch and year (Course.branch_ids / Course.year), popularity among
+ * students in the same branch, similarity to courses they've completed, and overall popularity.
+ * Courses the student is already enrolled in are left out.
+ */
+export async function getRecommendations(
+  profile: RecommendationProfile,
+  count: number = DEFAULT_RAIL_SIZE
+): Promise<CourseRecommendation[]> {
+  try {
+    const { recommendations } = await scoreCatalog(profile);
+    return recommendations.slice(0, count);
+  } catch (error) {
+    console.error('Error fetching recommendations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recommendation rails for the home screen, all from one set of candidate courses
+ */
+export async function getRecommendationRails(
+  profile: RecommendationProfile,
+  railSize: number = DEFAULT_RAIL_SIZE
+): Promise<RecommendationRails> {
+  try {
+    const { recommendations, completed } = await scoreCatalog(profile);
+
+    const branchId = profile.branchId;
+    const popularWithPeers = branchId
+      ? recommendations
+          .filter(({ course }) => (course.branchEnrollmentCounts?.[branchId] || 0) > 0)
+          .sort(
+            (a, b) =>
+              (b.course.branchEnrollmentCounts?.[branchId] || 0) - (a.course.branchEnrollmentCounts?.[branchId] || 0)
+          )
+          .map(({ course }) => course)
+          .slice(0, railSize)
+      : [];
+
+    let similar: RecommendationRails['similar'] = null;
+    if (completed.length > 0) {
+      const basedOn = completed[0];
+      const basedOnTerms = courseTerms(basedOn);
+      const courses = recommendations
+        .map(({ course }) => ({ course, match: similarity(course, courseTerms(course), basedOn, basedOnTerms) }))
+        .filter(({ match }) => match >= REASON_THRESHOLD)
+        .sort((a, b) => b.match - a.match)
+        .map(({ course }) => course)
+        .slice(0, railSize);
+      if (courses.length > 0) similar = { basedOn, courses };
+    }
+
+    return {
+      forYou: recommendations.slice(0, railSize),
+      popularWithPeers,
+      similar,
+    };
+  } catch (error) {
+    console.error('Error fetching recommendation rails:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Tutor Invite Service
+ *
+ * Admins issue invite codes (single-use or limited-use, with optional expiry
+ * and university scope). A code is validated before the account is created
+ * and redeemed by the redeemTutorInviteCode Cloud Function, which consumes it
+ * and writes the tutor's profile in one transaction.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '@/lib/firebase';
+import { TutorInviteCode, TutorInviteCodeFormData } from '@/types/admin';
+
+const TUTOR_INVITE_CODES_COLLECTION = 'tutor_invite_codes';
+
+// Unambiguous characters (no 0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export interface TutorInviteValidation {
+  valid: boolean;
+  reason?: string;
+  invite?: TutorInviteCode;
+}
+
+export function normalizeTutorCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Generate a random code like TUT-7KQX-M2PA
+ */
+export function generateTutorCode(): string {
+  const segment = () =>
+    Array.from(
+      { length: 4 },
+      () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+    ).join('');
+  return `TUT-${segment()}-${segment()}`;
+}
+
+/**
+ * Returns why a code cannot be used, or null if it is usable
+ */
+export function getTutorInviteError(invite: TutorInviteCode, now = new Date()): string | null {
+  if (invite.status === 'revoked') {
+    return 'This tutor code has been revoked';
+  }
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= now.getTime()) {
+    return 'This tutor code has expired';
+  }
+  if (invite.use_count >= invite.max_uses) {
+    return 'This tutor code has already been used';
+  }
+  return null;
+}
+
+/**
+ * Create a new tutor invite code
+ */
+export async function createTutorInviteCode(
+  data: TutorInviteCodeFormData,
+  createdBy: string
+): Promise<TutorInviteCode> {
+  try {
+    // Retry on the (unlikely) collision with an existing code
+    let code = generateTutorCode();
+    while ((await getDoc(doc(db, TUTOR_INVITE_CODES_COLLECTION, code))).exists()) {
+      code = generateTutorCode();
+    }
+
+    const invite: Omit<TutorInviteCode, 'id'> = {
+      code,
+      max_uses: Math.max(1, Math.floor(data.max_uses)),
+      use_count: 0,
+      used_by: [],
+      expires_at: data.expires_at,
+      status: 'active',
+      created_by: createdBy,
+      createdAt: new Date().toISOString(),
+    };
+    if (data.university_id) {
+      invite.university_id = data.university_id;
+    }
+
+    await setDoc(doc(db, TUTOR_INVITE_CODES_COLLECTION, code), invite);
+    return { id: code, ...invite };
+  } catch (error) {
+    console.error('Error creating tutor invite code:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all tutor invite codes (newest first)
+ */
+export async function getTutorInviteCodes(): Promise<TutorInviteCode[]> {
+  try {
+    const snapshot = await getDocs(collection(db, TUTOR_INVITE_CODES_COLLECTION));
+    const codes = snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as TutorInviteCode[];
+    return codes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error fetching tutor invite codes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke a tutor invite code so it can no longer be used
+ */
+export async function revokeTutorInviteCode(code: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, TUTOR_INVITE_CODES_COLLECTION, code), {
+      status: 'revoked',
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error revoking tutor invite code:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check a code without consuming it (used before creating the auth account)
+ */
+export async function validateTutorInviteCode(code: string): Promise<TutorInviteValidation> {
+  try {
+    const normalized = normalizeTutorCode(code);
+    if (!normalized) {
+      return { valid: false, reason: 'Enter a tutor code' };
+    }
+
+    const codeSnap = await getDoc(doc(db, TUTOR_INVITE_CODES_COLLECTION, normalized));
+    if (!codeSnap.exists()) {
+      return { valid: false, reason: 'Invalid tutor code' };
+    }
+
+    const invite = { id: codeSnap.id, ...codeSnap.data() } as TutorInviteCode;
+    const reason = getTutorInviteError(invite);
+    return reason ? { valid: false, reason, invite } : { valid: true, invite };
+  } catch (error) {
+    console.error('Error validating tutor invite code:', error);
+    return { valid: false, reason: 'Could not verify tutor code. Please try again.' };
+  }
+}
+
+/**
+ * Redeem a code for the signed-in account, creating its tutor profile.
+ * Throws if the code is invalid, expired, revoked or used up.
+ */
+export async function redeemTutorInviteCode(
+  code: string,
+  displayName: string
+): Promise<{ university_id?: string }> {
+  const redeem = httpsCallable<{ code: string; displayName: string }, { university_id: string | null }>(
+    functions,
+    'redeemTutorInviteCode'
+  );
+  const result = await redeem({ code: normalizeTutorCode(code), displayName });
+  return { university_id: result.data.university_id ?? undefined };
+}
@@ -0,0 +1,133 @@
+/**
+ * Video Quality Service
+ *
+ * Reads the renditions listed in an HLS master playlist so the player can
+ * pin playback to one of them, and stores the student's quality choice
+ * on this device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const QUALITY_PREFERENCE_KEY = '@video_quality';
+
+export interface HlsVariant {
+  uri: string; // Absolute URL of the variant playlist
+  bandwidth: number; // bits per second
+  height?: number; // e.g. 720 for 1280x720
+  label: string; // e.g. '720p'
+}
+
+// 'auto' lets the player adapt; a number pins the rendition with that height
+export type QualityPreference = 'auto' | number;
+
+// Parse `KEY=value,KEY="quoted,value"` attribute lists
+const parseAttributes = (list: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(list)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+};
+
+/**
+ * Resolve a URI found in a playlist against the playlist's own URL
+ * (React Native's URL polyfill does not resolve relative paths)
+ */
+export function resolvePlaylistUri(uri: string, playlistUrl: string): string {
+  if (/^https?:\/\//.test(uri)) {
+    return uri;
+  }
+  if (uri.startsWith('/')) {
+    const origin = playlistUrl.match(/^https?:\/\/[^/]+/);
+    return `${origin ? origin[0] : ''}${uri}`;
+  }
+  return `${playlistUrl.split('?')[0].replace(/[^/]*$/, '')}${uri}`;
+}
+
+/**
+ * Parse the EXT-X-STREAM-INF variants of a master playlist (highest quality first)
+ */
+export function parseMasterPlaylist(playlist: string, masterUrl: string): HlsVariant[] {
+  const lines = playlist.replace(/\r\n?/g, '\n').split('\n').map((line) => line.trim());
+  const variants: HlsVariant[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+
+    // The variant URI is the next line that isn't a tag or comment
+    const uriLine = lines.slice(index + 1).find((next) => next && !next.startsWith('#'));
+    if (!uriLine) return;
+
+    const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+    const bandwidth = Number(attributes.BANDWIDTH) || 0;
+    const height = attributes.RESOLUTION ? Number(attributes.RESOLUTION.split('x')[1]) : undefined;
+
+    variants.push({
+      uri: resolvePlaylistUri(uriLine, masterUrl),
+      bandwidth,
+      height,
+      label: height ? `${height}p` : `${Math.round(bandwidth / 1000)} kbps`,
+    });
+  });
+
+  return variants.sort((a, b) => (b.height || 0) - (a.height || 0) || b.bandwidth - a.bandwidth);
+}
+
+/**
+ * Fetch and parse the variants of an HLS master playlist
+ * Returns an empty list for non-HLS sources (MP4s, downloaded files).
+ */
+export async function getHlsVariants(videoUrl: string): Promise<HlsVariant[]> {
+  if (!/^https?:\/\//.test(videoUrl) || !videoUrl.split('?')[0].endsWith('.m3u8')) {
+    return [];
+  }
+
+  try {
+    const response = await fetch(videoUrl);
+    if (!response.ok) {
+      throw new Error(`Playlist download failed ${response.status}`);
+    }
+    return parseMasterPlaylist(await response.text(), videoUrl);
+  } catch (error) {
+    console.error('Error loading HLS variants:', error);
+    return [];
+  }
+}
+
+/**
+ * Pick the variant for a preference
+ * Uses the best rendition at or below the preferred height, so a 1080p
+ * preference still works on videos that only go up to 720p.
+ */
+export function selectVariant(
+  variants: HlsVariant[],
+  preference: QualityPreference
+): HlsVariant | null {
+  if (preference === 'auto' || variants.length === 0) {
+    return null;
+  }
+  return (
+    variants.find((variant) => (variant.height || 0) <= preference) ||
+    variants[variants.length - 1]
+  );
+}
+
+export async function getQualityPreference(): Promise<QualityPreference> {
+  try {
+    const stored = await AsyncStorage.getItem(QUALITY_PREFERENCE_KEY);
+    return stored && stored !== 'auto' && Number(stored) > 0 ? Number(stored) : 'auto';
+  } catch (error) {
+    console.error('Error reading quality preference:', error);
+    return 'auto';
+  }
+}
+
+export async function setQualityPreference(preference: QualityPreference): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUALITY_PREFERENCE_KEY, String(preference));
+  } catch (error) {
+    console.error('Error saving quality preference:', error);
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  deleteDoc,
+  runTransaction,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+
+const WISHLISTS_COLLECTION = 'wishlists';
+
+export interface WishlistItem {
+  id?: string;
+  userId: string;
+  courseId: string;
+  addedAt: string;
+}
+
+/**
+ * Add a course to a user's wishlist
+ * One document per user per course, so adding twice is a no-op
+ */
+export async function addToWishlist(
+  userId: string,
+  courseId: string
+): Promise<void> {
+  try {
+    const itemId = `${userId}_${courseId}`;
+    const itemRef = doc(db, WISHLISTS_COLLECTION, itemId);
+
+    // Read and write in one transaction so re-adding keeps the original addedAt
+    await runTransaction(db, async (transaction) => {
+      const itemSnap = await transaction.get(itemRef);
+      if (itemSnap.exists()) return;
+
+      const item: Omit<WishlistItem, 'id'> = {
+        userId,
+        courseId,
+        addedAt: new Date().toISOString(),
+      };
+      transaction.set(itemRef, item);
+    });
+  } catch (error) {
+    console.error('Error adding to wishlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a course from a user's wishlist
+ */
+export async function removeFromWishlist(
+  userId: string,
+  courseId: string
+): Promise<void> {
+  try {
+    const itemId = `${userId}_${courseId}`;
+    await deleteDoc(doc(db, WISHLISTS_COLLECTION, itemId));
+  } catch (error) {
+    console.error('Error removing from wishlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all wishlist items for a user (most recently added first)
+ */
+export async function getWishlist(userId: string): Promise<WishlistItem[]> {
+  try {
+    const q = query(
+      collection(db, WISHLISTS_COLLECTION),
+      where('userId', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const items = querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as WishlistItem[];
+
+    // Sort in memory to avoid a composite index requirement
+    return items.sort(
+      (a, b) => new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime()
+    );
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check whether a course is in a user's wishlist
+ */
+export async function isWishlisted(
+  userId: string,
+  courseId: string
+): Promise<boolean> {
+  try {
+    const itemId = `${userId}_${courseId}`;
+    const itemSnap = await getDoc(doc(db, WISHLISTS_COLLECTION, itemId));
+    return itemSnap.exists();
+  } catch (error) {
+    console.error('Error checking wishlist:', error);
+    return false;
+  }
+}
+
+/**
+ * Toggle a course in a user's wishlist
+ * Returns the new wishlisted state
+ */
+export async function toggleWishlist(
+  userId: string,
+  courseId: string
+): Promise<boolean> {
+  const wishlisted = await isWishlisted(userId, courseId);
+  if (wishlisted) {
+    await removeFromWishlist(userId, courseId);
+    return false;
+  }
+  await addToWishlist(userId, courseId);
+  return true;
+}
@@ -35,6 +35,57 @@ export interface College {
   contact_numbers: string[]; // Array of phone numbers
   offered_branches: string[]; // Array of branch IDs (subset of university branches)
   is_partnered: boolean; // White-label flag
+  theme?: PartnerTheme; // White-label look, applied while partner mode is active
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type PartnerFont = 'sans' | 'serif' | 'rounded' | 'mono';
+
+export interface PartnerTheme {
+  primary_color?: string; // Hex, e.g. #1E88E5; replaces the brand cyan
+  accent_color?: string; // Hex; replaces the brand red on CTAs
+  dark_primary_color?: string; // Dark mode variants, fall back to the colors above
+  dark_accent_color?: string;
+  app_name?: string; // Defaults to "{College} Digital Library"
+  font?: PartnerFont;
+  favicon?: string; // URL, used on web
+  splash_image?: string; // URL, shown while the app starts
+}
+
+// Admin accounts (users with role 'admin' in the users collection)
+export interface AdminUser {
+  id: string; // Firebase Auth uid
+  email: string | null;
+  displayName: string | null;
+  createdAt?: string;
+  invited_by?: string; // uid of the admin who issued the invite
+}
+
+// Invitation for a new admin, keyed by normalized email
+export interface AdminInvite {
+  id: string; // Normalized (lowercased) email
+  email: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  invited_by: string; // uid of the inviting admin
+  invited_by_name?: string;
+  accepted_by?: string; // uid of the account that accepted the invite
+  createdAt: string;
+  acceptedAt?: string;
+  updatedAt?: string;
+}
+
+// Admin-issued invite code that grants the tutor role at signup
+export interface TutorInviteCode {
+  id: string; // The code itself (uppercase)
+  code: string;
+  max_uses: number; // 1 for single-use codes
+  use_count: number;
+  used_by: string[]; // uids of tutors who signed up with this code
+  expires_at: string | null; // ISO timestamp, null = never expires
+  university_id?: string; // Optional scope: tutors are attached to this university
+  status: 'active' | 'revoked';
+  created_by: string; // uid of the issuing admin
   createdAt: string;
   updatedAt?: string;
 }
@@ -65,6 +116,13 @@ export interface CollegeFormData {
   contact_numbers: string[];
   offered_branches: string[];
   is_partnered: boolean;
+  theme?: PartnerTheme;
+}
+
+export interface TutorInviteCodeFormData {
+  max_uses: number;
+  expires_at: string | null;
+  university_id?: string;
 }
 
 // Partner Context (for white-label behavior)
@@ -74,3 +132,15 @@ export interface PartnerContext {
   branches: Branch[]; // Only branches offered by this college
 }
 
+// Students of one college who were admitted together, per branch
+export interface StudentBatch {
+  branch_id: string | null;
+  admission_batch: number; // Year of admission, e.g. 2024
+  year: string | null; // Current academic year of most of the batch
+  student_count: number;
+}
+
+export interface PromoteBatchResult {
+  promoted: number;
+  finalYear: number; // Already in the last year, left unchanged
+}
@@ -0,0 +1,81 @@
+/**
+ * Analytics Types
+ *
+ * Aggregates computed on demand from enrollments, lecture progress and ratings.
+ */
+
+export interface DateRange {
+  from?: string; // ISO date (inclusive), open-ended when missing
+  to?: string; // ISO date (inclusive)
+}
+
+export interface DailyCount {
+  date: string; // YYYY-MM-DD
+  count: number;
+}
+
+export interface TopicAnalytics {
+  topicId: string;
+  title: string;
+  started: number; // Students with any progress on the topic
+  completed: number; // Students with is_completed
+  completionRate: number; // completed / enrollments, 0-100
+  averageWatchedSeconds: number;
+  videoDurationSeconds: number;
+  stoppedHere: number; // Unfinished students whose furthest topic is this one
+}
+
+export interface CourseAnalytics {
+  courseId: string;
+  range: DateRange;
+  totalEnrollments: number;
+  enrollmentsByDay: DailyCount[];
+  topics: TopicAnalytics[]; // In course order, i.e. the completion funnel
+  ratingDistribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  ratingCount: number;
+  averageRating: number;
+  dropOffTopicId: string | null; // Topic where the most students stop
+}
+
+export interface GroupEngagement {
+  id: string; // University, college or branch ID
+  name: string;
+  learners: number; // Students in the group
+  enrollments: number;
+  completions: number;
+}
+
+export interface CourseRanking {
+  id: string; // Course ID
+  title: string;
+  trainerName: string;
+  enrollments: number;
+  averageRating: number;
+  ratingCount: number;
+}
+
+export interface TutorActivity {
+  id: string; // Tutor uid
+  name: string;
+  courses: number;
+  publishedCourses: number;
+  enrollments: number; // Across their courses, in the range
+  lastUpdatedAt: string | null; // Most recent course edit
+}
+
+export interface PlatformAnalytics {
+  range: DateRange;
+  universityId?: string; // Set when scoped to one university
+  activeLearnersByDay: DailyCount[]; // Distinct students watching each day
+  activeLearnersByWeek: DailyCount[]; // Keyed by the Monday starting each week
+  activeToday: number;
+  activeThisWeek: number; // Distinct students in the last 7 days
+  totalEnrollments: number;
+  totalCompletions: number;
+  byUniversity: GroupEngagement[];
+  byCollege: GroupEngagement[];
+  byBranch: GroupEngagement[];
+  topCoursesByEnrollment: CourseRanking[];
+  topCoursesByRating: CourseRanking[];
+  tutors: TutorActivity[];
+}
@@ -0,0 +1,20 @@
+/**
+ * Certificate - ONE per user per course, issued on completion
+ * The document ID is the public verification ID.
+ * Names and branding are snapshotted at issue time so the certificate
+ * still verifies if the course or profile is edited later.
+ */
+export interface Certificate {
+  id: string; // Verification ID, e.g. CERT-7KQX-M2PA-9D4T
+  user_id: string;
+  course_id: string;
+  student_name: string;
+  course_title: string;
+  trainer_name: string;
+  completed_at: string; // ISO timestamp from UserCourseProgress
+  issued_at: string; // ISO timestamp
+  college_id?: string; // Partner college branding, when the student belongs to one
+  college_name?: string;
+  college_logo?: string;
+  university_name?: string;
+}
@@ -1,3 +1,54 @@
+export type QuizQuestionType = 'mcq' | 'multi_select' | 'true_false' | 'numeric';
+
+// A question as students see it; its answer is kept in the quiz's QuizAnswerKey
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options?: string[]; // Choices for mcq / multi_select / true_false
+}
+
+export interface QuizQuestionKey {
+  correctOptions?: number[]; // Indexes into options (exactly one for mcq and true_false)
+  correctNumber?: number; // Expected answer for numeric questions
+  tolerance?: number; // Accepted +/- range for numeric questions
+  explanation?: string; // Shown after submitting
+}
+
+// A question together with its answer, as tutors write it
+export type AuthoredQuizQuestion = QuizQuestion & QuizQuestionKey;
+
+export interface Quiz {
+  title?: string;
+  passingScore: number; // Percentage (0-100) required to pass
+  questions: QuizQuestion[];
+}
+
+export interface AuthoredQuiz extends Omit<Quiz, 'questions'> {
+  questions: AuthoredQuizQuestion[];
+}
+
+// Answers to a topic's quiz, stored at courses/{courseId}/quiz_keys/{topicId} where only the
+// course's tutor and admins can read them; the submitQuizAttempt function grades against it
+export interface QuizAnswerKey {
+  questions: Record<string, QuizQuestionKey>; // By question ID
+  updatedAt: string;
+}
+
+export interface CaptionTrack {
+  language: string; // BCP 47 code, e.g. 'en', 'hi'
+  label: string; // Shown in the player, e.g. 'English'
+  url: string; // WebVTT file stored next to the HLS output
+}
+
+// Optional grouping of topics (e.g. a module or week); topics reference it by sectionId
+export interface CourseSection {
+  id: string;
+  title: string;
+  description?: string;
+  orderIndex: number;
+}
+
 export interface Topic {
   id: string;
   title: string;
@@ -10,8 +61,16 @@ export interface Topic {
   videoProcessingStatus?: 'PROCESSING' | 'COMPLETE' | 'FAILED';
   videoUploadedAt?: string; // ISO timestamp
   videoProcessedAt?: string; // ISO timestamp when processing completed
+  captions?: CaptionTrack[]; // Subtitle tracks (WebVTT)
+  sectionId?: string; // CourseSection this topic belongs to
+  quiz?: Quiz; // Assessment taken after the video; must be passed for the topic to count as completed
 }
 
+// draft → in_review → published → archived; a rejected review returns the course to draft
+export type CourseStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+export type DurationBucket = 'under_5h' | '5_10h' | '10_20h' | 'over_20h';
+
 export interface Course {
   id: string;
   title: string;
@@ -23,24 +82,68 @@ export interface Course {
   trainerId: string;
   createdAt: string;
   updatedAt?: string; // Last updated timestamp
-  topics: Topic[];
+  topics: Topic[]; // Ordered section by section when sections are used
+  sections?: CourseSection[];
   thumbnail?: string; // Course thumbnail image URL
   category?: string; // Course category (e.g., "Development", "Business", "Design")
   language?: string; // Course language (e.g., "English", "Arabic")
-  rating?: number; // Average rating (0-5)
+  rating?: number; // Average rating (0-5), kept in step with ratingSum / ratingCount
   ratingCount?: number; // Number of ratings
-  enrollmentCount?: number; // Number of enrollments (calculated dynamically)
+  ratingSum?: number; // Sum of all ratings, so the average can be updated without rereading them
+  enrollmentCount?: number; // Number of enrollments, kept by the onEnrollmentCreated / onEnrollmentDeleted functions
+  branchEnrollmentCounts?: Record<string, number>; // Enrollments per student branch ID, for peer recommendations
+  durationBucket?: DurationBucket; // Derived from totalDuration so the catalog can filter on it
   trainerCredentials?: string; // Trainer credentials/bio
   university_ids?: string[]; // Array of university IDs
   branch_ids?: string[]; // Array of branch IDs
   year?: string; // Academic year: '1', '2', '3', or '4'
+  status?: CourseStatus; // Missing on courses created before review existed; treated as published
+  submittedAt?: string; // Last submitted for review
+  reviewedAt?: string;
+  reviewedBy?: string; // Admin uid
+  reviewComment?: string; // Reason given when a review is rejected
+  publishedAt?: string;
+  sequential?: boolean; // Each topic unlocks once the previous one is completed
+  prerequisiteCourseIds?: string[]; // Courses a student must complete before enrolling
+}
+
+// Editable course content captured before each update
+export type CourseSnapshot = Pick<
+  Course,
+  | 'title'
+  | 'description'
+  | 'thumbnail'
+  | 'category'
+  | 'language'
+  | 'trainerCredentials'
+  | 'outcomes'
+  | 'university_ids'
+  | 'branch_ids'
+  | 'year'
+  | 'sections'
+  | 'sequential'
+  | 'prerequisiteCourseIds'
+  | 'topics'
+  | 'totalDuration'
+  | 'totalTopics'
+>;
+
+export interface CourseVersion {
+  id: string;
+  snapshot: CourseSnapshot; // The course as it was before the edit
+  answerKeys?: Record<string, QuizAnswerKey>; // Its quiz answer keys, by topic ID (versions saved before keys were kept have none)
+  authorId: string; // Who made the edit that replaced this version
+  authorName: string;
+  createdAt: string;
+  restoredFrom?: string; // Version ID, when the edit was a restore
 }
 
 export interface CourseFormData {
   title: string;
   description: string;
   outcomes: string[];
-  topics: Array<Omit<Topic, 'id'> & { id?: string }>; // Allow optional id for editing
+  topics: Array<Omit<Topic, 'id' | 'quiz'> & { id?: string; quiz?: AuthoredQuiz }>; // Allow optional id for editing
+  sections?: CourseSection[];
   thumbnail?: string;
   category?: string;
   language?: string;
@@ -48,5 +151,58 @@ export interface CourseFormData {
   university_ids?: string[]; // Array of university IDs
   branch_ids?: string[]; // Array of branch IDs
   year?: string; // Academic year: '1', '2', '3', or '4'
+  sequential?: boolean;
+  prerequisiteCourseIds?: string[];
+}
+
+
+export interface CoursePage {
+  courses: Course[];
+  nextCursor: string | null; // Pass back to fetch the following page; null on the last page
+  highlights?: Record<string, CourseHighlight>; // By course ID, when the page came from a text search
+}
+
+export type CourseOutcome = 'Placement' | 'Internship' | 'Certification';
+
+export type CourseSort = 'relevance' | 'newest' | 'rating' | 'popularity'; // relevance needs a query, else newest
+
+export interface CourseSearchFilters {
+  universityId?: string;
+  branchId?: string;
+  year?: string;
+  category?: string;
+  language?: string;
+  durationBucket?: DurationBucket;
+  minRating?: number; // 0-5
+  outcome?: CourseOutcome; // Read from the course's learning outcomes (see getCourseOutcome)
+}
+
+export interface CourseSearchOptions {
+  query?: string; // Matched against title, tutor, outcomes and category
+  scope?: CatalogScope | null; // The student's catalog (useCatalogScope); unset searches everything
+  filters?: CourseSearchFilters;
+  sort?: CourseSort; // Defaults to 'relevance'
+  cursor?: string | null;
+  pageSize?: number;
 }
 
+/**
+ * The part of the catalog a student may see: their university, branch and year (see buildCatalogScope)
+ */
+export interface CatalogScope {
+  universityId: string; // Courses must be offered to this university
+  branchIds?: string[]; // Branch-specific courses must be for one of these
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean; // Part of a search match
+}
+
+export interface CourseHighlight {
+  title: HighlightSegment[];
+  snippet: {
+    label: string; // Where the match was found, e.g. 'Topic' or 'Description'
+    segments: HighlightSegment[];
+  } | null; // Null when only the title matched
+}
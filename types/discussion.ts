@@ -0,0 +1,34 @@
+// Q&A thread started by a student on a course topic
+export interface CourseQuestion {
+  id: string;
+  course_id: string;
+  topic_id: string;
+  trainer_id: string; // Course trainer, for the tutor's inbox
+  user_id: string;
+  user_name: string;
+  body: string;
+  timestamp_seconds: number | null; // Video position the question is pinned to
+  upvoted_by: string[]; // User IDs
+  upvote_count: number;
+  answer_count: number;
+  is_answered: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface QuestionAnswer {
+  id: string;
+  question_id: string;
+  user_id: string;
+  user_name: string;
+  user_role: 'student' | 'tutor' | 'admin';
+  body: string;
+  createdAt: string;
+}
+
+export interface QuestionFormData {
+  course_id: string;
+  topic_id: string;
+  body: string;
+  timestamp_seconds?: number | null;
+}
@@ -0,0 +1,25 @@
+import { ProgressUpdatePayload } from '@/types/progress';
+
+export type DownloadStatus = 'downloading' | 'completed' | 'failed';
+
+// A lesson video saved to device storage for offline playback
+export interface LessonDownload {
+  course_id: string;
+  topic_id: string;
+  course_title: string;
+  topic_title: string;
+  status: DownloadStatus;
+  progress: number; // 0-1
+  quality?: string; // Rendition label, e.g. '720p'
+  local_uri?: string; // Playlist (or MP4) on device, set once completed
+  size_bytes?: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Progress recorded while offline, replayed through updateLectureProgress later
+export interface QueuedProgressUpdate extends ProgressUpdatePayload {
+  user_id: string;
+  queued_at: string;
+}
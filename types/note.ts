@@ -0,0 +1,18 @@
+// Private note a student takes while watching a lecture
+export interface LectureNote {
+  id: string;
+  user_id: string;
+  course_id: string;
+  topic_id: string;
+  body: string;
+  position_millis: number; // Video position the note was taken at
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface LectureNoteFormData {
+  course_id: string;
+  topic_id: string;
+  body: string;
+  position_millis: number;
+}
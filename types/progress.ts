@@ -40,6 +40,40 @@ export interface UserLectureProgress {
   last_watched_at: string; // ISO timestamp
 }
 
+/**
+ * LearnerActivity - ONE per user per day they watch a lecture
+ * Counted for daily / weekly active learners (lecture progress only keeps the latest watch)
+ */
+export interface LearnerActivity {
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  last_active_at: string; // ISO timestamp
+}
+
+/**
+ * Quiz answer - selected option indexes for choice questions,
+ * a number for numeric questions, or null if left blank
+ */
+export type QuizAnswer = number[] | number | null;
+
+/**
+ * UserQuizAttempt - ONE per submission
+ * A topic with a quiz only counts as completed once an attempt has passed
+ */
+export interface UserQuizAttempt {
+  id?: string;
+  user_id: string;
+  course_id: string;
+  topic_id: string;
+  answers: Record<string, QuizAnswer>; // keyed by question id
+  correct_count: number;
+  total_questions: number;
+  score: number; // 0-100
+  passing_score: number; // 0-100, copied from the quiz at submission time
+  passed: boolean;
+  submitted_at: string; // ISO timestamp
+}
+
 /**
  * Lecture Progress Response
  * Returned when fetching progress for a specific lecture
@@ -76,5 +110,6 @@ export interface ProgressUpdatePayload {
   lecture_id: string;
   watched_duration_seconds: number;
   is_completed: boolean;
+  watched_at?: string; // ISO timestamp, defaults to now (set when replaying progress queued offline)
 }
 